@@ -1,11 +1,13 @@
-import { IpcMain, BrowserWindow, shell, app, SafeStorage, net } from 'electron'
+import { IpcMain, BrowserWindow, shell, app, SafeStorage, net, ClientRequest } from 'electron'
 import Store from 'electron-store'
+import { StringDecoder } from 'string_decoder'
 import { GoogleAuthService } from '../services/google-auth'
 import { GoogleDriveService } from '../services/google-drive'
 import { ServerAuthService } from '../services/server-auth'
 import { ServerSyncService } from '../services/server-sync'
 import { ServerAdminService } from '../services/server-admin'
 import { DatabaseService } from '../services/database'
+import { AIFixtureService } from '../services/ai-fixtures'
 
 interface Services {
   mainWindow: () => BrowserWindow | null
@@ -15,11 +17,12 @@ interface Services {
   serverSync?: ServerSyncService
   serverAdmin?: ServerAdminService
   database: DatabaseService
+  aiFixtures: AIFixtureService
   safeStorage: SafeStorage
 }
 
 export function setupIpcHandlers(ipcMain: IpcMain, services: Services) {
-  const { mainWindow, googleAuth, googleDrive, serverAuth, serverSync, serverAdmin, database } = services
+  const { mainWindow, googleAuth, googleDrive, serverAuth, serverSync, serverAdmin, database, aiFixtures } = services
 
   // 设置存储（与 google-auth 使用相同的 store）
   const settingsStore = new Store({
@@ -237,6 +240,160 @@ export function setupIpcHandlers(ipcMain: IpcMain, services: Services) {
     database.deleteCharacter(id)
   })
 
+  // AI 用量
+  ipcMain.handle('db:recordUsage', (_, record) => {
+    database.recordUsage(record)
+  })
+
+  ipcMain.handle('db:getUsageStats', (_, options) => {
+    return database.getUsageStats(options)
+  })
+
+  ipcMain.handle('db:clearUsage', () => {
+    database.clearUsage()
+  })
+
+  // AI 调用记录
+  ipcMain.handle('db:addAICallLog', (_, log, retention: number) => {
+    database.addAICallLog(log, retention)
+  })
+
+  ipcMain.handle('db:getAICallLogs', (_, query) => {
+    return database.getAICallLogs(query)
+  })
+
+  ipcMain.handle('db:getAICallLog', (_, id: string) => {
+    return database.getAICallLog(id)
+  })
+
+  ipcMain.handle('db:deleteAICallLog', (_, id: string) => {
+    database.deleteAICallLog(id)
+  })
+
+  ipcMain.handle('db:clearAICallLogs', () => {
+    database.clearAICallLogs()
+  })
+
+  // AI 响应缓存
+  ipcMain.handle('db:getCachedResponse', (_, cacheKey: string) => {
+    return database.getCachedResponse(cacheKey)
+  })
+
+  ipcMain.handle('db:putCachedResponse', (_, entry, maxBytes: number) => {
+    database.putCachedResponse(entry, maxBytes)
+  })
+
+  ipcMain.handle('db:getResponseCacheStats', (_, projectId?: string | null) => {
+    return database.getResponseCacheStats(projectId)
+  })
+
+  ipcMain.handle('db:clearResponseCache', (_, projectId?: string | null) => {
+    database.clearResponseCache(projectId)
+  })
+
+  // 提示词模板
+  ipcMain.handle('db:getPromptTemplates', (_, templateKey) => {
+    return database.getPromptTemplates(templateKey)
+  })
+
+  ipcMain.handle('db:createPromptTemplate', (_, template) => {
+    return database.createPromptTemplate(template)
+  })
+
+  ipcMain.handle('db:updatePromptTemplate', (_, id, data) => {
+    return database.updatePromptTemplate(id, data)
+  })
+
+  ipcMain.handle('db:deletePromptTemplate', (_, id) => {
+    database.deletePromptTemplate(id)
+  })
+
+  ipcMain.handle('db:getPromptTemplateVersions', (_, templateId) => {
+    return database.getPromptTemplateVersions(templateId)
+  })
+
+  ipcMain.handle('db:rollbackPromptTemplate', (_, templateId, version) => {
+    return database.rollbackPromptTemplate(templateId, version)
+  })
+
+  // 章节检索索引
+  ipcMain.handle('db:getChapterChunks', (_, projectId) => {
+    return database.getChapterChunks(projectId)
+  })
+
+  ipcMain.handle('db:replaceChapterChunks', (_, projectId, chapterId, chunks) => {
+    database.replaceChapterChunks(projectId, chapterId, chunks)
+  })
+
+  // 分层记忆
+  ipcMain.handle('db:getProjectMemory', (_, projectId) => {
+    return database.getProjectMemory(projectId)
+  })
+
+  ipcMain.handle('db:saveProjectMemory', (_, projectId, memory) => {
+    database.saveProjectMemory(projectId, memory)
+  })
+
+  // Codex
+  ipcMain.handle('db:getCodexEntities', (_, projectId) => {
+    return database.getCodexEntities(projectId)
+  })
+
+  ipcMain.handle('db:saveCodexEntities', (_, projectId, entities) => {
+    database.saveCodexEntities(projectId, entities)
+  })
+
+  ipcMain.handle('db:deleteCodexEntities', (_, ids) => {
+    database.deleteCodexEntities(ids)
+  })
+
+  ipcMain.handle('db:getCodexIndexedChapters', (_, projectId) => {
+    return database.getCodexIndexedChapters(projectId)
+  })
+
+  ipcMain.handle('db:markCodexChapterIndexed', (_, projectId, chapterId, contentHash) => {
+    database.markCodexChapterIndexed(projectId, chapterId, contentHash)
+  })
+
+  // 伏笔
+  ipcMain.handle('db:getPlotThreads', (_, projectId) => {
+    return database.getPlotThreads(projectId)
+  })
+
+  ipcMain.handle('db:savePlotThreads', (_, projectId, threads) => {
+    database.savePlotThreads(projectId, threads)
+  })
+
+  ipcMain.handle('db:deletePlotThreads', (_, ids) => {
+    database.deletePlotThreads(ids)
+  })
+
+  ipcMain.handle('db:getPlotIndexedChapters', (_, projectId) => {
+    return database.getPlotIndexedChapters(projectId)
+  })
+
+  ipcMain.handle('db:markPlotChapterIndexed', (_, projectId, chapterId, contentHash) => {
+    database.markPlotChapterIndexed(projectId, chapterId, contentHash)
+  })
+
+  // 章节情感
+  ipcMain.handle('db:getChapterEmotions', (_, projectId) => {
+    return database.getChapterEmotions(projectId)
+  })
+
+  ipcMain.handle('db:saveChapterEmotion', (_, projectId, record) => {
+    database.saveChapterEmotion(projectId, record)
+  })
+
+  // 章节一致性报告
+  ipcMain.handle('db:getConsistencyReport', (_, chapterId) => {
+    return database.getConsistencyReport(chapterId)
+  })
+
+  ipcMain.handle('db:saveConsistencyReport', (_, projectId, record) => {
+    database.saveConsistencyReport(projectId, record)
+  })
+
   // ==================== 设置（使用 electron-store） ====================
 
   ipcMain.handle('settings:get', (_, key) => {
@@ -299,20 +456,61 @@ export function setupIpcHandlers(ipcMain: IpcMain, services: Services) {
 
   // ==================== AI API 请求（通过主进程代理） ====================
 
+  // 进行中的 AI 请求（按渲染进程传入的 requestId 索引，用于取消）
+  const activeAIRequests = new Map<string, ClientRequest>()
+  // 请求发起前就收到的取消（渲染进程的取消可能先于请求到达），保留一分钟
+  const pendingAIAborts = new Set<string>()
+
+  // 网络错误转为用户可读的提示
+  const describeNetError = (error: Error): string => {
+    if (error.message.includes('ECONNREFUSED')) return '连接被拒绝'
+    if (error.message.includes('ENOTFOUND')) return '无法解析服务器地址'
+    if (error.message.includes('ETIMEDOUT')) return '连接超时'
+    return error.message || '网络请求失败'
+  }
+
+  // 解析 Retry-After / retry-after-ms 响应头，返回需要等待的毫秒数
+  const parseRetryAfter = (headers: Record<string, string | string[]>): number | undefined => {
+    const ms = Number([headers['retry-after-ms']].flat()[0])
+    if (Number.isFinite(ms) && ms >= 0) return ms
+    const value = [headers['retry-after']].flat()[0]
+    if (!value) return undefined
+    const seconds = Number(value)
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+    const date = Date.parse(value)
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+  }
+
   ipcMain.handle('ai:fetch', async (_, url: string, options: {
     method: string
     headers: Record<string, string>
     body?: string
+    requestId?: string
+    timeout?: number
+    responseType?: 'json' | 'dataUrl'
   }) => {
     return new Promise((resolve) => {
       try {
         console.log(`[AI Fetch] 请求: ${options.method} ${url}`)
+        const timeout = options.timeout || 60000
 
         const request = net.request({
           method: options.method,
           url: url
         })
 
+        const requestId = options.requestId
+        if (requestId && pendingAIAborts.delete(requestId)) {
+          resolve({ ok: false, status: 0, data: null, error: '请求已取消', aborted: true })
+          return
+        }
+        if (requestId) {
+          activeAIRequests.set(requestId, request)
+        }
+        const release = () => {
+          if (requestId) activeAIRequests.delete(requestId)
+        }
+
         // 设置请求头
         if (options.headers) {
           Object.entries(options.headers).forEach(([key, value]) => {
@@ -320,29 +518,44 @@ export function setupIpcHandlers(ipcMain: IpcMain, services: Services) {
           })
         }
 
-        let responseData = ''
+        const chunks: Buffer[] = []
 
-        // 设置超时（60秒）
+        // 设置超时（默认 60 秒）
         const timeoutId = setTimeout(() => {
+          release()
           request.abort()
           resolve({
             ok: false,
             status: 0,
             data: null,
-            error: '请求超时（60秒）'
+            error: `请求超时（${Math.round(timeout / 1000)}秒）`
           })
-        }, 60000)
+        }, timeout)
 
         request.on('response', (response) => {
           console.log(`[AI Fetch] 响应状态: ${response.statusCode}`)
 
           response.on('data', (chunk) => {
-            responseData += chunk.toString()
+            chunks.push(chunk)
           })
 
           response.on('end', () => {
             clearTimeout(timeoutId)
+            release()
+
+            const body = Buffer.concat(chunks)
+            const ok = response.statusCode >= 200 && response.statusCode < 300
+            if (options.responseType === 'dataUrl' && ok) {
+              const contentType = [response.headers['content-type']].flat()[0] || 'application/octet-stream'
+              resolve({
+                ok,
+                status: response.statusCode,
+                data: `data:${contentType.split(';')[0]};base64,${body.toString('base64')}`
+              })
+              return
+            }
 
+            const responseData = body.toString('utf-8')
             let data: any = responseData
             try {
               data = JSON.parse(responseData)
@@ -351,31 +564,38 @@ export function setupIpcHandlers(ipcMain: IpcMain, services: Services) {
             }
 
             resolve({
-              ok: response.statusCode >= 200 && response.statusCode < 300,
+              ok,
               status: response.statusCode,
-              data
+              data,
+              ...(ok ? {} : { retryAfter: parseRetryAfter(response.headers) })
             })
           })
         })
 
+        // 被渲染进程取消
+        request.on('abort', () => {
+          clearTimeout(timeoutId)
+          release()
+          console.log(`[AI Fetch] 请求已取消: ${url}`)
+          resolve({
+            ok: false,
+            status: 0,
+            data: null,
+            error: '请求已取消',
+            aborted: true
+          })
+        })
+
         request.on('error', (error: Error) => {
           clearTimeout(timeoutId)
+          release()
           console.error(`[AI Fetch] 请求错误:`, error)
 
-          let errorMessage = error.message || '网络请求失败'
-          if (error.message.includes('ECONNREFUSED')) {
-            errorMessage = '连接被拒绝'
-          } else if (error.message.includes('ENOTFOUND')) {
-            errorMessage = '无法解析服务器地址'
-          } else if (error.message.includes('ETIMEDOUT')) {
-            errorMessage = '连接超时'
-          }
-
           resolve({
             ok: false,
             status: 0,
             data: null,
-            error: errorMessage
+            error: describeNetError(error)
           })
         })
 
@@ -397,6 +617,139 @@ export function setupIpcHandlers(ipcMain: IpcMain, services: Services) {
     })
   })
 
+  // 流式 AI 请求：响应分块通过 ai:streamEvent 事件推送给发起请求的渲染进程
+  // 与 ai:fetch 使用同一代理和取消机制（ai:abort 传入 streamId），超时按空闲时间计算
+  ipcMain.handle('ai:stream', (event, streamId: string, url: string, options: {
+    method: string
+    headers: Record<string, string>
+    body?: string
+  }) => {
+    const sender = event.sender
+    const send = (payload: Record<string, unknown>) => {
+      if (!sender.isDestroyed()) {
+        sender.send('ai:streamEvent', streamId, payload)
+      }
+    }
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
+    let finished = false
+    const finish = (payload: Record<string, unknown>) => {
+      if (finished) return
+      finished = true
+      clearTimeout(timeoutId)
+      activeAIRequests.delete(streamId)
+      send(payload)
+    }
+
+    if (pendingAIAborts.delete(streamId)) {
+      finish({ type: 'error', error: '请求已取消', aborted: true })
+      return
+    }
+
+    try {
+      console.log(`[AI Stream] 请求: ${options.method} ${url}`)
+
+      const request = net.request({
+        method: options.method,
+        url: url
+      })
+      activeAIRequests.set(streamId, request)
+
+      if (options.headers) {
+        Object.entries(options.headers).forEach(([key, value]) => {
+          request.setHeader(key, value)
+        })
+      }
+
+      // 60 秒内没有收到任何数据视为超时（生成长文时总耗时可能远超 60 秒）
+      const resetTimeout = () => {
+        clearTimeout(timeoutId)
+        timeoutId = setTimeout(() => {
+          finish({ type: 'error', error: '请求超时（60秒无响应）' })
+          request.abort()
+        }, 60000)
+      }
+      resetTimeout()
+
+      request.on('response', (response) => {
+        console.log(`[AI Stream] 响应状态: ${response.statusCode}`)
+        send({ type: 'response', status: response.statusCode, retryAfter: parseRetryAfter(response.headers) })
+
+        // 多字节字符可能被拆到两个分块中，使用流式解码
+        const decoder = new StringDecoder('utf8')
+        let received = 0
+
+        response.on('data', (chunk: Buffer) => {
+          resetTimeout()
+          received += chunk.length
+          const text = decoder.write(chunk)
+          if (text) send({ type: 'data', chunk: text })
+        })
+
+        response.on('end', () => {
+          const rest = decoder.end()
+          if (rest) send({ type: 'data', chunk: rest })
+          console.log(`[AI Stream] 完成，共接收 ${received} 字节`)
+          finish({ type: 'end' })
+        })
+      })
+
+      request.on('abort', () => {
+        console.log(`[AI Stream] 请求已取消: ${url}`)
+        finish({ type: 'error', error: '请求已取消', aborted: true })
+      })
+
+      request.on('error', (error: Error) => {
+        console.error(`[AI Stream] 请求错误:`, error)
+        finish({ type: 'error', error: describeNetError(error) })
+      })
+
+      if (options.body) {
+        request.write(options.body)
+      }
+
+      request.end()
+    } catch (error: any) {
+      console.error(`[AI Stream] 异常:`, error)
+      finish({ type: 'error', error: error.message || '请求失败' })
+    }
+  })
+
+  // 取消进行中的 AI 请求
+  ipcMain.handle('ai:abort', async (_, requestId: string) => {
+    const request = activeAIRequests.get(requestId)
+    if (!request) {
+      pendingAIAborts.add(requestId)
+      setTimeout(() => pendingAIAborts.delete(requestId), 60000)
+      return false
+    }
+    activeAIRequests.delete(requestId)
+    request.abort()
+    return true
+  })
+
+  // ==================== AI 录制集（离线模拟提供商） ====================
+
+  ipcMain.handle('aiFixtures:list', () => {
+    return aiFixtures.listSets()
+  })
+
+  ipcMain.handle('aiFixtures:load', (_, name: string) => {
+    return aiFixtures.loadSet(name)
+  })
+
+  ipcMain.handle('aiFixtures:append', (_, name: string, entry) => {
+    aiFixtures.appendEntry(name, entry)
+  })
+
+  ipcMain.handle('aiFixtures:delete', (_, name: string) => {
+    aiFixtures.deleteSet(name)
+  })
+
+  ipcMain.handle('aiFixtures:openFolder', async () => {
+    await shell.openPath(aiFixtures.getDirectory())
+  })
+
   // ==================== 服务端认证 ====================
 
   if (serverAuth) {
@@ -9,6 +9,7 @@ import { ServerAuthService } from './services/server-auth'
 import { ServerSyncService } from './services/server-sync'
 import { ServerAdminService } from './services/server-admin'
 import { DatabaseService } from './services/database'
+import { AIFixtureService } from './services/ai-fixtures'
 
 // 环境变量
 const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged
@@ -55,6 +56,7 @@ let serverAuth: ServerAuthService
 let serverSync: ServerSyncService
 let serverAdmin: ServerAdminService
 let database: DatabaseService
+let aiFixtures: AIFixtureService
 
 async function setupProxy() {
   try {
@@ -183,6 +185,9 @@ async function initServices() {
   // 初始化服务端管理员服务
   serverAdmin = new ServerAdminService(serverAuth)
 
+  // 初始化 AI 录制集服务
+  aiFixtures = new AIFixtureService()
+
   // 设置 IPC 处理程序
   setupIpcHandlers(ipcMain, {
     mainWindow: () => mainWindow,
@@ -192,6 +197,7 @@ async function initServices() {
     serverSync,
     serverAdmin,
     database,
+    aiFixtures,
     safeStorage
   })
 }
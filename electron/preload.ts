@@ -1,4 +1,4 @@
-import { contextBridge, ipcRenderer } from 'electron'
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron'
 
 // 类型定义
 export interface ElectronAPI {
@@ -93,6 +93,58 @@ export interface ElectronAPI {
     createCharacter: (character: any) => Promise<any>
     updateCharacter: (id: string, data: any) => Promise<any>
     deleteCharacter: (id: string) => Promise<void>
+
+    // AI 用量
+    recordUsage: (record: any) => Promise<void>
+    getUsageStats: (options?: { days?: number; projectId?: string }) => Promise<any>
+    clearUsage: () => Promise<void>
+    addAICallLog: (log: any, retention: number) => Promise<void>
+    getAICallLogs: (query?: any) => Promise<any[]>
+    getAICallLog: (id: string) => Promise<any>
+    deleteAICallLog: (id: string) => Promise<void>
+    clearAICallLogs: () => Promise<void>
+    getCachedResponse: (cacheKey: string) => Promise<string | null>
+    putCachedResponse: (entry: any, maxBytes: number) => Promise<void>
+    getResponseCacheStats: (projectId?: string | null) => Promise<{ entries: number; bytes: number; hits: number }>
+    clearResponseCache: (projectId?: string | null) => Promise<void>
+
+    // 提示词模板
+    getPromptTemplates: (templateKey?: string) => Promise<any[]>
+    createPromptTemplate: (template: any) => Promise<any>
+    updatePromptTemplate: (id: string, data: any) => Promise<any>
+    deletePromptTemplate: (id: string) => Promise<void>
+    getPromptTemplateVersions: (templateId: string) => Promise<any[]>
+    rollbackPromptTemplate: (templateId: string, version: number) => Promise<any>
+
+    // 章节检索索引
+    getChapterChunks: (projectId: string) => Promise<any[]>
+    replaceChapterChunks: (projectId: string, chapterId: string, chunks: any[]) => Promise<void>
+
+    // 分层记忆
+    getProjectMemory: (projectId: string) => Promise<any | null>
+    saveProjectMemory: (projectId: string, memory: any) => Promise<void>
+
+    // Codex
+    getCodexEntities: (projectId: string) => Promise<any[]>
+    saveCodexEntities: (projectId: string, entities: any[]) => Promise<void>
+    deleteCodexEntities: (ids: string[]) => Promise<void>
+    getCodexIndexedChapters: (projectId: string) => Promise<Array<{ chapterId: string; contentHash: string }>>
+    markCodexChapterIndexed: (projectId: string, chapterId: string, contentHash: string) => Promise<void>
+
+    // 伏笔
+    getPlotThreads: (projectId: string) => Promise<any[]>
+    savePlotThreads: (projectId: string, threads: any[]) => Promise<void>
+    deletePlotThreads: (ids: string[]) => Promise<void>
+    getPlotIndexedChapters: (projectId: string) => Promise<Array<{ chapterId: string; contentHash: string }>>
+    markPlotChapterIndexed: (projectId: string, chapterId: string, contentHash: string) => Promise<void>
+
+    // 章节情感
+    getChapterEmotions: (projectId: string) => Promise<any[]>
+    saveChapterEmotion: (projectId: string, record: any) => Promise<void>
+
+    // 章节一致性报告
+    getConsistencyReport: (chapterId: string) => Promise<any | null>
+    saveConsistencyReport: (projectId: string, record: any) => Promise<void>
   }
 
   // 设置
@@ -114,7 +166,26 @@ export interface ElectronAPI {
       method: string
       headers: Record<string, string>
       body?: string
-    }) => Promise<{ ok: boolean; status: number; data: any; error?: string }>
+      requestId?: string
+      timeout?: number              // 超时毫秒数，默认 60 秒
+      responseType?: 'json' | 'dataUrl'  // dataUrl：响应体按二进制读取，返回 data URL（用于下载图片）
+    }) => Promise<{ ok: boolean; status: number; data: any; error?: string; aborted?: boolean; retryAfter?: number }>
+    abort: (requestId: string) => Promise<boolean>
+    stream: (streamId: string, url: string, options: {
+      method: string
+      headers: Record<string, string>
+      body?: string
+    }) => Promise<void>
+    onStreamEvent: (callback: (streamId: string, event: any) => void) => () => void
+  }
+
+  // AI 录制集（离线模拟提供商）
+  aiFixtures: {
+    list: () => Promise<any[]>
+    load: (name: string) => Promise<any[]>
+    append: (name: string, entry: any) => Promise<void>
+    delete: (name: string) => Promise<void>
+    openFolder: () => Promise<void>
   }
 
   // 数据恢复
@@ -207,7 +278,50 @@ const electronAPI: ElectronAPI = {
     getCharacter: (id) => ipcRenderer.invoke('db:getCharacter', id),
     createCharacter: (character) => ipcRenderer.invoke('db:createCharacter', character),
     updateCharacter: (id, data) => ipcRenderer.invoke('db:updateCharacter', id, data),
-    deleteCharacter: (id) => ipcRenderer.invoke('db:deleteCharacter', id)
+    deleteCharacter: (id) => ipcRenderer.invoke('db:deleteCharacter', id),
+
+    recordUsage: (record) => ipcRenderer.invoke('db:recordUsage', record),
+    getUsageStats: (options) => ipcRenderer.invoke('db:getUsageStats', options),
+    clearUsage: () => ipcRenderer.invoke('db:clearUsage'),
+    addAICallLog: (log, retention) => ipcRenderer.invoke('db:addAICallLog', log, retention),
+    getAICallLogs: (query) => ipcRenderer.invoke('db:getAICallLogs', query),
+    getAICallLog: (id) => ipcRenderer.invoke('db:getAICallLog', id),
+    deleteAICallLog: (id) => ipcRenderer.invoke('db:deleteAICallLog', id),
+    clearAICallLogs: () => ipcRenderer.invoke('db:clearAICallLogs'),
+    getCachedResponse: (cacheKey) => ipcRenderer.invoke('db:getCachedResponse', cacheKey),
+    putCachedResponse: (entry, maxBytes) => ipcRenderer.invoke('db:putCachedResponse', entry, maxBytes),
+    getResponseCacheStats: (projectId) => ipcRenderer.invoke('db:getResponseCacheStats', projectId),
+    clearResponseCache: (projectId) => ipcRenderer.invoke('db:clearResponseCache', projectId),
+
+    getPromptTemplates: (templateKey) => ipcRenderer.invoke('db:getPromptTemplates', templateKey),
+    createPromptTemplate: (template) => ipcRenderer.invoke('db:createPromptTemplate', template),
+    updatePromptTemplate: (id, data) => ipcRenderer.invoke('db:updatePromptTemplate', id, data),
+    deletePromptTemplate: (id) => ipcRenderer.invoke('db:deletePromptTemplate', id),
+    getPromptTemplateVersions: (templateId) => ipcRenderer.invoke('db:getPromptTemplateVersions', templateId),
+    rollbackPromptTemplate: (templateId, version) => ipcRenderer.invoke('db:rollbackPromptTemplate', templateId, version),
+
+    getChapterChunks: (projectId) => ipcRenderer.invoke('db:getChapterChunks', projectId),
+    replaceChapterChunks: (projectId, chapterId, chunks) => ipcRenderer.invoke('db:replaceChapterChunks', projectId, chapterId, chunks),
+
+    getProjectMemory: (projectId) => ipcRenderer.invoke('db:getProjectMemory', projectId),
+    saveProjectMemory: (projectId, memory) => ipcRenderer.invoke('db:saveProjectMemory', projectId, memory),
+
+    getCodexEntities: (projectId) => ipcRenderer.invoke('db:getCodexEntities', projectId),
+    saveCodexEntities: (projectId, entities) => ipcRenderer.invoke('db:saveCodexEntities', projectId, entities),
+    deleteCodexEntities: (ids) => ipcRenderer.invoke('db:deleteCodexEntities', ids),
+    getCodexIndexedChapters: (projectId) => ipcRenderer.invoke('db:getCodexIndexedChapters', projectId),
+    markCodexChapterIndexed: (projectId, chapterId, contentHash) => ipcRenderer.invoke('db:markCodexChapterIndexed', projectId, chapterId, contentHash),
+
+    getPlotThreads: (projectId) => ipcRenderer.invoke('db:getPlotThreads', projectId),
+    savePlotThreads: (projectId, threads) => ipcRenderer.invoke('db:savePlotThreads', projectId, threads),
+    deletePlotThreads: (ids) => ipcRenderer.invoke('db:deletePlotThreads', ids),
+    getPlotIndexedChapters: (projectId) => ipcRenderer.invoke('db:getPlotIndexedChapters', projectId),
+    markPlotChapterIndexed: (projectId, chapterId, contentHash) => ipcRenderer.invoke('db:markPlotChapterIndexed', projectId, chapterId, contentHash),
+
+    getChapterEmotions: (projectId) => ipcRenderer.invoke('db:getChapterEmotions', projectId),
+    saveChapterEmotion: (projectId, record) => ipcRenderer.invoke('db:saveChapterEmotion', projectId, record),
+    getConsistencyReport: (chapterId) => ipcRenderer.invoke('db:getConsistencyReport', chapterId),
+    saveConsistencyReport: (projectId, record) => ipcRenderer.invoke('db:saveConsistencyReport', projectId, record)
   },
 
   settings: {
@@ -222,7 +336,24 @@ const electronAPI: ElectronAPI = {
   },
 
   ai: {
-    fetch: (url, options) => ipcRenderer.invoke('ai:fetch', url, options)
+    fetch: (url, options) => ipcRenderer.invoke('ai:fetch', url, options),
+    abort: (requestId) => ipcRenderer.invoke('ai:abort', requestId),
+    stream: (streamId, url, options) => ipcRenderer.invoke('ai:stream', streamId, url, options),
+    onStreamEvent: (callback) => {
+      const listener = (_: IpcRendererEvent, streamId: string, event: any) => callback(streamId, event)
+      ipcRenderer.on('ai:streamEvent', listener)
+      return () => {
+        ipcRenderer.removeListener('ai:streamEvent', listener)
+      }
+    }
+  },
+
+  aiFixtures: {
+    list: () => ipcRenderer.invoke('aiFixtures:list'),
+    load: (name) => ipcRenderer.invoke('aiFixtures:load', name),
+    append: (name, entry) => ipcRenderer.invoke('aiFixtures:append', name, entry),
+    delete: (name) => ipcRenderer.invoke('aiFixtures:delete', name),
+    openFolder: () => ipcRenderer.invoke('aiFixtures:openFolder')
   },
 
   recovery: {
@@ -0,0 +1,116 @@
+import { app } from 'electron'
+import path from 'path'
+import fs from 'fs'
+
+/**
+ * 录制集中的一条记录（一次提示词 → 响应）
+ */
+export interface AIFixtureEntry {
+  hash: string        // 提示词的 SHA-256
+  prompt: string
+  response: string
+  provider: string    // 录制时实际调用的提供商
+  model: string
+  jsonMode: boolean
+  createdAt: string
+}
+
+export interface AIFixtureSetInfo {
+  name: string
+  entryCount: number
+  size: number
+  updatedAt: string
+}
+
+/**
+ * AI 录制集服务
+ * 离线模拟提供商的录制文件保存在 userData/ai-fixtures 下，每个录制集一个 JSONL 文件（每行一条记录）
+ * 使用 JSONL 便于追加写入，也方便直接编辑或提交到 issue 复现问题
+ */
+export class AIFixtureService {
+  private fixturesDir: string
+
+  constructor() {
+    this.fixturesDir = path.join(app.getPath('userData'), 'ai-fixtures')
+  }
+
+  /**
+   * 获取录制集目录（不存在时创建）
+   */
+  getDirectory(): string {
+    if (!fs.existsSync(this.fixturesDir)) {
+      fs.mkdirSync(this.fixturesDir, { recursive: true })
+    }
+    return this.fixturesDir
+  }
+
+  /**
+   * 列出所有录制集
+   */
+  listSets(): AIFixtureSetInfo[] {
+    const dir = this.getDirectory()
+    return fs.readdirSync(dir)
+      .filter(file => file.endsWith('.jsonl'))
+      .map(file => {
+        const filePath = path.join(dir, file)
+        const stat = fs.statSync(filePath)
+        return {
+          name: file.slice(0, -'.jsonl'.length),
+          entryCount: this.readEntries(filePath).length,
+          size: stat.size,
+          updatedAt: stat.mtime.toISOString()
+        }
+      })
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  }
+
+  /**
+   * 读取录制集的全部记录（按录制顺序），不存在时返回空数组
+   */
+  loadSet(name: string): AIFixtureEntry[] {
+    return this.readEntries(this.getFilePath(name))
+  }
+
+  /**
+   * 向录制集追加一条记录，录制集不存在时自动创建
+   */
+  appendEntry(name: string, entry: AIFixtureEntry): void {
+    fs.appendFileSync(this.getFilePath(name), JSON.stringify(entry) + '\n', 'utf-8')
+  }
+
+  /**
+   * 删除录制集
+   */
+  deleteSet(name: string): void {
+    const filePath = this.getFilePath(name)
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath)
+    }
+  }
+
+  private getFilePath(name: string): string {
+    // 录制集名称来自用户输入，去掉路径分隔符等非法字符，防止写到目录之外
+    const safeName = name.trim().replace(/[\\/:*?"<>|]/g, '_').replace(/^\.+/, '') || 'default'
+    return path.join(this.getDirectory(), `${safeName}.jsonl`)
+  }
+
+  private readEntries(filePath: string): AIFixtureEntry[] {
+    if (!fs.existsSync(filePath)) return []
+
+    const entries: AIFixtureEntry[] = []
+    const lines = fs.readFileSync(filePath, 'utf-8').split('\n')
+    lines.forEach((line, index) => {
+      if (!line.trim()) return
+      try {
+        const entry = JSON.parse(line)
+        if (typeof entry?.hash === 'string' && typeof entry?.prompt === 'string' && typeof entry?.response === 'string') {
+          entries.push(entry)
+        }
+      } catch {
+        // 手动编辑出错的行跳过，不影响其他记录
+        console.warn(`[AIFixtures] ${path.basename(filePath)} 第 ${index + 1} 行不是有效的 JSON，已跳过`)
+      }
+    })
+    return entries
+  }
+}
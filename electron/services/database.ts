@@ -90,6 +90,20 @@ export class DatabaseService {
       )
     `)
 
+    // 迁移：为旧表添加新字段
+    try {
+      this.db.exec(`ALTER TABLE projects ADD COLUMN prompt_templates TEXT DEFAULT '{}'`)
+    } catch { /* 字段已存在 */ }
+    try {
+      this.db.exec(`ALTER TABLE projects ADD COLUMN model_routes TEXT DEFAULT '{}'`)
+    } catch { /* 字段已存在 */ }
+    try {
+      this.db.exec(`ALTER TABLE projects ADD COLUMN generation_params TEXT DEFAULT '{}'`)
+    } catch { /* 字段已存在 */ }
+    try {
+      this.db.exec(`ALTER TABLE projects ADD COLUMN writing_context TEXT DEFAULT '{}'`)
+    } catch { /* 字段已存在 */ }
+
     // 卷表
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS volumes (
@@ -144,6 +158,11 @@ export class DatabaseService {
       this.db.exec(`ALTER TABLE chapters ADD COLUMN synced_at TEXT`)
     } catch { /* 字段已存在 */ }
 
+    // 迁移：为chapters表添加generated_by字段（记录AI生成该章使用的提供商/模型）
+    try {
+      this.db.exec(`ALTER TABLE chapters ADD COLUMN generated_by TEXT`)
+    } catch { /* 字段已存在 */ }
+
     // 角色表
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS characters (
@@ -192,8 +211,207 @@ export class DatabaseService {
       )
     `)
 
+    // AI 用量记录表（不设外键，删除项目后保留历史用量）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS usage_records (
+        id TEXT PRIMARY KEY,
+        project_id TEXT,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        task_type TEXT DEFAULT 'other',
+        prompt_tokens INTEGER DEFAULT 0,
+        completion_tokens INTEGER DEFAULT 0,
+        estimated_cost REAL DEFAULT 0,
+        is_estimated INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    // AI 调用记录表（调用检查器，按条数保留，不设外键）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ai_call_logs (
+        id TEXT PRIMARY KEY,
+        project_id TEXT,
+        task_type TEXT DEFAULT 'other',
+        mode TEXT DEFAULT 'text',
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        key_index INTEGER,
+        prompt TEXT,
+        response TEXT,
+        error TEXT,
+        latency_ms INTEGER DEFAULT 0,
+        attempt_count INTEGER DEFAULT 1,
+        attempts TEXT DEFAULT '[]',
+        is_fallback INTEGER DEFAULT 0,
+        redacted INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    // AI 响应缓存表（按提示词、模型和参数的哈希索引，超出容量时淘汰最久未用的条目）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ai_response_cache (
+        cache_key TEXT PRIMARY KEY,
+        project_id TEXT,
+        task_type TEXT DEFAULT 'other',
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        response TEXT NOT NULL,
+        size INTEGER DEFAULT 0,
+        hit_count INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        last_used_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    // 提示词模板表（由内置模板复制后修改）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS prompt_templates (
+        id TEXT PRIMARY KEY,
+        template_key TEXT NOT NULL,
+        name TEXT NOT NULL,
+        content TEXT NOT NULL,
+        version INTEGER DEFAULT 1,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    // 提示词模板历史版本表（用于回滚）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS prompt_template_versions (
+        id TEXT PRIMARY KEY,
+        template_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (template_id) REFERENCES prompt_templates(id) ON DELETE CASCADE
+      )
+    `)
+
+    // 章节检索片段表（写作时检索相关前文，向量以 Float32 存为 BLOB）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS chapter_chunks (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL,
+        chapter_id TEXT NOT NULL,
+        chunk_index INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        embedding BLOB,
+        embedding_model TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    // 作品分层记忆表（核心设定、世界状态、近期记忆，整体以 JSON 保存）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS project_memory (
+        project_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    // Codex 实体表（人物、地点、物品、势力、概念，别名/出场/属性/关系以 JSON 保存）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS codex_entities (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        aliases TEXT DEFAULT '[]',
+        description TEXT DEFAULT '',
+        first_appearance INTEGER DEFAULT 0,
+        appearances TEXT DEFAULT '[]',
+        attributes TEXT DEFAULT '[]',
+        relations TEXT DEFAULT '[]',
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    // Codex 已索引章节（按正文哈希跳过未修改的章节）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS codex_indexed_chapters (
+        chapter_id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        indexed_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    // 伏笔表（关联角色、暗示以 JSON 保存）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS plot_threads (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL,
+        description TEXT NOT NULL,
+        importance TEXT DEFAULT 'major',
+        status TEXT DEFAULT 'active',
+        planted_chapter INTEGER DEFAULT 0,
+        resolution_min INTEGER DEFAULT 0,
+        resolution_max INTEGER DEFAULT 0,
+        resolved_chapter INTEGER,
+        related_characters TEXT DEFAULT '[]',
+        hints TEXT DEFAULT '[]',
+        manual INTEGER DEFAULT 0,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    // 伏笔已检测章节（按正文哈希跳过未修改的章节）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS plot_indexed_chapters (
+        chapter_id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        indexed_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    // 章节情感数据（按章节保存，正文哈希用于跳过未修改的章节）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS chapter_emotions (
+        chapter_id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL,
+        emotion TEXT DEFAULT '',
+        intensity REAL DEFAULT 0,
+        tension REAL DEFAULT 0,
+        hope REAL DEFAULT 0,
+        content_hash TEXT NOT NULL,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    // 章节一致性报告（按章节保存，正文哈希用于跳过未修改的章节）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS chapter_consistency_reports (
+        chapter_id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL,
+        report TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
     // 创建索引
     this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_chapter_chunks_project ON chapter_chunks(project_id);
+      CREATE INDEX IF NOT EXISTS idx_chapter_chunks_chapter ON chapter_chunks(chapter_id);
+      CREATE INDEX IF NOT EXISTS idx_prompt_template_versions_template ON prompt_template_versions(template_id);
+      CREATE INDEX IF NOT EXISTS idx_usage_records_created ON usage_records(created_at);
+      CREATE INDEX IF NOT EXISTS idx_usage_records_project ON usage_records(project_id);
+      CREATE INDEX IF NOT EXISTS idx_ai_call_logs_created ON ai_call_logs(created_at);
+      CREATE INDEX IF NOT EXISTS idx_ai_call_logs_project ON ai_call_logs(project_id);
+      CREATE INDEX IF NOT EXISTS idx_ai_response_cache_project ON ai_response_cache(project_id);
+      CREATE INDEX IF NOT EXISTS idx_ai_response_cache_used ON ai_response_cache(last_used_at);
+      CREATE INDEX IF NOT EXISTS idx_codex_entities_project ON codex_entities(project_id);
+      CREATE INDEX IF NOT EXISTS idx_codex_indexed_chapters_project ON codex_indexed_chapters(project_id);
+      CREATE INDEX IF NOT EXISTS idx_plot_threads_project ON plot_threads(project_id);
+      CREATE INDEX IF NOT EXISTS idx_plot_indexed_chapters_project ON plot_indexed_chapters(project_id);
+      CREATE INDEX IF NOT EXISTS idx_chapter_emotions_project ON chapter_emotions(project_id);
+      CREATE INDEX IF NOT EXISTS idx_chapter_consistency_reports_project ON chapter_consistency_reports(project_id);
       CREATE INDEX IF NOT EXISTS idx_volumes_project ON volumes(project_id);
       CREATE INDEX IF NOT EXISTS idx_chapters_volume ON chapters(volume_id);
       CREATE INDEX IF NOT EXISTS idx_characters_project ON characters(project_id);
@@ -255,13 +473,17 @@ export class DatabaseService {
       genres: 'genres',
       styles: 'styles',
       worldSetting: 'world_setting',
-      summary: 'summary'
+      summary: 'summary',
+      promptTemplates: 'prompt_templates',
+      modelRoutes: 'model_routes',
+      generationParams: 'generation_params',
+      writingContext: 'writing_context'
     }
 
     for (const [key, column] of Object.entries(fieldMap)) {
       if (data[key] !== undefined) {
         updates.push(`${column} = ?`)
-        if (key === 'genres' || key === 'styles') {
+        if (key === 'genres' || key === 'styles' || key === 'promptTemplates' || key === 'modelRoutes' || key === 'generationParams' || key === 'writingContext') {
           values.push(JSON.stringify(data[key]))
         } else {
           values.push(data[key])
@@ -297,6 +519,15 @@ export class DatabaseService {
     // 删除项目
     const stmt = this.db!.prepare('DELETE FROM projects WHERE id = ?')
     stmt.run(id)
+    this.db!.prepare('DELETE FROM chapter_chunks WHERE project_id = ?').run(id)
+    this.db!.prepare('DELETE FROM ai_response_cache WHERE project_id = ?').run(id)
+    this.db!.prepare('DELETE FROM project_memory WHERE project_id = ?').run(id)
+    this.db!.prepare('DELETE FROM codex_entities WHERE project_id = ?').run(id)
+    this.db!.prepare('DELETE FROM codex_indexed_chapters WHERE project_id = ?').run(id)
+    this.db!.prepare('DELETE FROM plot_threads WHERE project_id = ?').run(id)
+    this.db!.prepare('DELETE FROM plot_indexed_chapters WHERE project_id = ?').run(id)
+    this.db!.prepare('DELETE FROM chapter_emotions WHERE project_id = ?').run(id)
+    this.db!.prepare('DELETE FROM chapter_consistency_reports WHERE project_id = ?').run(id)
   }
 
   /**
@@ -363,6 +594,10 @@ export class DatabaseService {
       styles: JSON.parse(row.styles || '[]'),
       worldSetting: row.world_setting,
       summary: row.summary,
+      promptTemplates: JSON.parse(row.prompt_templates || '{}'),
+      modelRoutes: JSON.parse(row.model_routes || '{}'),
+      generationParams: JSON.parse(row.generation_params || '{}'),
+      writingContext: JSON.parse(row.writing_context || '{}'),
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       syncedAt: row.synced_at
@@ -685,6 +920,11 @@ export class DatabaseService {
       updates.push('synced_at = ?')
       values.push(data.syncedAt)
     }
+    // null 表示清除（手动修改后不再显示生成模型）
+    if (data.generatedBy !== undefined) {
+      updates.push('generated_by = ?')
+      values.push(data.generatedBy)
+    }
 
     if (updates.length > 0) {
       updates.push('updated_at = ?')
@@ -702,6 +942,11 @@ export class DatabaseService {
   deleteChapter(id: string): void {
     const stmt = this.db!.prepare('DELETE FROM chapters WHERE id = ?')
     stmt.run(id)
+    this.db!.prepare('DELETE FROM chapter_chunks WHERE chapter_id = ?').run(id)
+    this.db!.prepare('DELETE FROM codex_indexed_chapters WHERE chapter_id = ?').run(id)
+    this.db!.prepare('DELETE FROM plot_indexed_chapters WHERE chapter_id = ?').run(id)
+    this.db!.prepare('DELETE FROM chapter_emotions WHERE chapter_id = ?').run(id)
+    this.db!.prepare('DELETE FROM chapter_consistency_reports WHERE chapter_id = ?').run(id)
   }
 
   private parseChapterRow(row: any): any {
@@ -715,7 +960,8 @@ export class DatabaseService {
       order: row.sort_order,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
-      syncedAt: row.synced_at
+      syncedAt: row.synced_at,
+      generatedBy: row.generated_by || undefined
     }
   }
 
@@ -830,6 +1076,665 @@ export class DatabaseService {
     }
   }
 
+  // ==================== AI 用量 ====================
+
+  recordUsage(data: any): void {
+    const stmt = this.db!.prepare(`
+      INSERT INTO usage_records (
+        id, project_id, provider, model, task_type,
+        prompt_tokens, completion_tokens, estimated_cost, is_estimated, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    stmt.run(
+      uuidv4(),
+      data.projectId || null,
+      data.provider,
+      data.model || '',
+      data.taskType || 'other',
+      Math.round(data.promptTokens || 0),
+      Math.round(data.completionTokens || 0),
+      data.estimatedCost || 0,
+      data.isEstimated ? 1 : 0,
+      new Date().toISOString()
+    )
+  }
+
+  /**
+   * 用量统计：总计、按日、按项目、按任务类型、按模型
+   * @param options.days - 只统计最近 N 天（不传则统计全部）
+   */
+  getUsageStats(options: { days?: number; projectId?: string } = {}): any {
+    const conditions: string[] = []
+    const params: any[] = []
+
+    if (options.days) {
+      const since = new Date()
+      since.setDate(since.getDate() - options.days)
+      conditions.push('u.created_at >= ?')
+      params.push(since.toISOString())
+    }
+    if (options.projectId) {
+      conditions.push('u.project_id = ?')
+      params.push(options.projectId)
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    const columns = `
+      COUNT(*) as calls,
+      COALESCE(SUM(u.prompt_tokens), 0) as promptTokens,
+      COALESCE(SUM(u.completion_tokens), 0) as completionTokens,
+      COALESCE(SUM(u.estimated_cost), 0) as estimatedCost
+    `
+
+    const total = this.db!.prepare(`
+      SELECT ${columns} FROM usage_records u ${where}
+    `).get(...params)
+
+    // created_at 为 UTC 时间，按本地日期分组
+    const daily = this.db!.prepare(`
+      SELECT date(u.created_at, 'localtime') as key, date(u.created_at, 'localtime') as label, ${columns}
+      FROM usage_records u ${where}
+      GROUP BY key ORDER BY key DESC
+    `).all(...params)
+
+    const byProject = this.db!.prepare(`
+      SELECT COALESCE(u.project_id, '') as key, COALESCE(p.title, '') as label, ${columns}
+      FROM usage_records u LEFT JOIN projects p ON p.id = u.project_id ${where}
+      GROUP BY u.project_id ORDER BY estimatedCost DESC, promptTokens DESC
+    `).all(...params)
+
+    const byTask = this.db!.prepare(`
+      SELECT u.task_type as key, u.task_type as label, ${columns}
+      FROM usage_records u ${where}
+      GROUP BY u.task_type ORDER BY promptTokens DESC
+    `).all(...params)
+
+    const byModel = this.db!.prepare(`
+      SELECT u.provider || '/' || u.model as key, u.model as label, ${columns}
+      FROM usage_records u ${where}
+      GROUP BY u.provider, u.model ORDER BY estimatedCost DESC, promptTokens DESC
+    `).all(...params)
+
+    return { total, daily, byProject, byTask, byModel }
+  }
+
+  clearUsage(): void {
+    this.db!.prepare('DELETE FROM usage_records').run()
+  }
+
+  // ==================== AI 调用记录 ====================
+
+  /**
+   * 写入一条调用记录，并只保留最近 retention 条
+   */
+  addAICallLog(data: any, retention: number): void {
+    const insert = this.db!.prepare(`
+      INSERT INTO ai_call_logs (
+        id, project_id, task_type, mode, provider, model, key_index, prompt, response, error,
+        latency_ms, attempt_count, attempts, is_fallback, redacted, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    const prune = this.db!.prepare(`
+      DELETE FROM ai_call_logs WHERE id IN (
+        SELECT id FROM ai_call_logs ORDER BY created_at DESC LIMIT -1 OFFSET ?
+      )
+    `)
+    const attempts = Array.isArray(data.attempts) ? data.attempts : []
+
+    this.db!.transaction(() => {
+      insert.run(
+        uuidv4(),
+        data.projectId || null,
+        data.taskType || 'other',
+        data.mode || 'text',
+        data.provider || '',
+        data.model || '',
+        typeof data.keyIndex === 'number' ? data.keyIndex : null,
+        data.prompt || '',
+        data.response || '',
+        data.error || null,
+        Math.round(data.latencyMs || 0),
+        attempts.length,
+        JSON.stringify(attempts),
+        data.isFallback ? 1 : 0,
+        data.redacted ? 1 : 0,
+        new Date().toISOString()
+      )
+      prune.run(Math.max(1, Math.floor(retention || 0)))
+    })()
+  }
+
+  /**
+   * 调用记录列表（按时间倒序，只返回提示词开头）
+   */
+  getAICallLogs(query: { projectId?: string | null; taskType?: string; status?: 'success' | 'error'; search?: string; limit?: number } = {}): any[] {
+    const conditions: string[] = []
+    const params: any[] = []
+
+    if (query.projectId === null) {
+      conditions.push('l.project_id IS NULL')
+    } else if (query.projectId) {
+      conditions.push('l.project_id = ?')
+      params.push(query.projectId)
+    }
+    if (query.taskType) {
+      conditions.push('l.task_type = ?')
+      params.push(query.taskType)
+    }
+    if (query.status === 'error') {
+      conditions.push('l.error IS NOT NULL')
+    } else if (query.status === 'success') {
+      conditions.push('l.error IS NULL')
+    }
+    if (query.search) {
+      conditions.push('(instr(l.prompt, ?) > 0 OR instr(l.response, ?) > 0)')
+      params.push(query.search, query.search)
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    const rows = this.db!.prepare(`
+      SELECT l.id, l.project_id, l.task_type, l.mode, l.provider, l.model, l.key_index, l.error,
+        l.latency_ms, l.attempt_count, l.is_fallback, l.redacted, l.created_at,
+        substr(l.prompt, 1, 200) as prompt_preview, length(l.prompt) as prompt_length,
+        length(l.response) as response_length, p.title as project_title
+      FROM ai_call_logs l LEFT JOIN projects p ON p.id = l.project_id
+      ${where}
+      ORDER BY l.created_at DESC
+      LIMIT ?
+    `).all(...params, query.limit || 500)
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      projectId: row.project_id,
+      projectTitle: row.project_title ?? null,
+      taskType: row.task_type,
+      mode: row.mode,
+      provider: row.provider,
+      model: row.model,
+      keyIndex: row.key_index,
+      error: row.error,
+      latencyMs: row.latency_ms,
+      attemptCount: row.attempt_count,
+      isFallback: row.is_fallback === 1,
+      redacted: row.redacted === 1,
+      promptPreview: row.prompt_preview || '',
+      promptLength: row.prompt_length || 0,
+      responseLength: row.response_length || 0,
+      createdAt: row.created_at
+    }))
+  }
+
+  getAICallLog(id: string): any | null {
+    const row = this.db!.prepare('SELECT * FROM ai_call_logs WHERE id = ?').get(id)
+    return row ? this.parseAICallLogRow(row) : null
+  }
+
+  deleteAICallLog(id: string): void {
+    this.db!.prepare('DELETE FROM ai_call_logs WHERE id = ?').run(id)
+  }
+
+  clearAICallLogs(): void {
+    this.db!.prepare('DELETE FROM ai_call_logs').run()
+  }
+
+  private parseAICallLogRow(row: any): any {
+    return {
+      id: row.id,
+      projectId: row.project_id,
+      taskType: row.task_type,
+      mode: row.mode,
+      provider: row.provider,
+      model: row.model,
+      keyIndex: row.key_index,
+      prompt: row.prompt || '',
+      response: row.response || '',
+      error: row.error,
+      latencyMs: row.latency_ms,
+      attempts: JSON.parse(row.attempts || '[]'),
+      isFallback: row.is_fallback === 1,
+      redacted: row.redacted === 1,
+      createdAt: row.created_at
+    }
+  }
+
+  // ==================== AI 响应缓存 ====================
+
+  /**
+   * 读取缓存的响应，命中时更新使用时间和命中次数
+   */
+  getCachedResponse(cacheKey: string): string | null {
+    const row = this.db!.prepare('SELECT response FROM ai_response_cache WHERE cache_key = ?').get(cacheKey) as any
+    if (!row) return null
+    this.db!.prepare(`
+      UPDATE ai_response_cache SET hit_count = hit_count + 1, last_used_at = ? WHERE cache_key = ?
+    `).run(new Date().toISOString(), cacheKey)
+    return row.response
+  }
+
+  /**
+   * 写入缓存，总大小超过 maxBytes 时按最近使用时间淘汰
+   */
+  putCachedResponse(data: any, maxBytes: number): void {
+    const response = String(data.response || '')
+    const size = Buffer.byteLength(response, 'utf-8')
+    const now = new Date().toISOString()
+    const insert = this.db!.prepare(`
+      INSERT OR REPLACE INTO ai_response_cache (
+        cache_key, project_id, task_type, provider, model, response, size, hit_count, created_at, last_used_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?)
+    `)
+    const total = this.db!.prepare('SELECT COALESCE(SUM(size), 0) as total FROM ai_response_cache')
+    const oldest = this.db!.prepare('SELECT cache_key, size FROM ai_response_cache ORDER BY last_used_at ASC LIMIT 100')
+    const remove = this.db!.prepare('DELETE FROM ai_response_cache WHERE cache_key = ?')
+
+    this.db!.transaction(() => {
+      insert.run(data.cacheKey, data.projectId || null, data.taskType || 'other', data.provider || '', data.model || '', response, size, now, now)
+      let excess = (total.get() as any).total - Math.max(0, maxBytes)
+      while (excess > 0) {
+        const rows = oldest.all() as any[]
+        if (rows.length === 0) break
+        for (const row of rows) {
+          if (excess <= 0) break
+          remove.run(row.cache_key)
+          excess -= row.size
+        }
+      }
+    })()
+  }
+
+  /**
+   * 缓存统计，传入 projectId 时只统计该项目
+   */
+  getResponseCacheStats(projectId?: string | null): { entries: number; bytes: number; hits: number } {
+    const where = projectId ? 'WHERE project_id = ?' : ''
+    const row = this.db!.prepare(`
+      SELECT COUNT(*) as entries, COALESCE(SUM(size), 0) as bytes, COALESCE(SUM(hit_count), 0) as hits
+      FROM ai_response_cache ${where}
+    `).get(...(projectId ? [projectId] : [])) as any
+    return { entries: row.entries, bytes: row.bytes, hits: row.hits }
+  }
+
+  /**
+   * 清空缓存，传入 projectId 时只清空该项目
+   */
+  clearResponseCache(projectId?: string | null): void {
+    if (projectId) {
+      this.db!.prepare('DELETE FROM ai_response_cache WHERE project_id = ?').run(projectId)
+    } else {
+      this.db!.prepare('DELETE FROM ai_response_cache').run()
+    }
+  }
+
+  // ==================== 提示词模板 ====================
+
+  getPromptTemplates(templateKey?: string): any[] {
+    const rows = templateKey
+      ? this.db!.prepare('SELECT * FROM prompt_templates WHERE template_key = ? ORDER BY created_at ASC').all(templateKey)
+      : this.db!.prepare('SELECT * FROM prompt_templates ORDER BY created_at ASC').all()
+    return rows.map(this.parsePromptTemplateRow)
+  }
+
+  getPromptTemplate(id: string): any | null {
+    const row = this.db!.prepare('SELECT * FROM prompt_templates WHERE id = ?').get(id)
+    return row ? this.parsePromptTemplateRow(row) : null
+  }
+
+  createPromptTemplate(data: any): any {
+    const id = uuidv4()
+    const now = new Date().toISOString()
+
+    this.db!.prepare(`
+      INSERT INTO prompt_templates (id, template_key, name, content, version, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 1, ?, ?)
+    `).run(id, data.templateKey, data.name || '未命名模板', data.content || '', now, now)
+
+    this.insertPromptTemplateVersion(id, 1, data.content || '', now)
+    return this.getPromptTemplate(id)
+  }
+
+  /**
+   * 更新模板：内容变化时版本号递增并保存历史版本
+   */
+  updatePromptTemplate(id: string, data: any): any {
+    const current = this.getPromptTemplate(id)
+    if (!current) throw new Error('模板不存在')
+
+    const now = new Date().toISOString()
+    const name = data.name !== undefined ? data.name : current.name
+    const contentChanged = data.content !== undefined && data.content !== current.content
+    const version = contentChanged ? current.version + 1 : current.version
+    const content = contentChanged ? data.content : current.content
+
+    const update = this.db!.transaction(() => {
+      this.db!.prepare(`
+        UPDATE prompt_templates SET name = ?, content = ?, version = ?, updated_at = ? WHERE id = ?
+      `).run(name, content, version, now, id)
+      if (contentChanged) {
+        this.insertPromptTemplateVersion(id, version, content, now)
+      }
+    })
+    update()
+
+    return this.getPromptTemplate(id)
+  }
+
+  deletePromptTemplate(id: string): void {
+    const remove = this.db!.transaction(() => {
+      this.db!.prepare('DELETE FROM prompt_template_versions WHERE template_id = ?').run(id)
+      this.db!.prepare('DELETE FROM prompt_templates WHERE id = ?').run(id)
+    })
+    remove()
+  }
+
+  getPromptTemplateVersions(templateId: string): any[] {
+    return this.db!.prepare(`
+      SELECT * FROM prompt_template_versions WHERE template_id = ? ORDER BY version DESC
+    `).all(templateId).map((row: any) => ({
+      id: row.id,
+      templateId: row.template_id,
+      version: row.version,
+      content: row.content,
+      createdAt: row.created_at
+    }))
+  }
+
+  /**
+   * 回滚到指定历史版本（以该版本内容保存为新版本，不删除历史）
+   */
+  rollbackPromptTemplate(templateId: string, version: number): any {
+    const row = this.db!.prepare(`
+      SELECT content FROM prompt_template_versions WHERE template_id = ? AND version = ?
+    `).get(templateId, version) as any
+    if (!row) throw new Error(`版本 v${version} 不存在`)
+    return this.updatePromptTemplate(templateId, { content: row.content })
+  }
+
+  private insertPromptTemplateVersion(templateId: string, version: number, content: string, createdAt: string): void {
+    this.db!.prepare(`
+      INSERT INTO prompt_template_versions (id, template_id, version, content, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(uuidv4(), templateId, version, content, createdAt)
+  }
+
+  private parsePromptTemplateRow(row: any): any {
+    return {
+      id: row.id,
+      templateKey: row.template_key,
+      name: row.name,
+      content: row.content,
+      version: row.version,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }
+  }
+
+  // ==================== 章节检索索引 ====================
+
+  getChapterChunks(projectId: string): any[] {
+    return this.db!.prepare(`
+      SELECT * FROM chapter_chunks WHERE project_id = ? ORDER BY chapter_id, chunk_index ASC
+    `).all(projectId).map(this.parseChapterChunkRow)
+  }
+
+  /**
+   * 替换章节的全部片段（章节正文或向量模型变化后重建）
+   */
+  replaceChapterChunks(projectId: string, chapterId: string, chunks: any[]): void {
+    const now = new Date().toISOString()
+    const insert = this.db!.prepare(`
+      INSERT INTO chapter_chunks (id, project_id, chapter_id, chunk_index, content, content_hash, embedding, embedding_model, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+
+    const replace = this.db!.transaction(() => {
+      this.db!.prepare('DELETE FROM chapter_chunks WHERE chapter_id = ?').run(chapterId)
+      chunks.forEach((chunk, index) => {
+        insert.run(
+          uuidv4(),
+          projectId,
+          chapterId,
+          index,
+          chunk.content,
+          chunk.contentHash,
+          chunk.embedding ? Buffer.from(new Float32Array(chunk.embedding).buffer) : null,
+          chunk.embedding ? chunk.embeddingModel : null,
+          now
+        )
+      })
+    })
+    replace()
+  }
+
+  private parseChapterChunkRow(row: any): any {
+    const blob = row.embedding as Buffer | null
+    return {
+      id: row.id,
+      projectId: row.project_id,
+      chapterId: row.chapter_id,
+      chunkIndex: row.chunk_index,
+      content: row.content,
+      contentHash: row.content_hash,
+      // 复制到独立的 ArrayBuffer，Buffer 的偏移不一定按 4 字节对齐
+      embedding: blob ? new Float32Array(blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength)) : null,
+      embeddingModel: row.embedding_model
+    }
+  }
+
+  // ==================== 分层记忆 ====================
+
+  getProjectMemory(projectId: string): any | null {
+    const row = this.db!.prepare('SELECT data FROM project_memory WHERE project_id = ?').get(projectId) as any
+    return row ? JSON.parse(row.data) : null
+  }
+
+  saveProjectMemory(projectId: string, memory: any): void {
+    this.db!.prepare(`
+      INSERT OR REPLACE INTO project_memory (project_id, data, updated_at) VALUES (?, ?, ?)
+    `).run(projectId, JSON.stringify(memory), new Date().toISOString())
+  }
+
+  // ==================== Codex ====================
+
+  getCodexEntities(projectId: string): any[] {
+    return this.db!.prepare(`
+      SELECT * FROM codex_entities WHERE project_id = ? ORDER BY first_appearance ASC, name ASC
+    `).all(projectId).map(this.parseCodexEntityRow)
+  }
+
+  /**
+   * 批量保存实体（按 id 新增或覆盖）
+   */
+  saveCodexEntities(projectId: string, entities: any[]): void {
+    const now = new Date().toISOString()
+    const upsert = this.db!.prepare(`
+      INSERT OR REPLACE INTO codex_entities
+        (id, project_id, name, type, aliases, description, first_appearance, appearances, attributes, relations, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    const save = this.db!.transaction(() => {
+      for (const entity of entities) {
+        upsert.run(
+          entity.id,
+          projectId,
+          entity.name,
+          entity.type,
+          JSON.stringify(entity.aliases || []),
+          entity.description || '',
+          entity.firstAppearance || 0,
+          JSON.stringify(entity.appearances || []),
+          JSON.stringify(entity.attributes || []),
+          JSON.stringify(entity.relations || []),
+          now
+        )
+      }
+    })
+    save()
+  }
+
+  deleteCodexEntities(ids: string[]): void {
+    const remove = this.db!.prepare('DELETE FROM codex_entities WHERE id = ?')
+    this.db!.transaction(() => ids.forEach(id => remove.run(id)))()
+  }
+
+  getCodexIndexedChapters(projectId: string): Array<{ chapterId: string; contentHash: string }> {
+    return (this.db!.prepare(`
+      SELECT chapter_id, content_hash FROM codex_indexed_chapters WHERE project_id = ?
+    `).all(projectId) as any[]).map(row => ({ chapterId: row.chapter_id, contentHash: row.content_hash }))
+  }
+
+  markCodexChapterIndexed(projectId: string, chapterId: string, contentHash: string): void {
+    this.db!.prepare(`
+      INSERT OR REPLACE INTO codex_indexed_chapters (chapter_id, project_id, content_hash, indexed_at) VALUES (?, ?, ?, ?)
+    `).run(chapterId, projectId, contentHash, new Date().toISOString())
+  }
+
+  private parseCodexEntityRow(row: any): any {
+    return {
+      id: row.id,
+      name: row.name,
+      type: row.type,
+      aliases: JSON.parse(row.aliases || '[]'),
+      description: row.description || '',
+      firstAppearance: row.first_appearance,
+      appearances: JSON.parse(row.appearances || '[]'),
+      attributes: JSON.parse(row.attributes || '[]'),
+      relations: JSON.parse(row.relations || '[]')
+    }
+  }
+
+  // ==================== 伏笔 ====================
+
+  getPlotThreads(projectId: string): any[] {
+    return this.db!.prepare(`
+      SELECT * FROM plot_threads WHERE project_id = ? ORDER BY planted_chapter ASC, updated_at ASC
+    `).all(projectId).map(this.parsePlotThreadRow)
+  }
+
+  /**
+   * 批量保存伏笔（按 id 新增或覆盖）
+   */
+  savePlotThreads(projectId: string, threads: any[]): void {
+    const now = new Date().toISOString()
+    const upsert = this.db!.prepare(`
+      INSERT OR REPLACE INTO plot_threads
+        (id, project_id, description, importance, status, planted_chapter, resolution_min, resolution_max,
+         resolved_chapter, related_characters, hints, manual, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    const save = this.db!.transaction(() => {
+      for (const thread of threads) {
+        upsert.run(
+          thread.id,
+          projectId,
+          thread.description,
+          thread.importance || 'major',
+          thread.status || 'active',
+          thread.plantedChapter || 0,
+          thread.expectedResolutionRange?.min || 0,
+          thread.expectedResolutionRange?.max || 0,
+          thread.resolvedChapter ?? null,
+          JSON.stringify(thread.relatedCharacters || []),
+          JSON.stringify(thread.hints || []),
+          thread.manual ? 1 : 0,
+          now
+        )
+      }
+    })
+    save()
+  }
+
+  deletePlotThreads(ids: string[]): void {
+    const remove = this.db!.prepare('DELETE FROM plot_threads WHERE id = ?')
+    this.db!.transaction(() => ids.forEach(id => remove.run(id)))()
+  }
+
+  getPlotIndexedChapters(projectId: string): Array<{ chapterId: string; contentHash: string }> {
+    return (this.db!.prepare(`
+      SELECT chapter_id, content_hash FROM plot_indexed_chapters WHERE project_id = ?
+    `).all(projectId) as any[]).map(row => ({ chapterId: row.chapter_id, contentHash: row.content_hash }))
+  }
+
+  markPlotChapterIndexed(projectId: string, chapterId: string, contentHash: string): void {
+    this.db!.prepare(`
+      INSERT OR REPLACE INTO plot_indexed_chapters (chapter_id, project_id, content_hash, indexed_at) VALUES (?, ?, ?, ?)
+    `).run(chapterId, projectId, contentHash, new Date().toISOString())
+  }
+
+  // ==================== 章节情感 ====================
+
+  getChapterEmotions(projectId: string): any[] {
+    return (this.db!.prepare(`
+      SELECT * FROM chapter_emotions WHERE project_id = ?
+    `).all(projectId) as any[]).map(row => ({
+      chapterId: row.chapter_id,
+      contentHash: row.content_hash,
+      emotion: row.emotion || '',
+      intensity: row.intensity,
+      tension: row.tension,
+      hope: row.hope
+    }))
+  }
+
+  saveChapterEmotion(projectId: string, record: any): void {
+    this.db!.prepare(`
+      INSERT OR REPLACE INTO chapter_emotions
+        (chapter_id, project_id, emotion, intensity, tension, hope, content_hash, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      record.chapterId,
+      projectId,
+      record.emotion || '',
+      record.intensity ?? 0,
+      record.tension ?? 0,
+      record.hope ?? 0,
+      record.contentHash,
+      new Date().toISOString()
+    )
+  }
+
+  // ==================== 章节一致性报告 ====================
+
+  getConsistencyReport(chapterId: string): any | null {
+    const row = this.db!.prepare(`
+      SELECT * FROM chapter_consistency_reports WHERE chapter_id = ?
+    `).get(chapterId) as any
+    if (!row) return null
+    return {
+      chapterId: row.chapter_id,
+      contentHash: row.content_hash,
+      report: JSON.parse(row.report)
+    }
+  }
+
+  saveConsistencyReport(projectId: string, record: any): void {
+    this.db!.prepare(`
+      INSERT OR REPLACE INTO chapter_consistency_reports
+        (chapter_id, project_id, report, content_hash, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(
+      record.chapterId,
+      projectId,
+      JSON.stringify(record.report),
+      record.contentHash,
+      new Date().toISOString()
+    )
+  }
+
+  private parsePlotThreadRow(row: any): any {
+    return {
+      id: row.id,
+      description: row.description,
+      importance: row.importance,
+      status: row.status,
+      plantedChapter: row.planted_chapter,
+      expectedResolutionRange: { min: row.resolution_min, max: row.resolution_max },
+      resolvedChapter: row.resolved_chapter ?? undefined,
+      relatedCharacters: JSON.parse(row.related_characters || '[]'),
+      hints: JSON.parse(row.hints || '[]'),
+      manual: !!row.manual
+    }
+  }
+
   // ==================== 设置操作 ====================
 
   getSetting(key: string): any {
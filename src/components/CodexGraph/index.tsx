@@ -0,0 +1,397 @@
+import { useEffect, useRef, useState } from 'react'
+import { Empty } from 'antd'
+import { CODEX_TYPE_LABELS } from '../../types'
+import type { CodexEntity, CodexEntityType } from '../../types'
+import type { CodexGraphEdge } from '../../services/codex'
+
+interface CodexGraphProps {
+  nodes: CodexEntity[]
+  edges: CodexGraphEdge[]
+  uptoChapter?: number        // 节点大小只统计截至该章的出场次数
+  selectedId?: string | null
+  onSelect: (entityId: string) => void
+}
+
+// 节点在仿真中的状态
+interface NodeState {
+  x: number
+  y: number
+  vx: number
+  vy: number
+  fixed: boolean  // 拖拽中固定位置
+}
+
+// 同一方向的多条关系合并为一条边
+interface GroupedEdge {
+  sourceId: string
+  targetId: string
+  relations: string[]
+  curved: boolean  // 存在反向边时弯曲，避免重叠
+}
+
+const TYPE_NODE_COLORS: Record<CodexEntityType, string> = {
+  character: '#faad14',
+  location: '#52c41a',
+  item: '#9254de',
+  faction: '#ff4d4f',
+  concept: '#4096ff'
+}
+
+// 画布（viewBox）尺寸
+const WIDTH = 1000
+const HEIGHT = 640
+const PADDING = 30
+
+// 力导向参数
+const REPULSION = 12000
+const LINK_DISTANCE = 130
+const SPRING = 0.04
+const GRAVITY = 0.01
+const DAMPING = 0.85
+const ALPHA_DECAY = 0.97
+const ALPHA_MIN = 0.005
+const DRAG_ALPHA = 0.3
+
+function groupEdges(edges: CodexGraphEdge[]): GroupedEdge[] {
+  const groups = new Map<string, GroupedEdge>()
+  for (const edge of edges) {
+    const key = `${edge.sourceId}|${edge.targetId}`
+    const group = groups.get(key)
+    if (group) {
+      if (!group.relations.includes(edge.relation)) group.relations.push(edge.relation)
+    } else {
+      groups.set(key, { sourceId: edge.sourceId, targetId: edge.targetId, relations: [edge.relation], curved: false })
+    }
+  }
+  for (const group of groups.values()) {
+    group.curved = groups.has(`${group.targetId}|${group.sourceId}`)
+  }
+  return [...groups.values()]
+}
+
+/**
+ * 一次仿真迭代：节点间斥力 + 边的弹簧力 + 向中心的引力
+ */
+function tick(positions: Map<string, NodeState>, edges: GroupedEdge[], alpha: number): void {
+  const list = [...positions.values()]
+
+  for (let i = 0; i < list.length; i++) {
+    for (let j = i + 1; j < list.length; j++) {
+      const a = list[i]
+      const b = list[j]
+      const dx = b.x - a.x || Math.random() - 0.5
+      const dy = b.y - a.y || Math.random() - 0.5
+      const dist2 = Math.max(dx * dx + dy * dy, 100)
+      const dist = Math.sqrt(dist2)
+      const force = REPULSION / dist2
+      const fx = (dx / dist) * force
+      const fy = (dy / dist) * force
+      a.vx -= fx
+      a.vy -= fy
+      b.vx += fx
+      b.vy += fy
+    }
+  }
+
+  for (const edge of edges) {
+    const a = positions.get(edge.sourceId)
+    const b = positions.get(edge.targetId)
+    if (!a || !b) continue
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 1)
+    const force = (dist - LINK_DISTANCE) * SPRING
+    const fx = (dx / dist) * force
+    const fy = (dy / dist) * force
+    a.vx += fx
+    a.vy += fy
+    b.vx -= fx
+    b.vy -= fy
+  }
+
+  for (const node of list) {
+    if (node.fixed) {
+      node.vx = 0
+      node.vy = 0
+      continue
+    }
+    node.vx = (node.vx + (WIDTH / 2 - node.x) * GRAVITY) * DAMPING
+    node.vy = (node.vy + (HEIGHT / 2 - node.y) * GRAVITY) * DAMPING
+    node.x = Math.min(Math.max(node.x + node.vx * alpha, PADDING), WIDTH - PADDING)
+    node.y = Math.min(Math.max(node.y + node.vy * alpha, PADDING), HEIGHT - PADDING)
+  }
+}
+
+/**
+ * 计算边的路径（终点缩回到目标节点边缘，留出箭头位置）和标签位置
+ */
+function edgeGeometry(
+  a: NodeState,
+  b: NodeState,
+  targetRadius: number,
+  curved: boolean
+): { path: string; labelX: number; labelY: number } {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 1)
+
+  if (!curved) {
+    const endX = b.x - (dx / dist) * (targetRadius + 2)
+    const endY = b.y - (dy / dist) * (targetRadius + 2)
+    return { path: `M${a.x},${a.y} L${endX},${endY}`, labelX: (a.x + b.x) / 2, labelY: (a.y + b.y) / 2 }
+  }
+
+  // 二次贝塞尔曲线，控制点在连线法向偏移
+  const cx = (a.x + b.x) / 2 - (dy / dist) * 30
+  const cy = (a.y + b.y) / 2 + (dx / dist) * 30
+  const tx = b.x - cx
+  const ty = b.y - cy
+  const tDist = Math.max(Math.sqrt(tx * tx + ty * ty), 1)
+  const endX = b.x - (tx / tDist) * (targetRadius + 2)
+  const endY = b.y - (ty / tDist) * (targetRadius + 2)
+  return {
+    path: `M${a.x},${a.y} Q${cx},${cy} ${endX},${endY}`,
+    labelX: 0.25 * a.x + 0.5 * cx + 0.25 * b.x,
+    labelY: 0.25 * a.y + 0.5 * cy + 0.25 * b.y
+  }
+}
+
+/**
+ * Codex 实体关系图（力导向布局，可拖拽节点，点击节点选中实体）
+ */
+function CodexGraph({ nodes, edges, uptoChapter, selectedId, onSelect }: CodexGraphProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const positionsRef = useRef(new Map<string, NodeState>())
+  const alphaRef = useRef(0)
+  const frameRef = useRef<number | null>(null)
+  const dragRef = useRef<{ id: string; moved: boolean } | null>(null)
+  const edgesRef = useRef<GroupedEdge[]>([])
+  const [, setFrame] = useState(0)
+  const [hoveredId, setHoveredId] = useState<string | null>(null)
+
+  const groupedEdges = groupEdges(edges)
+  edgesRef.current = groupedEdges
+
+  const startSimulation = (alpha: number) => {
+    alphaRef.current = Math.max(alphaRef.current, alpha)
+    if (frameRef.current !== null) return
+
+    const step = () => {
+      tick(positionsRef.current, edgesRef.current, alphaRef.current)
+      alphaRef.current *= ALPHA_DECAY
+      if (dragRef.current) alphaRef.current = Math.max(alphaRef.current, DRAG_ALPHA)
+      setFrame(f => f + 1)
+      frameRef.current = alphaRef.current > ALPHA_MIN ? requestAnimationFrame(step) : null
+    }
+    frameRef.current = requestAnimationFrame(step)
+  }
+
+  // 节点或边变化时同步仿真状态：保留已有节点的位置，新节点放在相邻节点附近
+  const nodeKey = nodes.map(n => n.id).join(',')
+  const edgeKey = groupedEdges.map(e => `${e.sourceId}>${e.targetId}`).join(',')
+  useEffect(() => {
+    const positions = positionsRef.current
+    const ids = new Set(nodeKey ? nodeKey.split(',') : [])
+    const isInitial = positions.size === 0
+
+    for (const id of [...positions.keys()]) {
+      if (!ids.has(id)) positions.delete(id)
+    }
+    for (const id of ids) {
+      if (positions.has(id)) continue
+      const neighbor = edgesRef.current
+        .map(e => (e.sourceId === id ? e.targetId : e.targetId === id ? e.sourceId : null))
+        .map(otherId => (otherId ? positions.get(otherId) : undefined))
+        .find(Boolean)
+      const baseX = neighbor?.x ?? WIDTH / 2
+      const baseY = neighbor?.y ?? HEIGHT / 2
+      const spread = neighbor ? 40 : 200
+      positions.set(id, {
+        x: baseX + (Math.random() - 0.5) * spread,
+        y: baseY + (Math.random() - 0.5) * spread,
+        vx: 0,
+        vy: 0,
+        fixed: false
+      })
+    }
+
+    startSimulation(isInitial ? 1 : 0.5)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nodeKey, edgeKey])
+
+  useEffect(() => {
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+    }
+  }, [])
+
+  // ==================== 拖拽 ====================
+
+  const toSvgPoint = (clientX: number, clientY: number) => {
+    const svg = svgRef.current
+    const matrix = svg?.getScreenCTM()
+    if (!svg || !matrix) return null
+    const point = svg.createSVGPoint()
+    point.x = clientX
+    point.y = clientY
+    return point.matrixTransform(matrix.inverse())
+  }
+
+  const handlePointerDown = (e: React.PointerEvent, id: string) => {
+    e.stopPropagation()
+    svgRef.current?.setPointerCapture(e.pointerId)
+    dragRef.current = { id, moved: false }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current
+    if (!drag) return
+    const node = positionsRef.current.get(drag.id)
+    const point = toSvgPoint(e.clientX, e.clientY)
+    if (!node || !point) return
+    if (!drag.moved && Math.hypot(point.x - node.x, point.y - node.y) < 3) return
+
+    drag.moved = true
+    node.fixed = true
+    node.x = Math.min(Math.max(point.x, PADDING), WIDTH - PADDING)
+    node.y = Math.min(Math.max(point.y, PADDING), HEIGHT - PADDING)
+    startSimulation(DRAG_ALPHA)
+  }
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current
+    if (!drag) return
+    dragRef.current = null
+    svgRef.current?.releasePointerCapture(e.pointerId)
+    const node = positionsRef.current.get(drag.id)
+    if (node) node.fixed = false
+    if (!drag.moved) onSelect(drag.id)
+  }
+
+  if (nodes.length === 0) {
+    return <Empty description="截至该章还没有实体" />
+  }
+
+  const radiusOf = (entity: CodexEntity) => {
+    const count = uptoChapter === undefined
+      ? entity.appearances.length
+      : entity.appearances.filter(c => c <= uptoChapter).length
+    return 8 + Math.min(count, 16)
+  }
+  const radii = new Map(nodes.map(n => [n.id, radiusOf(n)]))
+
+  const isDimmed = (edge: GroupedEdge) =>
+    hoveredId !== null && edge.sourceId !== hoveredId && edge.targetId !== hoveredId
+
+  return (
+    <div>
+      {/* 图例 */}
+      <div className="flex flex-wrap gap-4 mb-2 text-sm text-dark-muted">
+        {(Object.keys(CODEX_TYPE_LABELS) as CodexEntityType[]).map(type => (
+          <span key={type} className="flex items-center gap-1">
+            <span
+              className="inline-block rounded-full"
+              style={{ width: 10, height: 10, background: TYPE_NODE_COLORS[type] }}
+            />
+            {CODEX_TYPE_LABELS[type]}
+          </span>
+        ))}
+        <span>节点越大出场越多 · 拖拽调整位置 · 点击查看条目</span>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full select-none"
+        style={{ height: 'calc(100vh - 300px)', minHeight: 400, touchAction: 'none' }}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <defs>
+          <marker id="codex-graph-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M0,0 L10,5 L0,10 z" fill="var(--color-text-muted)" />
+          </marker>
+        </defs>
+
+        {/* 边 */}
+        {groupedEdges.map(edge => {
+          const a = positionsRef.current.get(edge.sourceId)
+          const b = positionsRef.current.get(edge.targetId)
+          if (!a || !b) return null
+          const { path, labelX, labelY } = edgeGeometry(a, b, radii.get(edge.targetId) || 8, edge.curved)
+          const dimmed = isDimmed(edge)
+          return (
+            <g key={`${edge.sourceId}>${edge.targetId}`} opacity={dimmed ? 0.15 : 1}>
+              <path
+                d={path}
+                fill="none"
+                stroke="var(--color-text-muted)"
+                strokeWidth={1.2}
+                markerEnd="url(#codex-graph-arrow)"
+              />
+              <text
+                x={labelX}
+                y={labelY}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                fontSize={11}
+                fill="var(--color-text-secondary)"
+                stroke="var(--color-bg-secondary)"
+                strokeWidth={3}
+                paintOrder="stroke"
+              >
+                {edge.relations.join('、')}
+              </text>
+            </g>
+          )
+        })}
+
+        {/* 节点 */}
+        {nodes.map(entity => {
+          const position = positionsRef.current.get(entity.id)
+          if (!position) return null
+          const radius = radii.get(entity.id) || 8
+          const selected = entity.id === selectedId
+          const dimmed = hoveredId !== null && hoveredId !== entity.id &&
+            !groupedEdges.some(e =>
+              (e.sourceId === hoveredId && e.targetId === entity.id) ||
+              (e.targetId === hoveredId && e.sourceId === entity.id)
+            )
+          return (
+            <g
+              key={entity.id}
+              transform={`translate(${position.x},${position.y})`}
+              className="cursor-pointer"
+              opacity={dimmed ? 0.3 : 1}
+              onPointerDown={(e) => handlePointerDown(e, entity.id)}
+              onPointerEnter={() => setHoveredId(entity.id)}
+              onPointerLeave={() => setHoveredId(null)}
+            >
+              <title>{`${entity.name}（${CODEX_TYPE_LABELS[entity.type]}）${entity.description ? `\n${entity.description}` : ''}`}</title>
+              <circle
+                r={radius}
+                fill={TYPE_NODE_COLORS[entity.type]}
+                stroke={selected ? 'var(--color-text-primary)' : 'var(--color-bg-secondary)'}
+                strokeWidth={selected ? 3 : 2}
+              />
+              <text
+                y={radius + 14}
+                textAnchor="middle"
+                fontSize={12}
+                fill="var(--color-text-primary)"
+                stroke="var(--color-bg-secondary)"
+                strokeWidth={3}
+                paintOrder="stroke"
+              >
+                {entity.name}
+              </text>
+            </g>
+          )
+        })}
+      </svg>
+    </div>
+  )
+}
+
+export default CodexGraph
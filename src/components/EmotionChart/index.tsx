@@ -0,0 +1,209 @@
+import { useRef, useState } from 'react'
+import type { EmotionPoint } from '../../types/memory'
+
+export type EmotionSeries = 'intensity' | 'tension' | 'hope'
+
+export const EMOTION_SERIES: { key: EmotionSeries; label: string; color: string }[] = [
+  { key: 'intensity', label: '情绪强度', color: '#f59e0b' },
+  { key: 'tension', label: '情节张力', color: '#ef4444' },
+  { key: 'hope', label: '希望值', color: '#22c55e' }
+]
+
+interface EmotionChartProps {
+  totalChapters: number
+  points: EmotionPoint[]                               // 按章节排序
+  series: EmotionSeries[]                              // 显示的曲线
+  volumeMarks: { chapter: number; title: string }[]    // 每卷的第一章
+  peakChapters: number[]
+  valleyChapters: number[]
+  chapterTitle: (chapterNumber: number) => string
+  onChapterClick: (chapterNumber: number) => void
+}
+
+// 画布（viewBox）尺寸和边距
+const WIDTH = 1000
+const HEIGHT = 340
+const MARGIN = { top: 28, right: 16, bottom: 28, left: 36 }
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom
+
+// 纵轴范围：强度、张力为 0-10，希望值为 -10 到 10，共用一个坐标轴
+const Y_MIN = -10
+const Y_MAX = 10
+const Y_TICKS = [-10, -5, 0, 5, 10]
+
+const PEAK_COLOR = '#ef4444'
+const VALLEY_COLOR = '#3b82f6'
+
+/**
+ * 全书情感曲线（卷分隔线、高潮/低谷标记，悬停查看章节，点击跳转）
+ * 未分析的章节处曲线断开
+ */
+function EmotionChart({
+  totalChapters,
+  points,
+  series,
+  volumeMarks,
+  peakChapters,
+  valleyChapters,
+  chapterTitle,
+  onChapterClick
+}: EmotionChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const [hovered, setHovered] = useState<EmotionPoint | null>(null)
+
+  const x = (chapter: number) =>
+    MARGIN.left + (totalChapters > 1 ? ((chapter - 1) / (totalChapters - 1)) * PLOT_WIDTH : PLOT_WIDTH / 2)
+  const y = (value: number) => MARGIN.top + ((Y_MAX - value) / (Y_MAX - Y_MIN)) * PLOT_HEIGHT
+
+  // 相邻章节连成一段，遇到未分析的章节断开
+  const buildPath = (key: EmotionSeries) => {
+    let path = ''
+    points.forEach((p, index) => {
+      const connected = index > 0 && points[index - 1].chapter === p.chapter - 1
+      path += `${connected ? 'L' : 'M'}${x(p.chapter)},${y(p[key])} `
+    })
+    return path.trim()
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const svg = svgRef.current
+    const matrix = svg?.getScreenCTM()
+    if (!svg || !matrix || points.length === 0) return
+    const point = svg.createSVGPoint()
+    point.x = e.clientX
+    point.y = e.clientY
+    const { x: svgX } = point.matrixTransform(matrix.inverse())
+
+    let nearest = points[0]
+    for (const p of points) {
+      if (Math.abs(x(p.chapter) - svgX) < Math.abs(x(nearest.chapter) - svgX)) nearest = p
+    }
+    setHovered(nearest)
+  }
+
+  const peakPoints = points.filter(p => peakChapters.includes(p.chapter))
+  const valleyPoints = points.filter(p => valleyChapters.includes(p.chapter))
+
+  return (
+    <div className="relative">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full select-none"
+        style={{ cursor: hovered ? 'pointer' : 'default' }}
+        onPointerMove={handlePointerMove}
+        onPointerLeave={() => setHovered(null)}
+        onClick={() => hovered && onChapterClick(hovered.chapter)}
+      >
+        {/* 坐标轴和网格 */}
+        {Y_TICKS.map(tick => (
+          <g key={tick}>
+            <line
+              x1={MARGIN.left}
+              x2={WIDTH - MARGIN.right}
+              y1={y(tick)}
+              y2={y(tick)}
+              stroke="var(--color-border)"
+              strokeDasharray={tick === 0 ? undefined : '2 4'}
+            />
+            <text x={MARGIN.left - 8} y={y(tick)} textAnchor="end" dominantBaseline="middle" fontSize={11} fill="var(--color-text-muted)">
+              {tick}
+            </text>
+          </g>
+        ))}
+
+        {/* 卷分隔线 */}
+        {volumeMarks.map(mark => (
+          <g key={mark.chapter}>
+            {mark.chapter > 1 && (
+              <line
+                x1={x(mark.chapter - 0.5)}
+                x2={x(mark.chapter - 0.5)}
+                y1={MARGIN.top - 18}
+                y2={HEIGHT - MARGIN.bottom}
+                stroke="var(--color-text-muted)"
+                strokeDasharray="4 4"
+              />
+            )}
+            <text
+              x={x(Math.max(mark.chapter - 0.5, 1)) + 4}
+              y={MARGIN.top - 10}
+              fontSize={11}
+              fill="var(--color-text-secondary)"
+            >
+              {mark.title}
+            </text>
+          </g>
+        ))}
+
+        {/* 横轴刻度：最多显示约 10 个 */}
+        {Array.from({ length: totalChapters }, (_, i) => i + 1)
+          .filter(chapter => chapter === 1 || chapter === totalChapters || chapter % Math.max(Math.ceil(totalChapters / 10), 1) === 0)
+          .map(chapter => (
+            <text key={chapter} x={x(chapter)} y={HEIGHT - 8} textAnchor="middle" fontSize={11} fill="var(--color-text-muted)">
+              {chapter}
+            </text>
+          ))}
+
+        {/* 曲线 */}
+        {EMOTION_SERIES.filter(s => series.includes(s.key)).map(s => (
+          <g key={s.key}>
+            <path d={buildPath(s.key)} fill="none" stroke={s.color} strokeWidth={2} strokeLinejoin="round" />
+            {points.length <= 120 && points.map(p => (
+              <circle key={p.chapter} cx={x(p.chapter)} cy={y(p[s.key])} r={2.5} fill={s.color} />
+            ))}
+          </g>
+        ))}
+
+        {/* 高潮 / 低谷（按情绪强度） */}
+        {peakPoints.map(p => (
+          <g key={`peak-${p.chapter}`}>
+            <circle cx={x(p.chapter)} cy={y(p.intensity)} r={6} fill="none" stroke={PEAK_COLOR} strokeWidth={2} />
+            <text x={x(p.chapter)} y={y(p.intensity) - 10} textAnchor="middle" fontSize={10} fill={PEAK_COLOR}>高潮</text>
+          </g>
+        ))}
+        {valleyPoints.map(p => (
+          <g key={`valley-${p.chapter}`}>
+            <circle cx={x(p.chapter)} cy={y(p.intensity)} r={6} fill="none" stroke={VALLEY_COLOR} strokeWidth={2} />
+            <text x={x(p.chapter)} y={y(p.intensity) + 18} textAnchor="middle" fontSize={10} fill={VALLEY_COLOR}>低谷</text>
+          </g>
+        ))}
+
+        {/* 悬停指示线 */}
+        {hovered && (
+          <line
+            x1={x(hovered.chapter)}
+            x2={x(hovered.chapter)}
+            y1={MARGIN.top}
+            y2={HEIGHT - MARGIN.bottom}
+            stroke="var(--color-text-secondary)"
+          />
+        )}
+      </svg>
+
+      {hovered && (
+        <div
+          className="absolute pointer-events-none rounded px-3 py-2 text-xs"
+          style={{
+            top: 8,
+            left: `${(x(hovered.chapter) / WIDTH) * 100}%`,
+            transform: x(hovered.chapter) > WIDTH * 0.7 ? 'translateX(calc(-100% - 12px))' : 'translateX(12px)',
+            background: 'var(--color-bg-tertiary)',
+            border: '1px solid var(--color-border)',
+            color: 'var(--color-text-primary)',
+            whiteSpace: 'nowrap'
+          }}
+        >
+          <div className="font-bold mb-1">{chapterTitle(hovered.chapter)}</div>
+          <div>主导情绪：{hovered.emotion}</div>
+          {EMOTION_SERIES.map(s => (
+            <div key={s.key} style={{ color: s.color }}>{s.label}：{hovered[s.key]}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default EmotionChart
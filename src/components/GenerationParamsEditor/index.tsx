@@ -0,0 +1,91 @@
+import { InputNumber, Select, Tooltip } from 'antd'
+import { ROUTABLE_TASK_TYPES, GENERATION_PRESETS, sanitizeGenerationParams } from '../../services/ai'
+import { TASK_TYPE_LABELS } from '../../types'
+import type { GenerationParams, TaskGenerationParams, UsageTaskType } from '../../types'
+
+interface GenerationParamsEditorProps {
+  value: TaskGenerationParams
+  onChange: (params: TaskGenerationParams) => void
+}
+
+/**
+ * 各任务类型的生成参数编辑器，留空的项使用任务预设
+ */
+function GenerationParamsEditor({ value, onChange }: GenerationParamsEditorProps) {
+  const handleChange = (taskType: UsageTaskType, patch: GenerationParams) => {
+    const params = sanitizeGenerationParams({ ...value[taskType], ...patch })
+    const next: TaskGenerationParams = { ...value }
+    if (Object.keys(params).length > 0) {
+      next[taskType] = params
+    } else {
+      delete next[taskType]
+    }
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-4 text-dark-muted text-xs">
+        <span className="w-24" />
+        <Tooltip title="越高越有变化，越低越稳定（0-2，Claude 最高 1）">
+          <span className="w-28">温度</span>
+        </Tooltip>
+        <Tooltip title="核采样（0-1），一般只调温度即可">
+          <span className="w-28">Top P</span>
+        </Tooltip>
+        <Tooltip title="单次最多输出的 token 数，留空使用模型默认值">
+          <span className="w-32">最大输出</span>
+        </Tooltip>
+        <Tooltip title="输出遇到这些文本时停止（最多 4 条）">
+          <span className="flex-1">停止序列</span>
+        </Tooltip>
+      </div>
+      {ROUTABLE_TASK_TYPES.map(taskType => {
+        const params = value[taskType] || {}
+        const preset = GENERATION_PRESETS[taskType]
+        return (
+          <div key={taskType} className="flex items-center gap-4">
+            <label className="text-dark-text w-24">{TASK_TYPE_LABELS[taskType]}</label>
+            <InputNumber
+              className="w-28"
+              min={0}
+              max={2}
+              step={0.1}
+              placeholder={preset.temperature !== undefined ? `默认 ${preset.temperature}` : '默认'}
+              value={params.temperature}
+              onChange={(v) => handleChange(taskType, { temperature: v ?? undefined })}
+            />
+            <InputNumber
+              className="w-28"
+              min={0.05}
+              max={1}
+              step={0.05}
+              placeholder="默认"
+              value={params.topP}
+              onChange={(v) => handleChange(taskType, { topP: v ?? undefined })}
+            />
+            <InputNumber
+              className="w-32"
+              min={1}
+              step={512}
+              precision={0}
+              placeholder="默认"
+              value={params.maxTokens}
+              onChange={(v) => handleChange(taskType, { maxTokens: v ?? undefined })}
+            />
+            <Select
+              mode="tags"
+              style={{ flex: 1 }}
+              placeholder="回车添加"
+              open={false}
+              value={params.stop || []}
+              onChange={(stop: string[]) => handleChange(taskType, { stop })}
+            />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default GenerationParamsEditor
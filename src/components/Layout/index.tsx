@@ -15,9 +15,17 @@ import {
   LoginOutlined,
   AppstoreOutlined,
   CrownOutlined,
-  InfoCircleOutlined
+  InfoCircleOutlined,
+  BarChartOutlined,
+  FileTextOutlined,
+  BugOutlined,
+  BookOutlined,
+  FlagOutlined,
+  LineChartOutlined
 } from '@ant-design/icons'
 import { useProjectStore } from '../../stores/project'
+import { setUsageProject, loadModelRoutes, loadGenerationParams, loadCallLogConfig, loadRateLimits, loadResponseCacheConfig } from '../../services/ai'
+import { loadActivePromptTemplates } from '../../services/prompt-templates'
 import type { MenuProps } from 'antd'
 import type { ServerUser } from '../../types'
 
@@ -55,6 +63,25 @@ function Layout() {
     checkServerUser()
   }, [])
 
+  // 加载 AI 调用记录、请求限额和响应缓存设置
+  useEffect(() => {
+    loadCallLogConfig()
+    loadRateLimits()
+    loadResponseCacheConfig()
+  }, [])
+
+  // 用量记录关联当前项目，并加载项目的模型路由和生成参数
+  useEffect(() => {
+    setUsageProject(projectId ?? null)
+    loadModelRoutes(projectId ?? null)
+    loadGenerationParams(projectId ?? null)
+  }, [projectId])
+
+  // 加载当前项目选用的提示词模板
+  useEffect(() => {
+    loadActivePromptTemplates(projectId ?? null)
+  }, [projectId])
+
   // 项目相关菜单
   const projectMenuItems: MenuProps['items'] = projectId
     ? [
@@ -78,6 +105,21 @@ function Layout() {
           icon: <FolderOutlined />,
           label: '全书档案'
         },
+        {
+          key: `/project/${projectId}/codex`,
+          icon: <BookOutlined />,
+          label: '设定百科'
+        },
+        {
+          key: `/project/${projectId}/foreshadowing`,
+          icon: <FlagOutlined />,
+          label: '伏笔追踪'
+        },
+        {
+          key: `/project/${projectId}/emotion`,
+          icon: <LineChartOutlined />,
+          label: '情感曲线'
+        },
         {
           key: `/project/${projectId}/settings`,
           icon: <SettingOutlined />,
@@ -106,6 +148,21 @@ function Layout() {
     {
       type: 'divider'
     },
+    {
+      key: '/usage',
+      icon: <BarChartOutlined />,
+      label: '用量统计'
+    },
+    {
+      key: '/ai-calls',
+      icon: <BugOutlined />,
+      label: '调用检查'
+    },
+    {
+      key: '/prompts',
+      icon: <FileTextOutlined />,
+      label: '提示词模板'
+    },
     {
       key: '/settings',
       icon: <SettingOutlined />,
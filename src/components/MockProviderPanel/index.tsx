@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react'
+import { AutoComplete, Button, Input, Popconfirm, Select, Slider, Space, Tag, Tooltip, message } from 'antd'
+import { DeleteOutlined, FolderOpenOutlined, PlusOutlined, ReloadOutlined, SaveOutlined } from '@ant-design/icons'
+import { PROVIDER_INFO, getAllModels, configureMockProvider, resetMockReplay } from '../../services/ai'
+import type { ProviderType, MockProviderConfig, MockScriptRule } from '../../services/ai'
+import { MOCK_SETTINGS_KEY, DEFAULT_MOCK_CONFIG } from '../../services/ai/providers/mock'
+import type { AIFixtureSetInfo } from '../../types'
+
+/**
+ * 离线模拟提供商配置面板（全局设置中选择「离线模拟」时显示）
+ * 录制集、录制目标、回放匹配阈值和脚本规则
+ */
+function MockProviderPanel() {
+  const [config, setConfig] = useState<MockProviderConfig>(DEFAULT_MOCK_CONFIG)
+  const [fixtureSets, setFixtureSets] = useState<AIFixtureSetInfo[]>([])
+
+  const loadFixtureSets = async () => {
+    try {
+      setFixtureSets(await window.electron.aiFixtures.list())
+    } catch (error) {
+      console.error('[MockProviderPanel] 读取录制集失败:', error)
+    }
+  }
+
+  useEffect(() => {
+    const load = async () => {
+      const saved = await window.electron.settings.get(MOCK_SETTINGS_KEY) as Partial<MockProviderConfig> | null
+      setConfig({ ...DEFAULT_MOCK_CONFIG, ...(saved || {}) })
+      await loadFixtureSets()
+    }
+    load()
+  }, [])
+
+  const allModels = getAllModels()
+  const recordTargetOptions = (Object.keys(PROVIDER_INFO) as ProviderType[])
+    .filter(provider => provider !== 'mock' && Object.keys(allModels[provider] || {}).length > 0)
+    .map(provider => ({
+      label: PROVIDER_INFO[provider].name,
+      options: Object.keys(allModels[provider]).map(model => ({ value: `${provider}/${model}`, label: model }))
+    }))
+
+  const updateRule = (index: number, patch: Partial<MockScriptRule>) => {
+    setConfig({
+      ...config,
+      script: config.script.map((rule, i) => (i === index ? { ...rule, ...patch } : rule))
+    })
+  }
+
+  const handleSave = async () => {
+    const next: MockProviderConfig = {
+      ...config,
+      fixtureSet: config.fixtureSet.trim() || DEFAULT_MOCK_CONFIG.fixtureSet,
+      script: config.script.filter(rule => rule.match.trim())
+    }
+    try {
+      await window.electron.settings.set(MOCK_SETTINGS_KEY, next)
+      configureMockProvider(next)
+      setConfig(next)
+      message.success('离线模拟配置已保存')
+    } catch (error: any) {
+      message.error(`保存失败: ${error.message || String(error)}`)
+    }
+  }
+
+  const handleDeleteSet = async (name: string) => {
+    try {
+      await window.electron.aiFixtures.delete(name)
+      if (name === config.fixtureSet) resetMockReplay()
+      await loadFixtureSets()
+      message.success(`录制集「${name}」已删除`)
+    } catch (error: any) {
+      message.error(`删除失败: ${error.message || String(error)}`)
+    }
+  }
+
+  const currentSet = fixtureSets.find(set => set.name === config.fixtureSet)
+
+  return (
+    <div className="p-3 rounded border border-dark-border bg-dark-hover space-y-3">
+      <div>
+        <label className="block text-dark-text mb-2">录制集</label>
+        <Space.Compact className="w-full">
+          <AutoComplete
+            style={{ flex: 1 }}
+            value={config.fixtureSet}
+            onChange={(value) => setConfig({ ...config, fixtureSet: value })}
+            options={fixtureSets.map(set => ({ value: set.name, label: `${set.name}（${set.entryCount} 条）` }))}
+            placeholder="录制集名称，不存在时录制会自动创建"
+          />
+          <Tooltip title="刷新列表">
+            <Button icon={<ReloadOutlined />} onClick={loadFixtureSets} />
+          </Tooltip>
+          <Tooltip title="打开录制目录">
+            <Button icon={<FolderOpenOutlined />} onClick={() => window.electron.aiFixtures.openFolder()} />
+          </Tooltip>
+        </Space.Compact>
+        <div className="flex items-center gap-2 mt-1 text-dark-muted text-xs">
+          {currentSet
+            ? <span>{currentSet.entryCount} 条记录，更新于 {new Date(currentSet.updatedAt).toLocaleString()}</span>
+            : <span>新录制集，录制模式下首次调用时创建</span>}
+          {currentSet && (
+            <Popconfirm
+              title={`删除录制集「${currentSet.name}」？`}
+              onConfirm={() => handleDeleteSet(currentSet.name)}
+              okText="删除"
+              cancelText="取消"
+            >
+              <Button size="small" type="link" danger icon={<DeleteOutlined />}>删除</Button>
+            </Popconfirm>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-dark-text mb-2">录制目标（录制模式）</label>
+        <Select
+          className="w-full"
+          allowClear
+          showSearch
+          placeholder="选择要录制的真实提供商和模型"
+          value={config.recordTarget ? `${config.recordTarget.provider}/${config.recordTarget.model}` : undefined}
+          onChange={(selected?: string) => {
+            if (!selected) {
+              setConfig({ ...config, recordTarget: null })
+              return
+            }
+            // 模型名本身可能包含斜杠，只按第一个斜杠拆分
+            const index = selected.indexOf('/')
+            setConfig({
+              ...config,
+              recordTarget: { provider: selected.slice(0, index) as ProviderType, model: selected.slice(index + 1) }
+            })
+          }}
+          options={recordTargetOptions}
+        />
+      </div>
+
+      <div>
+        <label className="block text-dark-text mb-2">
+          回放模糊匹配阈值 <Tag>{config.fuzzyThreshold.toFixed(2)}</Tag>
+        </label>
+        <Slider
+          min={0.5}
+          max={1}
+          step={0.01}
+          value={config.fuzzyThreshold}
+          onChange={(value) => setConfig({ ...config, fuzzyThreshold: value })}
+        />
+        <div className="text-dark-muted text-xs">
+          提示词哈希不一致时，按文本相似度选取最接近的录制记录；设为 1 只做精确匹配
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-dark-text mb-2">脚本规则（脚本模式，按顺序匹配第一条）</label>
+        <div className="space-y-2">
+          {config.script.map((rule, index) => (
+            <div key={index} className="flex gap-2 items-start">
+              <Input
+                style={{ width: 200 }}
+                placeholder="包含文本或 /正则/"
+                value={rule.match}
+                onChange={(e) => updateRule(index, { match: e.target.value })}
+              />
+              <Input.TextArea
+                className="flex-1"
+                placeholder="返回的响应"
+                value={rule.response}
+                onChange={(e) => updateRule(index, { response: e.target.value })}
+                autoSize={{ minRows: 1, maxRows: 6 }}
+              />
+              <Button
+                danger
+                icon={<DeleteOutlined />}
+                onClick={() => setConfig({ ...config, script: config.script.filter((_, i) => i !== index) })}
+              />
+            </div>
+          ))}
+          <Button
+            icon={<PlusOutlined />}
+            onClick={() => setConfig({ ...config, script: [...config.script, { match: '', response: '' }] })}
+          >
+            添加规则
+          </Button>
+        </div>
+        <Input.TextArea
+          className="mt-2"
+          placeholder="默认响应（没有规则匹配时返回，留空则报错）"
+          value={config.scriptDefault}
+          onChange={(e) => setConfig({ ...config, scriptDefault: e.target.value })}
+          autoSize={{ minRows: 2, maxRows: 6 }}
+        />
+      </div>
+
+      <Space wrap>
+        <Button type="primary" icon={<SaveOutlined />} onClick={handleSave}>
+          保存配置
+        </Button>
+        <Tooltip title="重复提示词的回放顺序从头开始">
+          <Button icon={<ReloadOutlined />} onClick={() => { resetMockReplay(); message.success('回放已重置') }}>
+            重置回放
+          </Button>
+        </Tooltip>
+      </Space>
+    </div>
+  )
+}
+
+export default MockProviderPanel
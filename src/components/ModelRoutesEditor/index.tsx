@@ -0,0 +1,66 @@
+import { Select } from 'antd'
+import { PROVIDER_INFO, ROUTABLE_TASK_TYPES, getAllModels } from '../../services/ai'
+import type { ProviderType, ModelRoutes } from '../../services/ai'
+import { TASK_TYPE_LABELS } from '../../types'
+import type { TaskModelRoutes } from '../../types'
+
+interface ModelRoutesEditorProps {
+  value: TaskModelRoutes
+  onChange: (routes: TaskModelRoutes) => void
+  // 未配置路由时的说明（如"使用当前提供商"、"使用全局设置"）
+  inheritLabel: string
+  // 未配置时实际生效的上级路由，用于在占位符中显示
+  inheritedRoutes?: ModelRoutes
+}
+
+/**
+ * 任务类型 → 提供商/模型的路由编辑器（全局设置与作品设置共用）
+ */
+function ModelRoutesEditor({ value, onChange, inheritLabel, inheritedRoutes }: ModelRoutesEditorProps) {
+  const allModels = getAllModels()
+  const options = (Object.keys(PROVIDER_INFO) as ProviderType[])
+    .filter(provider => Object.keys(allModels[provider] || {}).length > 0)
+    .map(provider => ({
+      label: PROVIDER_INFO[provider].name,
+      options: Object.keys(allModels[provider]).map(model => ({ value: `${provider}/${model}`, label: model }))
+    }))
+
+  const handleChange = (taskType: keyof ModelRoutes, selected?: string) => {
+    const next: TaskModelRoutes = { ...value }
+    if (selected) {
+      // 模型名本身可能包含斜杠，只按第一个斜杠拆分
+      const index = selected.indexOf('/')
+      next[taskType] = { provider: selected.slice(0, index) as ProviderType, model: selected.slice(index + 1) }
+    } else {
+      delete next[taskType]
+    }
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-3">
+      {ROUTABLE_TASK_TYPES.map(taskType => {
+        const route = value[taskType]
+        const inherited = inheritedRoutes?.[taskType]
+        return (
+          <div key={taskType} className="flex items-center gap-4">
+            <label className="text-dark-text w-24">{TASK_TYPE_LABELS[taskType]}</label>
+            <Select
+              style={{ flex: 1, maxWidth: 420 }}
+              allowClear
+              showSearch
+              placeholder={inherited
+                ? `${inheritLabel}（${PROVIDER_INFO[inherited.provider].name} / ${inherited.model}）`
+                : inheritLabel}
+              value={route ? `${route.provider}/${route.model}` : undefined}
+              onChange={(selected) => handleChange(taskType, selected)}
+              options={options}
+            />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default ModelRoutesEditor
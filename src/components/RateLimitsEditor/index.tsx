@@ -0,0 +1,87 @@
+import { Button, InputNumber, Tooltip } from 'antd'
+import { UndoOutlined } from '@ant-design/icons'
+import { PROVIDER_INFO, getRateLimits } from '../../services/ai'
+import type { ProviderType, RateLimitConfig } from '../../services/ai'
+
+interface RateLimitsEditorProps {
+  value: Partial<Record<ProviderType, RateLimitConfig>>
+  onChange: (limits: Partial<Record<ProviderType, RateLimitConfig>>) => void
+}
+
+// 离线模拟不发送真实请求，不需要限额
+const EDITABLE_PROVIDERS = (Object.keys(PROVIDER_INFO) as ProviderType[]).filter(p => p !== 'mock')
+
+/**
+ * 各提供商的请求限额编辑器，未单独设置的提供商显示当前生效的默认值
+ */
+function RateLimitsEditor({ value, onChange }: RateLimitsEditorProps) {
+  const handleChange = (provider: ProviderType, patch: Partial<RateLimitConfig>) => {
+    onChange({ ...value, [provider]: { ...(value[provider] ?? getRateLimits(provider)), ...patch } })
+  }
+
+  const handleReset = (provider: ProviderType) => {
+    const next = { ...value }
+    delete next[provider]
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-4 text-dark-muted text-xs">
+        <span className="w-36" />
+        <Tooltip title="同一密钥同时进行的请求数">
+          <span className="w-28">并发</span>
+        </Tooltip>
+        <Tooltip title="同一密钥每分钟最多发出的请求数，留空不限制">
+          <span className="w-28">每分钟请求</span>
+        </Tooltip>
+        <Tooltip title="同一密钥每分钟最多使用的 token 数（按提示词估算），留空不限制">
+          <span className="w-32">每分钟 token</span>
+        </Tooltip>
+      </div>
+      {EDITABLE_PROVIDERS.map(provider => {
+        const limits = value[provider] ?? getRateLimits(provider)
+        const isCustom = provider in value
+        return (
+          <div key={provider} className="flex items-center gap-4">
+            <label className={`w-36 ${isCustom ? 'text-dark-text' : 'text-dark-muted'}`}>
+              {PROVIDER_INFO[provider].name}
+            </label>
+            <InputNumber
+              className="w-28"
+              min={1}
+              max={32}
+              precision={0}
+              value={limits.concurrency}
+              onChange={(v) => handleChange(provider, { concurrency: v ?? 1 })}
+            />
+            <InputNumber
+              className="w-28"
+              min={1}
+              precision={0}
+              placeholder="不限"
+              value={limits.rpm}
+              onChange={(v) => handleChange(provider, { rpm: v ?? null })}
+            />
+            <InputNumber
+              className="w-32"
+              min={1000}
+              step={10000}
+              precision={0}
+              placeholder="不限"
+              value={limits.tpm}
+              onChange={(v) => handleChange(provider, { tpm: v ?? null })}
+            />
+            {isCustom && (
+              <Tooltip title="恢复默认限额">
+                <Button size="small" type="text" icon={<UndoOutlined />} onClick={() => handleReset(provider)} />
+              </Tooltip>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default RateLimitsEditor
@@ -1,4 +1,4 @@
-import { useEffect } from 'react'
+import { useEffect, useRef } from 'react'
 import { useEditor, EditorContent } from '@tiptap/react'
 import StarterKit from '@tiptap/starter-kit'
 import Placeholder from '@tiptap/extension-placeholder'
@@ -6,7 +6,7 @@ import CharacterCount from '@tiptap/extension-character-count'
 import Highlight from '@tiptap/extension-highlight'
 import TextAlign from '@tiptap/extension-text-align'
 import Underline from '@tiptap/extension-underline'
-import { Button, Tooltip, Divider } from 'antd'
+import { Button, Tooltip, Divider, Space } from 'antd'
 import {
   BoldOutlined,
   ItalicOutlined,
@@ -19,22 +19,40 @@ import {
   AlignCenterOutlined,
   AlignRightOutlined,
   UndoOutlined,
-  RedoOutlined
+  RedoOutlined,
+  SyncOutlined,
+  CheckOutlined,
+  CloseOutlined,
+  PauseCircleOutlined
 } from '@ant-design/icons'
+import type { StreamingStatus } from '../../stores/editor'
 
 interface RichEditorProps {
   content: string
   onChange: (content: string) => void
   placeholder?: string
   editable?: boolean
+  // AI 流式生成区域（生成中只读，结束后由用户决定采用或丢弃）
+  streamingText?: string
+  streamingStatus?: StreamingStatus
+  onStopStreaming?: () => void
+  onAcceptStreaming?: () => void
+  onDiscardStreaming?: () => void
 }
 
 function RichEditor({
   content,
   onChange,
   placeholder = '开始写作...',
-  editable = true
+  editable = true,
+  streamingText = '',
+  streamingStatus = 'idle',
+  onStopStreaming,
+  onAcceptStreaming,
+  onDiscardStreaming
 }: RichEditorProps) {
+  const streamingEndRef = useRef<HTMLDivElement>(null)
+
   const editor = useEditor({
     extensions: [
       StarterKit.configure({
@@ -73,6 +91,18 @@ function RichEditor({
     }
   }, [content, editor])
 
+  // 生成过程中锁定编辑器，避免与流式内容冲突
+  useEffect(() => {
+    editor?.setEditable(editable && streamingStatus !== 'streaming')
+  }, [editor, editable, streamingStatus])
+
+  // 新内容到达时滚动到生成区域底部
+  useEffect(() => {
+    if (streamingStatus === 'streaming') {
+      streamingEndRef.current?.scrollIntoView({ block: 'end' })
+    }
+  }, [streamingText, streamingStatus])
+
   if (!editor) {
     return null
   }
@@ -201,7 +231,54 @@ function RichEditor({
 
       {/* 编辑区域 */}
       <div className="flex-1 overflow-auto p-4 bg-dark-bg">
-        <EditorContent editor={editor} className="h-full" />
+        <EditorContent editor={editor} className={streamingStatus === 'idle' ? 'h-full' : ''} />
+
+        {/* AI 生成区域 */}
+        {streamingStatus !== 'idle' && (
+          <div className="mt-4 p-4 rounded-lg border border-dashed border-primary-500/50 bg-primary-500/5">
+            <div className="flex items-center justify-between mb-3 text-sm">
+              <span className="text-primary-400">
+                {streamingStatus === 'streaming' ? (
+                  <Space><SyncOutlined spin />AI 生成中...</Space>
+                ) : (
+                  '生成结束，请确认是否采用'
+                )}
+                <span className="text-dark-muted ml-2">
+                  {streamingText.replace(/\s/g, '').length} 字
+                </span>
+              </span>
+              <Space>
+                {streamingStatus === 'streaming' && onStopStreaming && (
+                  <Button size="small" icon={<PauseCircleOutlined />} onClick={onStopStreaming}>
+                    停止
+                  </Button>
+                )}
+                {streamingStatus === 'done' && (
+                  <>
+                    <Button size="small" type="primary" icon={<CheckOutlined />} onClick={onAcceptStreaming}>
+                      采用
+                    </Button>
+                    <Button size="small" danger icon={<CloseOutlined />} onClick={onDiscardStreaming}>
+                      丢弃
+                    </Button>
+                  </>
+                )}
+              </Space>
+            </div>
+            <div className="tiptap-editor prose prose-invert max-w-none">
+              {streamingText
+                .split(/\r?\n/)
+                .filter(line => line.trim().length > 0)
+                .map((line, index) => (
+                  <p key={index}>{line}</p>
+                ))}
+              {streamingStatus === 'streaming' && (
+                <span className="text-primary-400 animate-pulse">▍</span>
+              )}
+            </div>
+            <div ref={streamingEndRef} />
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,612 @@
+import { useEffect, useState, useCallback, useRef } from 'react'
+import {
+  Card, Table, Select, Segmented, Input, InputNumber, Button, Switch, Space, Tag, Tooltip, Drawer, Modal,
+  Descriptions, Tabs, Alert, Popconfirm, Empty, message
+} from 'antd'
+import {
+  DeleteOutlined,
+  ReloadOutlined,
+  SettingOutlined,
+  DiffOutlined,
+  CopyOutlined,
+  PlayCircleOutlined,
+  StopOutlined
+} from '@ant-design/icons'
+import type { ColumnsType } from 'antd/es/table'
+import {
+  PROVIDER_INFO,
+  getAllModels,
+  generateWithModel,
+  getCallLogConfig,
+  setCallLogConfig,
+  DEFAULT_CALL_LOG_CONFIG,
+  isAbortError
+} from '../../services/ai'
+import type { ProviderType, CallLogConfig } from '../../services/ai'
+import { diffLines } from '../../utils'
+import { TASK_TYPE_LABELS } from '../../types'
+import type { AICallLog, AICallLogQuery, AICallLogSummary, Project, UsageTaskType } from '../../types'
+
+const cardStyle = { background: 'var(--color-bg-secondary)', border: '1px solid var(--color-border)' }
+
+const MODE_LABELS: Record<AICallLog['mode'], string> = {
+  text: '文本',
+  json: 'JSON',
+  stream: '流式'
+}
+
+// 作品筛选中「未关联作品」的值
+const NO_PROJECT = '__none__'
+
+const providerName = (provider: string) => PROVIDER_INFO[provider as ProviderType]?.name || provider
+const formatLatency = (ms: number) => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`)
+const formatKeyIndex = (index: number | null) => (index === null ? '-' : `#${index + 1}`)
+
+/**
+ * 按行对比两段文本
+ */
+function TextDiff({ before, after }: { before: string; after: string }) {
+  if (before === after) {
+    return <div className="text-dark-muted text-sm py-4 text-center">内容完全相同</div>
+  }
+
+  const lines = diffLines(before, after)
+  return (
+    <pre className="text-xs whitespace-pre-wrap overflow-auto p-3 rounded border border-dark-border" style={{ maxHeight: 480 }}>
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          style={{
+            background: line.type === 'add' ? 'rgba(82, 196, 26, 0.15)' : line.type === 'remove' ? 'rgba(255, 77, 79, 0.15)' : undefined
+          }}
+        >
+          <span className="text-dark-muted select-none">{line.type === 'add' ? '+ ' : line.type === 'remove' ? '- ' : '  '}</span>
+          {line.text || ' '}
+        </div>
+      ))}
+    </pre>
+  )
+}
+
+/**
+ * 可复制的长文本块
+ */
+function TextBlock({ title, text }: { title: string; text: string }) {
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(text)
+    message.success('已复制')
+  }
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-dark-text font-medium">
+          {title}
+          <span className="text-dark-muted text-xs ml-2">{text.length.toLocaleString()} 字</span>
+        </span>
+        <Button size="small" type="text" icon={<CopyOutlined />} onClick={handleCopy} disabled={!text}>复制</Button>
+      </div>
+      {text ? (
+        <pre className="text-xs whitespace-pre-wrap overflow-auto p-3 rounded border border-dark-border" style={{ maxHeight: 360 }}>
+          {text}
+        </pre>
+      ) : (
+        <div className="text-dark-muted text-xs">未记录（只记录元数据或内容为空）</div>
+      )}
+    </div>
+  )
+}
+
+function AICallLogs() {
+  const [logs, setLogs] = useState<AICallLogSummary[]>([])
+  const [projects, setProjects] = useState<Project[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  // 筛选
+  const [projectFilter, setProjectFilter] = useState<string | undefined>()
+  const [taskFilter, setTaskFilter] = useState<UsageTaskType | undefined>()
+  const [statusFilter, setStatusFilter] = useState<'all' | 'success' | 'error'>('all')
+  const [search, setSearch] = useState('')
+
+  // 详情与重新运行
+  const [detail, setDetail] = useState<AICallLog | null>(null)
+  const [rerunTarget, setRerunTarget] = useState<string | undefined>()
+  const [rerunResult, setRerunResult] = useState<{ target: string; text: string; error?: string } | null>(null)
+  const [isRerunning, setIsRerunning] = useState(false)
+  const rerunAbortRef = useRef<AbortController | null>(null)
+
+  // 对比
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [comparison, setComparison] = useState<[AICallLog, AICallLog] | null>(null)
+
+  // 记录设置
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+  const [settings, setSettings] = useState<CallLogConfig>(getCallLogConfig())
+
+  const loadLogs = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const query: AICallLogQuery = {
+        projectId: projectFilter === NO_PROJECT ? null : projectFilter,
+        taskType: taskFilter,
+        status: statusFilter === 'all' ? undefined : statusFilter,
+        search: search.trim() || undefined
+      }
+      setLogs(await window.electron.db.getAICallLogs(query))
+    } catch (error) {
+      console.error('Failed to load AI call logs:', error)
+      message.error('加载调用记录失败')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [projectFilter, taskFilter, statusFilter, search])
+
+  useEffect(() => {
+    loadLogs()
+  }, [loadLogs])
+
+  useEffect(() => {
+    window.electron.db.getProjects().then(setProjects).catch(() => {})
+  }, [])
+
+  const openDetail = async (id: string) => {
+    const log = await window.electron.db.getAICallLog(id)
+    if (!log) {
+      message.warning('记录已被删除')
+      loadLogs()
+      return
+    }
+    setDetail(log)
+    setRerunResult(null)
+  }
+
+  const closeDetail = () => {
+    rerunAbortRef.current?.abort()
+    setDetail(null)
+  }
+
+  const handleRerun = async () => {
+    if (!detail || !rerunTarget) return
+    // 模型名本身可能包含斜杠，只按第一个斜杠拆分
+    const index = rerunTarget.indexOf('/')
+    const target = { provider: rerunTarget.slice(0, index) as ProviderType, model: rerunTarget.slice(index + 1) }
+
+    const controller = new AbortController()
+    rerunAbortRef.current = controller
+    setIsRerunning(true)
+    setRerunResult(null)
+    try {
+      const text = await generateWithModel(detail.prompt, target, controller.signal, detail.taskType, { jsonMode: detail.mode === 'json' })
+      setRerunResult({ target: rerunTarget, text })
+    } catch (error: any) {
+      if (!isAbortError(error)) {
+        setRerunResult({ target: rerunTarget, text: '', error: error.message || String(error) })
+      }
+    } finally {
+      rerunAbortRef.current = null
+      setIsRerunning(false)
+      loadLogs()
+    }
+  }
+
+  const handleCompare = async () => {
+    const [a, b] = await Promise.all(selectedIds.map(id => window.electron.db.getAICallLog(id)))
+    if (!a || !b) {
+      message.warning('所选记录已被删除')
+      loadLogs()
+      return
+    }
+    // 较早的调用放在左侧
+    setComparison(a.createdAt <= b.createdAt ? [a, b] : [b, a])
+  }
+
+  const handleDelete = async (id: string) => {
+    await window.electron.db.deleteAICallLog(id)
+    setSelectedIds(ids => ids.filter(selected => selected !== id))
+    if (detail?.id === id) closeDetail()
+    loadLogs()
+  }
+
+  const handleClear = async () => {
+    try {
+      await window.electron.db.clearAICallLogs()
+      setSelectedIds([])
+      message.success('调用记录已清空')
+      loadLogs()
+    } catch (error) {
+      console.error('Failed to clear AI call logs:', error)
+      message.error('清空失败')
+    }
+  }
+
+  const handleSaveSettings = async () => {
+    const next: CallLogConfig = {
+      ...settings,
+      redactTerms: settings.redactTerms.map(term => term.trim()).filter(Boolean),
+      retention: Math.max(10, settings.retention || 10)
+    }
+    try {
+      await setCallLogConfig(next)
+      setSettings(next)
+      setIsSettingsOpen(false)
+      message.success('记录设置已保存，新的保留条数在下次记录时生效')
+    } catch (error: any) {
+      message.error(`保存失败: ${error.message || String(error)}`)
+    }
+  }
+
+  const allModels = getAllModels()
+  const modelOptions = (Object.keys(PROVIDER_INFO) as ProviderType[])
+    .filter(provider => Object.keys(allModels[provider] || {}).length > 0)
+    .map(provider => ({
+      label: PROVIDER_INFO[provider].name,
+      options: Object.keys(allModels[provider]).map(model => ({ value: `${provider}/${model}`, label: model }))
+    }))
+
+  const columns: ColumnsType<AICallLogSummary> = [
+    {
+      title: '时间',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      width: 170,
+      render: (value: string) => new Date(value).toLocaleString()
+    },
+    {
+      title: '作品',
+      dataIndex: 'projectTitle',
+      key: 'projectTitle',
+      width: 140,
+      ellipsis: true,
+      render: (_, row) => row.projectTitle || <span className="text-dark-muted">{row.projectId ? '已删除作品' : '未关联'}</span>
+    },
+    {
+      title: '任务',
+      dataIndex: 'taskType',
+      key: 'taskType',
+      width: 110,
+      render: (_, row) => (
+        <Space size={4}>
+          <Tag>{TASK_TYPE_LABELS[row.taskType] || row.taskType}</Tag>
+          {row.mode !== 'text' && <Tag color="purple">{MODE_LABELS[row.mode]}</Tag>}
+        </Space>
+      )
+    },
+    {
+      title: '模型',
+      dataIndex: 'model',
+      key: 'model',
+      render: (_, row) => (
+        <span>
+          {row.model || '-'}
+          <span className="text-dark-muted text-xs ml-2">{providerName(row.provider)}</span>
+          {row.isFallback && <Tag color="orange" className="ml-2">备用</Tag>}
+        </span>
+      )
+    },
+    {
+      title: '密钥',
+      dataIndex: 'keyIndex',
+      key: 'keyIndex',
+      width: 60,
+      align: 'center',
+      render: (value: number | null) => formatKeyIndex(value)
+    },
+    {
+      title: '耗时',
+      dataIndex: 'latencyMs',
+      key: 'latencyMs',
+      width: 80,
+      align: 'right',
+      render: (value: number) => formatLatency(value)
+    },
+    {
+      title: '尝试',
+      dataIndex: 'attemptCount',
+      key: 'attemptCount',
+      width: 60,
+      align: 'center',
+      render: (value: number) => (value > 1 ? <Tag color="gold">{value}</Tag> : value)
+    },
+    {
+      title: '状态',
+      dataIndex: 'error',
+      key: 'error',
+      width: 70,
+      render: (error: string | null) => (error
+        ? <Tooltip title={error}><Tag color="red">失败</Tag></Tooltip>
+        : <Tag color="green">成功</Tag>)
+    }
+  ]
+
+  const renderDetail = (log: AICallLog) => (
+    <>
+      <Descriptions size="small" column={2} bordered className="mb-4">
+        <Descriptions.Item label="时间">{new Date(log.createdAt).toLocaleString()}</Descriptions.Item>
+        <Descriptions.Item label="任务">
+          {TASK_TYPE_LABELS[log.taskType] || log.taskType} · {MODE_LABELS[log.mode]}
+        </Descriptions.Item>
+        <Descriptions.Item label="模型">
+          {providerName(log.provider)} / {log.model || '-'}
+          {log.isFallback && <Tag color="orange" className="ml-2">备用</Tag>}
+        </Descriptions.Item>
+        <Descriptions.Item label="密钥">{formatKeyIndex(log.keyIndex)}</Descriptions.Item>
+        <Descriptions.Item label="总耗时">{formatLatency(log.latencyMs)}</Descriptions.Item>
+        <Descriptions.Item label="遮盖">{log.redacted ? '已遮盖敏感信息' : '原文'}</Descriptions.Item>
+      </Descriptions>
+
+      {log.attempts.length > 1 && (
+        <div className="mb-4">
+          <div className="text-dark-text font-medium mb-1">尝试记录</div>
+          {log.attempts.map((attempt, index) => (
+            <div key={index} className="text-xs py-1 border-b border-dark-border">
+              <span className="text-dark-muted mr-2">{index + 1}.</span>
+              {providerName(attempt.provider)} / {attempt.model}
+              <span className="text-dark-muted ml-2">密钥 {formatKeyIndex(attempt.keyIndex)} · {formatLatency(attempt.latencyMs)}</span>
+              {attempt.error
+                ? <span className="text-red-500 ml-2">{attempt.error}</span>
+                : <Tag color="green" className="ml-2">成功</Tag>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {log.error && <Alert type="error" showIcon message="调用失败" description={log.error} className="mb-4" />}
+
+      <TextBlock title="提示词" text={log.prompt} />
+      <TextBlock title="响应" text={log.response} />
+
+      <Card size="small" title="用其他模型重新运行" style={cardStyle}>
+        <Space.Compact className="w-full mb-3">
+          <Select
+            style={{ flex: 1 }}
+            showSearch
+            placeholder="选择提供商和模型"
+            value={rerunTarget}
+            onChange={setRerunTarget}
+            options={modelOptions}
+          />
+          {isRerunning ? (
+            <Button danger icon={<StopOutlined />} onClick={() => rerunAbortRef.current?.abort()}>停止</Button>
+          ) : (
+            <Button type="primary" icon={<PlayCircleOutlined />} onClick={handleRerun} disabled={!rerunTarget || !log.prompt}>
+              运行
+            </Button>
+          )}
+        </Space.Compact>
+        {!log.prompt && <div className="text-dark-muted text-xs">该记录没有保存提示词，无法重新运行</div>}
+        {isRerunning && <div className="text-dark-muted text-xs">正在生成...</div>}
+        {rerunResult && (rerunResult.error ? (
+          <Alert type="error" showIcon message={`${rerunResult.target} 调用失败`} description={rerunResult.error} />
+        ) : (
+          <Tabs
+            size="small"
+            items={[
+              { key: 'result', label: rerunResult.target, children: <TextBlock title="新响应" text={rerunResult.text} /> },
+              { key: 'diff', label: '与原响应对比', children: <TextDiff before={log.response} after={rerunResult.text} /> }
+            ]}
+          />
+        ))}
+      </Card>
+    </>
+  )
+
+  const renderComparison = ([a, b]: [AICallLog, AICallLog]) => {
+    const rows: { label: string; a: string; b: string }[] = [
+      { label: '时间', a: new Date(a.createdAt).toLocaleString(), b: new Date(b.createdAt).toLocaleString() },
+      { label: '任务', a: `${TASK_TYPE_LABELS[a.taskType] || a.taskType} · ${MODE_LABELS[a.mode]}`, b: `${TASK_TYPE_LABELS[b.taskType] || b.taskType} · ${MODE_LABELS[b.mode]}` },
+      { label: '模型', a: `${providerName(a.provider)} / ${a.model}`, b: `${providerName(b.provider)} / ${b.model}` },
+      { label: '密钥', a: formatKeyIndex(a.keyIndex), b: formatKeyIndex(b.keyIndex) },
+      { label: '耗时', a: formatLatency(a.latencyMs), b: formatLatency(b.latencyMs) },
+      { label: '尝试次数', a: String(a.attempts.length), b: String(b.attempts.length) },
+      { label: '提示词字数', a: a.prompt.length.toLocaleString(), b: b.prompt.length.toLocaleString() },
+      { label: '响应字数', a: a.response.length.toLocaleString(), b: b.response.length.toLocaleString() },
+      { label: '错误', a: a.error || '-', b: b.error || '-' }
+    ]
+
+    return (
+      <>
+        <Table
+          size="small"
+          className="mb-4"
+          pagination={false}
+          rowKey="label"
+          dataSource={rows}
+          columns={[
+            { title: '', dataIndex: 'label', key: 'label', width: 100 },
+            { title: '较早的调用', dataIndex: 'a', key: 'a' },
+            { title: '较晚的调用', dataIndex: 'b', key: 'b' }
+          ]}
+          rowClassName={(row) => (row.a !== row.b && row.label !== '时间' ? 'font-medium text-primary-500' : '')}
+        />
+        <Tabs
+          items={[
+            { key: 'prompt', label: '提示词差异', children: <TextDiff before={a.prompt} after={b.prompt} /> },
+            { key: 'response', label: '响应差异', children: <TextDiff before={a.response} after={b.response} /> }
+          ]}
+        />
+      </>
+    )
+  }
+
+  return (
+    <div className="p-6 fade-in max-w-6xl mx-auto">
+      {/* 头部 */}
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-dark-text mb-1">调用检查器</h1>
+          <p className="text-dark-muted">
+            每次 AI 调用的提示词、原始响应、模型、耗时和错误，用于排查生成结果异常。记录只保存在本机
+          </p>
+        </div>
+        <Space>
+          <Button icon={<SettingOutlined />} onClick={() => { setSettings(getCallLogConfig()); setIsSettingsOpen(true) }}>
+            记录设置
+          </Button>
+          <Popconfirm
+            title="清空所有调用记录？"
+            description="此操作不可恢复"
+            onConfirm={handleClear}
+            okText="清空"
+            cancelText="取消"
+            okButtonProps={{ danger: true }}
+          >
+            <Button danger icon={<DeleteOutlined />}>清空</Button>
+          </Popconfirm>
+        </Space>
+      </div>
+
+      {!getCallLogConfig().enabled && (
+        <Alert type="warning" showIcon className="mb-4" message="调用记录已关闭，新的 AI 调用不会被记录" />
+      )}
+
+      <Card style={cardStyle}>
+        {/* 筛选 */}
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <Select
+            allowClear
+            style={{ width: 180 }}
+            placeholder="全部作品"
+            value={projectFilter}
+            onChange={setProjectFilter}
+            options={[
+              { value: NO_PROJECT, label: '未关联作品' },
+              ...projects.map(project => ({ value: project.id, label: project.title }))
+            ]}
+          />
+          <Select
+            allowClear
+            style={{ width: 140 }}
+            placeholder="全部任务"
+            value={taskFilter}
+            onChange={setTaskFilter}
+            options={(Object.keys(TASK_TYPE_LABELS) as UsageTaskType[]).map(key => ({ value: key, label: TASK_TYPE_LABELS[key] }))}
+          />
+          <Segmented
+            value={statusFilter}
+            onChange={(value) => setStatusFilter(value as typeof statusFilter)}
+            options={[
+              { label: '全部', value: 'all' },
+              { label: '成功', value: 'success' },
+              { label: '失败', value: 'error' }
+            ]}
+          />
+          <Input.Search
+            allowClear
+            style={{ width: 220 }}
+            placeholder="搜索提示词或响应"
+            onSearch={setSearch}
+          />
+          <Button icon={<ReloadOutlined />} onClick={loadLogs} loading={isLoading} />
+          <div className="flex-1" />
+          <Tooltip title="勾选两条记录后对比提示词和响应">
+            <Button icon={<DiffOutlined />} disabled={selectedIds.length !== 2} onClick={handleCompare}>
+              对比所选（{selectedIds.length}/2）
+            </Button>
+          </Tooltip>
+        </div>
+
+        <Table
+          columns={columns}
+          dataSource={logs}
+          rowKey="id"
+          size="small"
+          loading={isLoading}
+          pagination={{ pageSize: 20, size: 'small' }}
+          locale={{ emptyText: <Empty description="暂无调用记录" /> }}
+          rowSelection={{
+            selectedRowKeys: selectedIds,
+            onChange: (keys) => setSelectedIds((keys as string[]).slice(-2)),
+            hideSelectAll: true
+          }}
+          expandable={{
+            expandedRowRender: (row) => (
+              <div className="text-xs text-dark-muted whitespace-pre-wrap">
+                {row.promptPreview || '（未记录提示词）'}
+                {row.promptLength > row.promptPreview.length && ' ...'}
+              </div>
+            )
+          }}
+          onRow={(row) => ({
+            onClick: () => openDetail(row.id),
+            style: { cursor: 'pointer' }
+          })}
+        />
+      </Card>
+
+      {/* 详情 */}
+      <Drawer
+        title="调用详情"
+        width={760}
+        open={!!detail}
+        onClose={closeDetail}
+        extra={detail && (
+          <Popconfirm title="删除这条记录？" onConfirm={() => handleDelete(detail.id)} okText="删除" cancelText="取消">
+            <Button danger size="small" icon={<DeleteOutlined />}>删除</Button>
+          </Popconfirm>
+        )}
+      >
+        {detail && renderDetail(detail)}
+      </Drawer>
+
+      {/* 对比 */}
+      <Modal
+        title="调用对比"
+        width={960}
+        open={!!comparison}
+        onCancel={() => setComparison(null)}
+        footer={null}
+      >
+        {comparison && renderComparison(comparison)}
+      </Modal>
+
+      {/* 记录设置 */}
+      <Modal
+        title="记录设置"
+        open={isSettingsOpen}
+        onCancel={() => setIsSettingsOpen(false)}
+        onOk={handleSaveSettings}
+        okText="保存"
+        cancelText="取消"
+      >
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <span className="text-dark-text">记录 AI 调用</span>
+            <Switch checked={settings.enabled} onChange={(checked) => setSettings({ ...settings, enabled: checked })} />
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-dark-text">保存提示词和响应正文</span>
+            <Switch checked={settings.storeContent} onChange={(checked) => setSettings({ ...settings, storeContent: checked })} />
+          </div>
+          <div className="text-dark-muted text-xs -mt-2">关闭后只记录模型、耗时、重试和错误等元数据</div>
+          <div className="flex items-center justify-between">
+            <span className="text-dark-text">遮盖敏感信息</span>
+            <Switch checked={settings.redact} onChange={(checked) => setSettings({ ...settings, redact: checked })} />
+          </div>
+          <div className="text-dark-muted text-xs -mt-2">写入前遮盖 API 密钥、授权头、邮箱、手机号和下面的自定义敏感词</div>
+          {settings.redact && (
+            <Select
+              mode="tags"
+              className="w-full"
+              placeholder="自定义敏感词，回车添加"
+              value={settings.redactTerms}
+              onChange={(terms) => setSettings({ ...settings, redactTerms: terms })}
+              open={false}
+            />
+          )}
+          <div className="flex items-center justify-between">
+            <span className="text-dark-text">最多保留条数</span>
+            <InputNumber
+              min={10}
+              max={10000}
+              step={100}
+              value={settings.retention}
+              onChange={(value) => setSettings({ ...settings, retention: value || DEFAULT_CALL_LOG_CONFIG.retention })}
+            />
+          </div>
+        </div>
+      </Modal>
+    </div>
+  )
+}
+
+export default AICallLogs
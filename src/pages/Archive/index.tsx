@@ -1,10 +1,10 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useState, useRef } from 'react'
 import { useParams } from 'react-router-dom'
-import { Card, Table, Tag, Spin, Button, message, Progress, Tooltip, Modal } from 'antd'
-import { RobotOutlined, SyncOutlined, ReloadOutlined, TeamOutlined } from '@ant-design/icons'
+import { Card, Table, Tag, Spin, Button, message, Progress, Tooltip, Modal, Space } from 'antd'
+import { RobotOutlined, SyncOutlined, ReloadOutlined, TeamOutlined, PauseCircleOutlined } from '@ant-design/icons'
 import type { ColumnsType } from 'antd/es/table'
 import { useProjectStore } from '../../stores/project'
-import { generateSummary, isAIReady, initAI, setProvider, getCurrentProviderType, analyzeAllChaptersForArchive } from '../../services/ai'
+import { generateSummary, isAIReady, initAI, setProvider, getCurrentProviderType, analyzeAllChaptersForArchive, isAbortError } from '../../services/ai'
 import { getAIProviderConfig } from '../../utils'
 import type { Character, CharacterRelation } from '../../types'
 
@@ -28,6 +28,7 @@ function Archive() {
   const [isGeneratingSummary, setIsGeneratingSummary] = useState(false)
   const [isUpdatingArchive, setIsUpdatingArchive] = useState(false)
   const [updateProgress, setUpdateProgress] = useState({ current: 0, total: 0 })
+  const archiveAbortRef = useRef<AbortController | null>(null)
   const [showRelationsModal, setShowRelationsModal] = useState<Character | null>(null)
 
   useEffect(() => {
@@ -82,12 +83,15 @@ function Archive() {
 
     setIsUpdatingArchive(true)
     setUpdateProgress({ current: 0, total: chaptersWithContent.length })
+    const controller = new AbortController()
+    archiveAbortRef.current = controller
 
     try {
       const result = await analyzeAllChaptersForArchive(
         chaptersWithContent.map(ch => ({ title: ch.title, content: ch.content })),
         characterNames,
-        (current, total) => setUpdateProgress({ current, total })
+        (current, total) => setUpdateProgress({ current, total }),
+        controller.signal
       )
 
       // 更新每个角色的档案
@@ -107,8 +111,13 @@ function Archive() {
       await loadCharacters(projectId)
       message.success(`已分析 ${chaptersWithContent.length} 章，更新 ${result.characterUpdates.length} 个角色档案`)
     } catch (error: any) {
+      if (isAbortError(error)) {
+        message.info('已停止分析，档案未更新')
+        return
+      }
       message.error(error.message || '分析失败，请重试')
     } finally {
+      archiveAbortRef.current = null
       setIsUpdatingArchive(false)
       setUpdateProgress({ current: 0, total: 0 })
     }
@@ -328,15 +337,27 @@ function Archive() {
         title={
           <div className="flex items-center justify-between">
             <span>人物档案表</span>
-            <Button
-              type="primary"
-              size="small"
-              icon={isUpdatingArchive ? <SyncOutlined spin /> : <RobotOutlined />}
-              onClick={handleUpdateCharacterArchive}
-              loading={isUpdatingArchive}
-            >
-              AI 更新档案
-            </Button>
+            <Space>
+              <Button
+                type="primary"
+                size="small"
+                icon={isUpdatingArchive ? <SyncOutlined spin /> : <RobotOutlined />}
+                onClick={handleUpdateCharacterArchive}
+                loading={isUpdatingArchive}
+              >
+                AI 更新档案
+              </Button>
+              {isUpdatingArchive && (
+                <Button
+                  size="small"
+                  danger
+                  icon={<PauseCircleOutlined />}
+                  onClick={() => archiveAbortRef.current?.abort()}
+                >
+                  停止
+                </Button>
+              )}
+            </Space>
           </div>
         }
         style={{ background: '#16213e', border: '1px solid #0f3460' }}
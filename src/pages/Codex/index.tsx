@@ -0,0 +1,608 @@
+import { useEffect, useState, useMemo, useCallback, useRef } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import {
+  Card, List, Input, Select, Segmented, Button, Space, Tag, Timeline, Modal, Popconfirm, Progress, Empty, Spin, Tooltip, Slider, message
+} from 'antd'
+import {
+  BookOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  MergeCellsOutlined,
+  PlusOutlined,
+  SyncOutlined,
+  PauseCircleOutlined,
+  UnorderedListOutlined,
+  ApartmentOutlined
+} from '@ant-design/icons'
+import { useProjectStore } from '../../stores/project'
+import CodexGraph from '../../components/CodexGraph'
+import {
+  loadCodex,
+  searchEntities,
+  getRelationGraph,
+  indexCodexChapters,
+  saveCodexEntity,
+  deleteCodexEntity,
+  mergeCodexEntities
+} from '../../services/codex'
+import type { Codex as CodexData } from '../../services/codex'
+import { isAIReady, isAbortError } from '../../services/ai'
+import { CODEX_TYPE_LABELS } from '../../types'
+import type { Chapter, CodexEntity, CodexEntityType } from '../../types'
+
+const { TextArea } = Input
+
+const cardStyle = { background: 'var(--color-bg-secondary)', border: '1px solid var(--color-border)' }
+
+const TYPE_COLORS: Record<CodexEntityType, string> = {
+  character: 'gold',
+  location: 'green',
+  item: 'purple',
+  faction: 'red',
+  concept: 'blue'
+}
+
+const TYPE_OPTIONS = (Object.keys(CODEX_TYPE_LABELS) as CodexEntityType[]).map(type => ({
+  value: type,
+  label: CODEX_TYPE_LABELS[type]
+}))
+
+type TypeFilter = CodexEntityType | 'all'
+type ViewMode = 'list' | 'graph'
+
+// 编辑弹窗中的表单内容
+interface EntityDraft {
+  id: string | null   // 新建时为 null
+  name: string
+  type: CodexEntityType
+  aliases: string[]
+  description: string
+}
+
+/**
+ * 按属性出现的章节分组，用于时间线展示
+ */
+function groupAttributesByChapter(entity: CodexEntity): { chapter: number; changes: { key: string; value: string }[] }[] {
+  const groups = new Map<number, { key: string; value: string }[]>()
+  for (const attr of [...entity.attributes].sort((a, b) => a.chapter - b.chapter)) {
+    const list = groups.get(attr.chapter) || []
+    list.push({ key: attr.key, value: attr.value })
+    groups.set(attr.chapter, list)
+  }
+  return [...groups.entries()].map(([chapter, changes]) => ({ chapter, changes }))
+}
+
+function Codex() {
+  const { projectId } = useParams<{ projectId: string }>()
+  const navigate = useNavigate()
+  const { currentProject, chapters, volumes, loadProject } = useProjectStore()
+
+  const [codex, setCodex] = useState<CodexData | null>(null)
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all')
+  const [query, setQuery] = useState('')
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [view, setView] = useState<ViewMode>('list')
+  const [graphChapter, setGraphChapter] = useState<number | null>(null)  // null 表示最新
+
+  // 索引进度
+  const [isIndexing, setIsIndexing] = useState(false)
+  const [indexProgress, setIndexProgress] = useState({ current: 0, total: 0 })
+  const indexAbortRef = useRef<AbortController | null>(null)
+
+  // 编辑 / 合并
+  const [draft, setDraft] = useState<EntityDraft | null>(null)
+  const [mergeSourceIds, setMergeSourceIds] = useState<string[] | null>(null)
+
+  useEffect(() => {
+    if (projectId) {
+      loadProject(projectId)
+    }
+  }, [projectId, loadProject])
+
+  const refreshCodex = useCallback(async () => {
+    if (!projectId) return
+    try {
+      setCodex(await loadCodex(projectId))
+    } catch (error: any) {
+      message.error(`加载 Codex 失败: ${error.message || String(error)}`)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    refreshCodex()
+  }, [refreshCodex])
+
+  // 全书顺序的章节（章节编号 = 下标 + 1）
+  const sortedChapters = useMemo(() => {
+    return [...chapters].sort((a, b) => {
+      const volA = volumes.find(v => v.id === a.volumeId)
+      const volB = volumes.find(v => v.id === b.volumeId)
+      if (volA && volB && volA.order !== volB.order) {
+        return volA.order - volB.order
+      }
+      return a.order - b.order
+    })
+  }, [chapters, volumes])
+
+  const chapterAt = (chapterNumber: number): Chapter | undefined => sortedChapters[chapterNumber - 1]
+
+  const chapterLabel = (chapterNumber: number) => {
+    const chapter = chapterAt(chapterNumber)
+    return chapter ? `第${chapterNumber}章 ${chapter.title}` : `第${chapterNumber}章`
+  }
+
+  const openChapter = (chapterNumber: number) => {
+    const chapter = chapterAt(chapterNumber)
+    if (chapter) {
+      navigate(`/project/${projectId}/editor?chapter=${chapter.id}`)
+    } else {
+      message.warning('章节不存在，可能已被删除')
+    }
+  }
+
+  const entities = codex?.entities || []
+  const filteredEntities = useMemo(() => {
+    if (!codex) return []
+    const type = typeFilter === 'all' ? undefined : typeFilter
+    return query.trim()
+      ? searchEntities(codex, query.trim(), type)
+      : codex.entities.filter(e => !type || e.type === type)
+  }, [codex, query, typeFilter])
+
+  const typeCounts = useMemo(() => {
+    const counts: Partial<Record<CodexEntityType, number>> = {}
+    for (const entity of entities) {
+      counts[entity.type] = (counts[entity.type] || 0) + 1
+    }
+    return counts
+  }, [entities])
+
+  const selected = entities.find(e => e.id === selectedId) || null
+  const entityName = (id: string) => entities.find(e => e.id === id)?.name
+
+  // 关系图的章节范围：取正文章节数和索引中出现过的最大章节
+  const maxChapter = useMemo(() => {
+    let max = sortedChapters.length
+    for (const entity of entities) {
+      for (const chapter of entity.appearances) max = Math.max(max, chapter)
+    }
+    return Math.max(max, 1)
+  }, [entities, sortedChapters.length])
+  const currentGraphChapter = graphChapter === null ? maxChapter : Math.min(graphChapter, maxChapter)
+
+  const graph = useMemo(
+    () => (codex ? getRelationGraph(codex, currentGraphChapter) : { nodes: [], edges: [] }),
+    [codex, currentGraphChapter]
+  )
+
+  const handleGraphSelect = (entityId: string) => {
+    setSelectedId(entityId)
+    setView('list')
+  }
+  // ==================== 索引 ====================
+
+  const handleIndex = async () => {
+    if (!projectId) return
+    if (!isAIReady()) {
+      message.warning('请先在全局设置中配置 AI 服务')
+      return
+    }
+
+    const controller = new AbortController()
+    indexAbortRef.current = controller
+    setIsIndexing(true)
+    setIndexProgress({ current: 0, total: sortedChapters.length })
+    try {
+      await indexCodexChapters(
+        projectId,
+        sortedChapters.map(c => ({ id: c.id, content: c.content })),
+        (current, total) => setIndexProgress({ current, total }),
+        controller.signal
+      )
+      if (controller.signal.aborted) {
+        message.info('已停止索引')
+      } else {
+        message.success('Codex 索引已更新')
+      }
+    } catch (error: any) {
+      if (!isAbortError(error)) {
+        message.error(`索引失败: ${error.message || String(error)}`)
+      }
+    } finally {
+      indexAbortRef.current = null
+      setIsIndexing(false)
+      await refreshCodex()
+    }
+  }
+
+  // ==================== 编辑 ====================
+
+  const handleSaveDraft = async () => {
+    if (!projectId || !draft) return
+    const name = draft.name.trim()
+    if (!name) {
+      message.warning('请输入名称')
+      return
+    }
+
+    const existing = draft.id ? entities.find(e => e.id === draft.id) : null
+    const entity: CodexEntity = existing
+      ? { ...existing, name, type: draft.type, aliases: draft.aliases, description: draft.description }
+      : {
+          id: `entity_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+          name,
+          type: draft.type,
+          aliases: draft.aliases,
+          description: draft.description,
+          firstAppearance: 0,
+          appearances: [],
+          attributes: [],
+          relations: []
+        }
+
+    try {
+      await saveCodexEntity(projectId, entity)
+      setDraft(null)
+      setSelectedId(entity.id)
+      await refreshCodex()
+    } catch (error: any) {
+      message.error(`保存失败: ${error.message || String(error)}`)
+    }
+  }
+
+  const handleDelete = async (entity: CodexEntity) => {
+    if (!projectId) return
+    try {
+      await deleteCodexEntity(projectId, entity.id)
+      setSelectedId(null)
+      await refreshCodex()
+      message.success(`已删除「${entity.name}」`)
+    } catch (error: any) {
+      message.error(`删除失败: ${error.message || String(error)}`)
+    }
+  }
+
+  const handleMerge = async () => {
+    if (!projectId || !selected || !mergeSourceIds?.length) return
+    try {
+      await mergeCodexEntities(projectId, selected.id, mergeSourceIds)
+      setMergeSourceIds(null)
+      await refreshCodex()
+      message.success(`已合并到「${selected.name}」`)
+    } catch (error: any) {
+      message.error(`合并失败: ${error.message || String(error)}`)
+    }
+  }
+
+  if (!currentProject || !codex) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <Spin size="large" tip="加载中..." />
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 fade-in">
+      {/* 头部 */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-dark-text mb-1">设定百科</h1>
+          <p className="text-dark-muted">
+            自动索引《{currentProject.title}》中的人物、地点、物品、势力和概念，保存章节后增量更新
+          </p>
+        </div>
+        <Space>
+          <Segmented
+            value={view}
+            onChange={(value) => setView(value as ViewMode)}
+            options={[
+              { value: 'list', label: '条目', icon: <UnorderedListOutlined /> },
+              { value: 'graph', label: '关系图', icon: <ApartmentOutlined /> }
+            ]}
+          />
+          {isIndexing && (
+            <Button danger icon={<PauseCircleOutlined />} onClick={() => indexAbortRef.current?.abort()}>
+              停止
+            </Button>
+          )}
+          <Tooltip title="按全书顺序索引所有章节，已索引且未修改的章节会跳过">
+            <Button type="primary" icon={<SyncOutlined spin={isIndexing} />} loading={isIndexing} onClick={handleIndex}>
+              更新索引
+            </Button>
+          </Tooltip>
+        </Space>
+      </div>
+
+      {isIndexing && indexProgress.total > 0 && (
+        <div className="mb-4">
+          <Progress
+            percent={Math.floor((indexProgress.current / indexProgress.total) * 100)}
+            status="active"
+            strokeColor={{ '0%': '#0ea5e9', '100%': '#0284c7' }}
+          />
+          <p className="text-dark-muted text-sm">
+            正在索引第 {indexProgress.current}/{indexProgress.total} 章...
+          </p>
+        </div>
+      )}
+
+      {view === 'graph' ? (
+        <Card
+          style={cardStyle}
+          title={`关系图（截至${chapterLabel(currentGraphChapter)}）`}
+          extra={
+            <div className="flex items-center gap-3" style={{ width: 360 }}>
+              <span className="text-dark-muted text-sm whitespace-nowrap">章节</span>
+              <Slider
+                className="flex-1"
+                min={1}
+                max={maxChapter}
+                value={currentGraphChapter}
+                tooltip={{ formatter: (value) => (value ? chapterLabel(value) : '') }}
+                onChange={(value) => setGraphChapter(value === maxChapter ? null : value)}
+              />
+            </div>
+          }
+        >
+          <CodexGraph
+            nodes={graph.nodes}
+            edges={graph.edges}
+            uptoChapter={currentGraphChapter}
+            selectedId={selectedId}
+            onSelect={handleGraphSelect}
+          />
+        </Card>
+      ) : (
+        <div className="grid grid-cols-3 gap-4">
+          {/* 实体列表 */}
+          <Card
+            className="col-span-1"
+            style={cardStyle}
+            title={`实体（${entities.length}）`}
+            extra={
+              <Button
+                type="link"
+                size="small"
+                icon={<PlusOutlined />}
+                onClick={() => setDraft({ id: null, name: '', type: typeFilter === 'all' ? 'character' : typeFilter, aliases: [], description: '' })}
+              >
+                添加
+              </Button>
+            }
+          >
+            <Input.Search
+              allowClear
+              defaultValue={query}
+              placeholder="搜索名称、别名或描述"
+              className="mb-3"
+              onSearch={setQuery}
+              onChange={(e) => !e.target.value && setQuery('')}
+            />
+            <Segmented
+              block
+              size="small"
+              className="mb-3"
+              value={typeFilter}
+              onChange={(value) => setTypeFilter(value as TypeFilter)}
+              options={[
+                { value: 'all', label: '全部' },
+                ...TYPE_OPTIONS.map(o => ({ value: o.value, label: `${o.label} ${typeCounts[o.value] || 0}` }))
+              ]}
+            />
+            <List
+              size="small"
+              dataSource={filteredEntities}
+              locale={{ emptyText: entities.length === 0 ? '暂无实体，点击「更新索引」从正文中提取' : '没有匹配的实体' }}
+              style={{ maxHeight: 'calc(100vh - 340px)', overflow: 'auto' }}
+              renderItem={(entity) => (
+                <List.Item
+                  className="cursor-pointer"
+                  style={{ background: entity.id === selectedId ? 'var(--color-bg-tertiary)' : undefined, paddingInline: 8 }}
+                  onClick={() => setSelectedId(entity.id)}
+                >
+                  <Space>
+                    <Tag color={TYPE_COLORS[entity.type]}>{CODEX_TYPE_LABELS[entity.type]}</Tag>
+                    <span className="text-dark-text">{entity.name}</span>
+                  </Space>
+                  <span className="text-dark-muted text-xs">{entity.appearances.length} 章</span>
+                </List.Item>
+              )}
+            />
+          </Card>
+
+          {/* 实体详情 */}
+          <Card className="col-span-2" style={cardStyle}>
+            {!selected ? (
+              <Empty description="选择左侧的实体查看详情" />
+            ) : (
+              <div className="space-y-6">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <Space className="mb-2">
+                      <BookOutlined className="text-primary-400" />
+                      <span className="text-xl font-bold text-dark-text">{selected.name}</span>
+                      <Tag color={TYPE_COLORS[selected.type]}>{CODEX_TYPE_LABELS[selected.type]}</Tag>
+                    </Space>
+                    {selected.aliases.length > 0 && (
+                      <div className="text-dark-muted text-sm">别名：{selected.aliases.join('、')}</div>
+                    )}
+                  </div>
+                  <Space>
+                    <Button
+                      icon={<EditOutlined />}
+                      onClick={() => setDraft({
+                        id: selected.id,
+                        name: selected.name,
+                        type: selected.type,
+                        aliases: selected.aliases,
+                        description: selected.description
+                      })}
+                    >
+                      编辑
+                    </Button>
+                    <Button icon={<MergeCellsOutlined />} onClick={() => setMergeSourceIds([])}>
+                      合并
+                    </Button>
+                    <Popconfirm
+                      title={`删除「${selected.name}」？`}
+                      description="指向该实体的关系也会一并删除"
+                      okText="删除"
+                      okType="danger"
+                      cancelText="取消"
+                      onConfirm={() => handleDelete(selected)}
+                    >
+                      <Button danger icon={<DeleteOutlined />}>删除</Button>
+                    </Popconfirm>
+                  </Space>
+                </div>
+
+                <p className="text-dark-text whitespace-pre-wrap">{selected.description || '暂无描述'}</p>
+
+                {/* 出场章节 */}
+                <div>
+                  <div className="text-dark-muted text-sm mb-2">
+                    出场章节（{selected.appearances.length}）
+                    {selected.firstAppearance > 0 && `，首次出现于${chapterLabel(selected.firstAppearance)}`}
+                  </div>
+                  {selected.appearances.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {[...selected.appearances].sort((a, b) => a - b).map(chapterNumber => (
+                        <Tooltip key={chapterNumber} title={chapterLabel(chapterNumber)}>
+                          <Tag className="cursor-pointer" color="blue" onClick={() => openChapter(chapterNumber)}>
+                            第{chapterNumber}章
+                          </Tag>
+                        </Tooltip>
+                      ))}
+                    </div>
+                  ) : (
+                    <span className="text-dark-muted text-sm">暂无记录</span>
+                  )}
+                </div>
+
+                {/* 关系 */}
+                <div>
+                  <div className="text-dark-muted text-sm mb-2">关联实体</div>
+                  {selected.relations.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {selected.relations.map((rel, index) => (
+                        <Tag key={index} className="cursor-pointer" onClick={() => setSelectedId(rel.targetId)}>
+                          {entityName(rel.targetId) || '已删除'} · {rel.relation}
+                          {rel.since > 0 && <span className="text-dark-muted">（第{rel.since}章起）</span>}
+                        </Tag>
+                      ))}
+                    </div>
+                  ) : (
+                    <span className="text-dark-muted text-sm">暂无记录</span>
+                  )}
+                </div>
+
+                {/* 属性变化时间线 */}
+                <div>
+                  <div className="text-dark-muted text-sm mb-3">属性变化</div>
+                  {selected.attributes.length > 0 ? (
+                    <Timeline
+                      items={groupAttributesByChapter(selected).map(group => ({
+                        children: (
+                          <div>
+                            <a onClick={() => openChapter(group.chapter)}>{chapterLabel(group.chapter)}</a>
+                            <div className="mt-1 space-y-1">
+                              {group.changes.map((change, index) => (
+                                <div key={index} className="text-dark-text text-sm">
+                                  <span className="text-dark-muted">{change.key}：</span>{change.value}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )
+                      }))}
+                    />
+                  ) : (
+                    <span className="text-dark-muted text-sm">暂无记录</span>
+                  )}
+                </div>
+              </div>
+            )}
+          </Card>
+        </div>
+      )}
+
+      {/* 编辑 / 新建实体 */}
+      <Modal
+        title={draft?.id ? '编辑实体' : '添加实体'}
+        open={!!draft}
+        onCancel={() => setDraft(null)}
+        onOk={handleSaveDraft}
+        okText="保存"
+        cancelText="取消"
+        destroyOnClose
+      >
+        {draft && (
+          <div className="space-y-4">
+            <div>
+              <div className="text-dark-muted text-sm mb-1">名称</div>
+              <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            </div>
+            <div>
+              <div className="text-dark-muted text-sm mb-1">类型</div>
+              <Select
+                className="w-full"
+                value={draft.type}
+                options={TYPE_OPTIONS}
+                onChange={(type) => setDraft({ ...draft, type })}
+              />
+            </div>
+            <div>
+              <div className="text-dark-muted text-sm mb-1">别名</div>
+              <Select
+                mode="tags"
+                className="w-full"
+                placeholder="回车添加"
+                open={false}
+                value={draft.aliases}
+                onChange={(aliases: string[]) => setDraft({ ...draft, aliases })}
+              />
+            </div>
+            <div>
+              <div className="text-dark-muted text-sm mb-1">描述</div>
+              <TextArea
+                rows={4}
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              />
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* 合并实体 */}
+      <Modal
+        title={`合并到「${selected?.name || ''}」`}
+        open={mergeSourceIds !== null}
+        onCancel={() => setMergeSourceIds(null)}
+        onOk={handleMerge}
+        okText="合并"
+        okButtonProps={{ disabled: !mergeSourceIds?.length }}
+        cancelText="取消"
+        destroyOnClose
+      >
+        <p className="text-dark-muted mb-3">
+          选中的实体会被删除，其名称作为别名保留，出场、属性和关系并入当前实体。
+        </p>
+        <Select
+          mode="multiple"
+          className="w-full"
+          placeholder="选择重复的实体"
+          optionFilterProp="label"
+          value={mergeSourceIds || []}
+          onChange={setMergeSourceIds}
+          options={entities
+            .filter(e => e.id !== selected?.id)
+            .map(e => ({ value: e.id, label: `${e.name}（${CODEX_TYPE_LABELS[e.type]}）` }))}
+        />
+      </Modal>
+    </div>
+  )
+}
+
+export default Codex
@@ -1,10 +1,22 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useParams } from 'react-router-dom'
-import { Card, Input, Button, Spin, message, Select, Checkbox, Space, Divider } from 'antd'
-import { PictureOutlined, DownloadOutlined, RobotOutlined, ReloadOutlined, UserOutlined } from '@ant-design/icons'
+import { Card, Input, InputNumber, Button, Spin, message, Select, Checkbox, Space, Divider, Modal, Segmented } from 'antd'
+import { PictureOutlined, DownloadOutlined, RobotOutlined, ReloadOutlined, UserOutlined, SettingOutlined, StopOutlined } from '@ant-design/icons'
 import { useProjectStore } from '../../stores/project'
-import { isGeminiReady, initGemini, generateCoverImage, getCurrentModelName } from '../../services/gemini'
-import { getGeminiApiKey } from '../../utils'
+import { generateCoverImage } from '../../services/gemini'
+import {
+  loadImageSettings,
+  setImageSettings,
+  getImageProvider,
+  getImageProviders,
+  getImageModelName,
+  isAbortError,
+  IMAGE_ASPECTS,
+  OPENAI_IMAGE_MODELS,
+  DEFAULT_IMAGE_SETTINGS,
+  DEFAULT_COMFYUI_WORKFLOW
+} from '../../services/ai'
+import type { ImageSettings, ImageSize, LocalImageEndpointConfig } from '../../services/ai'
 
 // 扩展的风格选项
 const styleOptions = [
@@ -37,6 +49,12 @@ const styleOptions = [
   { value: 'comic', label: '漫画插画' }
 ]
 
+// 尺寸选项
+const sizeLabels: Record<ImageSize, string> = {
+  standard: '标准',
+  hd: '高清'
+}
+
 /**
  * 在图像上叠加书名和作者名
  */
@@ -302,6 +320,13 @@ function Cover() {
   const [coverHistory, setCoverHistory] = useState<string[]>([])
   // 角色选择
   const [selectedCharacterIds, setSelectedCharacterIds] = useState<string[]>([])
+  // 图片模型设置
+  const [imageSettings, setImageSettingsState] = useState<ImageSettings>(DEFAULT_IMAGE_SETTINGS)
+  const [showEndpointModal, setShowEndpointModal] = useState(false)
+  const [endpointDraft, setEndpointDraft] = useState<LocalImageEndpointConfig>(DEFAULT_IMAGE_SETTINGS.local)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const imageProvider = getImageProvider(imageSettings.provider)
 
   useEffect(() => {
     if (projectId) {
@@ -339,29 +364,56 @@ function Cover() {
     }
   }, [authorName, projectId, currentProject, updateProject])
 
-  // 初始化 Gemini（封面生成只支持 Gemini）
+  // 加载图片模型设置，离开页面时中止生成
   useEffect(() => {
-    const initApi = async () => {
-      const apiKey = await getGeminiApiKey()
-      if (apiKey) {
-        await initGemini(apiKey)
-      }
-    }
-    initApi()
+    loadImageSettings().then(setImageSettingsState)
+    return () => abortRef.current?.abort()
   }, [])
 
-  // 生成封面 - 使用 Gemini 3 图像生成 + 文字叠加
+  // 修改图片模型设置并保存
+  const updateImageSettings = async (patch: Partial<ImageSettings>) => {
+    try {
+      setImageSettingsState(await setImageSettings(patch))
+    } catch (error: any) {
+      message.error(error.message || '保存设置失败')
+    }
+  }
+
+  // 切换提供商时，画幅和尺寸不受支持则退回第一项
+  const handleProviderChange = (provider: ImageSettings['provider']) => {
+    const target = getImageProvider(provider)
+    updateImageSettings({
+      provider,
+      aspect: target.aspects.includes(imageSettings.aspect) ? imageSettings.aspect : target.aspects[0],
+      size: target.sizes.includes(imageSettings.size) ? imageSettings.size : target.sizes[0]
+    })
+  }
+
+  const openEndpointModal = () => {
+    setEndpointDraft(imageSettings.local)
+    setShowEndpointModal(true)
+  }
+
+  const handleSaveEndpoint = async () => {
+    await updateImageSettings({ local: endpointDraft })
+    setShowEndpointModal(false)
+  }
+
+  // 生成封面 - 图片模型生成背景 + 文字叠加
   const handleGenerateCover = async () => {
     if (!bookTitle.trim()) {
       message.warning('请输入书名')
       return
     }
 
-    if (!isGeminiReady()) {
-      message.warning('请先在全局设置中配置 Gemini API Key')
+    const configError = await imageProvider.checkConfig()
+    if (configError) {
+      message.warning(configError)
       return
     }
 
+    const controller = new AbortController()
+    abortRef.current = controller
     setIsGenerating(true)
     message.loading('AI 正在生成封面背景...', 0)
 
@@ -375,7 +427,8 @@ function Cover() {
         authorName,
         style,
         currentProject?.genres || [],
-        selectedCharacters
+        selectedCharacters,
+        controller.signal
       )
 
       message.destroy()
@@ -400,9 +453,14 @@ function Cover() {
       message.success('封面生成完成！')
     } catch (error: any) {
       message.destroy()
+      if (isAbortError(error)) {
+        message.info('已取消生成')
+        return
+      }
       console.error('Cover generation error:', error)
       message.error(error.message || '生成失败，请重试')
     } finally {
+      abortRef.current = null
       setIsGenerating(false)
     }
   }
@@ -525,6 +583,50 @@ function Cover() {
 
             <Divider className="my-2" />
 
+            {/* 图片模型 */}
+            <div>
+              <label className="block text-dark-text mb-2">图片模型</label>
+              <Space.Compact className="w-full">
+                <Select
+                  className="flex-1"
+                  value={imageSettings.provider}
+                  onChange={handleProviderChange}
+                  options={getImageProviders().map(p => ({ value: p.type, label: p.name }))}
+                />
+                {imageSettings.provider === 'openai' && (
+                  <Select
+                    style={{ width: 160 }}
+                    value={imageSettings.openaiModel}
+                    onChange={(openaiModel) => updateImageSettings({ openaiModel })}
+                    options={Object.entries(OPENAI_IMAGE_MODELS).map(([value, info]) => ({ value, label: info.name }))}
+                  />
+                )}
+                {imageSettings.provider === 'local' && (
+                  <Button icon={<SettingOutlined />} onClick={openEndpointModal}>端点设置</Button>
+                )}
+              </Space.Compact>
+            </div>
+
+            <div className="flex gap-4">
+              <div className="flex-1">
+                <label className="block text-dark-text mb-2">画幅</label>
+                <Select
+                  className="w-full"
+                  value={imageSettings.aspect}
+                  onChange={(aspect) => updateImageSettings({ aspect })}
+                  options={imageProvider.aspects.map(aspect => ({ value: aspect, label: IMAGE_ASPECTS[aspect].label }))}
+                />
+              </div>
+              <div>
+                <label className="block text-dark-text mb-2">尺寸</label>
+                <Segmented
+                  value={imageSettings.size}
+                  onChange={(size) => updateImageSettings({ size: size as ImageSize })}
+                  options={imageProvider.sizes.map(size => ({ value: size, label: sizeLabels[size] }))}
+                />
+              </div>
+            </div>
+
             <div className="space-y-3">
               <Button
                 type="primary"
@@ -536,7 +638,17 @@ function Cover() {
               >
                 {isGenerating ? '生成中...' : 'AI 生成封面'}
               </Button>
-              {coverUrl && (
+              {isGenerating && (
+                <Button
+                  size="large"
+                  icon={<StopOutlined />}
+                  onClick={() => abortRef.current?.abort()}
+                  className="w-full"
+                >
+                  取消生成
+                </Button>
+              )}
+              {coverUrl && !isGenerating && (
                 <Button
                   size="large"
                   icon={<ReloadOutlined />}
@@ -552,7 +664,8 @@ function Cover() {
             <div className="text-dark-muted text-sm">
               <p>提示：</p>
               <ul className="list-disc list-inside mt-2 space-y-1">
-                <li>使用 Gemini 3 模型生成封面</li>
+                <li>图片模型与写作使用的模型分开设置，Gemini 和 OpenAI 使用全局设置中的密钥</li>
+                <li>本地端点支持 SD WebUI（需 --api 启动）和 ComfyUI</li>
                 <li>AI 将根据书名和风格自动生成封面</li>
                 <li>生成过程可能需要数秒</li>
                 <li>可多次生成直到满意为止</li>
@@ -585,7 +698,7 @@ function Cover() {
                 <Spin size="large" />
                 <p className="text-dark-muted mt-4">AI 正在创作你的封面...</p>
                 <p className="text-dark-muted text-sm mt-2">
-                  使用模型: {getCurrentModelName()}
+                  使用模型: {imageProvider.name} / {getImageModelName(imageSettings)}
                 </p>
               </div>
             ) : coverUrl ? (
@@ -671,6 +784,84 @@ function Cover() {
           </div>
         )}
       </Card>
+
+      {/* 本地端点设置 */}
+      <Modal
+        title="本地图片端点"
+        open={showEndpointModal}
+        onOk={handleSaveEndpoint}
+        onCancel={() => setShowEndpointModal(false)}
+        okText="保存"
+        cancelText="取消"
+        width={640}
+      >
+        <div className="space-y-4">
+          <div>
+            <label className="block mb-2">类型</label>
+            <Segmented
+              value={endpointDraft.kind}
+              onChange={(kind) => setEndpointDraft({
+                ...endpointDraft,
+                kind: kind as LocalImageEndpointConfig['kind'],
+                baseUrl: kind === 'comfyui' ? 'http://127.0.0.1:8188' : 'http://127.0.0.1:7860'
+              })}
+              options={[
+                { value: 'sdwebui', label: 'SD WebUI' },
+                { value: 'comfyui', label: 'ComfyUI' }
+              ]}
+            />
+          </div>
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <label className="block mb-2">地址</label>
+              <Input
+                value={endpointDraft.baseUrl}
+                onChange={(e) => setEndpointDraft({ ...endpointDraft, baseUrl: e.target.value })}
+                placeholder="http://127.0.0.1:7860"
+              />
+            </div>
+            <div>
+              <label className="block mb-2">步数</label>
+              <InputNumber
+                min={1}
+                max={150}
+                value={endpointDraft.steps}
+                onChange={(steps) => setEndpointDraft({ ...endpointDraft, steps: steps ?? DEFAULT_IMAGE_SETTINGS.local.steps })}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block mb-2">反向提示词</label>
+            <Input
+              value={endpointDraft.negativePrompt}
+              onChange={(e) => setEndpointDraft({ ...endpointDraft, negativePrompt: e.target.value })}
+            />
+          </div>
+          {endpointDraft.kind === 'comfyui' && (
+            <div>
+              <label className="block mb-2">
+                工作流（API 格式 JSON）
+                <Button
+                  type="link"
+                  size="small"
+                  onClick={() => setEndpointDraft({ ...endpointDraft, workflow: DEFAULT_COMFYUI_WORKFLOW })}
+                >
+                  恢复默认
+                </Button>
+              </label>
+              <Input.TextArea
+                rows={10}
+                value={endpointDraft.workflow}
+                onChange={(e) => setEndpointDraft({ ...endpointDraft, workflow: e.target.value })}
+                style={{ fontFamily: 'monospace', fontSize: 12 }}
+              />
+              <p className="text-xs mt-1" style={{ color: '#888' }}>
+                {'可用占位符：{{prompt}} {{negative}} {{width}} {{height}} {{steps}} {{seed}}；默认工作流需把 ckpt_name 改成本地已有的模型'}
+              </p>
+            </div>
+          )}
+        </div>
+      </Modal>
     </div>
   )
 }
@@ -1,5 +1,5 @@
 import { useEffect, useState, useCallback, useRef } from 'react'
-import { useParams } from 'react-router-dom'
+import { useParams, useSearchParams } from 'react-router-dom'
 import {
   Layout,
   Tree,
@@ -12,6 +12,9 @@ import {
   Space,
   Empty,
   Progress,
+  List,
+  Tag,
+  Badge,
   App
 } from 'antd'
 import {
@@ -30,14 +33,18 @@ import {
   DownloadOutlined,
   ExportOutlined,
   ClearOutlined,
-  ReadOutlined
+  ReadOutlined,
+  EyeOutlined,
+  SafetyCertificateOutlined,
+  EditOutlined
 } from '@ant-design/icons'
 import type { DataNode } from 'antd/es/tree'
 import RichEditor from '../../components/RichEditor'
 import ReadingMode from '../../components/ReadingMode'
 import { useProjectStore } from '../../stores/project'
 import { useEditorStore } from '../../stores/editor'
-import { isAIReady, initAI, setProvider, getCurrentProviderType, analyzeAllChaptersForArchive, analyzeChapterForDeaths } from '../../services/ai'
+import { isAIReady, initAI, setProvider, getCurrentProviderType, analyzeAllChaptersForArchive, analyzeChapterForDeaths, isAbortError, estimateContextTokens } from '../../services/ai'
+import type { GenerationSource } from '../../services/ai'
 import {
   quickAnalyzeDeaths,
   detectDeceasedInContent,
@@ -45,21 +52,41 @@ import {
   buildDeathConfirmationPrompt,
   detectCharacterAppearances
 } from '../../services/character-utils'
-import { getAIProviderConfig } from '../../utils'
+import { getAIProviderConfig, MIN_ANALYSIS_CHAPTER_LENGTH } from '../../utils'
 import {
   writeChapterStrict,
+  writeChapterStrictStream,
+  buildStrictChapterPrompt,
+  buildWritingGuidance,
+  rewriteChapter,
+  rewriteChapterStream,
   autoWriteAll,
   formatToTxt,
   formatToHtml,
-  type WriteProgress
+  describeGenerationSource,
+  type WriteProgress,
+  type ChapterGeneration
 } from '../../services/chapter-writer'
-import type { Volume, Chapter } from '../../types'
+import type { Project, Volume, Chapter } from '../../types'
+import type { PlotThread, ConsistencyReport, ConsistencyWarning } from '../../types/memory'
 import { exportVolumeAsZip, exportBookAsZip } from '../../services/export'
+import { buildRelatedPassages } from '../../services/retrieval'
+import { updateMemoryAfterChapter, MEMORY_INTERVAL_SETTINGS_KEY } from '../../services/memory-manager'
+import { indexChapterEntities } from '../../services/codex'
+import { detectChapterPlotThreads, getOverduePlotThreads } from '../../services/plot-tracker'
+import { recordChapterEmotion } from '../../services/emotional-arc'
+import {
+  checkChapterConsistency,
+  loadConsistencyReport,
+  buildConsistencyFixInstruction,
+  CONSISTENCY_TYPE_LABELS
+} from '../../services/consistency-checker'
 
 const { Sider, Content } = Layout
 
 function Editor() {
   const { projectId } = useParams<{ projectId: string }>()
+  const [searchParams] = useSearchParams()
   const { modal, message } = App.useApp()
   const {
     currentProject,
@@ -78,7 +105,8 @@ function Editor() {
     deleteVolume,
     deleteChapter,
     setCurrentVolume,
-    setCurrentChapter
+    setCurrentChapter,
+    setMemory
   } = useProjectStore()
 
   const {
@@ -91,6 +119,12 @@ function Editor() {
     setModified,
     isAiGenerating,
     setAiGenerating,
+    streamingText,
+    streamingStatus,
+    startStreaming,
+    appendStreamingText,
+    finishStreaming,
+    clearStreaming,
     reset
   } = useEditorStore()
 
@@ -105,10 +139,24 @@ function Editor() {
   const [writeProgress, setWriteProgress] = useState<WriteProgress | null>(null)
   const [autoWriteStats, setAutoWriteStats] = useState({ completed: 0, totalWords: 0 })
   const shouldStopRef = useRef(false)
+  const autoWriteAbortRef = useRef<AbortController | null>(null)
+  const streamAbortRef = useRef<AbortController | null>(null)
+  // 已采用的 AI 生成内容来源，下次保存时写入章节
+  const acceptedGeneratedByRef = useRef<string | undefined>(undefined)
+  // 生成区域内容使用的提供商/模型
+  const streamSourceRef = useRef<GenerationSource | null>(null)
 
   // 写本章约束条件
   const [isWriteModalOpen, setIsWriteModalOpen] = useState(false)
   const [writeConstraints, setWriteConstraints] = useState('')
+  const [promptPreview, setPromptPreview] = useState<string | null>(null)
+  const [isPreviewLoading, setIsPreviewLoading] = useState(false)
+
+  // 本章的一致性报告
+  const [consistencyReport, setConsistencyReport] = useState<ConsistencyReport | null>(null)
+  const [isConsistencyModalOpen, setIsConsistencyModalOpen] = useState(false)
+  const [isCheckingConsistency, setIsCheckingConsistency] = useState(false)
+  const reportChapterIdRef = useRef<string | null>(null)
 
   // 阅读模式
   const [isReadingMode, setIsReadingMode] = useState(false)
@@ -126,6 +174,19 @@ function Editor() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [projectId])
 
+  // 从其他页面跳转时打开指定章节（?chapter=章节ID），只在章节加载后打开一次
+  const openedChapterRef = useRef<string | null>(null)
+  useEffect(() => {
+    const chapterId = searchParams.get('chapter')
+    if (!chapterId || openedChapterRef.current === chapterId) return
+    const chapter = chapters.find(c => c.id === chapterId)
+    if (!chapter) return
+    openedChapterRef.current = chapterId
+    const volume = volumes.find(v => v.id === chapter.volumeId)
+    if (volume) setCurrentVolume(volume)
+    setCurrentChapter(chapter)
+  }, [searchParams, chapters, volumes, setCurrentVolume, setCurrentChapter])
+
   // 加载章节内容 - 将TXT格式转换为HTML显示
   useEffect(() => {
     if (currentChapter) {
@@ -141,6 +202,24 @@ function Editor() {
     }
   }, [currentChapter, setContent, setModified])
 
+  // 加载本章的一致性报告
+  useEffect(() => {
+    const chapterId = currentChapter?.id ?? null
+    reportChapterIdRef.current = chapterId
+    setConsistencyReport(null)
+    if (!chapterId) return
+    loadConsistencyReport(chapterId)
+      .then(report => reportChapterIdRef.current === chapterId && setConsistencyReport(report))
+      .catch(error => console.warn('[Consistency] 读取一致性报告失败:', error))
+  }, [currentChapter?.id])
+
+  // 切换章节时丢弃未采用的生成内容，避免写入错误的章节
+  useEffect(() => {
+    streamAbortRef.current?.abort()
+    clearStreaming()
+    acceptedGeneratedByRef.current = undefined
+  }, [currentChapter?.id, clearStreaming])
+
   // 初始化 AI 服务
   useEffect(() => {
     const initApi = async () => {
@@ -314,6 +393,26 @@ function Editor() {
     }
   }
 
+  // 已提醒过的超期伏笔，同一会话内不重复提醒
+  const warnedPlotIdsRef = useRef(new Set<string>())
+  const warnOverduePlotThreads = useCallback((threads: PlotThread[], chapterNumber: number) => {
+    const overdue = getOverduePlotThreads(threads, chapterNumber).filter(t => !warnedPlotIdsRef.current.has(t.id))
+    if (overdue.length === 0) return
+    overdue.forEach(t => warnedPlotIdsRef.current.add(t.id))
+    message.warning(
+      `${overdue.length} 条伏笔已超过预期揭晓章节：${overdue.slice(0, 3).map(t => t.description).join('；')}${overdue.length > 3 ? '……' : ''}`,
+      6
+    )
+  }, [message])
+
+  // 保存后的一致性报告：仍停留在该章节时显示，有问题时提醒
+  const applyConsistencyReport = useCallback((chapterId: string, chapterTitle: string, report: ConsistencyReport) => {
+    if (reportChapterIdRef.current === chapterId) setConsistencyReport(report)
+    if (report.warnings.length > 0) {
+      message.warning(`「${chapterTitle}」发现 ${report.warnings.length} 处一致性问题，点击工具栏的「一致性」查看`, 6)
+    }
+  }, [message])
+
   // 保存当前章节 - 将HTML转换为TXT格式保存
   // 方案一：保存后自动分析角色死亡
   const saveCurrentChapter = useCallback(async () => {
@@ -323,12 +422,47 @@ function Editor() {
     try {
       // 将HTML转换为TXT格式保存到数据库
       const formattedContent = formatToTxt(content)
-      await updateChapter(currentChapter.id, { content: formattedContent })
+      // 采用 AI 生成时记录模型，其余保存视为手动修改，清除之前的模型记录
+      await updateChapter(currentChapter.id, {
+        content: formattedContent,
+        generatedBy: acceptedGeneratedByRef.current ?? null
+      })
+      acceptedGeneratedByRef.current = undefined
       setLastSavedAt(new Date().toISOString())
       // 保持编辑器中的HTML格式不变，只标记为已保存
       setModified(false)
       message.success('保存成功')
 
+      // 后台更新记忆档案（按更新间隔和重大事件判断）和 Codex 索引，不阻塞编辑
+      if (projectId && (await window.electron.settings.get('autoUpdateEnabled')) !== false) {
+        const chapterNumber = getGlobalChapterNumber(currentChapter)
+        // 一致性检查需在记忆更新之前排队，与写本章之前的状态对比
+        checkChapterConsistency(projectId, currentChapter.id, chapterNumber, formattedContent, characters)
+          .then(result => result.status === 'checked' && applyConsistencyReport(currentChapter.id, currentChapter.title, result.report))
+          .catch(error => console.warn('[Consistency] 检查章节一致性失败:', error))
+        const memoryInterval = await window.electron.settings.get(MEMORY_INTERVAL_SETTINGS_KEY)
+        updateMemoryAfterChapter(
+          projectId,
+          chapterNumber,
+          currentChapter.title,
+          formattedContent,
+          characters,
+          memoryInterval || undefined
+        )
+          // 更新完成前可能已切换到其他作品（离开编辑器后也一样），只写回仍在打开的作品
+          .then(memory => {
+            if (memory && useProjectStore.getState().currentProject?.id === projectId) setMemory(memory)
+          })
+          .catch(error => console.warn('[Memory] 更新记忆失败:', error))
+        indexChapterEntities(projectId, currentChapter.id, chapterNumber, formattedContent)
+          .catch(error => console.warn('[Codex] 索引章节失败:', error))
+        detectChapterPlotThreads(projectId, currentChapter.id, chapterNumber, formattedContent)
+          .then(threads => threads && warnOverduePlotThreads(threads, chapterNumber))
+          .catch(error => console.warn('[PlotTracker] 检测伏笔失败:', error))
+        recordChapterEmotion(projectId, currentChapter.id, chapterNumber, formattedContent)
+          .catch(error => console.warn('[EmotionalArc] 记录章节情感失败:', error))
+      }
+
       // 自动检测角色出场，更新状态从"待登场"到"活跃"
       if (formattedContent && characters.length > 0) {
         const { pendingToActive } = detectCharacterAppearances(formattedContent, characters)
@@ -423,7 +557,7 @@ function Editor() {
     } finally {
       setSaving(false)
     }
-  }, [currentChapter, content, isModified, updateChapter, setSaving, setLastSavedAt, setModified, characters, updateCharacter, loadCharacters, projectId])
+  }, [currentChapter, content, isModified, updateChapter, setSaving, setLastSavedAt, setModified, characters, updateCharacter, loadCharacters, setMemory, projectId, chapters, volumes, warnOverduePlotThreads, applyConsistencyReport])
 
   // 快捷键保存
   useEffect(() => {
@@ -592,7 +726,7 @@ function Editor() {
     setIsWriteModalOpen(true)
   }
 
-  // AI 写作当前章节
+  // AI 写作当前章节（流式输出到编辑器下方的生成区域）
   const handleAiWriteChapter = async (constraints?: string) => {
     if (!isAIReady()) {
       message.warning('请先在全局设置中配置 AI API Key')
@@ -610,66 +744,276 @@ function Editor() {
     setIsWriteModalOpen(false)
 
     setAiGenerating(true)
-    message.loading('AI 正在严格按照大纲写作...', 0)
+    const controller = new AbortController()
+    streamAbortRef.current = controller
+    startStreaming()
+
+    await runStreamingGeneration(
+      controller,
+      async () => [
+        ...await buildChapterPromptArgs(currentProject, currentChapter, constraints, controller.signal),
+        controller.signal
+      ] as const,
+      (args, onSource) => writeChapterStrictStream(...args, onSource),
+      args => writeChapterStrict(...args),
+      'AI 写作失败'
+    )
+  }
 
+  // 准备提示词参数后流式输出到生成区域，流式接口不可用时回退到普通请求
+  // 准备阶段（检索、写作指导）失败或被停止时同样结束生成状态
+  const runStreamingGeneration = async <A,>(
+    controller: AbortController,
+    prepare: () => Promise<A>,
+    stream: (args: A, onSource: (source: GenerationSource) => void) => AsyncGenerator<string, void, unknown>,
+    fallback: (args: A) => Promise<ChapterGeneration>,
+    failureMessage: string
+  ) => {
+    let received = 0
+    streamSourceRef.current = null
     try {
-      // 获取前一章内容
-      const volumeChapters = chapters
-        .filter(c => c.volumeId === currentChapter.volumeId)
-        .sort((a, b) => a.order - b.order)
-      const currentIndex = volumeChapters.findIndex(c => c.id === currentChapter.id)
-      const previousChapter = currentIndex > 0 ? volumeChapters[currentIndex - 1] : null
-      const nextChapter = currentIndex < volumeChapters.length - 1 ? volumeChapters[currentIndex + 1] : null
+      const args = await prepare()
+      try {
+        for await (const chunk of stream(args, source => { streamSourceRef.current = source })) {
+          received += chunk.length
+          appendStreamingText(chunk)
+        }
+        finishStreaming()
+      } catch (error: any) {
+        if (isAbortError(error)) {
+          // 用户停止：保留已生成的部分
+          finishStreaming()
+        } else if (received > 0) {
+          // 已收到部分内容，保留给用户决定是否采用
+          finishStreaming()
+          message.warning(`生成中断：${error.message || '未知错误'}，可采用已生成的部分`)
+        } else {
+          console.warn('[Editor] 流式生成失败，回退到普通请求:', error)
+          try {
+            const generation = await fallback(args)
+            // 回退请求期间已停止生成或切换了章节，结果不再写入生成区域
+            if (controller.signal.aborted) return
+            streamSourceRef.current = generation.source
+            appendStreamingText(generation.content)
+            finishStreaming()
+          } catch (fallbackError: any) {
+            clearStreaming()
+            if (!isAbortError(fallbackError)) {
+              message.error(fallbackError.message || failureMessage)
+            }
+          }
+        }
+      }
+    } catch (error: any) {
+      clearStreaming()
+      if (!isAbortError(error)) {
+        message.error(error.message || failureMessage)
+      }
+    } finally {
+      if (streamAbortRef.current === controller) streamAbortRef.current = null
+      setAiGenerating(false)
+    }
+  }
+
+  // 按一致性问题重写本章（整章重写，输出到生成区域，采用后替换正文）
+  const handleRewriteFix = async (warning: ConsistencyWarning) => {
+    if (!isAIReady()) {
+      message.warning('请先在全局设置中配置 AI API Key')
+      return
+    }
+
+    if (!currentProject || !currentChapter) return
 
-      // 如果有约束条件，追加到大纲后面
-      const outlineWithConstraints = constraints
-        ? `${currentChapter.outline}\n\n【写作约束】\n${constraints}`
-        : currentChapter.outline
+    const chapterContent = formatToTxt(content)
+    if (!chapterContent.trim()) {
+      message.warning('本章还没有正文')
+      return
+    }
 
-      const generatedContent = await writeChapterStrict(
+    setIsConsistencyModalOpen(false)
+
+    setAiGenerating(true)
+    const controller = new AbortController()
+    streamAbortRef.current = controller
+    startStreaming()
+
+    await runStreamingGeneration(
+      controller,
+      async () => [
         currentProject.worldSetting,
         characters,
         currentChapter.title,
-        outlineWithConstraints,
-        previousChapter?.content || '',
-        nextChapter?.outline || '',
+        currentChapter.outline || '',
+        chapterContent,
         currentProject.styles,
-        2500
-      )
+        buildConsistencyFixInstruction(warning),
+        controller.signal
+      ] as const,
+      (args, onSource) => rewriteChapterStream(...args, onSource),
+      args => rewriteChapter(...args),
+      'AI 重写失败'
+    )
+  }
 
-      message.destroy()
+  // 立即检查本章一致性（使用编辑器中的正文）
+  const handleCheckConsistency = async () => {
+    if (!isAIReady()) {
+      message.warning('请先在全局设置中配置 AI API Key')
+      return
+    }
 
-      // 方案二：生成后校验 - 检测是否有已故角色出场
-      const validationResult = detectDeceasedInContent(generatedContent, characters)
-      if (validationResult.hasViolation) {
-        const warningMessage = formatViolationWarning(validationResult.violations)
-        modal.warning({
-          title: '⚠️ 检测到已故角色出场',
-          content: (
-            <div className="whitespace-pre-wrap text-dark-muted max-h-64 overflow-y-auto">
-              {warningMessage}
-            </div>
-          ),
-          okText: '我知道了',
-          width: 500
-        })
-      }
+    if (!projectId || !currentChapter) return
 
-      // 转换为HTML格式在编辑器中显示
-      setContent(formatToHtml(generatedContent))
-      setModified(true)
-      message.success(validationResult.hasViolation
-        ? 'AI 写作完成，但检测到已故角色出场，请检查修改'
-        : 'AI 写作完成，请检查后保存'
+    const chapterId = currentChapter.id
+    setIsCheckingConsistency(true)
+    try {
+      const result = await checkChapterConsistency(
+        projectId,
+        chapterId,
+        getGlobalChapterNumber(currentChapter),
+        formatToTxt(content),
+        characters
       )
+      if (result.status === 'checked') {
+        if (reportChapterIdRef.current === chapterId) setConsistencyReport(result.report)
+      } else if (result.status === 'too_short') {
+        message.info(`正文不足 ${MIN_ANALYSIS_CHAPTER_LENGTH} 字，暂不检查`)
+      } else if (result.status === 'unchanged') {
+        message.info('正文自上次检查后未修改，报告无需更新')
+      } else {
+        message.error('一致性检查失败，请稍后重试')
+      }
     } catch (error: any) {
-      message.destroy()
-      message.error(error.message || 'AI 写作失败')
+      if (!isAbortError(error)) {
+        message.error(`检查失败: ${error.message || String(error)}`)
+      }
     } finally {
-      setAiGenerating(false)
+      setIsCheckingConsistency(false)
+    }
+  }
+
+  // 预览写本章时最终发送的提示词
+  const handlePreviewPrompt = async () => {
+    if (!currentChapter?.outline) {
+      message.warning('请先为本章设置大纲')
+      return
+    }
+
+    if (!currentProject) return
+
+    setIsPreviewLoading(true)
+    try {
+      setPromptPreview(buildStrictChapterPrompt(...await buildChapterPromptArgs(currentProject, currentChapter, writeConstraints)))
+    } catch (error: any) {
+      message.error(`生成预览失败: ${error.message || String(error)}`)
+    } finally {
+      setIsPreviewLoading(false)
     }
   }
 
+  // 组装写本章的提示词参数（相关前文、记忆、伏笔和情感上下文）
+  const buildChapterPromptArgs = async (
+    project: Project,
+    chapter: Chapter,
+    constraints: string | undefined,
+    signal?: AbortSignal
+  ) => {
+    // 获取前一章内容
+    const volumeChapters = chapters
+      .filter(c => c.volumeId === chapter.volumeId)
+      .sort((a, b) => a.order - b.order)
+    const currentIndex = volumeChapters.findIndex(c => c.id === chapter.id)
+    const previousChapter = currentIndex > 0 ? volumeChapters[currentIndex - 1] : null
+    const nextChapter = currentIndex < volumeChapters.length - 1 ? volumeChapters[currentIndex + 1] : null
+
+    // 如果有约束条件，追加到大纲后面
+    const outlineWithConstraints = constraints
+      ? `${chapter.outline}\n\n【写作约束】\n${constraints}`
+      : chapter.outline
+
+    // 检索与本章相关的历史章节片段（按全书顺序取本章之前的章节，检索失败不影响写作）
+    const sortedChapters = [...chapters]
+      .sort((a, b) => {
+        const volA = volumes.find(v => v.id === a.volumeId)
+        const volB = volumes.find(v => v.id === b.volumeId)
+        if (volA && volB && volA.order !== volB.order) {
+          return volA.order - volB.order
+        }
+        return a.order - b.order
+      })
+    const earlierChapters = sortedChapters.slice(0, sortedChapters.findIndex(c => c.id === chapter.id))
+    const relatedPassages = await buildRelatedPassages(
+      project.id,
+      chapter.outline,
+      characters,
+      earlierChapters,
+      signal
+    ).catch(() => '')
+    const guidance = await buildWritingGuidance(project.id, earlierChapters.map(c => c.id), signal)
+
+    return [
+      project.worldSetting,
+      characters,
+      chapter.title,
+      outlineWithConstraints,
+      previousChapter?.content || '',
+      nextChapter?.outline || '',
+      project.styles,
+      2500,
+      '',
+      undefined,
+      { relatedPassages, ...guidance }
+    ] as const
+  }
+
+  // 停止流式生成（中止请求，保留已生成的部分）
+  const handleStopStreaming = () => {
+    streamAbortRef.current?.abort()
+  }
+
+  // 采用生成内容
+  const handleAcceptStreaming = () => {
+    const generatedContent = formatToTxt(streamingText)
+    if (!generatedContent.trim()) {
+      clearStreaming()
+      return
+    }
+
+    // 方案二：生成后校验 - 检测是否有已故角色出场
+    const validationResult = detectDeceasedInContent(generatedContent, characters)
+    if (validationResult.hasViolation) {
+      const warningMessage = formatViolationWarning(validationResult.violations)
+      modal.warning({
+        title: '⚠️ 检测到已故角色出场',
+        content: (
+          <div className="whitespace-pre-wrap text-dark-muted max-h-64 overflow-y-auto">
+            {warningMessage}
+          </div>
+        ),
+        okText: '我知道了',
+        width: 500
+      })
+    }
+
+    // 转换为HTML格式在编辑器中显示
+    setContent(formatToHtml(generatedContent))
+    setModified(true)
+    acceptedGeneratedByRef.current = streamSourceRef.current
+      ? describeGenerationSource(streamSourceRef.current)
+      : undefined
+    clearStreaming()
+    message.success(validationResult.hasViolation
+      ? 'AI 写作完成，但检测到已故角色出场，请检查修改'
+      : 'AI 写作完成，请检查后保存'
+    )
+  }
+
+  // 丢弃生成内容
+  const handleDiscardStreaming = () => {
+    clearStreaming()
+    message.info('已丢弃生成内容')
+  }
+
 
   // 全自动写作 - 自动从第一个未写章节开始
   const handleStartAutoWrite = async () => {
@@ -763,6 +1107,8 @@ function Editor() {
     setIsAutoWriting(true)
     setAutoWriteStats({ completed: 0, totalWords: 0 })
     shouldStopRef.current = false
+    const controller = new AbortController()
+    autoWriteAbortRef.current = controller
 
     try {
       // 重新加载最新数据，确保章节和卷信息是最新的
@@ -783,11 +1129,13 @@ function Editor() {
       const autoUpdateEnabled = await window.electron.settings.get('autoUpdateEnabled')
       const summaryInterval = await window.electron.settings.get('summaryInterval')
       const characterInterval = await window.electron.settings.get('characterInterval')
+      const memoryInterval = await window.electron.settings.get(MEMORY_INTERVAL_SETTINGS_KEY)
 
       const autoUpdateConfig = {
         enableAutoUpdate: autoUpdateEnabled !== false, // 默认true
         summaryInterval: summaryInterval || 20,
-        characterInterval: characterInterval || 30
+        characterInterval: characterInterval || 30,
+        memoryInterval: memoryInterval || undefined
       }
 
       console.log('📊 [Editor] 自动更新配置:', autoUpdateConfig)
@@ -818,8 +1166,8 @@ function Editor() {
             }))
           }
         },
-        async (chapterId, chapterContent) => {
-          await updateChapter(chapterId, { content: chapterContent })
+        async (chapterId, chapterContent, generatedBy) => {
+          await updateChapter(chapterId, { content: chapterContent, generatedBy })
           setAutoWriteStats(prev => ({
             ...prev,
             totalWords: prev.totalWords + chapterContent.length
@@ -847,7 +1195,8 @@ function Editor() {
               const result = await analyzeAllChaptersForArchive(
                 recentChapters,
                 characterNames,
-                () => {} // 空进度回调
+                () => {}, // 空进度回调
+                controller.signal
               )
 
               // 更新每个角色的档案
@@ -871,13 +1220,22 @@ function Editor() {
             }
           }
         },
-        autoUpdateConfig
+        autoUpdateConfig,
+        controller.signal,
+        projectId
       )
 
+      if (controller.signal.aborted) {
+        message.info(`全自动写作已停止，本次完成 ${result.completed} 章`)
+        return
+      }
       message.success(`全自动写作完成！成功 ${result.completed} 章，共 ${(result.totalWords / 10000).toFixed(1)} 万字`)
     } catch (error: any) {
-      message.error(error.message || '全自动写作失败')
+      if (!isAbortError(error)) {
+        message.error(error.message || '全自动写作失败')
+      }
     } finally {
+      autoWriteAbortRef.current = null
       setIsAutoWriting(false)
       setWriteProgress(null)
       // 重新加载数据
@@ -890,7 +1248,9 @@ function Editor() {
   // 停止自动写作
   const handleStopAutoWrite = () => {
     shouldStopRef.current = true
-    message.info('正在停止，请等待当前章节完成...')
+    // 中止进行中的请求，当前章节不会被保存
+    autoWriteAbortRef.current?.abort()
+    message.info('正在停止全自动写作...')
   }
 
   if (!currentProject) {
@@ -1012,6 +1372,13 @@ function Editor() {
                 </span>
               </Tooltip>
             )}
+            {currentChapter?.generatedBy && (
+              <Tooltip title={`AI 生成模型：${currentChapter.generatedBy}`}>
+                <span className="text-dark-muted text-xs cursor-help">
+                  [{currentChapter.generatedBy.split('/').slice(1).join('/')}]
+                </span>
+              </Tooltip>
+            )}
           </div>
 
           <Space>
@@ -1048,6 +1415,18 @@ function Editor() {
               </Button>
             </Tooltip>
 
+            <Tooltip title="查看本章与前文设定的一致性问题（保存后自动检查）">
+              <Badge count={consistencyReport?.warnings.length || 0} size="small">
+                <Button
+                  icon={<SafetyCertificateOutlined />}
+                  onClick={() => setIsConsistencyModalOpen(true)}
+                  disabled={!currentChapter}
+                >
+                  一致性
+                </Button>
+              </Badge>
+            </Tooltip>
+
             <Tooltip title="全自动写作（从第一章开始，写完自动写下一章）">
               <Button
                 type="primary"
@@ -1089,6 +1468,11 @@ function Editor() {
               content={content}
               onChange={setContent}
               placeholder="开始写作你的故事..."
+              streamingText={streamingText}
+              streamingStatus={streamingStatus}
+              onStopStreaming={handleStopStreaming}
+              onAcceptStreaming={handleAcceptStreaming}
+              onDiscardStreaming={handleDiscardStreaming}
             />
           </div>
         ) : (
@@ -1142,11 +1526,19 @@ function Editor() {
       <Modal
         title="写本章 - 添加约束条件"
         open={isWriteModalOpen}
-        onOk={() => handleAiWriteChapter(writeConstraints)}
         onCancel={() => setIsWriteModalOpen(false)}
-        okText="开始写作"
-        cancelText="取消"
         width={600}
+        footer={[
+          <Button key="preview" icon={<EyeOutlined />} loading={isPreviewLoading} onClick={handlePreviewPrompt}>
+            预览提示词
+          </Button>,
+          <Button key="cancel" onClick={() => setIsWriteModalOpen(false)}>
+            取消
+          </Button>,
+          <Button key="write" type="primary" onClick={() => handleAiWriteChapter(writeConstraints)}>
+            开始写作
+          </Button>
+        ]}
       >
         <div className="space-y-4">
           <div>
@@ -1169,6 +1561,76 @@ function Editor() {
         </div>
       </Modal>
 
+      {/* 一致性报告 */}
+      <Modal
+        title="一致性检查"
+        open={isConsistencyModalOpen}
+        onCancel={() => setIsConsistencyModalOpen(false)}
+        width={700}
+        footer={[
+          <Button key="check" icon={<SyncOutlined />} loading={isCheckingConsistency} onClick={handleCheckConsistency}>
+            检查本章
+          </Button>,
+          <Button key="close" onClick={() => setIsConsistencyModalOpen(false)}>
+            关闭
+          </Button>
+        ]}
+      >
+        {consistencyReport ? (
+          <>
+            <div className="text-dark-muted text-sm mb-2">
+              检查于 {new Date(consistencyReport.checkedAt).toLocaleString()}，修改正文并保存后会重新检查
+            </div>
+            <List
+              dataSource={consistencyReport.warnings}
+              locale={{ emptyText: '未发现与前文设定矛盾的内容' }}
+              renderItem={(warning) => (
+                <List.Item
+                  actions={[
+                    <Tooltip key="fix" title="按此问题重写本章，生成后可选择是否采用">
+                      <Button
+                        size="small"
+                        icon={<EditOutlined />}
+                        onClick={() => handleRewriteFix(warning)}
+                        disabled={isAiGenerating || isAutoWriting}
+                      >
+                        重写修复
+                      </Button>
+                    </Tooltip>
+                  ]}
+                >
+                  <div>
+                    <Tag color={warning.severity === 'error' ? 'red' : 'orange'}>
+                      {CONSISTENCY_TYPE_LABELS[warning.type]}
+                    </Tag>
+                    <div className="text-dark-text mt-1">{warning.description}</div>
+                    <div className="text-dark-muted text-sm mt-1">建议：{warning.suggestion}</div>
+                  </div>
+                </List.Item>
+              )}
+            />
+          </>
+        ) : (
+          <Empty description="本章尚未检查，保存正文后自动检查，也可点击「检查本章」" />
+        )}
+      </Modal>
+
+      {/* 提示词预览 */}
+      <Modal
+        title="提示词预览"
+        open={promptPreview !== null}
+        onCancel={() => setPromptPreview(null)}
+        footer={null}
+        width={800}
+      >
+        <div className="text-dark-muted text-sm mb-2">
+          约 {estimateContextTokens(promptPreview || '')} tokens，可在作品设置中开关记忆档案、伏笔提醒和情感节奏建议
+        </div>
+        <pre className="whitespace-pre-wrap text-dark-text text-sm" style={{ maxHeight: '60vh', overflow: 'auto' }}>
+          {promptPreview}
+        </pre>
+      </Modal>
+
     </Layout>
 
     {/* 阅读模式 - 放在 Layout 外面确保正确覆盖 */}
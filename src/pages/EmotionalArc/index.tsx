@@ -0,0 +1,274 @@
+import { useEffect, useState, useMemo, useCallback, useRef } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { Card, Button, Space, Tag, Checkbox, Progress, Alert, List, Spin, Tooltip, Empty, message } from 'antd'
+import { SyncOutlined, PauseCircleOutlined } from '@ant-design/icons'
+import { useProjectStore } from '../../stores/project'
+import {
+  loadEmotionPoints,
+  backfillChapterEmotions,
+  buildEmotionalArc,
+  findRhythmIssues
+} from '../../services/emotional-arc'
+import type { RhythmIssue } from '../../services/emotional-arc'
+import { isAIReady, isAbortError } from '../../services/ai'
+import EmotionChart, { EMOTION_SERIES } from '../../components/EmotionChart'
+import type { EmotionSeries } from '../../components/EmotionChart'
+import type { EmotionPoint } from '../../types/memory'
+
+const cardStyle = { background: 'var(--color-bg-secondary)', border: '1px solid var(--color-border)' }
+
+const TREND_LABELS = {
+  rising: '上升',
+  falling: '下降',
+  fluctuating: '波动',
+  stable: '平稳'
+} as const
+
+const ISSUE_COLORS: Record<RhythmIssue['type'], string> = {
+  flat: 'blue',
+  intense: 'red',
+  monotone: 'purple',
+  low_variation: 'orange'
+}
+
+const ISSUE_LABELS: Record<RhythmIssue['type'], string> = {
+  flat: '平淡',
+  intense: '高强度',
+  monotone: '情绪单一',
+  low_variation: '波动小'
+}
+
+function EmotionalArc() {
+  const { projectId } = useParams<{ projectId: string }>()
+  const navigate = useNavigate()
+  const { currentProject, chapters, volumes, loadProject } = useProjectStore()
+
+  const [points, setPoints] = useState<EmotionPoint[] | null>(null)
+  const [series, setSeries] = useState<EmotionSeries[]>(['intensity', 'tension', 'hope'])
+
+  // 补全进度
+  const [isBackfilling, setIsBackfilling] = useState(false)
+  const [backfillProgress, setBackfillProgress] = useState({ current: 0, total: 0 })
+  const backfillAbortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    if (projectId) {
+      loadProject(projectId)
+    }
+  }, [projectId, loadProject])
+
+  // 全书顺序的章节（章节编号 = 下标 + 1）
+  const sortedChapters = useMemo(() => {
+    return [...chapters].sort((a, b) => {
+      const volA = volumes.find(v => v.id === a.volumeId)
+      const volB = volumes.find(v => v.id === b.volumeId)
+      if (volA && volB && volA.order !== volB.order) {
+        return volA.order - volB.order
+      }
+      return a.order - b.order
+    })
+  }, [chapters, volumes])
+
+  const chapterIdsKey = sortedChapters.map(c => c.id).join(',')
+
+  const refreshPoints = useCallback(async () => {
+    if (!projectId) return
+    try {
+      setPoints(await loadEmotionPoints(projectId, chapterIdsKey ? chapterIdsKey.split(',') : []))
+    } catch (error: any) {
+      message.error(`加载情感数据失败: ${error.message || String(error)}`)
+    }
+  }, [projectId, chapterIdsKey])
+
+  useEffect(() => {
+    refreshPoints()
+  }, [refreshPoints])
+
+  const arc = useMemo(() => buildEmotionalArc(points || []), [points])
+  const issues = useMemo(() => findRhythmIssues(arc), [arc])
+
+  // 每卷第一章的位置
+  const volumeMarks = useMemo(() => {
+    const marks: { chapter: number; title: string }[] = []
+    sortedChapters.forEach((chapter, index) => {
+      if (index === 0 || sortedChapters[index - 1].volumeId !== chapter.volumeId) {
+        const volume = volumes.find(v => v.id === chapter.volumeId)
+        marks.push({ chapter: index + 1, title: volume?.title || `第${marks.length + 1}卷` })
+      }
+    })
+    return marks
+  }, [sortedChapters, volumes])
+
+  const chapterLabel = (chapterNumber: number) => {
+    const chapter = sortedChapters[chapterNumber - 1]
+    return chapter ? `第${chapterNumber}章 ${chapter.title}` : `第${chapterNumber}章`
+  }
+
+  const openChapter = (chapterNumber: number) => {
+    const chapter = sortedChapters[chapterNumber - 1]
+    if (chapter) {
+      navigate(`/project/${projectId}/editor?chapter=${chapter.id}`)
+    }
+  }
+
+  // ==================== 补全 ====================
+
+  const handleBackfill = async () => {
+    if (!projectId) return
+    if (!isAIReady()) {
+      message.warning('请先在全局设置中配置 AI 服务')
+      return
+    }
+
+    const controller = new AbortController()
+    backfillAbortRef.current = controller
+    setIsBackfilling(true)
+    setBackfillProgress({ current: 0, total: sortedChapters.length })
+    try {
+      await backfillChapterEmotions(
+        projectId,
+        sortedChapters.map(c => ({ id: c.id, content: c.content })),
+        (current, total) => setBackfillProgress({ current, total }),
+        controller.signal
+      )
+      if (controller.signal.aborted) {
+        message.info('已停止分析')
+      } else {
+        message.success('情感数据已补全')
+      }
+    } catch (error: any) {
+      if (!isAbortError(error)) {
+        message.error(`分析失败: ${error.message || String(error)}`)
+      }
+    } finally {
+      backfillAbortRef.current = null
+      setIsBackfilling(false)
+      await refreshPoints()
+    }
+  }
+
+  if (!currentProject || !points) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <Spin size="large" tip="加载中..." />
+      </div>
+    )
+  }
+
+  const writtenCount = sortedChapters.filter(c => c.content?.trim()).length
+
+  return (
+    <div className="p-6 fade-in">
+      {/* 头部 */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-dark-text mb-1">情感曲线</h1>
+          <p className="text-dark-muted">
+            保存章节后自动分析情绪强度、情节张力和希望值，已分析 {points.length}/{writtenCount} 个有正文的章节
+          </p>
+        </div>
+        <Space>
+          {isBackfilling && (
+            <Button danger icon={<PauseCircleOutlined />} onClick={() => backfillAbortRef.current?.abort()}>
+              停止
+            </Button>
+          )}
+          <Tooltip title="分析尚未分析或修改过的章节">
+            <Button type="primary" icon={<SyncOutlined spin={isBackfilling} />} loading={isBackfilling} onClick={handleBackfill}>
+              补全情感数据
+            </Button>
+          </Tooltip>
+        </Space>
+      </div>
+
+      {isBackfilling && backfillProgress.total > 0 && (
+        <div className="mb-4">
+          <Progress
+            percent={Math.floor((backfillProgress.current / backfillProgress.total) * 100)}
+            status="active"
+            strokeColor={{ '0%': '#0ea5e9', '100%': '#0284c7' }}
+          />
+          <p className="text-dark-muted text-sm">
+            正在分析第 {backfillProgress.current}/{backfillProgress.total} 章...
+          </p>
+        </div>
+      )}
+
+      {arc.suggestion && (
+        <Alert
+          className="mb-4"
+          type="info"
+          showIcon
+          message={arc.suggestion.suggestion}
+          description={`${arc.suggestion.reason}（建议下一章情绪强度 ${arc.suggestion.targetIntensity}/10，张力 ${arc.suggestion.targetTension}/10）`}
+        />
+      )}
+
+      <Card
+        className="mb-4"
+        style={cardStyle}
+        title={
+          <Space>
+            <span>全书曲线</span>
+            <Tag>趋势：{TREND_LABELS[arc.overallTrend]}</Tag>
+            <Tag color="red">高潮 {arc.peakChapters.length}</Tag>
+            <Tag color="blue">低谷 {arc.valleyChapters.length}</Tag>
+          </Space>
+        }
+        extra={
+          <Checkbox.Group
+            value={series}
+            onChange={(values) => setSeries(values as EmotionSeries[])}
+            options={EMOTION_SERIES.map(s => ({
+              value: s.key,
+              label: <span style={{ color: s.color }}>{s.label}</span>
+            }))}
+          />
+        }
+      >
+        {points.length > 0 ? (
+          <EmotionChart
+            totalChapters={Math.max(sortedChapters.length, 1)}
+            points={arc.chapters}
+            series={series}
+            volumeMarks={volumeMarks}
+            peakChapters={arc.peakChapters}
+            valleyChapters={arc.valleyChapters}
+            chapterTitle={chapterLabel}
+            onChapterClick={openChapter}
+          />
+        ) : (
+          <Empty description="暂无情感数据，点击「补全情感数据」分析已有章节" />
+        )}
+      </Card>
+
+      <Card style={cardStyle} title={`节奏诊断（${issues.length}）`}>
+        <List
+          dataSource={issues}
+          locale={{ emptyText: points.length < 10 ? '至少需要 10 章情感数据才能诊断节奏' : '未发现明显的节奏问题' }}
+          renderItem={(issue) => (
+            <List.Item>
+              <div className="w-full">
+                <Space className="mb-2">
+                  <Tag color={ISSUE_COLORS[issue.type]}>{ISSUE_LABELS[issue.type]}</Tag>
+                  <span className="text-dark-text">{issue.description}</span>
+                </Space>
+                <div className="flex flex-wrap gap-1">
+                  {issue.chapters.map(chapterNumber => (
+                    <Tooltip key={chapterNumber} title={chapterLabel(chapterNumber)}>
+                      <Tag className="cursor-pointer" onClick={() => openChapter(chapterNumber)}>
+                        第{chapterNumber}章
+                      </Tag>
+                    </Tooltip>
+                  ))}
+                </div>
+              </div>
+            </List.Item>
+          )}
+        />
+      </Card>
+    </div>
+  )
+}
+
+export default EmotionalArc
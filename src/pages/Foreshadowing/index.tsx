@@ -0,0 +1,542 @@
+import { useEffect, useState, useMemo, useCallback, useRef } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import {
+  Card, Input, InputNumber, Select, Button, Space, Tag, Modal, Popconfirm, Progress, Alert, Spin, Tooltip, Empty, message
+} from 'antd'
+import {
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  CheckOutlined,
+  StopOutlined,
+  SyncOutlined,
+  PauseCircleOutlined,
+  FileTextOutlined,
+  WarningOutlined
+} from '@ant-design/icons'
+import { useProjectStore } from '../../stores/project'
+import {
+  loadPlotThreads,
+  detectPlotChapters,
+  savePlotThread,
+  deletePlotThread,
+  updatePlotThread,
+  getOverduePlotThreads,
+  getPlotResolutionSuggestions,
+  generatePlotReport,
+  isOpenPlotThread,
+  PLOT_STATUS_LABELS,
+  PLOT_IMPORTANCE_LABELS
+} from '../../services/plot-tracker'
+import { isAIReady, isAbortError } from '../../services/ai'
+import { createPlotThread } from '../../types/memory'
+import type { PlotThread } from '../../types/memory'
+
+const { TextArea } = Input
+
+const cardStyle = { background: 'var(--color-bg-secondary)', border: '1px solid var(--color-border)' }
+
+const STATUS_COLUMNS: PlotThread['status'][] = ['active', 'hinted', 'resolved', 'abandoned']
+
+const STATUS_COLORS: Record<PlotThread['status'], string> = {
+  active: 'blue',
+  hinted: 'cyan',
+  resolved: 'green',
+  abandoned: 'default'
+}
+
+const IMPORTANCE_COLORS: Record<PlotThread['importance'], string> = {
+  minor: 'default',
+  major: 'orange',
+  critical: 'red'
+}
+
+// 距预期揭晓上限不超过该章数时提示即将到期
+const DUE_SOON_CHAPTERS = 5
+
+function Foreshadowing() {
+  const { projectId } = useParams<{ projectId: string }>()
+  const navigate = useNavigate()
+  const { currentProject, chapters, volumes, characters, loadProject } = useProjectStore()
+
+  const [threads, setThreads] = useState<PlotThread[] | null>(null)
+  const [editing, setEditing] = useState<PlotThread | null>(null)
+  const [isNew, setIsNew] = useState(false)
+  const [reportOpen, setReportOpen] = useState(false)
+
+  // 检测进度
+  const [isDetecting, setIsDetecting] = useState(false)
+  const [detectProgress, setDetectProgress] = useState({ current: 0, total: 0 })
+  const detectAbortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    if (projectId) {
+      loadProject(projectId)
+    }
+  }, [projectId, loadProject])
+
+  const refreshThreads = useCallback(async () => {
+    if (!projectId) return
+    try {
+      setThreads(await loadPlotThreads(projectId))
+    } catch (error: any) {
+      message.error(`加载伏笔失败: ${error.message || String(error)}`)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    refreshThreads()
+  }, [refreshThreads])
+
+  // 全书顺序的章节（章节编号 = 下标 + 1）
+  const sortedChapters = useMemo(() => {
+    return [...chapters].sort((a, b) => {
+      const volA = volumes.find(v => v.id === a.volumeId)
+      const volB = volumes.find(v => v.id === b.volumeId)
+      if (volA && volB && volA.order !== volB.order) {
+        return volA.order - volB.order
+      }
+      return a.order - b.order
+    })
+  }, [chapters, volumes])
+
+  // 当前写到的章节：最后一个有正文的章节
+  const currentChapter = useMemo(
+    () => sortedChapters.reduce((latest, chapter, index) => (chapter.content?.trim() ? index + 1 : latest), 0),
+    [sortedChapters]
+  )
+
+  const allThreads = useMemo(() => threads || [], [threads])
+  const overdue = useMemo(() => getOverduePlotThreads(allThreads, currentChapter), [allThreads, currentChapter])
+  const suggestions = useMemo(
+    () => getPlotResolutionSuggestions(currentChapter + 1, allThreads),
+    [allThreads, currentChapter]
+  )
+
+  const openChapter = (chapterNumber: number) => {
+    const chapter = sortedChapters[chapterNumber - 1]
+    if (chapter) {
+      navigate(`/project/${projectId}/editor?chapter=${chapter.id}`)
+    } else {
+      message.warning('章节不存在，可能已被删除')
+    }
+  }
+
+  // ==================== 检测 ====================
+
+  const handleDetect = async () => {
+    if (!projectId) return
+    if (!isAIReady()) {
+      message.warning('请先在全局设置中配置 AI 服务')
+      return
+    }
+
+    const controller = new AbortController()
+    detectAbortRef.current = controller
+    setIsDetecting(true)
+    setDetectProgress({ current: 0, total: sortedChapters.length })
+    try {
+      await detectPlotChapters(
+        projectId,
+        sortedChapters.map(c => ({ id: c.id, content: c.content })),
+        (current, total) => setDetectProgress({ current, total }),
+        controller.signal
+      )
+      if (controller.signal.aborted) {
+        message.info('已停止检测')
+      } else {
+        message.success('伏笔检测完成')
+      }
+    } catch (error: any) {
+      if (!isAbortError(error)) {
+        message.error(`检测失败: ${error.message || String(error)}`)
+      }
+    } finally {
+      detectAbortRef.current = null
+      setIsDetecting(false)
+      await refreshThreads()
+    }
+  }
+
+  // ==================== 编辑 ====================
+
+  const handleCreate = () => {
+    const planted = Math.max(currentChapter, 1)
+    setEditing(createPlotThread('', planted, { expectedResolutionRange: { min: planted + 5, max: planted + 30 } }))
+    setIsNew(true)
+  }
+
+  const handleSave = async (thread: PlotThread) => {
+    if (!projectId) return
+    try {
+      await savePlotThread(projectId, thread)
+      await refreshThreads()
+      return true
+    } catch (error: any) {
+      message.error(`保存失败: ${error.message || String(error)}`)
+      return false
+    }
+  }
+
+  const handleSaveEditing = async () => {
+    if (!editing) return
+    if (!editing.description.trim()) {
+      message.warning('请输入伏笔描述')
+      return
+    }
+    const { min, max } = editing.expectedResolutionRange
+    if (min > max) {
+      message.warning('预期揭晓章节范围有误')
+      return
+    }
+    const thread: PlotThread = {
+      ...editing,
+      description: editing.description.trim(),
+      resolvedChapter: editing.status === 'resolved' ? editing.resolvedChapter ?? Math.max(currentChapter, 1) : undefined
+    }
+    if (await handleSave(thread)) {
+      setEditing(null)
+    }
+  }
+
+  const handleDelete = async (thread: PlotThread) => {
+    if (!projectId) return
+    try {
+      await deletePlotThread(projectId, thread.id)
+      await refreshThreads()
+    } catch (error: any) {
+      message.error(`删除失败: ${error.message || String(error)}`)
+    }
+  }
+
+  if (!currentProject || !threads) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <Spin size="large" tip="加载中..." />
+      </div>
+    )
+  }
+
+  const renderThread = (thread: PlotThread) => {
+    const isOverdue = overdue.includes(thread)
+    const remaining = thread.expectedResolutionRange.max - currentChapter
+    const dueSoon = isOpenPlotThread(thread) && !isOverdue && currentChapter >= thread.expectedResolutionRange.min && remaining <= DUE_SOON_CHAPTERS
+
+    return (
+      <Card
+        key={thread.id}
+        size="small"
+        className="mb-3"
+        style={{
+          background: 'var(--color-bg-tertiary)',
+          border: `1px solid ${isOverdue ? '#ff4d4f' : 'var(--color-border)'}`
+        }}
+      >
+        <div className="text-dark-text mb-2 whitespace-pre-wrap">{thread.description}</div>
+        <Space size={[4, 4]} wrap className="mb-2">
+          <Tag color={IMPORTANCE_COLORS[thread.importance]}>{PLOT_IMPORTANCE_LABELS[thread.importance]}</Tag>
+          {isOverdue && <Tag color="red">已超期 {currentChapter - thread.expectedResolutionRange.max} 章</Tag>}
+          {dueSoon && <Tag color="orange">剩余 {remaining} 章</Tag>}
+          {thread.manual && <Tag>手动</Tag>}
+        </Space>
+        <div className="text-dark-muted text-xs space-y-1">
+          <div>
+            埋设：<a onClick={() => openChapter(thread.plantedChapter)}>第{thread.plantedChapter}章</a>
+            {thread.resolvedChapter && (
+              <>，揭晓：<a onClick={() => openChapter(thread.resolvedChapter!)}>第{thread.resolvedChapter}章</a></>
+            )}
+          </div>
+          <div>预期揭晓：第{thread.expectedResolutionRange.min}-{thread.expectedResolutionRange.max}章</div>
+          {thread.relatedCharacters.length > 0 && <div>相关角色：{thread.relatedCharacters.join('、')}</div>}
+          {thread.hints.length > 0 && (
+            <Tooltip
+              title={
+                <div className="space-y-1">
+                  {thread.hints.map((hint, index) => (
+                    <div key={index}>第{hint.chapter}章：{hint.content}</div>
+                  ))}
+                </div>
+              }
+            >
+              <div className="cursor-help">暗示 {thread.hints.length} 次，最近在第{thread.hints[thread.hints.length - 1].chapter}章</div>
+            </Tooltip>
+          )}
+        </div>
+        <div className="flex justify-end mt-2">
+          <Space size={0}>
+            {isOpenPlotThread(thread) && (
+              <>
+                <Tooltip title={`标记为在第${Math.max(currentChapter, 1)}章揭晓`}>
+                  <Button
+                    type="text"
+                    size="small"
+                    icon={<CheckOutlined />}
+                    onClick={() => handleSave(updatePlotThread(thread, { resolve: Math.max(currentChapter, 1) }))}
+                  />
+                </Tooltip>
+                <Tooltip title="放弃此伏笔">
+                  <Button
+                    type="text"
+                    size="small"
+                    icon={<StopOutlined />}
+                    onClick={() => handleSave(updatePlotThread(thread, { abandon: true }))}
+                  />
+                </Tooltip>
+              </>
+            )}
+            <Button
+              type="text"
+              size="small"
+              icon={<EditOutlined />}
+              onClick={() => {
+                setEditing(thread)
+                setIsNew(false)
+              }}
+            />
+            <Popconfirm
+              title="删除这条伏笔？"
+              okText="删除"
+              okType="danger"
+              cancelText="取消"
+              onConfirm={() => handleDelete(thread)}
+            >
+              <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+            </Popconfirm>
+          </Space>
+        </div>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="p-6 fade-in">
+      {/* 头部 */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-dark-text mb-1">伏笔追踪</h1>
+          <p className="text-dark-muted">
+            保存章节后自动检测新埋的伏笔、暗示和揭晓，当前写到第 {currentChapter} 章
+          </p>
+        </div>
+        <Space>
+          <Button icon={<FileTextOutlined />} onClick={() => setReportOpen(true)}>
+            伏笔报告
+          </Button>
+          <Button icon={<PlusOutlined />} onClick={handleCreate}>
+            添加伏笔
+          </Button>
+          {isDetecting && (
+            <Button danger icon={<PauseCircleOutlined />} onClick={() => detectAbortRef.current?.abort()}>
+              停止
+            </Button>
+          )}
+          <Tooltip title="按全书顺序检测所有章节，已检测且未修改的章节会跳过">
+            <Button type="primary" icon={<SyncOutlined spin={isDetecting} />} loading={isDetecting} onClick={handleDetect}>
+              检测全部章节
+            </Button>
+          </Tooltip>
+        </Space>
+      </div>
+
+      {isDetecting && detectProgress.total > 0 && (
+        <div className="mb-4">
+          <Progress
+            percent={Math.floor((detectProgress.current / detectProgress.total) * 100)}
+            status="active"
+            strokeColor={{ '0%': '#0ea5e9', '100%': '#0284c7' }}
+          />
+          <p className="text-dark-muted text-sm">
+            正在检测第 {detectProgress.current}/{detectProgress.total} 章...
+          </p>
+        </div>
+      )}
+
+      {overdue.length > 0 && (
+        <Alert
+          className="mb-4"
+          type="error"
+          showIcon
+          icon={<WarningOutlined />}
+          message={`${overdue.length} 条伏笔已超过预期揭晓章节`}
+          description={
+            <ul className="list-disc pl-5">
+              {overdue.map(t => (
+                <li key={t.id}>
+                  {t.description}（第{t.plantedChapter}章埋设，应在第{t.expectedResolutionRange.max}章前揭晓）
+                </li>
+              ))}
+            </ul>
+          }
+        />
+      )}
+
+      {(suggestions.shouldHint.length > 0 || suggestions.canResolve.length > 0) && (
+        <Alert
+          className="mb-4"
+          type="info"
+          showIcon
+          message={`第 ${currentChapter + 1} 章建议`}
+          description={
+            <div className="space-y-1">
+              {suggestions.canResolve.length > 0 && (
+                <div>可以揭晓：{suggestions.canResolve.map(t => t.description).join('；')}</div>
+              )}
+              {suggestions.shouldHint.length > 0 && (
+                <div>适合添加暗示：{suggestions.shouldHint.map(t => t.description).join('；')}</div>
+              )}
+            </div>
+          }
+        />
+      )}
+
+      {/* 看板 */}
+      <div className="grid grid-cols-4 gap-4">
+        {STATUS_COLUMNS.map(status => {
+          const items = allThreads.filter(t => t.status === status)
+          return (
+            <Card
+              key={status}
+              style={cardStyle}
+              title={
+                <Space>
+                  <Tag color={STATUS_COLORS[status]}>{PLOT_STATUS_LABELS[status]}</Tag>
+                  <span className="text-dark-muted text-sm">{items.length}</span>
+                </Space>
+              }
+              styles={{ body: { maxHeight: 'calc(100vh - 320px)', overflow: 'auto' } }}
+            >
+              {items.length > 0 ? items.map(renderThread) : <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="暂无" />}
+            </Card>
+          )
+        })}
+      </div>
+
+      {/* 编辑 / 新建伏笔 */}
+      <Modal
+        title={isNew ? '添加伏笔' : '编辑伏笔'}
+        open={!!editing}
+        onCancel={() => setEditing(null)}
+        onOk={handleSaveEditing}
+        okText="保存"
+        cancelText="取消"
+        destroyOnClose
+      >
+        {editing && (
+          <div className="space-y-4">
+            <div>
+              <div className="text-dark-muted text-sm mb-1">伏笔描述</div>
+              <TextArea
+                rows={3}
+                value={editing.description}
+                onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+              />
+            </div>
+            <div className="flex gap-4">
+              <div className="flex-1">
+                <div className="text-dark-muted text-sm mb-1">重要性</div>
+                <Select
+                  className="w-full"
+                  value={editing.importance}
+                  options={Object.entries(PLOT_IMPORTANCE_LABELS).map(([value, label]) => ({ value, label }))}
+                  onChange={(importance) => setEditing({ ...editing, importance })}
+                />
+              </div>
+              <div className="flex-1">
+                <div className="text-dark-muted text-sm mb-1">状态</div>
+                <Select
+                  className="w-full"
+                  value={editing.status}
+                  options={STATUS_COLUMNS.map(value => ({ value, label: PLOT_STATUS_LABELS[value] }))}
+                  onChange={(status) => setEditing({ ...editing, status })}
+                />
+              </div>
+            </div>
+            <div className="flex gap-4">
+              <div className="flex-1">
+                <div className="text-dark-muted text-sm mb-1">埋设章节</div>
+                <InputNumber
+                  className="w-full"
+                  min={1}
+                  precision={0}
+                  value={editing.plantedChapter}
+                  onChange={(v) => setEditing({ ...editing, plantedChapter: v ?? 1 })}
+                />
+              </div>
+              <div className="flex-1">
+                <div className="text-dark-muted text-sm mb-1">预期揭晓范围</div>
+                <Space.Compact className="w-full">
+                  <InputNumber
+                    min={1}
+                    precision={0}
+                    value={editing.expectedResolutionRange.min}
+                    onChange={(v) => setEditing({
+                      ...editing,
+                      expectedResolutionRange: { ...editing.expectedResolutionRange, min: v ?? 1 }
+                    })}
+                  />
+                  <InputNumber
+                    min={1}
+                    precision={0}
+                    value={editing.expectedResolutionRange.max}
+                    onChange={(v) => setEditing({
+                      ...editing,
+                      expectedResolutionRange: { ...editing.expectedResolutionRange, max: v ?? 1 }
+                    })}
+                  />
+                </Space.Compact>
+              </div>
+            </div>
+            {editing.status === 'resolved' && (
+              <div>
+                <div className="text-dark-muted text-sm mb-1">揭晓章节</div>
+                <InputNumber
+                  className="w-full"
+                  min={1}
+                  precision={0}
+                  placeholder={`默认第${Math.max(currentChapter, 1)}章`}
+                  value={editing.resolvedChapter}
+                  onChange={(v) => setEditing({ ...editing, resolvedChapter: v ?? undefined })}
+                />
+              </div>
+            )}
+            <div>
+              <div className="text-dark-muted text-sm mb-1">相关角色</div>
+              <Select
+                mode="tags"
+                className="w-full"
+                placeholder="选择或输入角色名"
+                value={editing.relatedCharacters}
+                options={characters.map(c => ({ value: c.name, label: c.name }))}
+                onChange={(relatedCharacters: string[]) => setEditing({ ...editing, relatedCharacters })}
+              />
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* 伏笔报告 */}
+      <Modal
+        title="伏笔报告"
+        open={reportOpen}
+        onCancel={() => setReportOpen(false)}
+        footer={
+          <Button
+            onClick={() => {
+              navigator.clipboard.writeText(generatePlotReport(allThreads))
+              message.success('已复制到剪贴板')
+            }}
+          >
+            复制
+          </Button>
+        }
+        width={720}
+      >
+        <pre className="whitespace-pre-wrap text-dark-text text-sm" style={{ maxHeight: '60vh', overflow: 'auto' }}>
+          {generatePlotReport(allThreads)}
+        </pre>
+      </Modal>
+    </div>
+  )
+}
+
+export default Foreshadowing
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react'
-import { Card, Input, Button, message, Space, Alert, Switch, Select, Badge, Slider, Tooltip, Tag, Modal, Segmented } from 'antd'
+import { Card, Input, InputNumber, Button, message, Space, Alert, Switch, Select, Badge, Slider, Tooltip, Tag, Modal, Segmented } from 'antd'
 import {
   SaveOutlined,
   KeyOutlined,
@@ -18,7 +18,13 @@ import {
   BgColorsOutlined,
   RobotOutlined,
   PlusOutlined,
-  DeleteOutlined
+  DeleteOutlined,
+  ArrowUpOutlined,
+  ArrowDownOutlined,
+  BranchesOutlined,
+  NodeIndexOutlined,
+  DashboardOutlined,
+  DatabaseOutlined
 } from '@ant-design/icons'
 import {
   initAI,
@@ -28,12 +34,35 @@ import {
   getAllModels,
   setProvider,
   getProvidersByRegion,
+  configureCustomEndpoint,
+  discoverCustomModels,
+  getFallbackChain,
+  setFallbackChain,
+  getGlobalModelRoutes,
+  setGlobalModelRoutes,
+  getKeyHealthList,
+  resetKeyHealth,
+  getKeyRotation,
+  setKeyRotation,
+  loadRateLimits,
+  getUserRateLimits,
+  setRateLimits,
+  loadResponseCacheConfig,
+  getResponseCacheConfig,
+  setResponseCacheConfig,
   PROVIDER_INFO
 } from '../../services/ai'
-import type { QuotaInfo, ProviderType, ProviderConfig, LegacyProviderConfig } from '../../services/ai'
+import type { QuotaInfo, ProviderType, ProviderConfig, LegacyProviderConfig, CustomEndpointConfig, ProviderModelRef, ModelRoutes, KeyHealth, KeyStatus, KeyRotationMode, RateLimitConfig, ResponseCacheConfig } from '../../services/ai'
+import { CUSTOM_ENDPOINT_SETTINGS_KEY, DEFAULT_CUSTOM_ENDPOINT, normalizeBaseUrl } from '../../services/ai/providers/custom'
+import { MOCK_API_KEY } from '../../services/ai/providers/mock'
 import { isNewConfigFormat, migrateToNewConfig } from '../../services/ai/types'
-import type { ServerUser } from '../../types'
+import { RETRIEVAL_SETTINGS_KEY } from '../../services/retrieval'
+import { MEMORY_INTERVAL_SETTINGS_KEY, DEFAULT_MEMORY_INTERVAL } from '../../services/memory-manager'
+import type { ServerUser, TaskModelRoutes, AIResponseCacheStats } from '../../types'
 import { ErrorDisplay, parseError, type ErrorInfo } from '../../components/ErrorDisplay'
+import ModelRoutesEditor from '../../components/ModelRoutesEditor'
+import RateLimitsEditor from '../../components/RateLimitsEditor'
+import MockProviderPanel from '../../components/MockProviderPanel'
 
 // 主题选项配置
 const THEME_OPTIONS = [
@@ -79,18 +108,74 @@ const THEME_OPTIONS = [
 const REGION_OPTIONS = [
   { label: '全部', value: 'all' },
   { label: '🌍 国际', value: 'global' },
-  { label: '🇨🇳 中国', value: 'china' }
+  { label: '🇨🇳 中国', value: 'china' },
+  { label: '🖥️ 自定义', value: 'local' }
 ]
 
+// 区域图标
+const REGION_ICONS: Record<string, string> = {
+  global: '🌍',
+  china: '🇨🇳',
+  local: '🖥️'
+}
+
+// 密钥状态显示
+const KEY_STATUS_TAGS: Record<KeyStatus, { color: string; label: string }> = {
+  healthy: { color: 'success', label: '正常' },
+  rate_limited: { color: 'warning', label: '限流冷却' },
+  quota_exhausted: { color: 'orange', label: '配额用尽' },
+  invalid: { color: 'error', label: '无效' }
+}
+
+// 将请求头对象格式化为 "Name: value" 多行文本
+const formatHeaders = (headers: Record<string, string>): string =>
+  Object.entries(headers).map(([key, value]) => `${key}: ${value}`).join('\n')
+
+// 解析 "Name: value" 多行文本为请求头对象
+const parseHeaders = (text: string): Record<string, string> => {
+  const headers: Record<string, string> = {}
+  for (const line of text.split('\n')) {
+    const index = line.indexOf(':')
+    if (index <= 0) continue
+    const key = line.slice(0, index).trim()
+    const value = line.slice(index + 1).trim()
+    if (key) headers[key] = value
+  }
+  return headers
+}
+
 function GlobalSettings() {
   // AI 提供商配置
   const [selectedProvider, setSelectedProvider] = useState<ProviderType>('gemini')
-  const [regionFilter, setRegionFilter] = useState<'all' | 'global' | 'china'>('all')
+  const [regionFilter, setRegionFilter] = useState<'all' | 'global' | 'china' | 'local'>('all')
   const [providerConfigs, setProviderConfigs] = useState<Record<string, ProviderConfig | LegacyProviderConfig>>({})
   const [currentApiKeys, setCurrentApiKeys] = useState<string[]>([])  // 多密钥列表
   const [activeKeyIndex, setActiveKeyIndex] = useState(0)  // 当前使用的密钥索引
   const [newApiKey, setNewApiKey] = useState('')  // 新输入的密钥
   const [aiConfigured, setAiConfigured] = useState(false)
+  const [keyHealth, setKeyHealth] = useState<KeyHealth[]>([])  // 与 currentApiKeys 一一对应
+  const [keyRotation, setKeyRotationState] = useState<KeyRotationMode>('failover')
+
+  // 自定义端点配置
+  const [customBaseUrl, setCustomBaseUrl] = useState(DEFAULT_CUSTOM_ENDPOINT.baseUrl)
+  const [customHeadersText, setCustomHeadersText] = useState('')
+  const [customContextWindow, setCustomContextWindow] = useState(DEFAULT_CUSTOM_ENDPOINT.contextWindow)
+  const [customEmbeddingModel, setCustomEmbeddingModel] = useState('')
+  const [customModels, setCustomModels] = useState<string[]>([])
+  const [isDiscoveringModels, setIsDiscoveringModels] = useState(false)
+
+  // 备用模型链
+  const [fallbackEntries, setFallbackEntries] = useState<ProviderModelRef[]>([])
+  const [newFallbackProvider, setNewFallbackProvider] = useState<ProviderType>('deepseek')
+  const [newFallbackModel, setNewFallbackModel] = useState<string>('')
+
+  // 任务模型路由
+  const [modelRoutes, setModelRoutes] = useState<ModelRoutes>({})
+  const [rateLimits, setRateLimitsState] = useState<Partial<Record<ProviderType, RateLimitConfig>>>({})
+
+  // 响应缓存
+  const [responseCache, setResponseCacheState] = useState<ResponseCacheConfig>(getResponseCacheConfig())
+  const [cacheStats, setCacheStats] = useState<AIResponseCacheStats | null>(null)
 
   // 代理配置
   const [proxyEnabled, setProxyEnabled] = useState(false)
@@ -107,6 +192,8 @@ function GlobalSettings() {
   const [autoUpdateEnabled, setAutoUpdateEnabled] = useState(true)
   const [summaryInterval, setSummaryInterval] = useState(20)
   const [characterInterval, setCharacterInterval] = useState(30)
+  const [memoryInterval, setMemoryInterval] = useState(DEFAULT_MEMORY_INTERVAL)
+  const [retrievalEnabled, setRetrievalEnabled] = useState(true)
 
   // 错误显示状态
   const [aiError, setAiError] = useState<ErrorInfo | null>(null)
@@ -137,7 +224,7 @@ function GlobalSettings() {
   // 获取筛选后的提供商列表
   const getFilteredProviders = (): ProviderType[] => {
     if (regionFilter === 'all') {
-      return [...getProvidersByRegion('global'), ...getProvidersByRegion('china')]
+      return [...getProvidersByRegion('global'), ...getProvidersByRegion('china'), ...getProvidersByRegion('local')]
     }
     return getProvidersByRegion(regionFilter)
   }
@@ -177,6 +264,32 @@ function GlobalSettings() {
 
         setProviderConfigs(configs)
 
+        // 加载自定义端点配置（需在初始化 AI 之前，保证模型列表可用）
+        const savedEndpoint = await window.electron.settings.get(CUSTOM_ENDPOINT_SETTINGS_KEY) as Partial<CustomEndpointConfig> | null
+        if (savedEndpoint) {
+          configureCustomEndpoint(savedEndpoint)
+          setCustomBaseUrl(savedEndpoint.baseUrl || DEFAULT_CUSTOM_ENDPOINT.baseUrl)
+          setCustomHeadersText(formatHeaders(savedEndpoint.headers || {}))
+          setCustomContextWindow(savedEndpoint.contextWindow || DEFAULT_CUSTOM_ENDPOINT.contextWindow)
+          setCustomModels(savedEndpoint.models || [])
+          setCustomEmbeddingModel(savedEndpoint.embeddingModel || '')
+        }
+
+        // 加载备用模型链
+        setFallbackEntries(await getFallbackChain())
+
+        // 加载任务模型路由
+        setModelRoutes(await getGlobalModelRoutes())
+
+        // 加载请求限额
+        await loadRateLimits()
+        setRateLimitsState(getUserRateLimits())
+
+        // 加载响应缓存设置和统计
+        await loadResponseCacheConfig()
+        setResponseCacheState(getResponseCacheConfig())
+        setCacheStats(await window.electron.db.getResponseCacheStats())
+
         // 设置当前提供商
         if (savedProvider && savedProvider in PROVIDER_INFO) {
           setSelectedProvider(savedProvider as ProviderType)
@@ -243,6 +356,8 @@ function GlobalSettings() {
         const autoUpdateEnabledValue = await window.electron.settings.get('autoUpdateEnabled')
         const summaryIntervalValue = await window.electron.settings.get('summaryInterval')
         const characterIntervalValue = await window.electron.settings.get('characterInterval')
+        const memoryIntervalValue = await window.electron.settings.get(MEMORY_INTERVAL_SETTINGS_KEY)
+        const retrievalEnabledValue = await window.electron.settings.get(RETRIEVAL_SETTINGS_KEY)
 
         if (autoUpdateEnabledValue !== undefined) {
           setAutoUpdateEnabled(autoUpdateEnabledValue as boolean)
@@ -253,6 +368,12 @@ function GlobalSettings() {
         if (characterIntervalValue) {
           setCharacterInterval(characterIntervalValue as number)
         }
+        if (memoryIntervalValue) {
+          setMemoryInterval(memoryIntervalValue as number)
+        }
+        if (retrievalEnabledValue !== undefined) {
+          setRetrievalEnabled(retrievalEnabledValue as boolean)
+        }
 
         // 加载主题配置
         const savedTheme = await window.electron.settings.get('appTheme')
@@ -287,6 +408,59 @@ function GlobalSettings() {
     loadSettings()
   }, [])
 
+  // 加载密钥健康状态和轮换方式
+  const refreshKeyHealth = async () => {
+    setKeyHealth(await getKeyHealthList(selectedProvider, currentApiKeys))
+    setKeyRotationState(await getKeyRotation(selectedProvider))
+  }
+
+  useEffect(() => {
+    refreshKeyHealth().catch(error => console.error('Failed to load key health:', error))
+  }, [selectedProvider, currentApiKeys])
+
+  // 手动恢复密钥
+  const handleResetKeyHealth = async (index: number) => {
+    await resetKeyHealth(selectedProvider, currentApiKeys[index])
+    await refreshKeyHealth()
+    message.success('已恢复为正常状态')
+  }
+
+  // 切换密钥轮换方式
+  const handleKeyRotationChange = async (mode: KeyRotationMode) => {
+    await setKeyRotation(selectedProvider, mode)
+    setKeyRotationState(mode)
+    message.success(mode === 'round_robin' ? '已改为轮流使用所有可用密钥' : '已改为出错时切换密钥')
+  }
+
+  // 密钥状态标签，悬停显示冷却时间和最近错误
+  const renderKeyStatus = (health: KeyHealth | undefined) => {
+    if (!health) return null
+    const tag = KEY_STATUS_TAGS[health.status]
+    const tooltip = (
+      <div className="text-xs">
+        {health.until !== null && <div className="mb-1">预计 {new Date(health.until).toLocaleString()} 自动恢复</div>}
+        {health.status === 'invalid' && <div className="mb-1">密钥无效，确认后请手动恢复</div>}
+        {health.recentErrors.length > 0 ? (
+          health.recentErrors.map((item, i) => (
+            <div key={i} className="mb-1">
+              <span className="opacity-70">{new Date(item.at).toLocaleString()}</span> {item.message}
+            </div>
+          ))
+        ) : (
+          <div>暂无错误记录</div>
+        )}
+      </div>
+    )
+    return (
+      <Tooltip title={tooltip} overlayStyle={{ maxWidth: 420 }}>
+        <Tag color={tag.color}>
+          {tag.label}
+          {health.status === 'healthy' && health.recentErrors.length > 0 && ` · ${health.recentErrors.length} 次错误`}
+        </Tag>
+      </Tooltip>
+    )
+  }
+
   // 遮蔽密钥显示
   const maskKey = (key: string): string => {
     if (key.length <= 12) return '••••••••'
@@ -301,7 +475,14 @@ function GlobalSettings() {
     setAiError(null)
 
     // 加载该提供商的配置
-    const config = providerConfigs[provider]
+    let config = providerConfigs[provider]
+    // 离线模拟不需要密钥，首次选择时写入占位配置
+    if (provider === 'mock' && !config) {
+      config = { apiKeys: [MOCK_API_KEY], activeKeyIndex: 0, model: 'replay' }
+      const newConfigs = { ...providerConfigs, mock: config }
+      setProviderConfigs(newConfigs)
+      await window.electron.settings.set('aiProviderConfigs', newConfigs)
+    }
     if (config && isNewConfigFormat(config) && config.apiKeys.length > 0) {
       const activeKey = config.apiKeys[config.activeKeyIndex] || config.apiKeys[0]
       setCurrentApiKeys(config.apiKeys)
@@ -583,6 +764,155 @@ function GlobalSettings() {
     }
   }
 
+  // 构建并应用当前表单中的自定义端点配置
+  const applyCustomEndpoint = (models: string[] = customModels): CustomEndpointConfig | null => {
+    const baseUrl = normalizeBaseUrl(customBaseUrl)
+    try {
+      new URL(baseUrl)
+    } catch {
+      message.error('请输入有效的端点地址，例如 http://localhost:11434/v1')
+      return null
+    }
+
+    const endpoint: CustomEndpointConfig = {
+      baseUrl,
+      headers: parseHeaders(customHeadersText),
+      models,
+      contextWindow: customContextWindow || DEFAULT_CUSTOM_ENDPOINT.contextWindow,
+      embeddingModel: customEmbeddingModel.trim() || undefined
+    }
+    configureCustomEndpoint(endpoint)
+    return endpoint
+  }
+
+  // 保存自定义端点
+  const handleSaveCustomEndpoint = async () => {
+    const endpoint = applyCustomEndpoint()
+    if (!endpoint) return
+
+    try {
+      await window.electron.settings.set(CUSTOM_ENDPOINT_SETTINGS_KEY, endpoint)
+      setCustomBaseUrl(endpoint.baseUrl)
+      message.success('自定义端点已保存')
+    } catch (error: any) {
+      message.error(`保存失败: ${error.message || String(error)}`)
+    }
+  }
+
+  // 从自定义端点获取模型列表
+  const handleDiscoverModels = async () => {
+    if (!applyCustomEndpoint()) return
+
+    setIsDiscoveringModels(true)
+    try {
+      const models = await discoverCustomModels()
+      const endpoint = applyCustomEndpoint(models)
+      if (endpoint) {
+        await window.electron.settings.set(CUSTOM_ENDPOINT_SETTINGS_KEY, endpoint)
+      }
+      setCustomModels(models)
+
+      if (models.length === 0) {
+        message.warning('端点未返回任何模型')
+        return
+      }
+
+      message.success(`发现 ${models.length} 个模型`)
+      if (!models.includes(selectedModel)) {
+        if (aiConfigured) {
+          await handleSwitchModel(models[0])
+        } else {
+          setSelectedModel(models[0])
+        }
+      }
+    } catch (error: any) {
+      const parsedError = parseError(error)
+      parsedError.title = '获取模型列表失败'
+      setAiError(parsedError)
+    } finally {
+      setIsDiscoveringModels(false)
+    }
+  }
+
+  // 获取备用链可选的模型（自定义端点使用已发现的模型）
+  const getFallbackModelOptions = (provider: ProviderType): string[] =>
+    provider === 'custom' ? customModels : Object.keys(getAllModels()[provider] || {})
+
+  // 更新并保存备用模型链
+  const updateFallbackChain = async (chain: ProviderModelRef[]) => {
+    setFallbackEntries(chain)
+    try {
+      await setFallbackChain(chain)
+    } catch (error: any) {
+      message.error(`保存失败: ${error.message || String(error)}`)
+    }
+  }
+
+  // 添加备用模型
+  const handleAddFallback = async () => {
+    if (!newFallbackModel) {
+      message.warning('请选择模型')
+      return
+    }
+    if (fallbackEntries.some(e => e.provider === newFallbackProvider && e.model === newFallbackModel)) {
+      message.warning('该模型已在备用链中')
+      return
+    }
+    await updateFallbackChain([...fallbackEntries, { provider: newFallbackProvider, model: newFallbackModel }])
+    setNewFallbackModel('')
+  }
+
+  // 调整备用模型顺序
+  const handleMoveFallback = async (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= fallbackEntries.length) return
+    const chain = [...fallbackEntries]
+    ;[chain[index], chain[target]] = [chain[target], chain[index]]
+    await updateFallbackChain(chain)
+  }
+
+  // 更新并保存任务模型路由
+  const handleChangeModelRoutes = async (routes: TaskModelRoutes) => {
+    try {
+      await setGlobalModelRoutes(routes)
+      setModelRoutes(await getGlobalModelRoutes())
+    } catch (error: any) {
+      message.error(`保存失败: ${error.message || String(error)}`)
+    }
+  }
+
+  // 更新并保存请求限额
+  const handleChangeRateLimits = async (limits: Partial<Record<ProviderType, RateLimitConfig>>) => {
+    setRateLimitsState(limits)
+    try {
+      await setRateLimits(limits)
+    } catch (error: any) {
+      message.error(`保存失败: ${error.message || String(error)}`)
+    }
+  }
+
+  // 更新并保存响应缓存设置
+  const handleChangeResponseCache = async (patch: Partial<ResponseCacheConfig>) => {
+    const config = { ...responseCache, ...patch }
+    setResponseCacheState(config)
+    try {
+      await setResponseCacheConfig(config)
+    } catch (error: any) {
+      message.error(`保存失败: ${error.message || String(error)}`)
+    }
+  }
+
+  // 清空所有作品的响应缓存
+  const handleClearResponseCache = async () => {
+    try {
+      await window.electron.db.clearResponseCache()
+      setCacheStats(await window.electron.db.getResponseCacheStats())
+      message.success('已清空响应缓存')
+    } catch (error: any) {
+      message.error(`清空失败: ${error.message || String(error)}`)
+    }
+  }
+
   // 保存代理配置
   const handleSaveProxyConfig = async () => {
     if (!isProxyModified) {
@@ -606,6 +936,8 @@ function GlobalSettings() {
       await window.electron.settings.set('autoUpdateEnabled', autoUpdateEnabled)
       await window.electron.settings.set('summaryInterval', summaryInterval)
       await window.electron.settings.set('characterInterval', characterInterval)
+      await window.electron.settings.set(MEMORY_INTERVAL_SETTINGS_KEY, memoryInterval)
+      await window.electron.settings.set(RETRIEVAL_SETTINGS_KEY, retrievalEnabled)
       message.success('自动更新配置已保存')
     } catch (error) {
       message.error('保存失败')
@@ -917,7 +1249,7 @@ function GlobalSettings() {
       >
         <Alert
           message="选择 AI 服务提供商"
-          description="不同地区可选择不同的 AI 服务。国际用户推荐 Gemini、OpenAI 或 Claude；中国用户推荐 DeepSeek、通义千问或 Kimi。"
+          description="不同地区可选择不同的 AI 服务。国际用户推荐 Gemini、OpenAI 或 Claude；中国用户推荐 DeepSeek、通义千问或 Kimi；本地或自托管模型请选择「自定义端点」。"
           type="info"
           showIcon
           className="mb-4"
@@ -929,7 +1261,7 @@ function GlobalSettings() {
           <Segmented
             options={REGION_OPTIONS}
             value={regionFilter}
-            onChange={(value) => setRegionFilter(value as 'all' | 'global' | 'china')}
+            onChange={(value) => setRegionFilter(value as 'all' | 'global' | 'china' | 'local')}
           />
         </div>
 
@@ -948,7 +1280,7 @@ function GlobalSettings() {
             options={getFilteredProviders().map(p => ({
               label: (
                 <Space>
-                  {PROVIDER_INFO[p].region === 'china' ? '🇨🇳' : '🌍'}
+                  {REGION_ICONS[PROVIDER_INFO[p].region]}
                   {PROVIDER_INFO[p].name}
                 </Space>
               ),
@@ -1001,6 +1333,76 @@ function GlobalSettings() {
         )}
 
         <div className="space-y-4">
+          {/* 自定义端点配置 */}
+          {selectedProvider === 'custom' && (
+            <div className="p-3 rounded border border-dark-border bg-dark-hover space-y-3">
+              <div>
+                <label className="block text-dark-text mb-2">
+                  <Space>
+                    <ApiOutlined />
+                    端点地址
+                  </Space>
+                </label>
+                <Input
+                  placeholder="例如：http://localhost:11434/v1（Ollama）或 http://localhost:8080/v1（llama.cpp）"
+                  value={customBaseUrl}
+                  onChange={(e) => setCustomBaseUrl(e.target.value)}
+                />
+                <div className="text-dark-muted text-xs mt-1">
+                  填写到 /v1 为止，请求将发送到 /chat/completions，模型列表来自 /models
+                </div>
+              </div>
+              <div>
+                <label className="block text-dark-text mb-2">额外请求头（可选，每行一个）</label>
+                <Input.TextArea
+                  placeholder={'X-Team-Id: writers\nX-Gateway-Token: xxxx'}
+                  value={customHeadersText}
+                  onChange={(e) => setCustomHeadersText(e.target.value)}
+                  autoSize={{ minRows: 2, maxRows: 5 }}
+                />
+              </div>
+              <div>
+                <label className="block text-dark-text mb-2">上下文窗口（tokens）</label>
+                <InputNumber
+                  min={1024}
+                  step={1024}
+                  value={customContextWindow}
+                  onChange={(value) => setCustomContextWindow(value || DEFAULT_CUSTOM_ENDPOINT.contextWindow)}
+                  className="w-full"
+                />
+              </div>
+              <div>
+                <label className="block text-dark-text mb-2">向量模型（可选）</label>
+                <Input
+                  placeholder="例如：nomic-embed-text、bge-m3"
+                  value={customEmbeddingModel}
+                  onChange={(e) => setCustomEmbeddingModel(e.target.value)}
+                />
+                <div className="text-dark-muted text-xs mt-1">
+                  用于检索相关前文，请求发送到 /embeddings；留空则使用关键词检索
+                </div>
+              </div>
+              <Space wrap>
+                <Button
+                  icon={<SyncOutlined spin={isDiscoveringModels} />}
+                  onClick={handleDiscoverModels}
+                  loading={isDiscoveringModels}
+                >
+                  获取模型列表
+                </Button>
+                <Button type="primary" icon={<SaveOutlined />} onClick={handleSaveCustomEndpoint}>
+                  保存端点
+                </Button>
+                {customModels.length > 0 && (
+                  <Tag color="blue">{customModels.length} 个模型</Tag>
+                )}
+              </Space>
+            </div>
+          )}
+
+          {/* 离线模拟配置 */}
+          {selectedProvider === 'mock' && <MockProviderPanel />}
+
           {/* 模型选择 */}
           <div>
             <label className="block text-dark-text mb-2">
@@ -1035,87 +1437,115 @@ function GlobalSettings() {
           </div>
 
           {/* API Key 列表 */}
-          <div>
-            <label className="block text-dark-text mb-2">
-              <Space>
-                <KeyOutlined />
-                {PROVIDER_INFO[selectedProvider].name} API Keys
-                {currentApiKeys.length > 1 && (
-                  <Tag color="blue">{currentApiKeys.length} 个密钥</Tag>
-                )}
-              </Space>
-            </label>
+          {selectedProvider !== 'mock' && (
+            <div>
+              <label className="block text-dark-text mb-2">
+                <Space>
+                  <KeyOutlined />
+                  {PROVIDER_INFO[selectedProvider].name} API Keys
+                  {currentApiKeys.length > 1 && (
+                    <Tag color="blue">{currentApiKeys.length} 个密钥</Tag>
+                  )}
+                </Space>
+              </label>
 
-            {/* 现有密钥列表 */}
-            {currentApiKeys.length > 0 && (
-              <div className="mb-3 space-y-2">
-                {currentApiKeys.map((key, index) => (
-                  <div
-                    key={index}
-                    className={`
-                      flex items-center gap-2 p-2 rounded border
-                      ${index === activeKeyIndex
-                        ? 'border-green-500 bg-green-500/10'
-                        : 'border-dark-border bg-dark-hover'
-                      }
-                    `}
-                  >
-                    <Tag
-                      color={index === activeKeyIndex ? 'green' : 'default'}
-                      className="cursor-pointer"
-                      onClick={() => handleSetActiveKey(index)}
+              {currentApiKeys.length > 1 && (
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="text-dark-muted text-sm">多密钥使用方式</span>
+                  <Segmented
+                    size="small"
+                    value={keyRotation}
+                    onChange={(value) => handleKeyRotationChange(value as KeyRotationMode)}
+                    options={[
+                      { label: '出错时切换', value: 'failover' },
+                      { label: '轮流使用', value: 'round_robin' }
+                    ]}
+                  />
+                  <Tooltip title="刷新密钥状态">
+                    <Button size="small" type="text" icon={<ReloadOutlined />} onClick={refreshKeyHealth} />
+                  </Tooltip>
+                </div>
+              )}
+
+              {/* 现有密钥列表 */}
+              {currentApiKeys.length > 0 && (
+                <div className="mb-3 space-y-2">
+                  {currentApiKeys.map((key, index) => (
+                    <div
+                      key={index}
+                      className={`
+                        flex items-center gap-2 p-2 rounded border
+                        ${index === activeKeyIndex
+                          ? 'border-green-500 bg-green-500/10'
+                          : 'border-dark-border bg-dark-hover'
+                        }
+                      `}
                     >
-                      {index === activeKeyIndex ? '当前使用' : `备用 ${index}`}
-                    </Tag>
-                    <span className="flex-1 font-mono text-sm text-dark-muted">
-                      {maskKey(key)}
-                    </span>
-                    <Tooltip title={index === activeKeyIndex ? '点击切换为当前使用' : '设为当前使用'}>
-                      <Button
-                        size="small"
-                        type={index === activeKeyIndex ? 'primary' : 'default'}
-                        icon={<CheckCircleOutlined />}
+                      <Tag
+                        color={index === activeKeyIndex ? 'green' : 'default'}
+                        className="cursor-pointer"
                         onClick={() => handleSetActiveKey(index)}
-                        disabled={index === activeKeyIndex}
-                      />
-                    </Tooltip>
-                    <Tooltip title="删除此密钥">
-                      <Button
-                        size="small"
-                        danger
-                        icon={<DeleteOutlined />}
-                        onClick={() => handleRemoveApiKey(index)}
-                        disabled={currentApiKeys.length <= 1}
-                      />
-                    </Tooltip>
-                  </div>
-                ))}
+                      >
+                        {index === activeKeyIndex ? '当前使用' : `备用 ${index}`}
+                      </Tag>
+                      <span className="flex-1 font-mono text-sm text-dark-muted">
+                        {maskKey(key)}
+                      </span>
+                      {renderKeyStatus(keyHealth[index])}
+                      {keyHealth[index] && (keyHealth[index].status !== 'healthy' || keyHealth[index].recentErrors.length > 0) && (
+                        <Tooltip title="恢复为正常并清除错误记录">
+                          <Button size="small" icon={<SyncOutlined />} onClick={() => handleResetKeyHealth(index)} />
+                        </Tooltip>
+                      )}
+                      <Tooltip title={index === activeKeyIndex ? '点击切换为当前使用' : '设为当前使用'}>
+                        <Button
+                          size="small"
+                          type={index === activeKeyIndex ? 'primary' : 'default'}
+                          icon={<CheckCircleOutlined />}
+                          onClick={() => handleSetActiveKey(index)}
+                          disabled={index === activeKeyIndex}
+                        />
+                      </Tooltip>
+                      <Tooltip title="删除此密钥">
+                        <Button
+                          size="small"
+                          danger
+                          icon={<DeleteOutlined />}
+                          onClick={() => handleRemoveApiKey(index)}
+                          disabled={currentApiKeys.length <= 1}
+                        />
+                      </Tooltip>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* 添加新密钥 */}
+              <div className="flex gap-2">
+                <Input.Password
+                  placeholder={selectedProvider === 'custom'
+                    ? '输入端点 API Key（本地模型无需密钥可填写任意值，如 ollama）'
+                    : `输入 ${PROVIDER_INFO[selectedProvider].name} API Key`}
+                  value={newApiKey}
+                  onChange={(e) => setNewApiKey(e.target.value)}
+                  className="flex-1"
+                />
+                <Button
+                  type="primary"
+                  icon={currentApiKeys.length === 0 ? <SaveOutlined /> : <PlusOutlined />}
+                  onClick={handleAddApiKey}
+                >
+                  {currentApiKeys.length === 0 ? '保存并验证' : '添加备用密钥'}
+                </Button>
               </div>
-            )}
 
-            {/* 添加新密钥 */}
-            <div className="flex gap-2">
-              <Input.Password
-                placeholder={`输入 ${PROVIDER_INFO[selectedProvider].name} API Key`}
-                value={newApiKey}
-                onChange={(e) => setNewApiKey(e.target.value)}
-                className="flex-1"
-              />
-              <Button
-                type="primary"
-                icon={currentApiKeys.length === 0 ? <SaveOutlined /> : <PlusOutlined />}
-                onClick={handleAddApiKey}
-              >
-                {currentApiKeys.length === 0 ? '保存并验证' : '添加备用密钥'}
-              </Button>
+              {currentApiKeys.length > 0 && (
+                <div className="text-dark-muted text-xs mt-2">
+                  提示：密钥限流或配额用尽时自动切换到其他可用密钥，冷却结束（限流按接口提示时间、配额到次日零点）后自动恢复；无效密钥需手动恢复
+                </div>
+              )}
             </div>
-
-            {currentApiKeys.length > 0 && (
-              <div className="text-dark-muted text-xs mt-2">
-                提示：当前密钥配额用尽时，系统将自动切换到下一个备用密钥
-              </div>
-            )}
-          </div>
+          )}
 
           {/* 配额检查按钮 */}
           {aiConfigured && (
@@ -1139,28 +1569,214 @@ function GlobalSettings() {
             </Space>
           )}
 
-          <div className="text-dark-muted text-sm">
-            <a
-              href="#"
-              className="text-primary-400"
-              onClick={(e) => {
-                e.preventDefault()
-                window.electron.system.openExternal(PROVIDER_INFO[selectedProvider].apiKeyUrl)
-              }}
-            >
-              获取 {PROVIDER_INFO[selectedProvider].name} API Key →
-            </a>
-            {' | '}
-            <a
-              href="#"
-              className="text-primary-400"
-              onClick={(e) => {
-                e.preventDefault()
-                window.electron.system.openExternal(PROVIDER_INFO[selectedProvider].website)
-              }}
-            >
-              访问官网 →
-            </a>
+          {selectedProvider !== 'mock' && (
+            <div className="text-dark-muted text-sm">
+              <a
+                href="#"
+                className="text-primary-400"
+                onClick={(e) => {
+                  e.preventDefault()
+                  window.electron.system.openExternal(PROVIDER_INFO[selectedProvider].apiKeyUrl)
+                }}
+              >
+                获取 {PROVIDER_INFO[selectedProvider].name} API Key →
+              </a>
+              {' | '}
+              <a
+                href="#"
+                className="text-primary-400"
+                onClick={(e) => {
+                  e.preventDefault()
+                  window.electron.system.openExternal(PROVIDER_INFO[selectedProvider].website)
+                }}
+              >
+                访问官网 →
+              </a>
+            </div>
+          )}
+        </div>
+      </Card>
+
+      {/* 备用模型链 */}
+      <Card
+        title={
+          <Space>
+            <BranchesOutlined className="text-blue-500" />
+            <span>备用模型链</span>
+            {fallbackEntries.length > 0 && <Tag color="blue">{fallbackEntries.length} 个备用</Tag>}
+          </Space>
+        }
+        className="mb-6"
+        style={{ background: 'var(--color-bg-secondary)', border: '1px solid var(--color-border)' }}
+      >
+        <Alert
+          message="主提供商不可用时自动接手"
+          description="当前提供商的所有密钥配额用尽、网络异常或服务端 5xx 错误时，按顺序尝试下列提供商/模型。备用提供商需已在上方配置 API Key（自定义端点除外），每章使用的模型会记录在章节上。"
+          type="info"
+          showIcon
+          className="mb-4"
+        />
+
+        {fallbackEntries.length > 0 ? (
+          <div className="space-y-2 mb-4">
+            {fallbackEntries.map((entry, index) => {
+              const config = providerConfigs[entry.provider]
+              const hasKey = entry.provider === 'custom' || (config && isNewConfigFormat(config) && config.apiKeys.length > 0)
+              return (
+                <div
+                  key={`${entry.provider}/${entry.model}`}
+                  className="flex items-center justify-between p-2 rounded bg-dark-bg"
+                >
+                  <Space>
+                    <span className="text-dark-muted w-6">{index + 1}.</span>
+                    <span className="text-dark-text">{PROVIDER_INFO[entry.provider].name}</span>
+                    <Tag>{entry.model}</Tag>
+                    {!hasKey && <Tag color="orange">未配置密钥</Tag>}
+                  </Space>
+                  <Space size="small">
+                    <Button
+                      size="small"
+                      icon={<ArrowUpOutlined />}
+                      disabled={index === 0}
+                      onClick={() => handleMoveFallback(index, -1)}
+                    />
+                    <Button
+                      size="small"
+                      icon={<ArrowDownOutlined />}
+                      disabled={index === fallbackEntries.length - 1}
+                      onClick={() => handleMoveFallback(index, 1)}
+                    />
+                    <Button
+                      size="small"
+                      danger
+                      icon={<DeleteOutlined />}
+                      onClick={() => updateFallbackChain(fallbackEntries.filter((_, i) => i !== index))}
+                    />
+                  </Space>
+                </div>
+              )
+            })}
+          </div>
+        ) : (
+          <p className="text-dark-muted mb-4">尚未配置备用模型，主提供商失败时将直接报错</p>
+        )}
+
+        <Space.Compact className="w-full">
+          <Select
+            value={newFallbackProvider}
+            onChange={(value) => {
+              setNewFallbackProvider(value)
+              setNewFallbackModel('')
+            }}
+            style={{ width: 200 }}
+            options={(Object.keys(PROVIDER_INFO) as ProviderType[]).map(p => ({ value: p, label: PROVIDER_INFO[p].name }))}
+          />
+          <Select
+            value={newFallbackModel || undefined}
+            onChange={setNewFallbackModel}
+            placeholder="选择模型"
+            style={{ flex: 1 }}
+            options={getFallbackModelOptions(newFallbackProvider).map(m => ({ value: m, label: m }))}
+          />
+          <Button icon={<PlusOutlined />} onClick={handleAddFallback}>
+            添加
+          </Button>
+        </Space.Compact>
+      </Card>
+
+      {/* 任务模型路由 */}
+      <Card
+        title={
+          <Space>
+            <NodeIndexOutlined className="text-green-500" />
+            <span>任务模型路由</span>
+            {Object.keys(modelRoutes).length > 0 && <Tag color="green">{Object.keys(modelRoutes).length} 条规则</Tag>}
+          </Space>
+        }
+        className="mb-6"
+        style={{ background: 'var(--color-bg-secondary)', border: '1px solid var(--color-border)' }}
+      >
+        <Alert
+          message="不同任务使用不同模型"
+          description="例如大纲用推理能力强的模型、正文用速度快的模型、分析与摘要用最便宜的模型。路由目标需已配置 API Key（自定义端点除外），不可用时自动改用当前提供商。作品可在「世界观设定」中单独覆盖。"
+          type="info"
+          showIcon
+          className="mb-4"
+        />
+        <ModelRoutesEditor
+          value={modelRoutes}
+          onChange={handleChangeModelRoutes}
+          inheritLabel="使用当前提供商"
+        />
+      </Card>
+
+      {/* 请求调度 */}
+      <Card
+        title={
+          <Space>
+            <DashboardOutlined className="text-orange-500" />
+            <span>请求调度</span>
+          </Space>
+        }
+        className="mb-6"
+        style={{ background: 'var(--color-bg-secondary)', border: '1px solid var(--color-border)' }}
+      >
+        <Alert
+          message="按密钥限制并发和频率，避免触发限流"
+          description="所有 AI 请求在本地排队，正文写作优先于批量分析。限额按每个密钥分别计算；遇到限流时按服务端建议的时间暂停该密钥，短时间限流会自动重试。请按账号实际档位调整。"
+          type="info"
+          showIcon
+          className="mb-4"
+        />
+        <RateLimitsEditor value={rateLimits} onChange={handleChangeRateLimits} />
+      </Card>
+
+      {/* 响应缓存 */}
+      <Card
+        title={
+          <Space>
+            <DatabaseOutlined className="text-cyan-500" />
+            <span>响应缓存</span>
+          </Space>
+        }
+        className="mb-6"
+        style={{ background: 'var(--color-bg-secondary)', border: '1px solid var(--color-border)' }}
+      >
+        <Alert
+          message="重复分析未修改的章节时直接使用缓存结果"
+          description="扫描章节、提取卷要点等分析调用会按提示词、模型和生成参数缓存响应，内容不变时不会再次请求 AI。章节修改后提示词不同，会自动重新分析。超出大小上限时淘汰最久未用的缓存。"
+          type="info"
+          showIcon
+          className="mb-4"
+        />
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <span className="text-dark-text">启用响应缓存</span>
+            <Switch
+              checked={responseCache.enabled}
+              onChange={(enabled) => handleChangeResponseCache({ enabled })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-dark-text">缓存大小上限</span>
+            <InputNumber
+              min={1}
+              max={2048}
+              precision={0}
+              addonAfter="MB"
+              value={responseCache.maxSizeMB}
+              onChange={(v) => v && handleChangeResponseCache({ maxSizeMB: v })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-dark-muted text-sm">
+              {cacheStats
+                ? `共 ${cacheStats.entries} 条，${(cacheStats.bytes / 1024 / 1024).toFixed(1)} MB，已命中 ${cacheStats.hits} 次`
+                : '加载中...'}
+            </span>
+            <Button danger icon={<DeleteOutlined />} onClick={handleClearResponseCache} disabled={!cacheStats?.entries}>
+              清空全部缓存
+            </Button>
           </div>
         </div>
       </Card>
@@ -1640,6 +2256,29 @@ function GlobalSettings() {
                 </div>
               </div>
 
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-dark-text">记忆档案更新频率</span>
+                  <span className="text-primary-500">{memoryInterval === 1 ? '每章' : `${memoryInterval} 章`}</span>
+                </div>
+                <Slider
+                  min={1}
+                  max={10}
+                  step={1}
+                  value={memoryInterval}
+                  onChange={(value) => setMemoryInterval(value)}
+                  marks={{
+                    1: '每章',
+                    3: '3章',
+                    5: '5章',
+                    10: '10章'
+                  }}
+                />
+                <div className="text-dark-muted text-xs mt-1">
+                  保存章节后记录角色状态、进行中的冲突和近期剧情，写作时提供给 AI。间隔大于 1 时，检测到角色死亡等重大事件也会立即更新
+                </div>
+              </div>
+
               <Alert
                 message={
                   <div>
@@ -1657,6 +2296,17 @@ function GlobalSettings() {
             </>
           )}
 
+          <div className="flex items-center space-x-2">
+            <Switch
+              checked={retrievalEnabled}
+              onChange={(checked) => setRetrievalEnabled(checked)}
+            />
+            <span className="text-dark-text">写作时检索相关前文</span>
+            <Tooltip title="写每章前从已写章节中找出与本章大纲相关的片段一并提供给 AI。提供商支持向量化时按语义检索（会产生少量向量化费用），否则按关键词检索">
+              <QuestionCircleOutlined className="text-dark-muted cursor-help" />
+            </Tooltip>
+          </div>
+
           <Button
             type="primary"
             icon={<SaveOutlined />}
@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { Card, Input, Button, Radio, Checkbox, message, Spin, Steps, Progress, Tag } from 'antd'
 import {
@@ -10,12 +10,15 @@ import {
   OrderedListOutlined,
   CheckCircleOutlined,
   ReloadOutlined,
-  UserOutlined
+  UserOutlined,
+  PauseCircleOutlined
 } from '@ant-design/icons'
 import { useProjectStore } from '../../stores/project'
 import { SCALE_OPTIONS, GENRE_CATEGORIES, getAuthorsForGenres } from '../../types'
+import type { Character } from '../../types'
 import { autoCreateNovel } from '../../services/auto-create'
-import { isAIReady, initAI, setProvider, getCurrentProviderType, generateBookTitle } from '../../services/ai'
+import { initializeProjectMemory } from '../../services/memory-manager'
+import { isAIReady, initAI, setProvider, getCurrentProviderType, generateBookTitle, isAbortError } from '../../services/ai'
 import { getAIProviderConfig } from '../../utils'
 import { ErrorPage, parseError, type ErrorInfo } from '../../components/ErrorDisplay'
 type CheckboxValueType = string | number | boolean
@@ -39,6 +42,9 @@ function Home() {
   const [progress, setProgress] = useState(0)
   const [progressMessage, setProgressMessage] = useState('')
   const [errorInfo, setErrorInfo] = useState<ErrorInfo | null>(null)
+  // AI 生成阶段可以停止（保存阶段不可中断）
+  const [canStop, setCanStop] = useState(false)
+  const abortControllerRef = useRef<AbortController | null>(null)
 
   const [formData, setFormData] = useState({
     title: '',
@@ -159,6 +165,10 @@ function Home() {
     setPhase('init')
     setProgress(5)
 
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    setCanStop(true)
+
     try {
       // 创建项目
       setPhase('world')
@@ -178,8 +188,10 @@ function Home() {
           if (phase === 'chapters') {
             setPhase('outline')
           }
-        }
+        },
+        controller.signal
       )
+      setCanStop(false)
 
       setPhase('characters')
       setProgress(50)
@@ -202,13 +214,19 @@ function Home() {
 
       // 创建角色
       setProgressMessage('正在保存角色数据...')
+      const savedCharacters: Character[] = []
       for (const char of result.characters) {
-        await createCharacter({
+        const saved = await createCharacter({
           projectId: project.id,
           ...char
         })
+        if (saved) savedCharacters.push(saved)
       }
 
+      // 后台提取核心记忆，不阻塞后续保存
+      initializeProjectMemory(project.id, result.worldSetting, savedCharacters)
+        .catch(error => console.warn('[Memory] 初始化记忆失败:', error))
+
       // 创建卷结构
       setPhase('saving')
       const totalVolumes = result.volumes.length
@@ -260,6 +278,12 @@ function Home() {
       }, 1500)
 
     } catch (error: any) {
+      if (isAbortError(error)) {
+        message.info('已停止创作')
+        setStep('input')
+        setProgressMessage('')
+        return
+      }
       console.error('Auto create error:', error)
       const parsedError = parseError(error)
       parsedError.title = '大纲生成失败'
@@ -272,9 +296,17 @@ function Home() {
       setErrorInfo(parsedError)
       setStep('error')
       setProgressMessage('')
+    } finally {
+      abortControllerRef.current = null
+      setCanStop(false)
     }
   }
 
+  // 停止全自动创作
+  const handleStopCreate = () => {
+    abortControllerRef.current?.abort()
+  }
+
   // 从灵感中提取标题
   const generateTitle = (inspiration: string): string => {
     // 简单提取前几个字作为临时标题
@@ -365,6 +397,17 @@ function Home() {
 
             <p className="text-dark-muted">{getPhaseText()}</p>
 
+            {step === 'generating' && canStop && (
+              <Button
+                danger
+                icon={<PauseCircleOutlined />}
+                onClick={handleStopCreate}
+                className="mt-4"
+              >
+                停止创作
+              </Button>
+            )}
+
             {step === 'done' && (
               <p className="text-primary-400 mt-4">即将跳转到编辑器...</p>
             )}
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useState, useRef } from 'react'
 import { useParams } from 'react-router-dom'
 import {
   Card,
@@ -26,15 +26,16 @@ import {
   ThunderboltOutlined,
   DownloadOutlined,
   ClearOutlined,
-  ReloadOutlined
+  ReloadOutlined,
+  PauseCircleOutlined
 } from '@ant-design/icons'
 import JSZip from 'jszip'
 import { saveAs } from 'file-saver'
 import { useProjectStore } from '../../stores/project'
 import { generateVolumeChapters, generateChaptersOneByOne } from '../../services/auto-create'
-import { isAIReady, initAI, setProvider, getCurrentProviderType } from '../../services/ai'
+import { isAIReady, initAI, setProvider, getCurrentProviderType, isAbortError } from '../../services/ai'
 import { extractAllVolumeKeyPoints } from '../../services/outline-optimizer'
-import { getConfiguredApiKey, getAIProviderConfig } from '../../utils'
+import { getAIProviderConfig } from '../../utils'
 import type { Chapter } from '../../types'
 
 const { TextArea } = Input
@@ -76,6 +77,9 @@ function Outline() {
   const [useCompression, setUseCompression] = useState(true)  // 默认启用压缩
   const [isExtractingKeyPoints, setIsExtractingKeyPoints] = useState(false)
   const [extractProgress, setExtractProgress] = useState(0)
+  // 进行中的 AI 任务，用于停止按钮
+  const generateAbortRef = useRef<AbortController | null>(null)
+  const extractAbortRef = useRef<AbortController | null>(null)
 
   // 计算全书章节编号
   const getGlobalChapterNumber = (chapter: Chapter): number => {
@@ -160,6 +164,8 @@ function Outline() {
       onOk: async () => {
         setIsExtractingKeyPoints(true)
         setExtractProgress(0)
+        const controller = new AbortController()
+        extractAbortRef.current = controller
 
         try {
           console.log('[大纲优化] 开始提取核心要点...')
@@ -168,7 +174,8 @@ function Outline() {
             volumes,
             (current, total) => {
               setExtractProgress(Math.floor((current / total) * 100))
-            }
+            },
+            controller.signal
           )
 
           console.log('[大纲优化] 提取完成，更新数据库...')
@@ -183,9 +190,14 @@ function Outline() {
 
           message.success(`成功为 ${volumes.length} 卷提取核心要点！`)
         } catch (error: any) {
+          if (isAbortError(error)) {
+            message.info('已停止提取核心要点')
+            return
+          }
           console.error('[大纲优化] 提取失败:', error)
           message.error(`提取失败: ${error.message}`)
         } finally {
+          extractAbortRef.current = null
           setIsExtractingKeyPoints(false)
           setExtractProgress(0)
         }
@@ -315,6 +327,7 @@ function Outline() {
       console.log('✅ [大纲生成] 成功获取数据库锁')
 
       // 设置前端锁（用于UI状态）
+      generateAbortRef.current = new AbortController()
       setGeneratingVolumeId(volumeId)
       setGeneratingProgress(10)
       // 设置全局生成状态（用于导航守卫）
@@ -453,7 +466,8 @@ function Outline() {
             setGeneratingProgress(15 + Math.floor((current / total) * 70))
           },
           startChapterNumber,  // 传入全局章节编号
-          extendedContext      // 传入扩展上下文
+          extendedContext,     // 传入扩展上下文
+          generateAbortRef.current.signal
         )
         console.log(`✅ [大纲生成] API 调用成功，生成了 ${generatedChapters.length} 章`)
       } else {
@@ -509,7 +523,8 @@ function Outline() {
           characterArchives,  // 传入完整角色档案
           contextInfo,  // 传入上下文信息
           useCompression,  // 启用智能压缩
-          volumes  // 传入所有卷信息
+          volumes,  // 传入所有卷信息
+          generateAbortRef.current.signal
         )
         console.log(`✅ [大纲生成] API 调用成功，生成了 ${generatedChapters.length} 章`)
       }
@@ -596,6 +611,10 @@ function Outline() {
       // 清空指导意见
       setGenerateGuidance('')
     } catch (error: any) {
+      if (isAbortError(error)) {
+        message.info('已停止生成章节大纲')
+        return
+      }
       console.error('❌ [大纲生成] 生成失败:', error)
       console.error('❌ 错误详情:', {
         message: error.message,
@@ -652,6 +671,7 @@ function Outline() {
       }
 
       // 清除前端锁
+      generateAbortRef.current = null
       setGeneratingVolumeId(null)
       setGeneratingProgress(0)
       // 清除全局生成状态
@@ -834,6 +854,15 @@ function Outline() {
               </Button>
             </Tooltip>
           )}
+          {isExtractingKeyPoints && (
+            <Button
+              danger
+              icon={<PauseCircleOutlined />}
+              onClick={() => extractAbortRef.current?.abort()}
+            >
+              停止
+            </Button>
+          )}
           <Button
             type="primary"
             icon={<PlusOutlined />}
@@ -979,7 +1008,17 @@ function Outline() {
                         '100%': '#0284c7'
                       }}
                     />
-                    <p className="text-dark-muted text-sm mt-2">正在生成章节大纲...</p>
+                    <div className="flex items-center justify-between mt-2">
+                      <p className="text-dark-muted text-sm">正在生成章节大纲...</p>
+                      <Button
+                        size="small"
+                        danger
+                        icon={<PauseCircleOutlined />}
+                        onClick={() => generateAbortRef.current?.abort()}
+                      >
+                        停止
+                      </Button>
+                    </div>
                   </div>
                 )}
 
@@ -0,0 +1,513 @@
+import { useEffect, useState, useCallback } from 'react'
+import { Card, Row, Col, Tabs, List, Input, Button, Space, Tag, Select, Modal, Alert, Popconfirm, Empty, Tooltip, message } from 'antd'
+import {
+  CopyOutlined,
+  SaveOutlined,
+  DeleteOutlined,
+  EyeOutlined,
+  HistoryOutlined,
+  RollbackOutlined,
+  StarOutlined
+} from '@ant-design/icons'
+import {
+  PROMPT_TEMPLATES,
+  PROMPT_TEMPLATE_KEYS,
+  PROMPT_TEMPLATE_DEFAULTS_SETTINGS_KEY,
+  renderTemplate,
+  validateTemplate,
+  loadActivePromptTemplates
+} from '../../services/prompt-templates'
+import type { PromptVariables } from '../../services/prompt-templates'
+import { frameworkPromptVariables, volumeChaptersPromptVariables, getScaleConfig } from '../../services/auto-create'
+import { strictChapterPromptVariables } from '../../services/chapter-writer'
+import type { Project, Volume, Chapter, Character, PromptTemplate, PromptTemplateKey, PromptTemplateVersion } from '../../types'
+
+const cardStyle = { background: 'var(--color-bg-secondary)', border: '1px solid var(--color-border)' }
+
+// 内置默认模板在列表中的 ID
+const BUILTIN_ID = 'builtin'
+
+// 预览用的作品数据
+interface PreviewData {
+  project: Project
+  volumes: Volume[]
+  chapters: Chapter[]
+  characters: Character[]
+}
+
+/**
+ * 用作品的真实数据构建预览变量（与实际生成时的取值方式一致）
+ * @param targetId - 分卷模板为卷 ID，正文模板为章节 ID
+ */
+function buildPreviewVariables(key: PromptTemplateKey, data: PreviewData, targetId: string | null): PromptVariables {
+  const { project, volumes, chapters, characters } = data
+
+  switch (key) {
+    case 'micro-novel':
+    case 'million-framework':
+      return frameworkPromptVariables(
+        project.inspiration || '',
+        project.constraints || '',
+        getScaleConfig(key === 'micro-novel' ? 'micro' : 'million'),
+        project.genres,
+        project.styles
+      )
+
+    case 'volume-chapters': {
+      const volumeIndex = Math.max(0, volumes.findIndex(v => v.id === targetId))
+      const volume = volumes[volumeIndex]
+      const chapterCount = chapters.filter(c => c.volumeId === volume?.id).length || 40
+      return volumeChaptersPromptVariables(
+        project.worldSetting || '',
+        characters,
+        volume || { title: '', summary: '' },
+        volumeIndex,
+        volumes.length,
+        project.genres,
+        project.styles,
+        chapterCount
+      )
+    }
+
+    case 'chapter-strict': {
+      const chapter = chapters.find(c => c.id === targetId) || chapters[0]
+      const volumeChapters = chapters.filter(c => c.volumeId === chapter?.volumeId)
+      const index = volumeChapters.findIndex(c => c.id === chapter?.id)
+      return strictChapterPromptVariables(
+        project.worldSetting || '',
+        characters,
+        chapter?.title || '',
+        chapter?.outline || '',
+        index > 0 ? volumeChapters[index - 1].content || '' : '',
+        volumeChapters[index + 1]?.outline || '',
+        project.styles
+      )
+    }
+  }
+}
+
+function PromptTemplates() {
+  const [activeKey, setActiveKey] = useState<PromptTemplateKey>('chapter-strict')
+  const [templates, setTemplates] = useState<PromptTemplate[]>([])
+  const [defaults, setDefaults] = useState<Partial<Record<PromptTemplateKey, string>>>({})
+  const [selectedId, setSelectedId] = useState<string>(BUILTIN_ID)
+  const [draftName, setDraftName] = useState('')
+  const [draftContent, setDraftContent] = useState('')
+  const [issues, setIssues] = useState<string[]>([])
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  // 预览
+  const [showPreview, setShowPreview] = useState(false)
+  const [projects, setProjects] = useState<Project[]>([])
+  const [previewData, setPreviewData] = useState<PreviewData | null>(null)
+  const [previewTargetId, setPreviewTargetId] = useState<string | null>(null)
+
+  const definition = PROMPT_TEMPLATES[activeKey]
+  const keyTemplates = templates.filter(t => t.templateKey === activeKey)
+  const selected = keyTemplates.find(t => t.id === selectedId) || null
+  const isDirty = !!selected && (draftContent !== selected.content || draftName !== selected.name)
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const [list, savedDefaults] = await Promise.all([
+        window.electron.db.getPromptTemplates(),
+        window.electron.settings.get(PROMPT_TEMPLATE_DEFAULTS_SETTINGS_KEY)
+      ])
+      setTemplates(list)
+      setDefaults(savedDefaults || {})
+      // 模板修改后刷新当前生效的模板
+      loadActivePromptTemplates(null)
+      return list
+    } catch (error) {
+      console.error('Failed to load prompt templates:', error)
+      message.error('加载提示词模板失败')
+      return []
+    }
+  }, [])
+
+  useEffect(() => {
+    loadTemplates()
+  }, [loadTemplates])
+
+  // 切换选中的模板时载入内容和历史版本
+  useEffect(() => {
+    setIssues([])
+    if (!selected) {
+      setDraftName(definition.name)
+      setDraftContent(definition.defaultContent)
+      setVersions([])
+      return
+    }
+    setDraftName(selected.name)
+    setDraftContent(selected.content)
+    window.electron.db.getPromptTemplateVersions(selected.id)
+      .then(setVersions)
+      .catch(error => console.error('Failed to load template versions:', error))
+  }, [selected?.id, selected?.version, definition])
+
+  const handleChangeKey = (key: string) => {
+    setActiveKey(key as PromptTemplateKey)
+    setSelectedId(BUILTIN_ID)
+  }
+
+  // 以当前内容复制为新模板
+  const handleFork = async () => {
+    try {
+      const created = await window.electron.db.createPromptTemplate({
+        templateKey: activeKey,
+        name: `${draftName} 副本`,
+        content: draftContent
+      })
+      await loadTemplates()
+      setSelectedId(created.id)
+      message.success('已创建模板副本')
+    } catch (error) {
+      console.error('Failed to fork template:', error)
+      message.error('复制模板失败')
+    }
+  }
+
+  const handleSave = async () => {
+    if (!selected) return
+    const problems = validateTemplate(activeKey, draftContent)
+    setIssues(problems)
+    if (problems.length > 0) {
+      message.warning('模板存在问题，请修正后再保存')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const updated = await window.electron.db.updatePromptTemplate(selected.id, {
+        name: draftName.trim() || selected.name,
+        content: draftContent
+      })
+      await loadTemplates()
+      message.success(updated.version > selected.version ? `已保存为 v${updated.version}` : '已保存')
+    } catch (error) {
+      console.error('Failed to save template:', error)
+      message.error('保存失败')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!selected) return
+    try {
+      await window.electron.db.deletePromptTemplate(selected.id)
+      if (defaults[activeKey] === selected.id) {
+        await handleSetDefault(null)
+      }
+      setSelectedId(BUILTIN_ID)
+      await loadTemplates()
+      message.success('模板已删除')
+    } catch (error) {
+      console.error('Failed to delete template:', error)
+      message.error('删除失败')
+    }
+  }
+
+  // 设为全局默认（null 表示使用内置模板）
+  const handleSetDefault = async (templateId: string | null) => {
+    const next = { ...defaults }
+    if (templateId) {
+      next[activeKey] = templateId
+    } else {
+      delete next[activeKey]
+    }
+    await window.electron.settings.set(PROMPT_TEMPLATE_DEFAULTS_SETTINGS_KEY, next)
+    setDefaults(next)
+    loadActivePromptTemplates(null)
+  }
+
+  const handleRollback = async (version: number) => {
+    if (!selected) return
+    try {
+      const updated = await window.electron.db.rollbackPromptTemplate(selected.id, version)
+      await loadTemplates()
+      message.success(`已回滚到 v${version} 的内容（保存为 v${updated.version}）`)
+    } catch (error: any) {
+      console.error('Failed to rollback template:', error)
+      message.error(error.message || '回滚失败')
+    }
+  }
+
+  // ==================== 预览 ====================
+
+  const handleOpenPreview = async () => {
+    const problems = validateTemplate(activeKey, draftContent)
+    setIssues(problems)
+    setShowPreview(true)
+    if (projects.length === 0) {
+      try {
+        const list = await window.electron.db.getProjects()
+        setProjects(list)
+        if (list.length > 0 && !previewData) {
+          handleSelectPreviewProject(list[0].id)
+        }
+      } catch (error) {
+        console.error('Failed to load projects:', error)
+      }
+    }
+  }
+
+  const handleSelectPreviewProject = async (projectId: string) => {
+    try {
+      const [project, volumes, characters] = await Promise.all([
+        window.electron.db.getProject(projectId),
+        window.electron.db.getVolumes(projectId),
+        window.electron.db.getCharacters(projectId)
+      ])
+      if (!project) return
+      const chapterLists = await Promise.all(volumes.map(v => window.electron.db.getChapters(v.id)))
+      const chapters = chapterLists.flatMap(list => [...list].sort((a, b) => a.order - b.order))
+      setPreviewData({ project, volumes, chapters, characters })
+      setPreviewTargetId(null)
+    } catch (error) {
+      console.error('Failed to load preview data:', error)
+      message.error('加载作品数据失败')
+    }
+  }
+
+  let previewText = ''
+  if (showPreview && previewData) {
+    try {
+      previewText = renderTemplate(draftContent, buildPreviewVariables(activeKey, previewData, previewTargetId))
+    } catch (error: any) {
+      previewText = error.message
+    }
+  }
+
+  const previewTargets = activeKey === 'volume-chapters'
+    ? previewData?.volumes.map((v, i) => ({ value: v.id, label: `第${i + 1}卷 ${v.title}` }))
+    : activeKey === 'chapter-strict'
+      ? previewData?.chapters.map(c => ({ value: c.id, label: c.title }))
+      : undefined
+
+  const listItems = [
+    { id: BUILTIN_ID, name: `${definition.name}（内置）`, version: 0 },
+    ...keyTemplates
+  ]
+
+  return (
+    <div className="p-6 fade-in max-w-6xl mx-auto">
+      {/* 头部 */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-dark-text mb-1">提示词模板</h1>
+        <p className="text-dark-muted">
+          复制内置模板后即可修改，每次保存生成新版本，可随时回滚。作品可在「世界观设定」中选用不同模板
+        </p>
+      </div>
+
+      <Tabs
+        activeKey={activeKey}
+        onChange={handleChangeKey}
+        items={PROMPT_TEMPLATE_KEYS.map(key => ({ key, label: PROMPT_TEMPLATES[key].name }))}
+      />
+
+      <Row gutter={16}>
+        {/* 模板列表 */}
+        <Col xs={24} md={7}>
+          <Card title="模板" size="small" className="mb-4" style={cardStyle}>
+            <List
+              size="small"
+              dataSource={listItems}
+              renderItem={item => {
+                const isDefault = item.id === BUILTIN_ID ? !defaults[activeKey] : defaults[activeKey] === item.id
+                return (
+                  <List.Item
+                    className="cursor-pointer rounded px-2"
+                    style={item.id === selectedId ? { background: 'var(--color-bg-tertiary)' } : undefined}
+                    onClick={() => setSelectedId(item.id)}
+                  >
+                    <span className="truncate">{item.name}</span>
+                    <Space size={4}>
+                      {item.version > 0 && <Tag>v{item.version}</Tag>}
+                      {isDefault && <Tag color="blue">默认</Tag>}
+                    </Space>
+                  </List.Item>
+                )
+              }}
+            />
+          </Card>
+
+          <Card title="变量" size="small" style={cardStyle}>
+            <p className="text-dark-muted text-xs mb-2">
+              {'{{变量名}}'} 插入变量；{'{{#if 变量名}}...{{else}}...{{/if}}'} 按变量是否为空输出
+            </p>
+            {definition.variables.map(variable => (
+              <div key={variable.name} className="mb-1 text-sm">
+                <code className="text-primary-400">{`{{${variable.name}}}`}</code>
+                <span className="text-dark-muted ml-2">{variable.description}</span>
+              </div>
+            ))}
+          </Card>
+        </Col>
+
+        {/* 编辑区 */}
+        <Col xs={24} md={17}>
+          <Card
+            size="small"
+            className="mb-4"
+            style={cardStyle}
+            title={
+              selected ? (
+                <Input
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  style={{ maxWidth: 320 }}
+                />
+              ) : (
+                <span>{definition.name}（内置，只读）</span>
+              )
+            }
+            extra={
+              <Space>
+                <Button icon={<EyeOutlined />} onClick={handleOpenPreview}>预览</Button>
+                <Button icon={<CopyOutlined />} onClick={handleFork}>复制为新模板</Button>
+                {(selected ? defaults[activeKey] !== selected.id : !!defaults[activeKey]) && (
+                  <Tooltip title="新建作品及未单独选用模板的作品使用此模板">
+                    <Button icon={<StarOutlined />} onClick={() => handleSetDefault(selected?.id ?? null)}>
+                      设为默认
+                    </Button>
+                  </Tooltip>
+                )}
+                {selected && (
+                  <>
+                    <Popconfirm
+                      title="删除此模板？"
+                      description="历史版本会一并删除，选用此模板的作品将改用默认模板"
+                      onConfirm={handleDelete}
+                      okText="删除"
+                      cancelText="取消"
+                      okButtonProps={{ danger: true }}
+                    >
+                      <Button danger icon={<DeleteOutlined />} />
+                    </Popconfirm>
+                    <Button
+                      type="primary"
+                      icon={<SaveOutlined />}
+                      onClick={handleSave}
+                      loading={isSaving}
+                      disabled={!isDirty}
+                    >
+                      保存
+                    </Button>
+                  </>
+                )}
+              </Space>
+            }
+          >
+            <p className="text-dark-muted text-sm mb-3">{definition.description}</p>
+            {issues.length > 0 && (
+              <Alert
+                type="warning"
+                showIcon
+                className="mb-3"
+                message="模板存在问题"
+                description={issues.map(issue => <div key={issue}>{issue}</div>)}
+              />
+            )}
+            <Input.TextArea
+              value={draftContent}
+              onChange={(e) => setDraftContent(e.target.value)}
+              readOnly={!selected}
+              autoSize={{ minRows: 20, maxRows: 32 }}
+              style={{ fontFamily: 'monospace', fontSize: 13 }}
+            />
+          </Card>
+
+          {selected && (
+            <Card
+              size="small"
+              style={cardStyle}
+              title={
+                <Space>
+                  <HistoryOutlined />
+                  <span>历史版本</span>
+                </Space>
+              }
+            >
+              <List
+                size="small"
+                dataSource={versions}
+                locale={{ emptyText: '暂无历史版本' }}
+                renderItem={item => (
+                  <List.Item
+                    actions={item.version === selected.version ? [<Tag key="current" color="green">当前</Tag>] : [
+                      <Button key="view" type="link" size="small" onClick={() => setDraftContent(item.content)}>
+                        载入
+                      </Button>,
+                      <Popconfirm
+                        key="rollback"
+                        title={`回滚到 v${item.version}？`}
+                        description="将以该版本内容保存为新版本"
+                        onConfirm={() => handleRollback(item.version)}
+                        okText="回滚"
+                        cancelText="取消"
+                      >
+                        <Button type="link" size="small" icon={<RollbackOutlined />}>回滚</Button>
+                      </Popconfirm>
+                    ]}
+                  >
+                    <span>v{item.version}</span>
+                    <span className="text-dark-muted text-xs">
+                      {new Date(item.createdAt).toLocaleString()} · {item.content.length} 字
+                    </span>
+                  </List.Item>
+                )}
+              />
+            </Card>
+          )}
+        </Col>
+      </Row>
+
+      {/* 预览 */}
+      <Modal
+        title="预览（使用作品真实数据渲染当前编辑内容）"
+        open={showPreview}
+        onCancel={() => setShowPreview(false)}
+        footer={null}
+        width={860}
+      >
+        {projects.length === 0 ? (
+          <Empty description="暂无作品，无法预览" />
+        ) : (
+          <>
+            <Space className="mb-3" wrap>
+              <Select
+                style={{ width: 240 }}
+                placeholder="选择作品"
+                value={previewData?.project.id}
+                onChange={handleSelectPreviewProject}
+                options={projects.map(p => ({ value: p.id, label: p.title }))}
+              />
+              {previewTargets && (
+                <Select
+                  style={{ width: 280 }}
+                  placeholder={activeKey === 'volume-chapters' ? '选择卷' : '选择章节'}
+                  value={previewTargetId ?? previewTargets[0]?.value}
+                  onChange={setPreviewTargetId}
+                  options={previewTargets}
+                  showSearch
+                  optionFilterProp="label"
+                />
+              )}
+              {previewText && <span className="text-dark-muted text-sm">{previewText.length} 字</span>}
+            </Space>
+            <pre
+              className="text-sm whitespace-pre-wrap"
+              style={{ ...cardStyle, padding: 12, borderRadius: 6, maxHeight: '60vh', overflow: 'auto' }}
+            >
+              {previewText}
+            </pre>
+          </>
+        )}
+      </Modal>
+    </div>
+  )
+}
+
+export default PromptTemplates
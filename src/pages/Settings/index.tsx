@@ -1,13 +1,24 @@
 import { useEffect, useState } from 'react'
-import { useParams } from 'react-router-dom'
-import { Card, Input, Button, message, Spin, Divider, Space, Modal, List } from 'antd'
-import { SaveOutlined, KeyOutlined, EditOutlined, RobotOutlined, CheckOutlined } from '@ant-design/icons'
+import { useParams, useNavigate } from 'react-router-dom'
+import { Card, Input, Button, message, Spin, Divider, Space, Modal, List, Select, Switch } from 'antd'
+import { SaveOutlined, KeyOutlined, EditOutlined, RobotOutlined, CheckOutlined, FileTextOutlined, NodeIndexOutlined, SlidersOutlined, DatabaseOutlined, DeleteOutlined, BulbOutlined } from '@ant-design/icons'
 import RichEditor from '../../components/RichEditor'
 import { useProjectStore } from '../../stores/project'
 import { initGemini, generateBookTitle, isGeminiReady } from '../../services/gemini'
+import { PROMPT_TEMPLATES, loadActivePromptTemplates, describeTemplate } from '../../services/prompt-templates'
+import { loadModelRoutes, getGlobalModelRoutes, loadGenerationParams } from '../../services/ai'
+import type { ModelRoutes } from '../../services/ai'
+import ModelRoutesEditor from '../../components/ModelRoutesEditor'
+import GenerationParamsEditor from '../../components/GenerationParamsEditor'
+import { WRITING_CONTEXT_LABELS } from '../../types'
+import type { PromptTemplate, PromptTemplateKey, TaskModelRoutes, TaskGenerationParams, AIResponseCacheStats, WritingContextKey } from '../../types'
+
+// 作品级可选用的提示词模板（框架模板在新建作品时使用，只能设置全局默认）
+const PROJECT_TEMPLATE_KEYS: PromptTemplateKey[] = ['volume-chapters', 'chapter-strict']
 
 function Settings() {
   const { projectId } = useParams<{ projectId: string }>()
+  const navigate = useNavigate()
   const { currentProject, loadProject, updateProject } = useProjectStore()
 
   const [worldSetting, setWorldSetting] = useState('')
@@ -23,6 +34,15 @@ function Settings() {
   const [titleSuggestions, setTitleSuggestions] = useState<string[]>([])
   const [showTitleModal, setShowTitleModal] = useState(false)
 
+  // 提示词模板
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([])
+
+  // 全局模型路由（作品未覆盖的任务使用）
+  const [globalRoutes, setGlobalRoutes] = useState<ModelRoutes>({})
+
+  // 本作品的响应缓存统计
+  const [cacheStats, setCacheStats] = useState<AIResponseCacheStats | null>(null)
+
   useEffect(() => {
     if (projectId) {
       loadProject(projectId)
@@ -36,6 +56,26 @@ function Settings() {
     }
   }, [currentProject])
 
+  // 加载可选用的提示词模板
+  useEffect(() => {
+    window.electron.db.getPromptTemplates()
+      .then(setPromptTemplates)
+      .catch(error => console.error('Failed to load prompt templates:', error))
+  }, [])
+
+  useEffect(() => {
+    getGlobalModelRoutes()
+      .then(setGlobalRoutes)
+      .catch(error => console.error('Failed to load model routes:', error))
+  }, [])
+
+  useEffect(() => {
+    if (!projectId) return
+    window.electron.db.getResponseCacheStats(projectId)
+      .then(setCacheStats)
+      .catch(error => console.error('Failed to load response cache stats:', error))
+  }, [projectId])
+
   // 加载 API Key
   useEffect(() => {
     const loadApiKey = async () => {
@@ -152,6 +192,68 @@ function Settings() {
     }
   }
 
+  // 选用提示词模板（undefined 表示使用全局默认）
+  const handleSelectTemplate = async (key: PromptTemplateKey, templateId?: string) => {
+    if (!projectId || !currentProject) return
+    const next = { ...(currentProject.promptTemplates || {}) }
+    if (templateId) {
+      next[key] = templateId
+    } else {
+      delete next[key]
+    }
+    try {
+      await updateProject(projectId, { promptTemplates: next })
+      await loadActivePromptTemplates(projectId)
+      message.success('提示词模板已更新')
+    } catch (error) {
+      message.error('保存失败')
+    }
+  }
+
+  // 更新本作品的模型路由
+  const handleChangeModelRoutes = async (routes: TaskModelRoutes) => {
+    if (!projectId) return
+    try {
+      await updateProject(projectId, { modelRoutes: routes })
+      await loadModelRoutes(projectId)
+    } catch (error) {
+      message.error('保存失败')
+    }
+  }
+
+  // 更新本作品的生成参数
+  const handleChangeGenerationParams = async (params: TaskGenerationParams) => {
+    if (!projectId) return
+    try {
+      await updateProject(projectId, { generationParams: params })
+      await loadGenerationParams(projectId)
+    } catch (error) {
+      message.error('保存失败')
+    }
+  }
+
+  // 开关写正文时注入的上下文
+  const handleToggleWritingContext = async (key: WritingContextKey, enabled: boolean) => {
+    if (!projectId || !currentProject) return
+    try {
+      await updateProject(projectId, { writingContext: { ...currentProject.writingContext, [key]: enabled } })
+    } catch (error) {
+      message.error('保存失败')
+    }
+  }
+
+  // 清空本作品的响应缓存
+  const handleClearResponseCache = async () => {
+    if (!projectId) return
+    try {
+      await window.electron.db.clearResponseCache(projectId)
+      setCacheStats(await window.electron.db.getResponseCacheStats(projectId))
+      message.success('已清空本作品的响应缓存')
+    } catch (error) {
+      message.error('清空失败')
+    }
+  }
+
   if (!currentProject) {
     return (
       <div className="h-full flex items-center justify-center">
@@ -302,6 +404,141 @@ function Settings() {
         />
       </Card>
 
+      {/* 提示词模板 */}
+      <Card
+        className="mb-6"
+        title={
+          <Space>
+            <FileTextOutlined />
+            <span>提示词模板</span>
+          </Space>
+        }
+        extra={
+          <Button type="link" onClick={() => navigate('/prompts')}>
+            管理模板
+          </Button>
+        }
+        style={{ background: '#16213e', border: '1px solid #0f3460' }}
+      >
+        <p className="text-dark-muted mb-4">
+          为本作品选用自定义的提示词模板，未选用时使用全局默认模板
+        </p>
+        <div className="space-y-3">
+          {PROJECT_TEMPLATE_KEYS.map(key => (
+            <div key={key} className="flex items-center gap-4">
+              <label className="text-dark-text w-28">{PROMPT_TEMPLATES[key].name}</label>
+              <Select
+                style={{ width: 320 }}
+                allowClear
+                placeholder="使用全局默认"
+                value={promptTemplates.some(t => t.id === currentProject.promptTemplates?.[key])
+                  ? currentProject.promptTemplates?.[key]
+                  : undefined}
+                onChange={(value) => handleSelectTemplate(key, value)}
+                options={promptTemplates
+                  .filter(t => t.templateKey === key)
+                  .map(t => ({ value: t.id, label: describeTemplate(t) }))}
+              />
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      {/* 模型路由 */}
+      <Card
+        className="mb-6"
+        title={
+          <Space>
+            <NodeIndexOutlined />
+            <span>模型路由</span>
+          </Space>
+        }
+        style={{ background: '#16213e', border: '1px solid #0f3460' }}
+      >
+        <p className="text-dark-muted mb-4">
+          为本作品的各类任务指定模型，未指定的任务使用全局设置中的路由规则
+        </p>
+        <ModelRoutesEditor
+          value={currentProject.modelRoutes || {}}
+          onChange={handleChangeModelRoutes}
+          inheritLabel="使用全局设置"
+          inheritedRoutes={globalRoutes}
+        />
+      </Card>
+
+      {/* 生成参数 */}
+      <Card
+        className="mb-6"
+        title={
+          <Space>
+            <SlidersOutlined />
+            <span>生成参数</span>
+          </Space>
+        }
+        style={{ background: '#16213e', border: '1px solid #0f3460' }}
+      >
+        <p className="text-dark-muted mb-4">
+          默认预设：正文写作使用较高温度保持文笔变化，大纲和分析使用低温度保证 JSON 结构稳定。留空的项使用预设或模型默认值
+        </p>
+        <GenerationParamsEditor
+          value={currentProject.generationParams || {}}
+          onChange={handleChangeGenerationParams}
+        />
+      </Card>
+
+      {/* 写作上下文 */}
+      <Card
+        className="mb-6"
+        title={
+          <Space>
+            <BulbOutlined />
+            <span>写作上下文</span>
+          </Space>
+        }
+        style={{ background: '#16213e', border: '1px solid #0f3460' }}
+      >
+        <p className="text-dark-muted mb-4">
+          写正文时附加到提示词中的内容。写本章前可在「预览提示词」中查看最终组装的提示词
+        </p>
+        <div className="space-y-3">
+          {(Object.keys(WRITING_CONTEXT_LABELS) as WritingContextKey[]).map(key => (
+            <div key={key} className="flex items-center gap-4">
+              <label className="text-dark-text w-28">{WRITING_CONTEXT_LABELS[key]}</label>
+              <Switch
+                checked={currentProject.writingContext?.[key] !== false}
+                onChange={(checked) => handleToggleWritingContext(key, checked)}
+              />
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      {/* 响应缓存 */}
+      <Card
+        className="mb-6"
+        title={
+          <Space>
+            <DatabaseOutlined />
+            <span>响应缓存</span>
+          </Space>
+        }
+        extra={
+          <Button danger icon={<DeleteOutlined />} onClick={handleClearResponseCache} disabled={!cacheStats?.entries}>
+            清空缓存
+          </Button>
+        }
+        style={{ background: '#16213e', border: '1px solid #0f3460' }}
+      >
+        <p className="text-dark-muted">
+          重新扫描未修改的章节时直接使用缓存的分析结果。对分析结果不满意、需要重新请求 AI 时，可清空本作品的缓存
+        </p>
+        {cacheStats && (
+          <p className="text-dark-text mt-2">
+            共 {cacheStats.entries} 条，{(cacheStats.bytes / 1024 / 1024).toFixed(1)} MB，已命中 {cacheStats.hits} 次
+          </p>
+        )}
+      </Card>
+
       {/* 力量体系模板 */}
       <Card
         className="mb-6"
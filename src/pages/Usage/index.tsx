@@ -0,0 +1,230 @@
+import { useEffect, useState, useCallback } from 'react'
+import { Card, Row, Col, Statistic, Table, Segmented, Button, Popconfirm, Empty, Spin, message } from 'antd'
+import {
+  ThunderboltOutlined,
+  FileTextOutlined,
+  DollarOutlined,
+  DeleteOutlined,
+  ReloadOutlined
+} from '@ant-design/icons'
+import type { ColumnsType } from 'antd/es/table'
+import { PROVIDER_INFO } from '../../services/ai'
+import type { ProviderType } from '../../services/ai'
+import { TASK_TYPE_LABELS } from '../../types'
+import type { UsageStats, UsageSummary, UsageTaskType } from '../../types'
+
+// 统计范围（天数，0 表示全部）
+const RANGE_OPTIONS = [
+  { label: '近 7 天', value: 7 },
+  { label: '近 30 天', value: 30 },
+  { label: '近 90 天', value: 90 },
+  { label: '全部', value: 0 }
+]
+
+const cardStyle = { background: 'var(--color-bg-secondary)', border: '1px solid var(--color-border)' }
+
+/**
+ * 格式化费用（美元）
+ */
+function formatCost(cost: number): string {
+  if (cost === 0) return '$0'
+  if (cost < 0.01) return `$${cost.toFixed(4)}`
+  return `$${cost.toFixed(2)}`
+}
+
+/**
+ * 生成汇总表的列定义
+ */
+function buildColumns(title: string, renderLabel?: (row: UsageSummary) => React.ReactNode): ColumnsType<UsageSummary> {
+  return [
+    {
+      title,
+      dataIndex: 'label',
+      key: 'label',
+      render: (_, row) => (renderLabel ? renderLabel(row) : row.label)
+    },
+    {
+      title: '调用次数',
+      dataIndex: 'calls',
+      key: 'calls',
+      width: 100,
+      align: 'right'
+    },
+    {
+      title: '输入 Tokens',
+      dataIndex: 'promptTokens',
+      key: 'promptTokens',
+      width: 130,
+      align: 'right',
+      render: (value: number) => value.toLocaleString()
+    },
+    {
+      title: '输出 Tokens',
+      dataIndex: 'completionTokens',
+      key: 'completionTokens',
+      width: 130,
+      align: 'right',
+      render: (value: number) => value.toLocaleString()
+    },
+    {
+      title: '估算费用',
+      dataIndex: 'estimatedCost',
+      key: 'estimatedCost',
+      width: 110,
+      align: 'right',
+      render: (value: number) => formatCost(value)
+    }
+  ]
+}
+
+function Usage() {
+  const [days, setDays] = useState(30)
+  const [stats, setStats] = useState<UsageStats | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const loadStats = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const result = await window.electron.db.getUsageStats(days ? { days } : {})
+      setStats(result)
+    } catch (error) {
+      console.error('Failed to load usage stats:', error)
+      message.error('加载用量统计失败')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [days])
+
+  useEffect(() => {
+    loadStats()
+  }, [loadStats])
+
+  const handleClear = async () => {
+    try {
+      await window.electron.db.clearUsage()
+      message.success('用量记录已清空')
+      loadStats()
+    } catch (error) {
+      console.error('Failed to clear usage:', error)
+      message.error('清空失败')
+    }
+  }
+
+  const dailyColumns = buildColumns('日期')
+  const projectColumns = buildColumns('作品', row =>
+    row.label || <span className="text-dark-muted">{row.key ? '已删除作品' : '未关联作品'}</span>
+  )
+  const taskColumns = buildColumns('任务类型', row => TASK_TYPE_LABELS[row.key as UsageTaskType] || row.key)
+  const modelColumns = buildColumns('模型', row => {
+    const provider = row.key.split('/')[0] as ProviderType
+    return (
+      <span>
+        {row.label}
+        <span className="text-dark-muted text-xs ml-2">{PROVIDER_INFO[provider]?.name || provider}</span>
+      </span>
+    )
+  })
+
+  const renderTable = (title: string, columns: ColumnsType<UsageSummary>, data: UsageSummary[]) => (
+    <Card title={title} className="mb-6" style={cardStyle}>
+      <Table
+        columns={columns}
+        dataSource={data}
+        rowKey="key"
+        size="small"
+        pagination={data.length > 10 ? { pageSize: 10, size: 'small' } : false}
+        locale={{ emptyText: '暂无记录' }}
+      />
+    </Card>
+  )
+
+  return (
+    <div className="p-6 fade-in max-w-5xl mx-auto">
+      {/* 头部 */}
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-dark-text mb-1">用量统计</h1>
+          <p className="text-dark-muted">
+            AI 调用的 token 用量与估算费用。费用按公开价格估算，实际以各平台账单为准
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Segmented
+            options={RANGE_OPTIONS}
+            value={days}
+            onChange={(value) => setDays(value as number)}
+          />
+          <Button icon={<ReloadOutlined />} onClick={loadStats} loading={isLoading} />
+          <Popconfirm
+            title="清空所有用量记录？"
+            description="此操作不可恢复"
+            onConfirm={handleClear}
+            okText="清空"
+            cancelText="取消"
+            okButtonProps={{ danger: true }}
+          >
+            <Button danger icon={<DeleteOutlined />}>清空</Button>
+          </Popconfirm>
+        </div>
+      </div>
+
+      {!stats ? (
+        <div className="flex justify-center py-16">
+          <Spin size="large" />
+        </div>
+      ) : stats.total.calls === 0 ? (
+        <Card style={cardStyle}>
+          <Empty description="该时间范围内暂无 AI 调用记录" />
+        </Card>
+      ) : (
+        <>
+          {/* 汇总 */}
+          <Row gutter={[16, 16]} className="mb-6">
+            <Col xs={24} sm={8}>
+              <Card style={cardStyle}>
+                <Statistic
+                  title={<span className="text-dark-muted">调用次数</span>}
+                  value={stats.total.calls}
+                  prefix={<ThunderboltOutlined />}
+                  valueStyle={{ color: '#1890ff' }}
+                />
+              </Card>
+            </Col>
+            <Col xs={24} sm={8}>
+              <Card style={cardStyle}>
+                <Statistic
+                  title={<span className="text-dark-muted">总 Tokens（输入 / 输出）</span>}
+                  value={stats.total.promptTokens + stats.total.completionTokens}
+                  prefix={<FileTextOutlined />}
+                  suffix={
+                    <span className="text-dark-muted text-sm">
+                      {stats.total.promptTokens.toLocaleString()} / {stats.total.completionTokens.toLocaleString()}
+                    </span>
+                  }
+                  valueStyle={{ color: '#52c41a' }}
+                />
+              </Card>
+            </Col>
+            <Col xs={24} sm={8}>
+              <Card style={cardStyle}>
+                <Statistic
+                  title={<span className="text-dark-muted">估算费用</span>}
+                  value={formatCost(stats.total.estimatedCost)}
+                  prefix={<DollarOutlined />}
+                  valueStyle={{ color: '#faad14' }}
+                />
+              </Card>
+            </Col>
+          </Row>
+
+          {renderTable('按作品', projectColumns, stats.byProject)}
+          {renderTable('按任务类型', taskColumns, stats.byTask)}
+          {renderTable('按模型', modelColumns, stats.byModel)}
+          {renderTable('按日期', dailyColumns, stats.daily)}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default Usage
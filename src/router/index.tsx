@@ -5,12 +5,18 @@ import Editor from '../pages/Editor'
 import Outline from '../pages/Outline'
 import Characters from '../pages/Characters'
 import Archive from '../pages/Archive'
+import Codex from '../pages/Codex'
+import Foreshadowing from '../pages/Foreshadowing'
+import EmotionalArc from '../pages/EmotionalArc'
 import Settings from '../pages/Settings'
 import Cover from '../pages/Cover'
 import ProjectList from '../pages/ProjectList'
 import GlobalSettings from '../pages/GlobalSettings'
 import Admin from '../pages/Admin'
 import About from '../pages/About'
+import Usage from '../pages/Usage'
+import PromptTemplates from '../pages/PromptTemplates'
+import AICallLogs from '../pages/AICallLogs'
 
 const router = createHashRouter([
   {
@@ -33,6 +39,18 @@ const router = createHashRouter([
         path: 'settings',
         element: <GlobalSettings />
       },
+      {
+        path: 'usage',
+        element: <Usage />
+      },
+      {
+        path: 'ai-calls',
+        element: <AICallLogs />
+      },
+      {
+        path: 'prompts',
+        element: <PromptTemplates />
+      },
       {
         path: 'admin',
         element: <Admin />
@@ -64,6 +82,18 @@ const router = createHashRouter([
             path: 'archive',
             element: <Archive />
           },
+          {
+            path: 'codex',
+            element: <Codex />
+          },
+          {
+            path: 'foreshadowing',
+            element: <Foreshadowing />
+          },
+          {
+            path: 'emotion',
+            element: <EmotionalArc />
+          },
           {
             path: 'settings',
             element: <Settings />
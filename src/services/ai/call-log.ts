@@ -0,0 +1,181 @@
+/**
+ * AI Call Log
+ * 记录每次 AI 调用的完整提示词、原始响应、提供商/模型、耗时、重试、使用的密钥序号和错误，
+ * 写入本地数据库 ai_call_logs 表（按条数保留），供调用检查器页面排查问题
+ * 可关闭记录、只记录元数据，或在写入前遮盖密钥、邮箱、手机号和自定义敏感词
+ */
+
+import type { ProviderType } from './types'
+import { isAbortError } from './fetch-helper'
+import { getUsageProject } from './usage'
+import type { AICallAttempt, AICallMode, UsageTaskType } from '../../types'
+
+// 设置存储键
+export const CALL_LOG_SETTINGS_KEY = 'aiCallLog'
+
+export interface CallLogConfig {
+  enabled: boolean
+  storeContent: boolean   // false 时只记录元数据，不保存提示词和响应正文
+  redact: boolean         // 写入前遮盖密钥、邮箱、手机号和自定义敏感词
+  redactTerms: string[]   // 自定义敏感词（如真实姓名）
+  retention: number       // 最多保留的记录条数
+}
+
+export const DEFAULT_CALL_LOG_CONFIG: CallLogConfig = {
+  enabled: true,
+  storeContent: true,
+  redact: true,
+  redactTerms: [],
+  retention: 500
+}
+
+let callLogConfig: CallLogConfig = DEFAULT_CALL_LOG_CONFIG
+
+/**
+ * 从设置加载记录配置（应用启动时调用）
+ */
+export async function loadCallLogConfig(): Promise<void> {
+  const saved = await window.electron.settings.get(CALL_LOG_SETTINGS_KEY) as Partial<CallLogConfig> | null
+  callLogConfig = { ...DEFAULT_CALL_LOG_CONFIG, ...(saved || {}) }
+}
+
+/**
+ * 保存并应用记录配置
+ */
+export async function setCallLogConfig(config: CallLogConfig): Promise<void> {
+  await window.electron.settings.set(CALL_LOG_SETTINGS_KEY, config)
+  callLogConfig = config
+}
+
+export function getCallLogConfig(): CallLogConfig {
+  return callLogConfig
+}
+
+// ==================== 遮盖 ====================
+
+const REDACTED = '[已遮盖]'
+
+const SECRET_PATTERNS: RegExp[] = [
+  /\b(?:sk|pk|rk)-[A-Za-z0-9_-]{16,}/g,            // OpenAI / Claude / DeepSeek 等密钥
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,                     // Google API Key
+  /\bBearer\s+[A-Za-z0-9._~+/=-]{16,}/gi,           // 授权头
+  /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, // 邮箱
+  /(?<!\d)1[3-9]\d{9}(?!\d)/g                       // 手机号
+]
+
+/**
+ * 遮盖文本中的密钥、联系方式和自定义敏感词
+ */
+export function redactText(text: string, terms: string[] = callLogConfig.redactTerms): string {
+  let result = text
+  for (const pattern of SECRET_PATTERNS) {
+    result = result.replace(pattern, REDACTED)
+  }
+  for (const term of terms) {
+    if (term.trim()) result = result.split(term.trim()).join(REDACTED)
+  }
+  return result
+}
+
+// ==================== 调用追踪 ====================
+
+/**
+ * 一次逻辑调用（含路由、换密钥、备用链等多次尝试）的追踪信息
+ */
+export interface CallTrace {
+  mode: AICallMode
+  taskType: UsageTaskType
+  prompt: string
+  startedAt: number
+  attempts: AICallAttempt[]
+}
+
+/**
+ * 开始追踪一次调用，记录关闭时返回 null
+ */
+export function startCallTrace(mode: AICallMode, taskType: UsageTaskType, prompt: string): CallTrace | null {
+  if (!callLogConfig.enabled || typeof window === 'undefined' || !window.electron?.db?.addAICallLog) return null
+  return { mode, taskType, prompt, startedAt: Date.now(), attempts: [] }
+}
+
+function describeError(error: unknown): string {
+  if (isAbortError(error)) return '已取消'
+  return (error as { message?: string } | null)?.message || String(error)
+}
+
+/**
+ * 开始一次提供商尝试，返回结束函数（失败时传入错误）
+ * 流式调用无法包装为单个 Promise，直接使用此函数
+ * @param keyIndex - 本次实际使用的密钥序号（从 0 开始），无法确定时为 null
+ */
+export function beginAttempt(
+  trace: CallTrace | null,
+  provider: ProviderType,
+  model: string,
+  keyIndex: number | null
+): (error?: unknown) => void {
+  if (!trace) return () => {}
+
+  const startedAt = Date.now()
+  return (error?: unknown) => {
+    trace.attempts.push({
+      provider,
+      model,
+      keyIndex,
+      latencyMs: Date.now() - startedAt,
+      ...(error === undefined ? {} : { error: describeError(error) })
+    })
+  }
+}
+
+/**
+ * 执行一次提供商尝试并记入追踪
+ */
+export async function traceAttempt<T>(
+  trace: CallTrace | null,
+  provider: ProviderType,
+  model: string,
+  keyIndex: number | null,
+  run: () => Promise<T>
+): Promise<T> {
+  const endAttempt = beginAttempt(trace, provider, model, keyIndex)
+  try {
+    const result = await run()
+    endAttempt()
+    return result
+  } catch (error) {
+    endAttempt(error)
+    throw error
+  }
+}
+
+/**
+ * 结束追踪并写入记录，写入失败不影响生成流程
+ * @param isFallback - 最终结果来自备用链
+ */
+export function finishCallTrace(trace: CallTrace | null, response: string, error?: unknown, isFallback: boolean = false): void {
+  if (!trace) return
+
+  const config = callLogConfig
+  const last = trace.attempts[trace.attempts.length - 1]
+  const clean = (text: string) => (config.redact ? redactText(text, config.redactTerms) : text)
+  const errorText = error === undefined ? null : clean(describeError(error))
+
+  window.electron.db.addAICallLog({
+    projectId: getUsageProject(),
+    taskType: trace.taskType,
+    mode: trace.mode,
+    provider: last?.provider || '',
+    model: last?.model || '',
+    keyIndex: last?.keyIndex ?? null,
+    prompt: config.storeContent ? clean(trace.prompt) : '',
+    response: config.storeContent ? clean(response) : '',
+    error: errorText,
+    latencyMs: Date.now() - trace.startedAt,
+    attempts: trace.attempts.map(attempt => (attempt.error ? { ...attempt, error: clean(attempt.error) } : attempt)),
+    isFallback,
+    redacted: config.redact
+  }, config.retention).catch(err => {
+    console.warn('[CallLog] 写入调用记录失败:', err)
+  })
+}
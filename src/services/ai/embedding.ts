@@ -0,0 +1,53 @@
+/**
+ * Embedding Helpers
+ * OpenAI 兼容的 /embeddings 接口（OpenAI、通义千问兼容模式、自定义端点共用）
+ */
+
+import type { TokenUsage } from './types'
+import { aiFetch, throwIfAborted } from './fetch-helper'
+
+/**
+ * 分批请求 /embeddings，按输入顺序返回向量
+ * @param batchSize - 单次请求的文本数（各服务商上限不同）
+ */
+export async function requestOpenAIEmbeddings(
+  baseUrl: string,
+  headers: Record<string, string>,
+  model: string,
+  texts: string[],
+  batchSize: number,
+  signal?: AbortSignal
+): Promise<{ vectors: number[][]; usage: TokenUsage | null }> {
+  const vectors: number[][] = []
+  let promptTokens = 0
+
+  for (let i = 0; i < texts.length; i += batchSize) {
+    throwIfAborted(signal)
+    const batch = texts.slice(i, i + batchSize)
+    const response = await aiFetch(`${baseUrl}/embeddings`, {
+      method: 'POST',
+      signal,
+      headers,
+      body: JSON.stringify({ model, input: batch })
+    })
+
+    if (!response.ok) {
+      const errorMsg = response.data?.error?.message || response.error || `HTTP ${response.status}`
+      throw new Error(`向量化失败: ${errorMsg}`)
+    }
+
+    const data: any[] = Array.isArray(response.data?.data) ? response.data.data : []
+    if (data.length !== batch.length) {
+      throw new Error(`向量化失败: 返回 ${data.length} 个向量，预期 ${batch.length} 个`)
+    }
+    // 接口可能乱序返回，按 index 还原
+    const sorted = [...data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+    vectors.push(...sorted.map(item => item.embedding as number[]))
+    promptTokens += response.data?.usage?.prompt_tokens || 0
+  }
+
+  return {
+    vectors,
+    usage: promptTokens > 0 ? { promptTokens, completionTokens: 0 } : null
+  }
+}
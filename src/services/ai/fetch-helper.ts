@@ -1,12 +1,17 @@
 /**
  * AI Fetch Helper
- * 通过 Electron 主进程发送请求，以正确使用代理
+ * 通过 Electron 主进程发送请求（含流式请求），以正确使用代理
  */
 
+import type { AIStreamEvent } from '../../types'
+
 interface FetchOptions {
   method: string
   headers: Record<string, string>
   body?: string
+  signal?: AbortSignal
+  timeout?: number                   // 超时毫秒数（仅主进程请求），默认 60 秒
+  responseType?: 'json' | 'dataUrl'  // dataUrl：返回 data URL（用于下载图片）
 }
 
 interface FetchResponse {
@@ -14,42 +19,190 @@ interface FetchResponse {
   status: number
   data: any
   error?: string
+  retryAfter?: number  // 限流响应建议的重试等待毫秒数
+}
+
+/**
+ * 创建取消错误（name 为 AbortError，与原生 fetch 行为一致）
+ */
+export function createAbortError(): Error {
+  const error = new Error('请求已取消')
+  error.name = 'AbortError'
+  return error
+}
+
+/**
+ * 创建接口返回失败状态时的错误，附带 HTTP 状态码供密钥健康和调度器分类
+ */
+export function createHTTPError(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status })
+}
+
+/**
+ * 创建面向用户的提示错误，通过 cause 保留原始错误（状态码和原始信息）供密钥健康和调度器分类
+ */
+export function createProviderError(message: string, cause: unknown): Error {
+  return Object.assign(new Error(message), { cause })
+}
+
+/**
+ * 判断错误是否由取消引起
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === 'AbortError'
+}
+
+/**
+ * 已取消时立即抛出取消错误
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError()
+  }
+}
+
+/**
+ * 等待 promise，取消时立即抛出取消错误
+ * 用于无法中断的等待（如排队中的后台任务），promise 本身仍会继续执行
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise
+  if (signal.aborted) return Promise.reject(createAbortError())
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError())
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+// ==================== 限流提示 ====================
+
+// 超过该时长的提示视为过期（期间可能已由提供商内部重试成功）
+const RETRY_HINT_TTL = 2 * 60 * 1000
+
+// 限流响应建议的恢复时间，按请求使用的密钥索引，由调度器在调用失败后读取
+const retryAfterHints = new Map<string, { at: number; until: number }>()
+
+/**
+ * 从请求中取出使用的密钥（各提供商的鉴权方式不同），无密钥时返回空字符串
+ */
+function requestApiKey(url: string, headers: Record<string, string>): string {
+  const auth = headers['Authorization'] || headers['authorization']
+  if (auth?.startsWith('Bearer ')) return auth.slice(7)
+  if (headers['x-api-key']) return headers['x-api-key']
+  if (headers['x-goog-api-key']) return headers['x-goog-api-key']
+  try {
+    return new URL(url).searchParams.get('key') || ''
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * 解析原生 fetch 的 Retry-After 响应头（秒数或日期）
+ */
+function parseRetryAfterHeader(headers: Headers): number | undefined {
+  const ms = Number(headers.get('retry-after-ms') ?? NaN)
+  if (Number.isFinite(ms) && ms >= 0) return ms
+  const value = headers.get('retry-after')
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+function noteRetryAfter(url: string, headers: Record<string, string>, status: number, retryAfter: number | undefined): void {
+  if (retryAfter === undefined || (status !== 429 && status !== 503)) return
+  const now = Date.now()
+  retryAfterHints.set(requestApiKey(url, headers), { at: now, until: now + retryAfter })
+}
+
+/**
+ * 取出密钥最近一次限流响应建议的等待时间（毫秒）
+ * @param apiKey - 请求使用的密钥，无密钥的端点传 null
+ * @returns 没有提示或提示已过期时返回 null
+ */
+export function takeRetryAfter(apiKey: string | null): number | null {
+  const key = apiKey ?? ''
+  const hint = retryAfterHints.get(key)
+  retryAfterHints.delete(key)
+  const now = Date.now()
+  if (!hint || now - hint.at > RETRY_HINT_TTL) return null
+  return Math.max(0, hint.until - now)
 }
 
 /**
  * 通过主进程发送 AI API 请求
  * 这样可以正确使用 Electron 的代理配置
+ * 传入 signal 时，取消会通知主进程中止 net.request，并抛出 AbortError
  */
 export async function aiFetch(url: string, options: FetchOptions): Promise<FetchResponse> {
+  const { signal, ...requestOptions } = options
+  throwIfAborted(signal)
+
   // 检查是否在 Electron 环境中
   if (typeof window !== 'undefined' && window.electron?.ai?.fetch) {
     console.log(`[aiFetch] 使用 IPC 请求: ${url}`)
-    return window.electron.ai.fetch(url, options)
+    if (!signal) {
+      const response = await window.electron.ai.fetch(url, requestOptions)
+      noteRetryAfter(url, requestOptions.headers, response.status, response.retryAfter)
+      return response
+    }
+
+    const requestId = crypto.randomUUID()
+    const onAbort = () => {
+      window.electron.ai.abort(requestId)
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+    try {
+      const response = await window.electron.ai.fetch(url, { ...requestOptions, requestId })
+      throwIfAborted(signal)
+      noteRetryAfter(url, requestOptions.headers, response.status, response.retryAfter)
+      return response
+    } finally {
+      signal.removeEventListener('abort', onAbort)
+    }
   }
 
   // 回退到普通 fetch（用于测试或非 Electron 环境）
   console.log(`[aiFetch] 使用普通 fetch: ${url}`)
   try {
     const response = await fetch(url, {
-      method: options.method,
-      headers: options.headers,
-      body: options.body
+      method: requestOptions.method,
+      headers: requestOptions.headers,
+      body: requestOptions.body,
+      signal
     })
 
     let data: any
     const contentType = response.headers.get('content-type')
-    if (contentType?.includes('application/json')) {
+    if (requestOptions.responseType === 'dataUrl' && response.ok) {
+      const blob = await response.blob()
+      data = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(reader.result as string)
+        reader.onerror = () => reject(reader.error)
+        reader.readAsDataURL(blob)
+      })
+    } else if (contentType?.includes('application/json')) {
       data = await response.json()
     } else {
       data = await response.text()
     }
 
+    const retryAfter = response.ok ? undefined : parseRetryAfterHeader(response.headers)
+    noteRetryAfter(url, requestOptions.headers, response.status, retryAfter)
     return {
       ok: response.ok,
       status: response.status,
-      data
+      data,
+      retryAfter
     }
   } catch (error: any) {
+    if (isAbortError(error)) {
+      throw createAbortError()
+    }
     return {
       ok: false,
       status: 0,
@@ -58,3 +211,160 @@ export async function aiFetch(url: string, options: FetchOptions): Promise<Fetch
     }
   }
 }
+
+// ==================== 流式请求 ====================
+
+interface StreamRequestOptions {
+  method: string
+  headers: Record<string, string>
+  body?: string
+}
+
+/**
+ * 从非 2xx 响应体中提取错误信息
+ */
+function streamErrorMessage(status: number, body: string): string {
+  try {
+    const data = JSON.parse(body)
+    const error = Array.isArray(data) ? data[0]?.error : data?.error
+    return error?.message || `HTTP ${status}`
+  } catch {
+    return `HTTP ${status}`
+  }
+}
+
+/**
+ * 通过主进程 ai:stream 通道接收响应文本分块
+ */
+async function* streamViaIPC(url: string, options: StreamRequestOptions, signal?: AbortSignal): AsyncGenerator<string, void, unknown> {
+  if (signal?.aborted) throw createAbortError()
+  const streamId = crypto.randomUUID()
+  const queue: AIStreamEvent[] = []
+  let wake: (() => void) | null = null
+  let finished = false
+
+  // 先订阅再发起请求，避免漏掉早到的事件
+  const unsubscribe = window.electron.ai.onStreamEvent((id, event) => {
+    if (id !== streamId) return
+    queue.push(event)
+    wake?.()
+    wake = null
+  })
+  // 取消时同时唤醒等待中的循环，不依赖主进程回传取消事件
+  const onAbort = () => {
+    window.electron.ai.abort(streamId)
+    wake?.()
+    wake = null
+  }
+  signal?.addEventListener('abort', onAbort, { once: true })
+
+  try {
+    await window.electron.ai.stream(streamId, url, options)
+
+    let status = 0
+    let errorBody = ''
+    while (true) {
+      if (signal?.aborted) throw createAbortError()
+      if (queue.length === 0) {
+        await new Promise<void>(resolve => { wake = resolve })
+        continue
+      }
+      const event = queue.shift()!
+
+      if (event.type === 'response') {
+        status = event.status
+        noteRetryAfter(url, options.headers, status, event.retryAfter)
+      } else if (event.type === 'data') {
+        if (status >= 200 && status < 300) {
+          yield event.chunk
+        } else {
+          errorBody += event.chunk
+        }
+      } else if (event.type === 'end') {
+        finished = true
+        if (status < 200 || status >= 300) {
+          throw createHTTPError(streamErrorMessage(status, errorBody), status)
+        }
+        return
+      } else {
+        finished = true
+        if (event.aborted || signal?.aborted) throw createAbortError()
+        throw new Error(event.error)
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort)
+    unsubscribe()
+    // 调用方提前结束（如收到 [DONE]）时中止主进程请求
+    if (!finished) {
+      window.electron.ai.abort(streamId)
+    }
+  }
+}
+
+/**
+ * 非 Electron 环境下用原生 fetch 读取响应流
+ */
+async function* streamViaFetch(url: string, options: StreamRequestOptions, signal?: AbortSignal): AsyncGenerator<string, void, unknown> {
+  let response: Response
+  try {
+    response = await fetch(url, { ...options, signal })
+  } catch (error) {
+    if (isAbortError(error)) throw createAbortError()
+    throw error
+  }
+
+  if (!response.ok) {
+    noteRetryAfter(url, options.headers, response.status, parseRetryAfterHeader(response.headers))
+    throw createHTTPError(streamErrorMessage(response.status, await response.text().catch(() => '')), response.status)
+  }
+
+  const reader = response.body?.getReader()
+  if (!reader) throw new Error('无法获取响应流')
+
+  const decoder = new TextDecoder()
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      yield decoder.decode(value, { stream: true })
+    }
+  } catch (error) {
+    if (isAbortError(error)) throw createAbortError()
+    throw error
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * 发送流式 AI 请求，逐条返回 SSE 事件的 data 内容
+ * Electron 环境下经主进程发送（与 aiFetch 使用相同的代理、超时和日志），否则回退到原生 fetch
+ * 非 2xx 响应抛出包含接口错误信息的异常，取消时抛出 AbortError
+ */
+export async function* aiFetchStream(url: string, options: FetchOptions): AsyncGenerator<string, void, unknown> {
+  const { signal, ...requestOptions } = options
+  throwIfAborted(signal)
+
+  const useIPC = typeof window !== 'undefined' && !!window.electron?.ai?.stream
+  const chunks = useIPC
+    ? streamViaIPC(url, requestOptions, signal)
+    : streamViaFetch(url, requestOptions, signal)
+
+  let buffer = ''
+  for await (const chunk of chunks) {
+    buffer += chunk
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      if (line.startsWith('data:')) {
+        yield line.slice(5).trim()
+      }
+    }
+  }
+
+  if (buffer.startsWith('data:')) {
+    yield buffer.slice(5).trim()
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Gemini Image Provider
+ * 使用 Gemini 图片模型生成封面，密钥取自 Gemini 文本提供商的配置
+ */
+
+import type { ImageProvider, ImageAspect, ImageSize, ImageGenerateRequest, ImageResult } from '../types'
+import { IMAGE_ASPECTS } from '../types'
+import { GeminiProvider, GEMINI_IMAGE_MODEL } from '../providers/gemini'
+import { getProviderApiKey, reportKeyError, reportKeySuccess } from '../key-health'
+import { IMAGE_OUTPUT_TOKENS } from '../usage'
+
+export class GeminiImageProvider implements ImageProvider {
+  readonly type = 'gemini' as const
+  readonly name = 'Google Gemini'
+  readonly aspects: ImageAspect[] = ['portrait', 'tall', 'square', 'landscape', 'wide']
+  readonly sizes: ImageSize[] = ['standard']
+
+  // 独立实例，不影响文本提供商的当前模型
+  private provider = new GeminiProvider()
+  private apiKey = ''
+
+  async checkConfig(): Promise<string | null> {
+    return (await getProviderApiKey('gemini')) ? null : '请先在全局设置中配置 Gemini API Key'
+  }
+
+  async generate(request: ImageGenerateRequest): Promise<ImageResult> {
+    const apiKey = await getProviderApiKey('gemini')
+    if (!apiKey) throw new Error('请先在全局设置中配置 Gemini API Key')
+    if (apiKey !== this.apiKey) {
+      await this.provider.init(apiKey)
+      this.apiKey = apiKey
+    }
+
+    const { width, height } = IMAGE_ASPECTS[request.aspect]
+    try {
+      const dataUrl = await this.provider.generateImage(request.prompt, `${width}:${height}`, request.signal)
+      await reportKeySuccess('gemini', apiKey)
+      return {
+        dataUrl,
+        model: GEMINI_IMAGE_MODEL,
+        usage: { promptTokens: 0, completionTokens: IMAGE_OUTPUT_TOKENS }
+      }
+    } catch (error) {
+      await reportKeyError('gemini', apiKey, error)
+      throw error
+    }
+  }
+}
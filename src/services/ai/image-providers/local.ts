@@ -0,0 +1,221 @@
+/**
+ * Local Image Provider
+ * 本地或自托管的 Stable Diffusion：
+ * - SD WebUI（AUTOMATIC1111 / Forge）：调用 /sdapi/v1/txt2img，直接返回 base64
+ * - ComfyUI：提交 API 格式工作流到 /prompt，轮询 /history 拿到输出文件后经 /view 下载
+ */
+
+import type { ImageProvider, ImageAspect, ImageSize, ImageGenerateRequest, ImageResult, LocalImageEndpointConfig } from '../types'
+import { IMAGE_ASPECTS } from '../types'
+import { aiFetch, createAbortError, throwIfAborted } from '../fetch-helper'
+
+// 单次请求超时（WebUI 同步出图，CPU 或大模型可能需要几分钟）
+const REQUEST_TIMEOUT = 300000
+
+// ComfyUI 轮询间隔和总等待时长
+const POLL_INTERVAL = 1500
+const POLL_TIMEOUT = 600000
+
+// 默认的 ComfyUI 文生图工作流（API 格式，需按本地模型修改 ckpt_name）
+export const DEFAULT_COMFYUI_WORKFLOW = JSON.stringify({
+  '3': {
+    class_type: 'KSampler',
+    inputs: {
+      seed: '{{seed}}',
+      steps: '{{steps}}',
+      cfg: 7,
+      sampler_name: 'euler',
+      scheduler: 'normal',
+      denoise: 1,
+      model: ['4', 0],
+      positive: ['6', 0],
+      negative: ['7', 0],
+      latent_image: ['5', 0]
+    }
+  },
+  '4': { class_type: 'CheckpointLoaderSimple', inputs: { ckpt_name: 'sd_xl_base_1.0.safetensors' } },
+  '5': { class_type: 'EmptyLatentImage', inputs: { width: '{{width}}', height: '{{height}}', batch_size: 1 } },
+  '6': { class_type: 'CLIPTextEncode', inputs: { text: '{{prompt}}', clip: ['4', 1] } },
+  '7': { class_type: 'CLIPTextEncode', inputs: { text: '{{negative}}', clip: ['4', 1] } },
+  '8': { class_type: 'VAEDecode', inputs: { samples: ['3', 0], vae: ['4', 2] } },
+  '9': { class_type: 'SaveImage', inputs: { filename_prefix: 'cover', images: ['8', 0] } }
+}, null, 2)
+
+export const DEFAULT_LOCAL_IMAGE_CONFIG: LocalImageEndpointConfig = {
+  kind: 'sdwebui',
+  baseUrl: 'http://127.0.0.1:7860',
+  steps: 28,
+  negativePrompt: 'text, watermark, signature, logo, lowres, blurry, deformed',
+  workflow: DEFAULT_COMFYUI_WORKFLOW
+}
+
+/**
+ * 按画幅和尺寸计算像素宽高（长边 1024 / 1536，取 64 的倍数）
+ */
+export function getImageDimensions(aspect: ImageAspect, size: ImageSize): { width: number; height: number } {
+  const ratio = IMAGE_ASPECTS[aspect]
+  const longSide = size === 'hd' ? 1536 : 1024
+  const scale = longSide / Math.max(ratio.width, ratio.height)
+  const round = (value: number) => Math.max(64, Math.round(value / 64) * 64)
+  return { width: round(ratio.width * scale), height: round(ratio.height * scale) }
+}
+
+/**
+ * 替换工作流中的占位符：数字占位符连同引号一起替换，文本占位符按 JSON 转义
+ */
+function fillWorkflow(template: string, values: Record<string, string | number>): Record<string, unknown> {
+  let filled = template
+  for (const [name, value] of Object.entries(values)) {
+    if (typeof value === 'number') {
+      filled = filled.split(`"{{${name}}}"`).join(String(value)).split(`{{${name}}}`).join(String(value))
+    } else {
+      filled = filled.split(`{{${name}}}`).join(JSON.stringify(value).slice(1, -1))
+    }
+  }
+  try {
+    return JSON.parse(filled)
+  } catch {
+    throw new Error('ComfyUI 工作流不是有效的 JSON，请在封面页检查本地端点设置')
+  }
+}
+
+/**
+ * 可中断的等待
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError())
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(createAbortError())
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+export class LocalImageProvider implements ImageProvider {
+  readonly type = 'local' as const
+  readonly name = '本地端点 (SD WebUI / ComfyUI)'
+  readonly aspects: ImageAspect[] = ['portrait', 'tall', 'square', 'landscape', 'wide']
+  readonly sizes: ImageSize[] = ['standard', 'hd']
+
+  private config: LocalImageEndpointConfig = { ...DEFAULT_LOCAL_IMAGE_CONFIG }
+
+  configure(config: Partial<LocalImageEndpointConfig>): void {
+    this.config = { ...this.config, ...config }
+  }
+
+  getConfig(): LocalImageEndpointConfig {
+    return { ...this.config }
+  }
+
+  async checkConfig(): Promise<string | null> {
+    if (!this.config.baseUrl.trim()) return '请先填写本地图片端点地址'
+    if (this.config.kind === 'comfyui' && !this.config.workflow.trim()) return '请先填写 ComfyUI 工作流'
+    return null
+  }
+
+  async generate(request: ImageGenerateRequest): Promise<ImageResult> {
+    const { width, height } = getImageDimensions(request.aspect, request.size)
+    const negativePrompt = [this.config.negativePrompt, request.negativePrompt].filter(Boolean).join(', ')
+    const dataUrl = this.config.kind === 'comfyui'
+      ? await this.generateComfyUI(request, negativePrompt, width, height)
+      : await this.generateWebUI(request, negativePrompt, width, height)
+
+    // 本地生成不计费
+    return { dataUrl, model: this.config.kind === 'comfyui' ? 'comfyui' : 'sd-webui', usage: null }
+  }
+
+  private get baseUrl(): string {
+    return this.config.baseUrl.trim().replace(/\/+$/, '')
+  }
+
+  private async generateWebUI(request: ImageGenerateRequest, negativePrompt: string, width: number, height: number): Promise<string> {
+    const response = await aiFetch(`${this.baseUrl}/sdapi/v1/txt2img`, {
+      method: 'POST',
+      signal: request.signal,
+      timeout: REQUEST_TIMEOUT,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        prompt: request.prompt,
+        negative_prompt: negativePrompt,
+        width,
+        height,
+        steps: this.config.steps,
+        batch_size: 1
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`SD WebUI 生成失败 (${response.status}): ${response.data?.detail || response.data?.error || response.error || '请确认已使用 --api 参数启动'}`)
+    }
+    const image = response.data?.images?.[0]
+    if (!image) throw new Error('SD WebUI 生成失败: 无图像返回')
+    return image.startsWith('data:') ? image : `data:image/png;base64,${image}`
+  }
+
+  private async generateComfyUI(request: ImageGenerateRequest, negativePrompt: string, width: number, height: number): Promise<string> {
+    const workflow = fillWorkflow(this.config.workflow, {
+      prompt: request.prompt,
+      negative: negativePrompt,
+      width,
+      height,
+      steps: this.config.steps,
+      seed: Math.floor(Math.random() * 2 ** 32)
+    })
+
+    const submitted = await aiFetch(`${this.baseUrl}/prompt`, {
+      method: 'POST',
+      signal: request.signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prompt: workflow, client_id: crypto.randomUUID() })
+    })
+    if (!submitted.ok || !submitted.data?.prompt_id) {
+      const error = submitted.data?.error?.message || submitted.error || '提交工作流失败'
+      throw new Error(`ComfyUI 生成失败 (${submitted.status}): ${error}`)
+    }
+
+    const promptId: string = submitted.data.prompt_id
+    const deadline = Date.now() + POLL_TIMEOUT
+    while (Date.now() < deadline) {
+      await sleep(POLL_INTERVAL, request.signal)
+      const history = await aiFetch(`${this.baseUrl}/history/${promptId}`, {
+        method: 'GET',
+        signal: request.signal,
+        headers: {}
+      })
+      const entry = history.ok ? history.data?.[promptId] : null
+      if (!entry) continue
+
+      if (entry.status?.status_str === 'error') {
+        throw new Error('ComfyUI 生成失败: 工作流执行出错，请在 ComfyUI 中查看日志')
+      }
+      const image = Object.values(entry.outputs || {})
+        .flatMap((output: any) => output?.images || [])
+        .find((item: any) => item?.filename)
+      if (!image) {
+        if (entry.status?.completed) throw new Error('ComfyUI 生成失败: 工作流没有输出图片（需要 SaveImage 节点）')
+        continue
+      }
+
+      const params = new URLSearchParams({ filename: image.filename, subfolder: image.subfolder || '', type: image.type || 'output' })
+      const file = await aiFetch(`${this.baseUrl}/view?${params}`, {
+        method: 'GET',
+        signal: request.signal,
+        headers: {},
+        responseType: 'dataUrl'
+      })
+      if (!file.ok || typeof file.data !== 'string') {
+        throw new Error(`ComfyUI 下载图片失败 (${file.status})`)
+      }
+      return file.data
+    }
+
+    throwIfAborted(request.signal)
+    throw new Error('ComfyUI 生成超时')
+  }
+}
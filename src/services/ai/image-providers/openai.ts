@@ -0,0 +1,109 @@
+/**
+ * OpenAI Image Provider
+ * 调用 OpenAI Images 接口（gpt-image-1 / dall-e-3），密钥取自 OpenAI 文本提供商的配置
+ */
+
+import type { ImageProvider, ImageAspect, ImageSize, ImageGenerateRequest, ImageResult, ModelInfo } from '../types'
+import { aiFetch } from '../fetch-helper'
+import { getProviderApiKey, reportKeyError, reportKeySuccess } from '../key-health'
+import { DALL_E_3_PRICING } from '../usage'
+
+const API_URL = 'https://api.openai.com/v1/images/generations'
+
+// 图片生成较慢，高清可能超过一分钟
+const IMAGE_TIMEOUT = 180000
+
+// 可选的图片模型
+export const OPENAI_IMAGE_MODELS: Record<string, ModelInfo> = {
+  'gpt-image-1': {
+    name: 'GPT Image 1',
+    description: '指令理解好，细节丰富，按 token 计费',
+    contextWindow: 0,
+    recommended: true
+  },
+  'dall-e-3': {
+    name: 'DALL·E 3',
+    description: '按张计费，风格偏插画',
+    contextWindow: 0,
+    recommended: false
+  }
+}
+
+// 各模型支持的像素尺寸（竖版 / 方形 / 横版）
+const MODEL_SIZES: Record<string, Partial<Record<ImageAspect, string>>> = {
+  'gpt-image-1': { portrait: '1024x1536', square: '1024x1024', landscape: '1536x1024' },
+  'dall-e-3': { portrait: '1024x1792', square: '1024x1024', landscape: '1792x1024' }
+}
+
+export class OpenAIImageProvider implements ImageProvider {
+  readonly type = 'openai' as const
+  readonly name = 'OpenAI Images'
+  readonly aspects: ImageAspect[] = ['portrait', 'square', 'landscape']
+  readonly sizes: ImageSize[] = ['standard', 'hd']
+
+  private model = 'gpt-image-1'
+
+  setModel(model: string): void {
+    if (model in OPENAI_IMAGE_MODELS) this.model = model
+  }
+
+  getModel(): string {
+    return this.model
+  }
+
+  async checkConfig(): Promise<string | null> {
+    return (await getProviderApiKey('openai')) ? null : '请先在全局设置中配置 OpenAI API Key'
+  }
+
+  async generate(request: ImageGenerateRequest): Promise<ImageResult> {
+    const apiKey = await getProviderApiKey('openai')
+    if (!apiKey) throw new Error('请先在全局设置中配置 OpenAI API Key')
+
+    const hd = request.size === 'hd'
+    const isGptImage = this.model === 'gpt-image-1'
+    const size = MODEL_SIZES[this.model][request.aspect] || '1024x1024'
+    const body: Record<string, unknown> = {
+      model: this.model,
+      prompt: request.prompt,
+      n: 1,
+      size,
+      // gpt-image-1 固定返回 base64，dall-e-3 需要显式指定
+      ...(isGptImage
+        ? { quality: hd ? 'high' : 'medium' }
+        : { quality: hd ? 'hd' : 'standard', response_format: 'b64_json' })
+    }
+
+    try {
+      const response = await aiFetch(API_URL, {
+        method: 'POST',
+        signal: request.signal,
+        timeout: IMAGE_TIMEOUT,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiKey}`
+        },
+        body: JSON.stringify(body)
+      })
+
+      if (!response.ok) {
+        throw new Error(`OpenAI 图片生成失败 (${response.status}): ${response.data?.error?.message || response.error || '未知错误'}`)
+      }
+
+      const image = response.data?.data?.[0]?.b64_json
+      if (!image) throw new Error('OpenAI 图片生成失败: 无图像返回')
+
+      await reportKeySuccess('openai', apiKey)
+      const usage = response.data.usage
+      return {
+        dataUrl: `data:image/png;base64,${image}`,
+        model: this.model,
+        usage: usage ? { promptTokens: usage.input_tokens || 0, completionTokens: usage.output_tokens || 0 } : null,
+        // dall-e-3 不返回 usage，按张计费
+        ...(isGptImage ? {} : { cost: DALL_E_3_PRICING[hd ? 'hd' : 'standard'][size] })
+      }
+    } catch (error) {
+      await reportKeyError('openai', apiKey, error)
+      throw error
+    }
+  }
+}
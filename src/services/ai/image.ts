@@ -0,0 +1,212 @@
+/**
+ * Image Generation
+ * 封面图片生成：图片提供商与文本提供商独立选择（Gemini、OpenAI Images、本地 SD WebUI / ComfyUI）
+ * 提供商、画幅、尺寸和本地端点保存在 imageSettings 设置中
+ */
+
+import type { ImageProvider, ImageProviderType, ImageSettings, ImageAspect } from './types'
+import { IMAGE_ASPECTS } from './types'
+import type { Character } from '../../types'
+import { GeminiImageProvider } from './image-providers/gemini'
+import { OpenAIImageProvider } from './image-providers/openai'
+import { LocalImageProvider, DEFAULT_LOCAL_IMAGE_CONFIG } from './image-providers/local'
+import { GEMINI_IMAGE_MODEL } from './providers/gemini'
+import { recordUsage } from './usage'
+
+// 设置存储键
+export const IMAGE_SETTINGS_KEY = 'imageSettings'
+
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = {
+  provider: 'gemini',
+  aspect: 'portrait',
+  size: 'standard',
+  openaiModel: 'gpt-image-1',
+  local: DEFAULT_LOCAL_IMAGE_CONFIG
+}
+
+const openaiImageProvider = new OpenAIImageProvider()
+const localImageProvider = new LocalImageProvider()
+
+const imageProviders: Record<ImageProviderType, ImageProvider> = {
+  gemini: new GeminiImageProvider(),
+  openai: openaiImageProvider,
+  local: localImageProvider
+}
+
+let imageSettings: ImageSettings = DEFAULT_IMAGE_SETTINGS
+
+// 封面风格描述
+const STYLE_DESCRIPTIONS: Record<string, string> = {
+  // 东方风格
+  wuxia: 'Chinese wuxia martial arts style, flowing robes, sword aura, misty mountains backdrop, ink wash painting elements',
+  xuanhuan: 'Eastern fantasy cultivation style, glowing spiritual energy, floating immortal palaces, mystical clouds, Chinese mythological elements',
+  xianxia: 'Chinese immortal cultivation style, celestial atmosphere, ethereal lighting, floating islands, Taoist elements',
+  ancient: 'Ancient Chinese palace style, elegant hanfu costumes, golden and red colors, imperial architecture',
+  ink: 'Traditional Chinese ink wash painting style, monochrome with subtle colors, calligraphic brushstrokes, poetic atmosphere',
+  // 西方风格
+  fantasy: 'epic Western fantasy style, magical glowing elements, mystical purple and blue atmosphere, medieval fantasy setting',
+  medieval: 'medieval European style, knights and castles, warm candlelight, heraldry elements, stone architecture',
+  gothic: 'dark gothic style, cathedral architecture, dramatic shadows, deep red and black, mysterious atmosphere',
+  steampunk: 'steampunk Victorian style, brass gears and machinery, warm amber tones, industrial elegance',
+  // 现代风格
+  modern: 'modern urban style, contemporary fashion, city skyline, clean design, warm sunset colors',
+  scifi: 'sci-fi futuristic style, sleek technology, holographic displays, blue and silver metallic',
+  cyberpunk: 'cyberpunk neon style, rain-slicked streets, neon signs, pink and cyan colors, high contrast',
+  mecha: 'mecha anime style, giant robots, dramatic poses, metallic textures, explosive action',
+  // 情感风格
+  romance: 'romantic dreamy style, soft pink and gold colors, flower petals, bokeh lights, emotional atmosphere',
+  youth: 'youth campus style, school uniforms, cherry blossoms, bright colors, nostalgic feeling',
+  warm: 'warm healing style, cozy atmosphere, soft lighting, pastel colors, heartwarming scene',
+  // 其他风格
+  horror: 'dark horror style, deep shadows, blood red accents, fog, unsettling atmosphere',
+  mystery: 'mystery thriller style, dramatic lighting, shadows, noir elements, suspenseful mood',
+  apocalypse: 'post-apocalyptic style, ruined cityscape, dusty atmosphere, survival elements, dramatic sky',
+  anime: 'anime manga style, dynamic composition, bold colors, clean lines, expressive characters',
+  realistic: 'realistic oil painting style, detailed textures, classical composition, rich colors',
+  comic: 'comic book illustration style, bold outlines, vibrant colors, dynamic action poses'
+}
+
+// 画幅对应的构图描述
+const ORIENTATION_DESCRIPTIONS: Record<ImageAspect, string> = {
+  portrait: 'vertical portrait orientation (3:4 ratio)',
+  tall: 'tall vertical orientation (2:3 ratio)',
+  square: 'square composition (1:1 ratio)',
+  landscape: 'horizontal landscape orientation (4:3 ratio)',
+  wide: 'wide cinematic orientation (16:9 ratio)'
+}
+
+/**
+ * 合并默认值，过滤无效的画幅和尺寸
+ */
+function normalizeSettings(settings: Partial<ImageSettings> | null | undefined): ImageSettings {
+  const merged = { ...DEFAULT_IMAGE_SETTINGS, ...settings, local: { ...DEFAULT_LOCAL_IMAGE_CONFIG, ...settings?.local } }
+  if (!(merged.provider in imageProviders)) merged.provider = DEFAULT_IMAGE_SETTINGS.provider
+  if (!(merged.aspect in IMAGE_ASPECTS)) merged.aspect = DEFAULT_IMAGE_SETTINGS.aspect
+  if (merged.size !== 'standard' && merged.size !== 'hd') merged.size = DEFAULT_IMAGE_SETTINGS.size
+  return merged
+}
+
+function applySettings(settings: ImageSettings): void {
+  imageSettings = settings
+  openaiImageProvider.setModel(settings.openaiModel)
+  localImageProvider.configure(settings.local)
+}
+
+/**
+ * 读取图片生成设置
+ */
+export async function loadImageSettings(): Promise<ImageSettings> {
+  if (typeof window === 'undefined' || !window.electron?.settings) return imageSettings
+  try {
+    applySettings(normalizeSettings(await window.electron.settings.get(IMAGE_SETTINGS_KEY) as Partial<ImageSettings> | null))
+  } catch (error) {
+    console.warn('[Image] 加载图片设置失败，使用默认设置:', error)
+  }
+  return imageSettings
+}
+
+/**
+ * 保存图片生成设置并立即生效
+ */
+export async function setImageSettings(settings: Partial<ImageSettings>): Promise<ImageSettings> {
+  const next = normalizeSettings({ ...imageSettings, ...settings, local: { ...imageSettings.local, ...settings.local } })
+  await window.electron.settings.set(IMAGE_SETTINGS_KEY, next)
+  applySettings(next)
+  return next
+}
+
+export function getImageSettings(): ImageSettings {
+  return imageSettings
+}
+
+export function getImageProvider(type: ImageProviderType): ImageProvider {
+  return imageProviders[type]
+}
+
+export function getImageProviders(): ImageProvider[] {
+  return Object.values(imageProviders)
+}
+
+/**
+ * 当前设置下实际使用的模型名称
+ */
+export function getImageModelName(settings: ImageSettings = imageSettings): string {
+  switch (settings.provider) {
+    case 'openai': return openaiImageProvider.getModel()
+    case 'local': return settings.local.kind === 'comfyui' ? 'ComfyUI' : 'SD WebUI'
+    default: return GEMINI_IMAGE_MODEL
+  }
+}
+
+/**
+ * 构建封面提示词
+ */
+export function buildCoverPrompt(
+  bookTitle: string,
+  style: string,
+  genres: string[],
+  aspect: ImageAspect,
+  characters?: Character[]
+): string {
+  const styleDesc = STYLE_DESCRIPTIONS[style] || STYLE_DESCRIPTIONS.xuanhuan
+  const genreDesc = genres.slice(0, 2).join(' ') || 'fantasy'
+
+  // 构建角色描述
+  let characterDesc = ''
+  if (characters && characters.length > 0) {
+    const charDescriptions = characters.map(char => {
+      const role = char.role === 'protagonist' ? 'main character' : char.role === 'antagonist' ? 'villain' : 'supporting character'
+      // 从角色设定中提取外貌描述
+      const appearance = char.description?.slice(0, 150) || ''
+      return `${role} "${char.name}": ${appearance}`
+    }).join('; ')
+
+    characterDesc = `, featuring characters: ${charDescriptions}`
+  }
+
+  // 根据是否有角色调整构图
+  const composition = characters && characters.length > 0
+    ? 'character-focused composition with figures prominently displayed'
+    : 'atmospheric landscape composition'
+
+  return `Create a stunning book cover illustration: ${styleDesc}, book title theme "${bookTitle}", genre ${genreDesc}${characterDesc}. ${composition}, professional quality, ${ORIENTATION_DESCRIPTIONS[aspect]}, cinematic dramatic lighting, ultra detailed, masterpiece quality. IMPORTANT: Do not include any text, letters, words, or watermarks in the image.`
+}
+
+/**
+ * 生成封面图片
+ * 画幅或尺寸不被当前提供商支持时，退回该提供商支持的第一项
+ * @param characters 要展示在封面上的角色列表
+ */
+export async function generateCoverImage(
+  bookTitle: string,
+  _authorName: string,
+  style: string,
+  genres: string[],
+  characters?: Character[],
+  signal?: AbortSignal
+): Promise<string> {
+  const settings = imageSettings
+  const provider = imageProviders[settings.provider]
+
+  const configError = await provider.checkConfig()
+  if (configError) throw new Error(configError)
+
+  const aspect = provider.aspects.includes(settings.aspect) ? settings.aspect : provider.aspects[0]
+  const size = provider.sizes.includes(settings.size) ? settings.size : provider.sizes[0]
+  const prompt = buildCoverPrompt(bookTitle, style, genres, aspect, characters)
+
+  const result = await provider.generate({ prompt, aspect, size, signal })
+  // 本地端点不计入用量
+  if (settings.provider !== 'local') {
+    recordUsage({
+      provider: settings.provider,
+      model: result.model,
+      taskType: 'cover',
+      prompt: '',
+      completion: '',
+      usage: result.usage,
+      cost: result.cost
+    })
+  }
+  return result.dataUrl
+}
@@ -3,15 +3,30 @@
  * 统一管理所有 AI 提供商，提供统一的接口
  */
 
-import type { AIProvider, ProviderType, QuotaInfo, ModelInfo, ProviderConfig, LegacyProviderConfig } from './types'
-import { PROVIDER_INFO, PROVIDERS_BY_REGION, isNewConfigFormat, migrateToNewConfig, getActiveApiKey } from './types'
-import type { Character } from '../../types'
+import type { AIProvider, ProviderType, QuotaInfo, ModelInfo, ProviderConfig, LegacyProviderConfig, CustomEndpointConfig, MockProviderConfig, MockScriptRule, ProviderModelRef, GenerationSource, GenerateOptions, ModelRoutes, PickedKey, KeyHealth, KeyStatus, KeyRotationMode, RateLimitConfig, RequestPriority } from './types'
+import { PROVIDER_INFO, PROVIDERS_BY_REGION, isNewConfigFormat, migrateToNewConfig, getActiveApiKey, requiresApiKey } from './types'
+import type { UsageTaskType } from '../../types'
 import { geminiProvider, GeminiProvider, GEMINI_MODELS } from './providers/gemini'
 import { openaiProvider, OPENAI_MODELS } from './providers/openai'
 import { claudeProvider, CLAUDE_MODELS } from './providers/claude'
 import { deepseekProvider, DEEPSEEK_MODELS } from './providers/deepseek'
 import { qwenProvider, QWEN_MODELS } from './providers/qwen'
 import { kimiProvider, KIMI_MODELS } from './providers/kimi'
+import { customProvider } from './providers/custom'
+import { mockProvider, MOCK_MODELS } from './providers/mock'
+import { isAbortError, throwIfAborted } from './fetch-helper'
+import { recordUsage, estimateContextTokens } from './usage'
+import { extractJSON, validateJSON, stripNulls, buildRepairPrompt } from './json'
+import { getModelRoute, getRoutedProvider, getRoutedApiKey, getRoutedKeyIndex, getKeyedProvider } from './routing'
+import { startCallTrace, beginAttempt, traceAttempt, finishCallTrace } from './call-log'
+import type { CallTrace } from './call-log'
+import { pickKey, reportKeyError, reportKeySuccess } from './key-health'
+import { resolveGenerateOptions } from './sampling'
+import { getCachedResponse, putCachedResponse } from './response-cache'
+import type { CacheRequest } from './response-cache'
+import { scheduleAICall, acquireSlot, getTaskPriority, applyReportedRateLimits } from './scheduler'
+import type { ScheduleOptions } from './scheduler'
+import type { JSONSchema, FromSchema } from './json'
 
 // 所有提供商实例
 const providers: Record<ProviderType, AIProvider> = {
@@ -20,13 +35,24 @@ const providers: Record<ProviderType, AIProvider> = {
   claude: claudeProvider,
   deepseek: deepseekProvider,
   qwen: qwenProvider,
-  kimi: kimiProvider
+  kimi: kimiProvider,
+  custom: customProvider,
+  mock: mockProvider
 }
 
 // 当前活跃的提供商
 let currentProviderType: ProviderType = 'gemini'
 let currentProvider: AIProvider = providers.gemini
 
+// 备用链设置存储键
+export const FALLBACK_CHAIN_SETTINGS_KEY = 'aiFallbackChain'
+
+// 一次生成的结果和实际使用的提供商/模型（正文等需要记录来源的调用使用）
+export interface GenerationResult {
+  text: string
+  source: GenerationSource
+}
+
 /**
  * 获取当前提供商类型
  */
@@ -51,7 +77,7 @@ export function getProviders() {
 /**
  * 按区域获取提供商列表
  */
-export function getProvidersByRegion(region: 'global' | 'china'): ProviderType[] {
+export function getProvidersByRegion(region: 'global' | 'china' | 'local'): ProviderType[] {
   return PROVIDERS_BY_REGION[region]
 }
 
@@ -91,58 +117,203 @@ export function isQuotaError(error: any): boolean {
 }
 
 /**
- * 切换到下一个 API 密钥
- * @returns true 如果成功切换到下一个密钥，false 如果没有更多密钥
+ * 检查错误是否应切换到备用提供商（配额、网络、服务端 5xx）
  */
-export async function switchToNextKey(): Promise<boolean> {
-  try {
-    const configs = await window.electron.settings.get('aiProviderConfigs') as Record<string, ProviderConfig | LegacyProviderConfig> | null
+export function isFallbackError(error: any): boolean {
+  if (isQuotaError(error)) return true
+  const errorMsg = error?.message || String(error)
+  return (
+    /\b5\d{2}\b/.test(errorMsg) ||
+    errorMsg.includes('fetch') ||
+    errorMsg.includes('network') ||
+    errorMsg.includes('timeout') ||
+    errorMsg.includes('ECONN') ||
+    errorMsg.includes('ETIMEDOUT') ||
+    errorMsg.includes('overloaded') ||
+    errorMsg.includes('UNAVAILABLE') ||
+    errorMsg.includes('超时') ||
+    errorMsg.includes('无法连接') ||
+    errorMsg.includes('网络')
+  )
+}
 
-    if (!configs || !configs[currentProviderType]) {
-      console.log('[AI] 没有找到提供商配置')
-      return false
-    }
+/**
+ * 读取用户配置的备用链
+ */
+export async function getFallbackChain(): Promise<ProviderModelRef[]> {
+  if (typeof window === 'undefined' || !window.electron?.settings) return []
+  const chain = await window.electron.settings.get(FALLBACK_CHAIN_SETTINGS_KEY) as ProviderModelRef[] | null
+  return Array.isArray(chain) ? chain.filter(entry => entry.provider in providers && entry.model) : []
+}
 
-    const config = configs[currentProviderType]
+/**
+ * 保存备用链
+ */
+export async function setFallbackChain(chain: ProviderModelRef[]): Promise<void> {
+  await window.electron.settings.set(FALLBACK_CHAIN_SETTINGS_KEY, chain)
+}
+
+/**
+ * 调度参数：未指定优先级时按任务类型决定，token 按提示词估算加最大输出
+ */
+function scheduleOptions(prompt: string, taskType: UsageTaskType, options: GenerateOptions, signal?: AbortSignal): ScheduleOptions {
+  return {
+    priority: options.priority ?? getTaskPriority(taskType),
+    tokens: estimateContextTokens(prompt) + (options.maxTokens ?? 0),
+    signal
+  }
+}
 
-    // 如果是旧版配置格式，无法切换
-    if (!isNewConfigFormat(config)) {
-      console.log('[AI] 旧版配置格式，无法切换密钥')
-      return false
+/**
+ * 按备用链顺序尝试其他提供商/模型
+ * 只对本次调用生效，不改变当前提供商，下次调用仍优先使用主提供商
+ * @returns 生成结果，备用链为空或全部失败时返回 null
+ */
+async function generateWithFallback(
+  prompt: string,
+  retries: number | undefined,
+  timeout: number | undefined,
+  signal: AbortSignal | undefined,
+  taskType: UsageTaskType,
+  options: GenerateOptions,
+  trace: CallTrace | null
+): Promise<GenerationResult | null> {
+  const chain = await getFallbackChain()
+  if (chain.length === 0) return null
+
+  const configs = await window.electron.settings.get('aiProviderConfigs') as Record<string, ProviderConfig | LegacyProviderConfig> | null
+  const primaryModel = currentProvider.getCurrentModel()
+
+  for (const entry of chain) {
+    throwIfAborted(signal)
+    if (entry.provider === currentProviderType && entry.model === primaryModel) continue
+
+    const config = configs?.[entry.provider]
+    const picked = config ? await pickKey(entry.provider, config) : null
+    const apiKey = picked?.apiKey ?? null
+    if (!apiKey && requiresApiKey(entry.provider)) {
+      console.log(`[AI] 备用 ${entry.provider}/${entry.model} 未配置密钥，跳过`)
+      continue
     }
 
-    // 检查是否还有下一个密钥
-    if (config.activeKeyIndex >= config.apiKeys.length - 1) {
-      console.log('[AI] 没有更多可用密钥')
-      return false
+    // 使用该密钥的独立实例，不改变当前提供商的模型和密钥
+    const provider = await getKeyedProvider(entry.provider, entry.model, apiKey)
+    if (!provider) continue
+    try {
+      console.log(`[AI] 尝试备用 ${PROVIDER_INFO[entry.provider].name} / ${entry.model}`)
+      const text = await scheduleAICall({ provider: entry.provider, apiKey }, () =>
+        traceAttempt(trace, entry.provider, entry.model, picked?.keyIndex ?? null, () =>
+          provider.generateText(prompt, retries, timeout, signal, options)
+        ), scheduleOptions(prompt, taskType, options, signal))
+      recordUsage({
+        provider: entry.provider,
+        model: entry.model,
+        taskType,
+        prompt,
+        completion: text,
+        usage: provider.getLastUsage()
+      })
+      await reportKeySuccess(entry.provider, apiKey)
+      console.log(`[AI] 备用 ${entry.provider}/${entry.model} 生成成功`)
+      return { text, source: { provider: entry.provider, model: entry.model, isFallback: true } }
+    } catch (error: any) {
+      if (isAbortError(error)) throw error
+      await reportKeyError(entry.provider, apiKey, error)
+      console.warn(`[AI] 备用 ${entry.provider}/${entry.model} 失败:`, error.message || error)
     }
+  }
 
-    // 切换到下一个密钥
-    const newIndex = config.activeKeyIndex + 1
-    const newKey = config.apiKeys[newIndex]
+  return null
+}
 
-    // 更新配置
-    const newConfigs = {
-      ...configs,
-      [currentProviderType]: {
-        ...config,
-        activeKeyIndex: newIndex
-      }
-    }
+/**
+ * 获取任务类型的路由提供商，未配置路由或与当前提供商/模型相同时返回 null
+ */
+async function resolveRoute(taskType: UsageTaskType): Promise<{ route: ProviderModelRef; provider: AIProvider } | null> {
+  const route = getModelRoute(taskType)
+  if (!route) return null
+  if (route.provider === currentProviderType && route.model === currentProvider.getCurrentModel()) return null
 
-    await window.electron.settings.set('aiProviderConfigs', newConfigs)
+  const provider = await getRoutedProvider(route)
+  return provider ? { route, provider } : null
+}
 
-    // 重新初始化 AI
-    await initAI(newKey, config.model)
+/**
+ * 使用任务路由的提供商/模型生成
+ * @returns 生成结果，未配置路由或路由目标不可用（配额、网络等）时返回 null，由当前提供商接手
+ */
+async function generateWithRoute(
+  prompt: string,
+  retries: number | undefined,
+  timeout: number | undefined,
+  signal: AbortSignal | undefined,
+  taskType: UsageTaskType,
+  options: GenerateOptions,
+  trace: CallTrace | null
+): Promise<GenerationResult | null> {
+  const target = await resolveRoute(taskType)
+  if (!target) return null
+
+  const { route, provider } = target
+  try {
+    const text = await scheduleAICall({ provider: route.provider, apiKey: getRoutedApiKey(provider) }, () =>
+      traceAttempt(trace, route.provider, route.model, getRoutedKeyIndex(provider), () =>
+        provider.generateText(prompt, retries, timeout, signal, options)
+      ), scheduleOptions(prompt, taskType, options, signal))
+    recordUsage({
+      provider: route.provider,
+      model: route.model,
+      taskType,
+      prompt,
+      completion: text,
+      usage: provider.getLastUsage()
+    })
+    await reportKeySuccess(route.provider, getRoutedApiKey(provider))
+    return { text, source: { provider: route.provider, model: route.model, isFallback: false } }
+  } catch (error: any) {
+    if (isAbortError(error)) throw error
+    await reportKeyError(route.provider, getRoutedApiKey(provider), error)
+    if (!isFallbackError(error)) throw error
+    console.warn(`[AI] 路由 ${route.provider}/${route.model} 不可用，改用当前提供商:`, error.message || error)
+    return null
+  }
+}
+
+/**
+ * 读取当前提供商的多密钥配置，旧版格式或未配置时返回 null
+ */
+async function getCurrentKeyConfig(): Promise<ProviderConfig | null> {
+  const configs = await window.electron.settings.get('aiProviderConfigs') as Record<string, ProviderConfig | LegacyProviderConfig> | null
+  const config = configs?.[currentProviderType]
+  return config && isNewConfigFormat(config) ? config : null
+}
 
-    console.log(`[AI] 已切换到密钥 ${newIndex + 1}/${config.apiKeys.length}`)
-    return true
+/**
+ * 按密钥健康状态和轮换方式选择本次调用使用的密钥（每次调用只选一次）
+ * 不保存设置、不重新初始化当前提供商，请求由该密钥的独立实例发出
+ * @returns 本次使用的密钥及其序号，旧版单密钥配置或无法确定时返回 null（使用当前提供商）
+ */
+async function pickCurrentKey(): Promise<PickedKey | null> {
+  try {
+    const config = await getCurrentKeyConfig()
+    if (!config || config.apiKeys.length === 0) return null
+    // 全部密钥都在冷却时仍使用当前密钥，失败后由备用链接手
+    return await pickKey(currentProviderType, config)
   } catch (error) {
-    console.error('[AI] 切换密钥失败:', error)
-    return false
+    console.warn('[AI] 选择密钥失败，使用当前密钥:', error)
+    return null
   }
 }
 
+/**
+ * 当前提供商使用指定密钥的实例（排队和发送使用同一个密钥）
+ * 单密钥配置或实例不可用时使用当前提供商
+ */
+async function getKeyProvider(apiKey: string | null): Promise<AIProvider> {
+  if (!apiKey) return currentProvider
+  return (await getKeyedProvider(currentProviderType, currentProvider.getCurrentModel(), apiKey)) ?? currentProvider
+}
+
 /**
  * 初始化 AI（统一接口，保持向后兼容）
  */
@@ -158,37 +329,307 @@ export function isAIReady(): boolean {
 }
 
 /**
- * 生成文本（支持自动切换密钥）
+ * 生成文本（支持自动切换密钥，密钥用尽或服务不可用时依次尝试备用链）
+ * 任务类型配置了模型路由时优先使用路由的提供商/模型
+ * @param signal - 取消信号，取消时抛出 AbortError
+ * @param taskType - 用量统计和模型路由使用的任务类型
  */
 export async function generateText(
   prompt: string,
   retries?: number,
-  timeout?: number
+  timeout?: number,
+  signal?: AbortSignal,
+  taskType: UsageTaskType = 'other',
+  options: GenerateOptions = {}
 ): Promise<string> {
+  return (await generateTextResult(prompt, retries, timeout, signal, taskType, options)).text
+}
+
+/**
+ * 生成文本并返回实际使用的提供商/模型（用于记录章节的生成来源）
+ */
+export async function generateTextWithSource(
+  prompt: string,
+  retries?: number,
+  timeout?: number,
+  signal?: AbortSignal,
+  taskType: UsageTaskType = 'other',
+  options: GenerateOptions = {}
+): Promise<GenerationResult> {
+  return generateTextResult(prompt, retries, timeout, signal, taskType, options)
+}
+
+/**
+ * 本次调用预期使用的提供商/模型（路由目标或当前提供商），作为缓存键的一部分
+ * 只读取路由规则，不选择密钥（密钥在实际请求时选择，避免轮询游标每次调用前进两次）
+ */
+function getPrimaryTarget(taskType: UsageTaskType): ProviderModelRef {
+  return getModelRoute(taskType) ?? { provider: currentProviderType, model: currentProvider.getCurrentModel() }
+}
+
+/**
+ * 结果是否由预期的提供商/模型生成（备用链接手的结果不写入缓存）
+ */
+function isFromTarget(source: GenerationSource, target: ProviderModelRef): boolean {
+  return !source.isFallback && source.provider === target.provider && source.model === target.model
+}
+
+/**
+ * 生成文本并返回实际使用的提供商/模型
+ * 开启缓存时先查缓存，命中则不请求接口
+ */
+async function generateTextResult(
+  prompt: string,
+  retries: number | undefined,
+  timeout: number | undefined,
+  signal: AbortSignal | undefined,
+  taskType: UsageTaskType,
+  options: GenerateOptions
+): Promise<GenerationResult> {
+  const resolved = resolveGenerateOptions(taskType, options)
+  const cacheRequest: CacheRequest | null = resolved.cache
+    ? { prompt, target: getPrimaryTarget(taskType), taskType, options: resolved }
+    : null
+  if (cacheRequest) {
+    const cached = await getCachedResponse(cacheRequest)
+    if (cached !== null) {
+      return { text: cached, source: { ...cacheRequest.target, isFallback: false } }
+    }
+  }
+
+  const trace = startCallTrace(resolved.jsonMode ? 'json' : 'text', taskType, prompt)
+  try {
+    const result = await generateTextTraced(prompt, retries, timeout, signal, taskType, resolved, trace)
+    finishCallTrace(trace, result.text, undefined, result.source.isFallback)
+    if (cacheRequest && isFromTarget(result.source, cacheRequest.target)) {
+      await putCachedResponse(cacheRequest, result.text)
+    }
+    return result
+  } catch (error) {
+    finishCallTrace(trace, '', error)
+    throw error
+  }
+}
+
+async function generateTextTraced(
+  prompt: string,
+  retries: number | undefined,
+  timeout: number | undefined,
+  signal: AbortSignal | undefined,
+  taskType: UsageTaskType,
+  options: GenerateOptions,
+  trace: CallTrace | null
+): Promise<GenerationResult> {
+  const routed = await generateWithRoute(prompt, retries, timeout, signal, taskType, options, trace)
+  if (routed !== null) return routed
+
+  const providerType = currentProviderType
+  let picked = await pickCurrentKey()
+  const triedKeys = new Set<string>()
   while (true) {
+    const apiKey = picked?.apiKey ?? null
     try {
-      return await currentProvider.generateText(prompt, retries, timeout)
+      const provider = await getKeyProvider(apiKey)
+      const text = await scheduleAICall({ provider: providerType, apiKey }, () =>
+        traceAttempt(trace, providerType, provider.getCurrentModel(), picked?.keyIndex ?? null, () =>
+          provider.generateText(prompt, retries, timeout, signal, options)
+        ), scheduleOptions(prompt, taskType, options, signal))
+      const source: GenerationSource = { provider: providerType, model: provider.getCurrentModel(), isFallback: false }
+      recordUsage({
+        ...source,
+        taskType,
+        prompt,
+        completion: text,
+        usage: provider.getLastUsage()
+      })
+      await reportKeySuccess(providerType, apiKey)
+      return { text, source }
     } catch (error: any) {
-      if (isQuotaError(error)) {
-        const switched = await switchToNextKey()
-        if (switched) {
-          console.log('[AI] 配额用尽，已自动切换到下一个密钥，重新尝试...')
+      if (isAbortError(error)) throw error
+      const keyUnavailable = await reportKeyError(providerType, apiKey, error)
+      if (apiKey && (keyUnavailable || isQuotaError(error))) {
+        triedKeys.add(apiKey)
+        const next = await pickCurrentKey()
+        if (next && !triedKeys.has(next.apiKey)) {
+          console.log('[AI] 密钥不可用，改用下一个密钥重新尝试...')
+          picked = next
           continue  // 用新密钥重试
         }
       }
-      // 无法切换或非配额错误，抛出原错误
+      if (isFallbackError(error)) {
+        console.log('[AI] 主提供商不可用，尝试备用链:', error.message || error)
+        const result = await generateWithFallback(prompt, retries, timeout, signal, taskType, options, trace)
+        if (result !== null) return result
+      }
+      // 无法切换或备用链全部失败，抛出原错误
       throw error
     }
   }
 }
 
+// JSON 校验失败后最多修复的次数
+const MAX_JSON_REPAIRS = 2
+
+/**
+ * 生成结构化 JSON
+ * 启用提供商的原生 JSON 模式，按 schema 校验，不通过时带上错误信息让模型修复
+ * @throws 多次修复后仍不符合 schema 时抛出错误
+ */
+export async function generateJSON<S extends JSONSchema>(
+  prompt: string,
+  schema: S,
+  timeout?: number,
+  signal?: AbortSignal,
+  taskType: UsageTaskType = 'other',
+  options: GenerateOptions = {}
+): Promise<FromSchema<S>> {
+  // 缓存的是校验通过的最终结果（含修复后的），按原始提示词和 schema 索引
+  const { cache, ...generateOptions } = options
+  const cacheRequest: CacheRequest | null = cache
+    ? {
+        prompt,
+        target: getPrimaryTarget(taskType),
+        taskType,
+        options: resolveGenerateOptions(taskType, { ...generateOptions, jsonMode: true }),
+        variant: JSON.stringify(schema)
+      }
+    : null
+  if (cacheRequest) {
+    const cached = await getCachedResponse(cacheRequest)
+    if (cached !== null) {
+      try {
+        const value = extractJSON(cached)
+        if (validateJSON(value, schema).length === 0) return stripNulls(value) as FromSchema<S>
+      } catch {
+        // 缓存内容无法解析，重新生成
+      }
+    }
+  }
+
+  let currentPrompt = prompt
+  let errors: string[] = []
+
+  for (let attempt = 0; attempt <= MAX_JSON_REPAIRS; attempt++) {
+    const { text, source } = await generateTextResult(currentPrompt, undefined, timeout, signal, taskType, { ...generateOptions, jsonMode: true })
+
+    try {
+      const value = extractJSON(text)
+      errors = validateJSON(value, schema)
+      if (errors.length === 0) {
+        if (cacheRequest && isFromTarget(source, cacheRequest.target)) {
+          await putCachedResponse(cacheRequest, text)
+        }
+        return stripNulls(value) as FromSchema<S>
+      }
+    } catch (error: any) {
+      errors = [error.message || String(error)]
+    }
+
+    console.warn(`[AI] JSON 校验失败 (尝试 ${attempt + 1}/${MAX_JSON_REPAIRS + 1}):`, errors.slice(0, 5))
+    currentPrompt = buildRepairPrompt(prompt, text, errors, schema)
+  }
+
+  throw new Error(`JSON 输出不符合要求: ${errors.slice(0, 3).join('；')}`)
+}
+
 /**
  * 流式生成文本
+ * 流式接口不返回用量，结束（含中途停止）后按已生成文本估算
+ * @param onSource - 开始生成前回调本次使用的提供商/模型
  */
-export function generateTextStream(
-  prompt: string
+export async function* generateTextStream(
+  prompt: string,
+  signal?: AbortSignal,
+  taskType: UsageTaskType = 'other',
+  options: GenerateOptions = {},
+  onSource?: (source: GenerationSource) => void
 ): AsyncGenerator<string, void, unknown> {
-  return currentProvider.generateTextStream(prompt)
+  const target = await resolveRoute(taskType)
+  const picked = target ? null : await pickCurrentKey()
+  const apiKey = target ? getRoutedApiKey(target.provider) : picked?.apiKey ?? null
+  const keyIndex = target ? getRoutedKeyIndex(target.provider) : picked?.keyIndex ?? null
+  const providerType = target?.route.provider ?? currentProviderType
+  const provider = target?.provider ?? await getKeyProvider(apiKey)
+  const resolved = resolveGenerateOptions(taskType, options)
+  const release = await acquireSlot({ provider: providerType, apiKey }, scheduleOptions(prompt, taskType, resolved, signal))
+  // 取得名额后立即进入 try，之后任何失败都会释放名额
+  let trace: CallTrace | null = null
+  let endAttempt: (error?: unknown) => void = () => {}
+  let completion = ''
+  let streamError: unknown
+
+  try {
+    trace = startCallTrace('stream', taskType, prompt)
+    endAttempt = beginAttempt(trace, providerType, provider.getCurrentModel(), keyIndex)
+    onSource?.({ provider: providerType, model: provider.getCurrentModel(), isFallback: false })
+    for await (const chunk of provider.generateTextStream(prompt, signal, resolved)) {
+      completion += chunk
+      yield chunk
+    }
+    await reportKeySuccess(providerType, apiKey)
+  } catch (error) {
+    streamError = error
+    await reportKeyError(providerType, apiKey, error)
+    throw error
+  } finally {
+    // 调用方提前结束（用户停止）时记录已收到的部分
+    release(streamError)
+    endAttempt(streamError)
+    finishCallTrace(trace, completion, streamError)
+    if (completion) {
+      recordUsage({
+        provider: providerType,
+        model: provider.getCurrentModel(),
+        taskType,
+        prompt,
+        completion,
+        usage: null
+      })
+    }
+  }
+}
+
+/**
+ * 使用指定的提供商/模型生成（调用检查器中用其他模型重新运行记录的提示词）
+ * 不经过路由和备用链，同样记录用量和调用记录
+ */
+export async function generateWithModel(
+  prompt: string,
+  target: ProviderModelRef,
+  signal?: AbortSignal,
+  taskType: UsageTaskType = 'other',
+  options: GenerateOptions = {}
+): Promise<string> {
+  const trace = startCallTrace(options.jsonMode ? 'json' : 'text', taskType, prompt)
+  try {
+    const provider = await getRoutedProvider(target)
+    if (!provider) {
+      throw new Error(`${PROVIDER_INFO[target.provider].name} / ${target.model} 不可用，请检查密钥配置`)
+    }
+    const resolved = resolveGenerateOptions(taskType, options)
+    const text = await scheduleAICall({ provider: target.provider, apiKey: getRoutedApiKey(provider) }, () =>
+      traceAttempt(trace, target.provider, target.model, getRoutedKeyIndex(provider), () =>
+        provider.generateText(prompt, undefined, undefined, signal, resolved)
+      ), scheduleOptions(prompt, taskType, resolved, signal)
+    ).catch(async error => {
+      await reportKeyError(target.provider, getRoutedApiKey(provider), error)
+      throw error
+    })
+    recordUsage({
+      provider: target.provider,
+      model: target.model,
+      taskType,
+      prompt,
+      completion: text,
+      usage: provider.getLastUsage()
+    })
+    await reportKeySuccess(target.provider, getRoutedApiKey(provider))
+    finishCallTrace(trace, text)
+    return text
+  } catch (error) {
+    finishCallTrace(trace, '', error)
+    throw error
+  }
 }
 
 /**
@@ -202,7 +643,10 @@ export async function switchModel(modelName: string): Promise<boolean> {
  * 检查配额
  */
 export async function checkQuota(): Promise<QuotaInfo> {
-  return currentProvider.checkQuota()
+  const info = await currentProvider.checkQuota()
+  // 接口报告了限额时交给调度器（用户单独设置的限额优先）
+  applyReportedRateLimits(currentProviderType, info.rateLimitInfo)
+  return info
 }
 
 /**
@@ -219,6 +663,17 @@ export function getCurrentModelName(): string {
   return currentProvider.getCurrentModel()
 }
 
+/**
+ * 获取任务实际使用的模型的上下文窗口（tokens），未知模型返回 0
+ * 任务配置了路由时使用路由目标的模型
+ */
+export function getContextWindow(taskType: UsageTaskType = 'other'): number {
+  const route = getModelRoute(taskType)
+  const provider = route ? providers[route.provider] : currentProvider
+  const model = route ? route.model : currentProvider.getCurrentModel()
+  return provider.getAvailableModels()[model]?.contextWindow || 0
+}
+
 /**
  * 获取所有提供商的模型配置
  */
@@ -229,7 +684,9 @@ export function getAllModels(): Record<ProviderType, Record<string, ModelInfo>>
     claude: CLAUDE_MODELS,
     deepseek: DEEPSEEK_MODELS,
     qwen: QWEN_MODELS,
-    kimi: KIMI_MODELS
+    kimi: KIMI_MODELS,
+    custom: customProvider.getAvailableModels(),
+    mock: MOCK_MODELS
   }
 }
 
@@ -243,19 +700,98 @@ export async function findAvailableModel() {
   return gemini.findAvailableModel()
 }
 
+// ===== 自定义端点功能 =====
+
 /**
- * 生成封面图片（仅 Gemini 支持）
- * @param characters 要展示在封面上的角色列表
+ * 更新自定义端点配置
  */
-export async function generateCoverImage(
-  bookTitle: string,
-  authorName: string,
-  style: string,
-  genres: string[],
-  characters?: Character[]
-): Promise<string> {
-  const gemini = providers.gemini as GeminiProvider
-  return gemini.generateCoverImage(bookTitle, authorName, style, genres, characters)
+export function configureCustomEndpoint(config: Partial<CustomEndpointConfig>): void {
+  customProvider.configure(config)
+}
+
+/**
+ * 获取自定义端点配置
+ */
+export function getCustomEndpoint(): CustomEndpointConfig {
+  return customProvider.getEndpoint()
+}
+
+/**
+ * 从自定义端点的 /models 接口发现可用模型
+ */
+export async function discoverCustomModels(): Promise<string[]> {
+  return customProvider.discoverModels()
+}
+
+// ===== 离线模拟功能 =====
+
+/**
+ * 更新离线模拟配置
+ */
+export function configureMockProvider(config: Partial<MockProviderConfig>): void {
+  mockProvider.configure(config)
+}
+
+/**
+ * 获取离线模拟配置
+ */
+export function getMockProviderConfig(): MockProviderConfig {
+  return mockProvider.getConfig()
+}
+
+/**
+ * 回放从录制集开头重新开始
+ */
+export function resetMockReplay(): void {
+  mockProvider.resetReplay()
+}
+
+// ===== 向量化 =====
+
+/**
+ * 当前提供商的向量模型，不支持向量化时返回 null（检索回退到 BM25）
+ */
+export function getEmbeddingModel(): string | null {
+  if (!currentProvider.isReady() || !currentProvider.embed || !currentProvider.getEmbeddingModel) return null
+  return currentProvider.getEmbeddingModel()
+}
+
+/**
+ * 使用当前提供商向量化文本，按顺序返回向量
+ * 与文本生成一样按密钥健康状态选择密钥，排队和发送使用同一个密钥
+ */
+export async function embedTexts(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+  const model = getEmbeddingModel()
+  if (!model || !currentProvider.embed) {
+    throw new Error(`${PROVIDER_INFO[currentProviderType].name} 不支持向量化`)
+  }
+
+  const providerType = currentProviderType
+  const apiKey = (await pickCurrentKey())?.apiKey ?? null
+  const keyed = await getKeyProvider(apiKey)
+  const provider = keyed.embed ? keyed : currentProvider
+  const embed = provider.embed!.bind(provider)
+  let vectors: number[][]
+  try {
+    vectors = await scheduleAICall(
+      { provider: providerType, apiKey },
+      () => embed(texts, signal),
+      { priority: 'low', tokens: estimateContextTokens(texts.join('\n')), signal }
+    )
+  } catch (error) {
+    await reportKeyError(providerType, apiKey, error)
+    throw error
+  }
+  await reportKeySuccess(providerType, apiKey)
+  recordUsage({
+    provider: providerType,
+    model,
+    taskType: 'analysis',
+    prompt: texts.join('\n'),
+    completion: '',
+    usage: provider.getLastUsage()
+  })
+  return vectors
 }
 
 // ===== 高级功能（在 AI 管理器层面实现） =====
@@ -322,7 +858,7 @@ ${styles.join('、') || '未指定'}
 3. 避免降智打脸、无脑送人头等网文毒点
 4. 采用"现代轻快、画面感强"的网文风格`
 
-  return generateText(prompt)
+  return generateText(prompt, undefined, undefined, undefined, 'outline')
 }
 
 /**
@@ -400,7 +936,7 @@ ${style || '现代轻快、画面感强'}
 
 请直接输出正文内容，不要包含任何解释或元信息。`
 
-  return generateText(prompt)
+  return generateText(prompt, undefined, undefined, undefined, 'chapter')
 }
 
 /**
@@ -423,7 +959,7 @@ ${content}
 
 请直接输出润色后的内容，不要包含任何解释。`
 
-  return generateText(prompt)
+  return generateText(prompt, undefined, undefined, undefined, 'chapter')
 }
 
 /**
@@ -440,17 +976,14 @@ ${content}
 3. 不剧透关键转折
 4. 语言简洁有力`
 
-  return generateText(prompt)
+  return generateText(prompt, undefined, undefined, undefined, 'analysis')
 }
 
 /**
- * AI 续写
+ * 构建续写提示词
  */
-export async function continueWriting(
-  currentContent: string,
-  wordCount: number = 500
-): Promise<string> {
-  const prompt = `请基于以下内容，自然地续写约${wordCount}字：
+function buildContinuePrompt(currentContent: string, wordCount: number): string {
+  return `请基于以下内容，自然地续写约${wordCount}字：
 
 ${currentContent}
 
@@ -461,17 +994,67 @@ ${currentContent}
 4. 如果到了合适的位置可以设置小悬念
 
 请直接输出续写内容，不要包含任何解释。`
+}
 
-  return generateText(prompt)
+/**
+ * AI 续写
+ */
+export async function continueWriting(
+  currentContent: string,
+  wordCount: number = 500
+): Promise<string> {
+  return generateText(buildContinuePrompt(currentContent, wordCount), undefined, undefined, undefined, 'chapter')
 }
 
+const DEATH_ANALYSIS_SCHEMA = {
+  type: 'object',
+  properties: {
+    deaths: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { name: { type: 'string' }, description: { type: 'string' } },
+        required: ['name', 'description']
+      }
+    },
+    confidence: { type: 'string', enum: ['high', 'medium', 'low'] }
+  },
+  required: ['deaths', 'confidence']
+} as const satisfies JSONSchema
+
+const CHARACTER_ANALYSIS_SCHEMA = {
+  type: 'object',
+  properties: {
+    appearances: { type: 'array', items: { type: 'string' } },
+    deaths: { type: 'array', items: { type: 'string' } },
+    relationships: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { char1: { type: 'string' }, char2: { type: 'string' }, relation: { type: 'string' } },
+        required: ['char1', 'char2', 'relation']
+      }
+    }
+  },
+  required: ['appearances', 'deaths', 'relationships']
+} as const satisfies JSONSchema
+
+const BOOK_TITLES_SCHEMA = {
+  type: 'object',
+  properties: {
+    titles: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['titles']
+} as const satisfies JSONSchema
+
 /**
  * 分析章节角色死亡
  */
 export async function analyzeChapterForDeaths(
   chapterTitle: string,
   chapterContent: string,
-  characterNames: string[]
+  characterNames: string[],
+  signal?: AbortSignal
 ): Promise<{
   deaths: { name: string; description: string }[]
   confidence: 'high' | 'medium' | 'low'
@@ -498,16 +1081,9 @@ export async function analyzeChapterForDeaths(
 如果没有死亡事件，返回：{"deaths":[],"confidence":"low"}`
 
   try {
-    const text = await generateText(prompt)
-    let jsonStr = text.trim()
-    const match = jsonStr.match(/\{[\s\S]*\}/)
-    if (match) jsonStr = match[0]
-    const data = JSON.parse(jsonStr)
-    return {
-      deaths: data.deaths || [],
-      confidence: data.confidence || 'low'
-    }
-  } catch {
+    return await generateJSON(prompt, DEATH_ANALYSIS_SCHEMA, undefined, signal, 'analysis', { cache: true })
+  } catch (error) {
+    if (isAbortError(error)) throw error
     return { deaths: [], confidence: 'low' }
   }
 }
@@ -518,7 +1094,8 @@ export async function analyzeChapterForDeaths(
 export async function analyzeChapterForCharacters(
   chapterTitle: string,
   chapterContent: string,
-  characterNames: string[]
+  characterNames: string[],
+  signal?: AbortSignal
 ): Promise<{
   appearances: string[]
   deaths: string[]
@@ -535,17 +1112,9 @@ export async function analyzeChapterForCharacters(
 返回JSON：{"appearances":["出场角色名"],"deaths":["死亡角色名"],"relationships":[{"char1":"角色1","char2":"角色2","relation":"关系"}]}`
 
   try {
-    const text = await generateText(prompt)
-    let jsonStr = text.trim()
-    const match = jsonStr.match(/\{[\s\S]*\}/)
-    if (match) jsonStr = match[0]
-    const data = JSON.parse(jsonStr)
-    return {
-      appearances: data.appearances || [],
-      deaths: data.deaths || [],
-      relationships: data.relationships || []
-    }
-  } catch {
+    return await generateJSON(prompt, CHARACTER_ANALYSIS_SCHEMA, undefined, signal, 'analysis', { cache: true })
+  } catch (error) {
+    if (isAbortError(error)) throw error
     return { appearances: [], deaths: [], relationships: [] }
   }
 }
@@ -556,7 +1125,8 @@ export async function analyzeChapterForCharacters(
 export async function analyzeAllChaptersForArchive(
   chapters: { title: string; content: string }[],
   characterNames: string[],
-  onProgress?: (current: number, total: number) => void
+  onProgress?: (current: number, total: number) => void,
+  signal?: AbortSignal
 ): Promise<{
   characterUpdates: {
     name: string
@@ -582,17 +1152,22 @@ export async function analyzeAllChaptersForArchive(
     }
   }
 
-  for (let i = 0; i < chapters.length; i++) {
-    const chapter = chapters[i]
-    if (!chapter.content) continue
+  throwIfAborted(signal)
 
-    onProgress?.(i + 1, chapters.length)
+  // 各章分析互不依赖，一起交给调度器（并发和限流由调度器控制），结果按章节顺序合并
+  let completed = 0
+  const results = await Promise.all(chapters.map(async chapter => {
+    const result = chapter.content
+      ? await analyzeChapterForCharacters(chapter.title, chapter.content, characterNames, signal)
+      : null
+    onProgress?.(++completed, chapters.length)
+    return result
+  }))
 
-    const result = await analyzeChapterForCharacters(
-      chapter.title,
-      chapter.content,
-      characterNames
-    )
+  for (let i = 0; i < chapters.length; i++) {
+    const chapter = chapters[i]
+    const result = results[i]
+    if (!result) continue
 
     for (const name of result.appearances) {
       if (characterMap[name]) {
@@ -667,19 +1242,8 @@ ${genres.join('、') || '未指定'}
 只返回JSON，不要有任何解释文字。`
 
   try {
-    const text = await generateText(prompt)
-    let jsonStr = text.trim()
-    const jsonMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/)
-    if (jsonMatch) {
-      jsonStr = jsonMatch[1].trim()
-    }
-    const startIndex = jsonStr.indexOf('{')
-    const endIndex = jsonStr.lastIndexOf('}')
-    if (startIndex !== -1 && endIndex !== -1) {
-      jsonStr = jsonStr.substring(startIndex, endIndex + 1)
-    }
-    const data = JSON.parse(jsonStr)
-    return data.titles || []
+    const data = await generateJSON(prompt, BOOK_TITLES_SCHEMA)
+    return data.titles
   } catch (error) {
     console.error('Failed to parse title response:', error)
     return []
@@ -687,5 +1251,21 @@ ${genres.join('、') || '未指定'}
 }
 
 // 导出类型
-export type { AIProvider, ProviderType, QuotaInfo, ModelInfo, ProviderConfig, LegacyProviderConfig }
+export type { AIProvider, ProviderType, QuotaInfo, ModelInfo, ProviderConfig, LegacyProviderConfig, CustomEndpointConfig, MockProviderConfig, MockScriptRule, ProviderModelRef, GenerationSource, GenerateOptions, ModelRoutes, KeyHealth, KeyStatus, KeyRotationMode, RateLimitConfig, RequestPriority }
+export type { JSONSchema, FromSchema }
 export { PROVIDER_INFO, PROVIDERS_BY_REGION, isNewConfigFormat, migrateToNewConfig, getActiveApiKey }
+export { isAbortError, throwIfAborted, abortable } from './fetch-helper'
+export { setUsageProject, estimateContextTokens } from './usage'
+export { loadModelRoutes, getGlobalModelRoutes, setGlobalModelRoutes, ROUTABLE_TASK_TYPES } from './routing'
+export { loadCallLogConfig, getCallLogConfig, setCallLogConfig, redactText, DEFAULT_CALL_LOG_CONFIG } from './call-log'
+export type { CallLogConfig } from './call-log'
+export { getKeyHealthList, resetKeyHealth, getKeyRotation, setKeyRotation, classifyKeyError } from './key-health'
+export { loadGenerationParams, getTaskGenerationParams, sanitizeGenerationParams, GENERATION_PRESETS } from './sampling'
+export { loadResponseCacheConfig, getResponseCacheConfig, setResponseCacheConfig, DEFAULT_RESPONSE_CACHE_CONFIG } from './response-cache'
+export type { ResponseCacheConfig } from './response-cache'
+export { loadRateLimits, setRateLimits, getRateLimits, getUserRateLimits, getSchedulerStatus, DEFAULT_RATE_LIMITS } from './scheduler'
+export { generateCoverImage, buildCoverPrompt, loadImageSettings, setImageSettings, getImageSettings, getImageProvider, getImageProviders, getImageModelName, DEFAULT_IMAGE_SETTINGS } from './image'
+export { OPENAI_IMAGE_MODELS } from './image-providers/openai'
+export { DEFAULT_COMFYUI_WORKFLOW, getImageDimensions } from './image-providers/local'
+export { IMAGE_ASPECTS } from './types'
+export type { ImageProvider, ImageProviderType, ImageAspect, ImageSize, ImageSettings, LocalImageEndpointConfig } from './types'
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import { buildRepairPrompt, extractJSON, validateJSON, type JSONSchema } from './json'
+
+const schema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    mood: { type: 'string', enum: ['calm', 'tense'] },
+    score: { type: 'integer', minimum: 0, maximum: 10 },
+    tags: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['title', 'score']
+} as const satisfies JSONSchema
+
+describe('extractJSON', () => {
+  it('直接解析纯 JSON', () => {
+    expect(extractJSON(' {"a": 1} ')).toEqual({ a: 1 })
+  })
+
+  it('从 ```json 代码块中提取', () => {
+    expect(extractJSON('结果如下：\n```json\n{"a": [1, 2]}\n```\n以上')).toEqual({ a: [1, 2] })
+  })
+
+  it('截取首个 { 到最后一个 } 之间的内容', () => {
+    expect(extractJSON('好的，{"a": {"b": true}} 完毕')).toEqual({ a: { b: true } })
+  })
+
+  it('支持顶层数组', () => {
+    expect(extractJSON('列表：[1, 2, 3]')).toEqual([1, 2, 3])
+  })
+
+  it('没有 JSON 时抛出错误', () => {
+    expect(() => extractJSON('完全没有结构化内容')).toThrow('无法解析 JSON')
+  })
+})
+
+describe('validateJSON', () => {
+  it('合法数据没有错误', () => {
+    expect(validateJSON({ title: '第一章', mood: 'calm', score: 5, tags: ['a'] }, schema)).toEqual([])
+  })
+
+  it('报告缺失的必填字段', () => {
+    expect(validateJSON({ score: 1 }, schema)).toEqual(['$.title 缺失'])
+  })
+
+  it('可选字段为 null 时跳过校验', () => {
+    expect(validateJSON({ title: 'x', score: 1, mood: null }, schema)).toEqual([])
+  })
+
+  it('报告类型、枚举和范围错误', () => {
+    const errors = validateJSON({ title: 1, mood: 'happy', score: 11.5, tags: ['a', 2] }, schema)
+    expect(errors).toEqual([
+      '$.title 应为字符串',
+      '$.mood 应为 calm / tense 之一，实际为 "happy"',
+      '$.score 应为整数',
+      '$.tags[1] 应为字符串'
+    ])
+  })
+
+  it('报告越界的数值', () => {
+    expect(validateJSON({ title: 'x', score: -1 }, schema)).toEqual(['$.score 不应小于 0'])
+  })
+
+  it('顶层类型不符时只报告一条错误', () => {
+    expect(validateJSON([], schema)).toEqual(['$ 应为对象'])
+  })
+})
+
+describe('buildRepairPrompt', () => {
+  it('包含原始要求、上次输出、错误和 schema', () => {
+    const prompt = buildRepairPrompt('请输出章节信息', '{"score": 1}', ['$.title 缺失'], schema)
+    expect(prompt.startsWith('请输出章节信息')).toBe(true)
+    expect(prompt).toContain('- $.title 缺失')
+    expect(prompt).toContain('{"score": 1}')
+    expect(prompt).toContain(JSON.stringify(schema))
+  })
+
+  it('最多列出 10 条错误并截断过长的输出', () => {
+    const errors = Array.from({ length: 15 }, (_, i) => `错误${i}`)
+    const prompt = buildRepairPrompt('要求', 'x'.repeat(5000), errors, schema)
+    expect(prompt).toContain('- 错误9')
+    expect(prompt).not.toContain('- 错误10')
+    expect(prompt).toContain('x'.repeat(4000))
+    expect(prompt).not.toContain('x'.repeat(4001))
+  })
+})
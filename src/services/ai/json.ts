@@ -0,0 +1,162 @@
+/**
+ * Structured JSON Output
+ * 从模型输出中提取 JSON，并按简化版 JSON Schema 校验
+ * 支持 type / properties / required / items / enum / minimum / maximum
+ */
+
+// ==================== Schema 定义 ====================
+
+export type JSONSchema =
+  | { type: 'string'; enum?: readonly string[]; description?: string }
+  | { type: 'number' | 'integer'; minimum?: number; maximum?: number; description?: string }
+  | { type: 'boolean'; description?: string }
+  | { type: 'array'; items: JSONSchema; description?: string }
+  | {
+      type: 'object'
+      properties: { readonly [key: string]: JSONSchema }
+      required?: readonly string[]
+      description?: string
+    }
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+type ObjectFromSchema<P, R extends string> = Simplify<
+  { -readonly [K in keyof P as K extends R ? K : never]: FromSchema<P[K]> } &
+  { -readonly [K in keyof P as K extends R ? never : K]?: FromSchema<P[K]> }
+>
+
+/**
+ * 由 schema 推导出对应的 TypeScript 类型（schema 需使用 as const 声明）
+ */
+export type FromSchema<S> =
+  S extends { type: 'string'; enum: readonly (infer E)[] } ? E
+  : S extends { type: 'string' } ? string
+  : S extends { type: 'number' | 'integer' } ? number
+  : S extends { type: 'boolean' } ? boolean
+  : S extends { type: 'array'; items: infer I } ? FromSchema<I>[]
+  : S extends { type: 'object'; properties: infer P; required: readonly (infer R extends string)[] } ? ObjectFromSchema<P, R>
+  : S extends { type: 'object'; properties: infer P } ? ObjectFromSchema<P, never>
+  : unknown
+
+// ==================== 提取与校验 ====================
+
+/**
+ * 从模型输出中提取 JSON
+ * 依次尝试：整体解析、```json 代码块、首个 { / [ 到最后一个 } / ]
+ */
+export function extractJSON(text: string): unknown {
+  const trimmed = text.trim()
+
+  const candidates: string[] = [trimmed]
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/)
+  if (fenced) candidates.push(fenced[1].trim())
+
+  for (const [open, close] of [['{', '}'], ['[', ']']]) {
+    const start = trimmed.indexOf(open)
+    const end = trimmed.lastIndexOf(close)
+    if (start !== -1 && end > start) {
+      candidates.push(trimmed.substring(start, end + 1))
+    }
+  }
+
+  let lastError: any = null
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate)
+    } catch (error) {
+      lastError = error
+    }
+  }
+
+  throw new Error(`无法解析 JSON: ${lastError?.message || '输出中没有 JSON'}`)
+}
+
+/**
+ * 按 schema 校验数据
+ * @returns 错误列表，为空表示通过
+ */
+export function validateJSON(value: unknown, schema: JSONSchema, path: string = '$'): string[] {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path} 应为字符串`]
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path} 应为 ${schema.enum.join(' / ')} 之一，实际为 "${value}"`]
+      }
+      return []
+
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || Number.isNaN(value)) return [`${path} 应为数字`]
+      if (schema.type === 'integer' && !Number.isInteger(value)) return [`${path} 应为整数`]
+      const errors: string[] = []
+      if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} 不应小于 ${schema.minimum}`)
+      if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} 不应大于 ${schema.maximum}`)
+      return errors
+    }
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} 应为布尔值`]
+
+    case 'array':
+      if (!Array.isArray(value)) return [`${path} 应为数组`]
+      return value.flatMap((item, index) => validateJSON(item, schema.items, `${path}[${index}]`))
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} 应为对象`]
+      }
+      const record = value as Record<string, unknown>
+      const errors: string[] = []
+      for (const key of schema.required || []) {
+        if (record[key] === undefined || record[key] === null) {
+          errors.push(`${path}.${key} 缺失`)
+        }
+      }
+      for (const [key, propSchema] of Object.entries(schema.properties)) {
+        if (record[key] === undefined || record[key] === null) continue
+        errors.push(...validateJSON(record[key], propSchema, `${path}.${key}`))
+      }
+      return errors
+    }
+  }
+}
+
+/**
+ * 可选字段返回 null 时视为缺省，避免下游代码处理 null
+ */
+export function stripNulls(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripNulls)
+  if (typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== null) result[key] = stripNulls(item)
+    }
+    return result
+  }
+  return value
+}
+
+/**
+ * 构建修复提示词：附上原始要求、上次输出和校验错误
+ */
+export function buildRepairPrompt(
+  originalPrompt: string,
+  badOutput: string,
+  errors: string[],
+  schema: JSONSchema
+): string {
+  return `${originalPrompt}
+
+---
+你上一次的输出不符合要求：
+${errors.slice(0, 10).map(e => `- ${e}`).join('\n')}
+
+【上一次的输出】
+${badOutput.slice(0, 4000)}
+
+【JSON 结构要求（JSON Schema）】
+${JSON.stringify(schema)}
+
+请修正以上问题，重新输出完整的 JSON。只输出 JSON，不要任何解释或代码块标记。`
+}
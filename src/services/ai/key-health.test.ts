@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ProviderConfig } from './types'
+import { classifyKeyError } from './key-health'
+
+type KeyHealthModule = typeof import('./key-health')
+
+let settings: Record<string, unknown>
+let keyHealth: KeyHealthModule
+
+const config = (activeKeyIndex: number = 0): ProviderConfig => ({
+  apiKeys: ['key-a', 'key-b', 'key-c'],
+  activeKeyIndex,
+  model: 'test-model'
+})
+
+const httpError = (message: string, status: number) => Object.assign(new Error(message), { status })
+
+describe('selectKeyIndex', () => {
+  beforeEach(async () => {
+    settings = {}
+    vi.stubGlobal('window', {
+      electron: {
+        settings: {
+          get: async (key: string) => settings[key] ?? null,
+          set: async (key: string, value: unknown) => { settings[key] = value }
+        }
+      }
+    })
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date(2026, 0, 1, 12, 0, 0))
+    // 密钥状态缓存在模块中，每个用例重新加载
+    vi.resetModules()
+    keyHealth = await import('./key-health')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('全部正常时使用当前密钥', async () => {
+    expect(await keyHealth.selectKeyIndex('openai', config(1))).toBe(1)
+  })
+
+  it('没有密钥时返回 null', async () => {
+    expect(await keyHealth.selectKeyIndex('openai', { ...config(), apiKeys: [] })).toBeNull()
+  })
+
+  it('当前密钥限流时切换到下一个可用密钥', async () => {
+    await keyHealth.reportKeyError('openai', 'key-b', httpError('Too Many Requests', 429))
+    expect(await keyHealth.selectKeyIndex('openai', config(1))).toBe(2)
+  })
+
+  it('跳过无效密钥并循环查找', async () => {
+    await keyHealth.reportKeyError('openai', 'key-c', httpError('Unauthorized', 401))
+    expect(await keyHealth.selectKeyIndex('openai', config(2))).toBe(0)
+  })
+
+  it('所有密钥都不可用时返回 null', async () => {
+    for (const key of config().apiKeys) {
+      await keyHealth.reportKeyError('openai', key, httpError('Unauthorized', 401))
+    }
+    expect(await keyHealth.selectKeyIndex('openai', config())).toBeNull()
+  })
+
+  it('故障切换模式下回到冷却已到期的靠前密钥', async () => {
+    await keyHealth.reportKeyError('openai', 'key-a', httpError('Rate limit reached, retry after 30s', 429))
+    expect(await keyHealth.selectKeyIndex('openai', config(0))).toBe(1)
+
+    // 已切换到第二个密钥，冷却到期后回到第一个
+    vi.setSystemTime(Date.now() + 31 * 1000)
+    expect(await keyHealth.selectKeyIndex('openai', config(1))).toBe(0)
+  })
+
+  it('每日配额用尽的密钥冷却到次日零点', async () => {
+    await keyHealth.reportKeyError('openai', 'key-a', httpError('You exceeded your current quota, please check your plan and billing details.', 429))
+    vi.setSystemTime(new Date(2026, 0, 1, 23, 59, 0))
+    expect(await keyHealth.selectKeyIndex('openai', config(0))).toBe(1)
+    vi.setSystemTime(new Date(2026, 0, 2, 0, 0, 1))
+    expect(await keyHealth.selectKeyIndex('openai', config(0))).toBe(0)
+  })
+
+  it('成功调用后恢复密钥', async () => {
+    await keyHealth.reportKeyError('openai', 'key-a', httpError('Too Many Requests', 429))
+    await keyHealth.reportKeySuccess('openai', 'key-a')
+    expect(await keyHealth.selectKeyIndex('openai', config(0))).toBe(0)
+  })
+
+  it('不同提供商的状态互不影响', async () => {
+    await keyHealth.reportKeyError('openai', 'key-a', httpError('Unauthorized', 401))
+    expect(await keyHealth.selectKeyIndex('deepseek', config(0))).toBe(0)
+  })
+
+  it('轮询模式下依次使用可用密钥', async () => {
+    await keyHealth.setKeyRotation('openai', 'round_robin')
+    await keyHealth.reportKeyError('openai', 'key-b', httpError('Unauthorized', 401))
+    const picks = []
+    for (let i = 0; i < 4; i++) picks.push(await keyHealth.selectKeyIndex('openai', config(0)))
+    expect(picks).toEqual([0, 2, 0, 2])
+  })
+
+  it('pickKey 在没有可用密钥时退回当前密钥', async () => {
+    for (const key of config().apiKeys) {
+      await keyHealth.reportKeyError('openai', key, httpError('Unauthorized', 401))
+    }
+    expect(await keyHealth.pickKey('openai', config(1))).toEqual({ apiKey: 'key-b', keyIndex: 1 })
+  })
+})
+
+describe('classifyKeyError', () => {
+  const now = new Date(2026, 0, 1, 12, 0, 0).getTime()
+
+  it('按原始状态码识别提供商改写后的错误', () => {
+    const rewritten = Object.assign(new Error('⚠️ API 配额已用尽'), { cause: httpError('Too Many Requests', 429) })
+    expect(classifyKeyError(rewritten, now)).toEqual({ status: 'rate_limited', until: now + 60 * 1000 })
+  })
+
+  it('给出重试时间的限额错误按限流处理', () => {
+    const error = httpError('You exceeded your current quota. Please retry in 12s.', 429)
+    expect(classifyKeyError(error, now)).toEqual({ status: 'rate_limited', until: now + 12 * 1000 })
+  })
+
+  it('原始状态码不是 401 时不把改写提示当作无效密钥', () => {
+    const rewritten = Object.assign(new Error('API Key 无效'), { cause: httpError('invalid request: max_tokens too large', 400) })
+    expect(classifyKeyError(rewritten, now)).toBeNull()
+  })
+
+  it('网络和服务端错误与密钥无关', () => {
+    expect(classifyKeyError(httpError('Internal Server Error', 500), now)).toBeNull()
+    expect(classifyKeyError(new TypeError('fetch failed'), now)).toBeNull()
+  })
+})
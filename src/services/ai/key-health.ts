@@ -0,0 +1,308 @@
+/**
+ * API Key Health
+ * 记录每个密钥的健康状态：限流的密钥冷却到指定时间，当日配额用尽的密钥冷却到次日零点，无效的密钥停用直到手动恢复
+ * 冷却到期后自动恢复可用；故障切换模式下会回到排在前面的已恢复密钥
+ * 状态按 提供商 + 密钥指纹 保存在 aiKeyHealth 设置中（不保存密钥原文，增删密钥不会错位）
+ */
+
+import type { ProviderType, ProviderConfig, LegacyProviderConfig, KeyHealth, KeyStatus, KeyRotationMode, PickedKey } from './types'
+import { isNewConfigFormat } from './types'
+import { isAbortError } from './fetch-helper'
+import { hashText } from '../../utils'
+
+// 设置存储键
+export const KEY_HEALTH_SETTINGS_KEY = 'aiKeyHealth'
+export const KEY_ROTATION_SETTINGS_KEY = 'aiKeyRotation'
+
+// 限流未给出重试时间时的冷却时长
+const DEFAULT_RATE_LIMIT_COOLDOWN = 60 * 1000
+
+// 每个密钥保留的最近错误条数
+const MAX_RECENT_ERRORS = 5
+
+const HEALTHY: KeyHealth = { status: 'healthy', until: null, recentErrors: [] }
+
+type HealthStore = Partial<Record<ProviderType, Record<string, KeyHealth>>>
+type RotationStore = Partial<Record<ProviderType, KeyRotationMode>>
+
+let healthStore: HealthStore | null = null
+let rotationStore: RotationStore | null = null
+
+// 轮询模式下每个提供商上次使用的密钥序号（只在内存中）
+const roundRobinCursor = new Map<ProviderType, number>()
+
+// 密钥指纹缓存
+const fingerprints = new Map<string, string>()
+
+async function fingerprint(apiKey: string): Promise<string> {
+  let value = fingerprints.get(apiKey)
+  if (!value) {
+    // 取 SHA-256 的前 8 字节
+    value = (await hashText(apiKey)).slice(0, 16)
+    fingerprints.set(apiKey, value)
+  }
+  return value
+}
+
+async function loadStores(): Promise<{ health: HealthStore; rotation: RotationStore }> {
+  if (!healthStore || !rotationStore) {
+    const [health, rotation] = await Promise.all([
+      window.electron.settings.get(KEY_HEALTH_SETTINGS_KEY) as Promise<HealthStore | null>,
+      window.electron.settings.get(KEY_ROTATION_SETTINGS_KEY) as Promise<RotationStore | null>
+    ])
+    healthStore = health || {}
+    rotationStore = rotation || {}
+  }
+  return { health: healthStore, rotation: rotationStore }
+}
+
+async function saveHealth(): Promise<void> {
+  try {
+    await window.electron.settings.set(KEY_HEALTH_SETTINGS_KEY, healthStore)
+  } catch (error) {
+    console.warn('[KeyHealth] 保存密钥状态失败:', error)
+  }
+}
+
+/**
+ * 冷却到期的密钥视为正常（保留错误记录）
+ */
+function effectiveHealth(health: KeyHealth | undefined, now: number): KeyHealth {
+  if (!health) return HEALTHY
+  if (health.until !== null && health.until <= now) {
+    return { ...health, status: 'healthy', until: null }
+  }
+  return health
+}
+
+function isAvailable(health: KeyHealth): boolean {
+  return health.status === 'healthy'
+}
+
+// ==================== 错误分类 ====================
+
+/**
+ * 从错误信息中解析建议的重试等待时间（毫秒）
+ */
+function parseRetryDelay(message: string): number | null {
+  const match = message.match(/retry(?:Delay|[_ -]after)?["'\s:]*(?:in\s+)?"?(\d+(?:\.\d+)?)\s*(ms|s|秒)?/i) ||
+    message.match(/try again in\s+(\d+(?:\.\d+)?)\s*(ms|s|m)/i)
+  if (!match) return null
+  const value = parseFloat(match[1])
+  const unit = (match[2] || 's').toLowerCase()
+  return Math.ceil(unit === 'ms' ? value : unit === 'm' ? value * 60000 : value * 1000)
+}
+
+/**
+ * 次日零点（本地时间），作为每日配额的重置时间
+ */
+function nextDailyReset(now: number): number {
+  const date = new Date(now)
+  date.setHours(24, 0, 0, 0)
+  return date.getTime()
+}
+
+/**
+ * 取出错误的 HTTP 状态码和全部信息
+ * 提供商把接口错误改写为提示时通过 cause 保留原始错误，沿 cause 链合并原始信息
+ */
+function describeError(error: unknown): { status: number | null; message: string } {
+  let status: number | null = null
+  const messages: string[] = []
+  let current = error as { message?: string; status?: unknown; cause?: unknown } | null | undefined
+  for (let depth = 0; current !== null && current !== undefined && depth < 5; depth++) {
+    if (status === null && typeof current.status === 'number' && current.status > 0) status = current.status
+    messages.push(current.message || String(current))
+    current = current.cause as typeof current
+  }
+  return { status, message: messages.join('\n') }
+}
+
+/**
+ * 判断错误对应的密钥状态
+ * @returns 与密钥无关的错误（网络、服务端 5xx 等）返回 null
+ */
+export function classifyKeyError(error: unknown, now: number = Date.now()): { status: KeyStatus; until: number | null } | null {
+  const { status, message } = describeError(error)
+
+  if (
+    status === 401 ||
+    (status === null && /\b401\b/.test(message)) ||
+    /invalid[_ -]?(?:api[_ -]?key|x-api-key|authentication)|api[_ ]key not valid|API_KEY_INVALID|incorrect api key|authentication[_ ]?(?:error|fails)|unauthorized/i.test(message) ||
+    message.includes('密钥无效') ||
+    // 提供商的改写提示只在没有原始状态码时采用（原始错误可能只是请求参数 invalid）
+    (status === null && message.includes('API Key 无效'))
+  ) {
+    return { status: 'invalid', until: null }
+  }
+
+  // 每分钟限额的报错同样提到 quota / billing，但会给出重试时间
+  const retryDelay = parseRetryDelay(message)
+  if (
+    /per[_ ]?day|daily/i.test(message) ||
+    (retryDelay === null && (/insufficient[_ ]quota|exceeded your current quota|billing|balance/i.test(message) || message.includes('余额不足')))
+  ) {
+    return { status: 'quota_exhausted', until: nextDailyReset(now) }
+  }
+
+  // 提供商把所有 429 都提示为“配额已用尽”，没有每日配额的明确信息时按限流处理
+  if (
+    status === 429 ||
+    /\b429\b|rate[_ ]?limit|quota|RESOURCE_EXHAUSTED|too many requests/i.test(message) ||
+    message.includes('限流') ||
+    message.includes('配额已用尽')
+  ) {
+    return { status: 'rate_limited', until: now + (retryDelay ?? DEFAULT_RATE_LIMIT_COOLDOWN) }
+  }
+
+  return null
+}
+
+// ==================== 状态读写 ====================
+
+/**
+ * 记录密钥调用失败
+ * 所有错误都计入最近错误；限流、配额和无效错误会把密钥置为对应状态
+ * @returns 密钥是否因此不可用（调用方应换用其他密钥）
+ */
+export async function reportKeyError(provider: ProviderType, apiKey: string | null, error: unknown): Promise<boolean> {
+  if (!apiKey || isAbortError(error)) return false
+  const { health } = await loadStores()
+  const id = await fingerprint(apiKey)
+  const now = Date.now()
+  const current = effectiveHealth(health[provider]?.[id], now)
+  const classified = classifyKeyError(error, now)
+  const message = ((error as { message?: string } | null)?.message || String(error)).slice(0, 300)
+
+  health[provider] = {
+    ...health[provider],
+    [id]: {
+      status: classified?.status ?? current.status,
+      until: classified ? classified.until : current.until,
+      recentErrors: [{ at: now, message }, ...current.recentErrors].slice(0, MAX_RECENT_ERRORS)
+    }
+  }
+  await saveHealth()
+
+  if (classified) {
+    console.log(`[KeyHealth] ${provider} 密钥 ${id.slice(0, 6)} 标记为 ${classified.status}`)
+  }
+  return !!classified
+}
+
+/**
+ * 记录密钥调用成功（状态变化时才写入设置）
+ */
+export async function reportKeySuccess(provider: ProviderType, apiKey: string | null): Promise<void> {
+  if (!apiKey) return
+  const { health } = await loadStores()
+  const id = await fingerprint(apiKey)
+  const stored = health[provider]?.[id]
+  if (!stored || (stored.status === 'healthy' && stored.until === null)) return
+
+  health[provider] = { ...health[provider], [id]: { ...stored, status: 'healthy', until: null } }
+  await saveHealth()
+}
+
+/**
+ * 手动恢复密钥为正常状态并清空错误记录
+ */
+export async function resetKeyHealth(provider: ProviderType, apiKey: string): Promise<void> {
+  const { health } = await loadStores()
+  const id = await fingerprint(apiKey)
+  if (!health[provider]?.[id]) return
+
+  const { [id]: _removed, ...rest } = health[provider]!
+  health[provider] = rest
+  await saveHealth()
+}
+
+/**
+ * 获取密钥列表的当前状态（按传入顺序）
+ */
+export async function getKeyHealthList(provider: ProviderType, apiKeys: string[]): Promise<KeyHealth[]> {
+  const { health } = await loadStores()
+  const now = Date.now()
+  return Promise.all(apiKeys.map(async key => effectiveHealth(health[provider]?.[await fingerprint(key)], now)))
+}
+
+export async function getKeyRotation(provider: ProviderType): Promise<KeyRotationMode> {
+  const { rotation } = await loadStores()
+  return rotation[provider] ?? 'failover'
+}
+
+export async function setKeyRotation(provider: ProviderType, mode: KeyRotationMode): Promise<void> {
+  const { rotation } = await loadStores()
+  rotation[provider] = mode
+  roundRobinCursor.delete(provider)
+  await window.electron.settings.set(KEY_ROTATION_SETTINGS_KEY, rotation)
+}
+
+// ==================== 密钥选择 ====================
+
+/**
+ * 按健康状态和轮换方式选择本次使用的密钥
+ * - 轮询：从上次使用的密钥之后找下一个可用密钥
+ * - 故障切换：优先使用排在前面、冷却已到期的密钥；否则当前密钥可用时继续使用，不可用时依次找下一个
+ * @returns 密钥序号，没有可用密钥时返回 null
+ */
+export async function selectKeyIndex(provider: ProviderType, config: ProviderConfig): Promise<number | null> {
+  const count = config.apiKeys.length
+  if (count === 0) return null
+
+  const { health } = await loadStores()
+  const now = Date.now()
+  const ids = await Promise.all(config.apiKeys.map(fingerprint))
+  const stored = ids.map(id => health[provider]?.[id])
+  const states = stored.map(h => effectiveHealth(h, now))
+  const active = Math.min(Math.max(config.activeKeyIndex || 0, 0), count - 1)
+
+  // 从 start 开始（含）循环查找第一个可用密钥
+  const findFrom = (start: number): number | null => {
+    for (let offset = 0; offset < count; offset++) {
+      const index = (start + offset) % count
+      if (isAvailable(states[index])) return index
+    }
+    return null
+  }
+
+  if ((await getKeyRotation(provider)) === 'round_robin') {
+    const last = roundRobinCursor.get(provider) ?? active - 1
+    const index = findFrom((last + 1 + count) % count)
+    if (index !== null) roundRobinCursor.set(provider, index)
+    return index
+  }
+
+  // 冷却后自动恢复的密钥：状态仍记录为不可用，但已到期
+  const recovered = stored.findIndex((h, index) => index < active && h?.until != null && h.until <= now)
+  if (recovered !== -1) return recovered
+
+  return findFrom(active)
+}
+
+/**
+ * 选择提供商本次应使用的密钥及其序号（考虑健康状态；没有可用密钥时退回当前密钥）
+ */
+export async function pickKey(provider: ProviderType, config: ProviderConfig | LegacyProviderConfig): Promise<PickedKey | null> {
+  if (!isNewConfigFormat(config)) return config.apiKey ? { apiKey: config.apiKey, keyIndex: null } : null
+  if (config.apiKeys.length === 0) return null
+  const index = (await selectKeyIndex(provider, config)) ?? config.activeKeyIndex
+  const keyIndex = config.apiKeys[index] ? index : 0
+  return config.apiKeys[keyIndex] ? { apiKey: config.apiKeys[keyIndex], keyIndex } : null
+}
+
+/**
+ * 获取提供商本次应使用的 API Key（考虑健康状态；没有可用密钥时退回当前密钥）
+ */
+export async function pickApiKey(provider: ProviderType, config: ProviderConfig | LegacyProviderConfig): Promise<string | null> {
+  return (await pickKey(provider, config))?.apiKey ?? null
+}
+
+/**
+ * 读取提供商配置并获取本次应使用的 API Key（供封面等独立功能使用）
+ */
+export async function getProviderApiKey(provider: ProviderType): Promise<string | null> {
+  const configs = await window.electron.settings.get('aiProviderConfigs') as Record<string, ProviderConfig | LegacyProviderConfig> | null
+  const config = configs?.[provider]
+  return config ? pickApiKey(provider, config) : null
+}
@@ -3,9 +3,10 @@
  * 使用 Anthropic Messages API（通过 Electron IPC 代理请求）
  */
 
-import type { AIProvider, ModelInfo, QuotaInfo, ProviderMeta } from '../types'
+import type { AIProvider, ModelInfo, QuotaInfo, ProviderMeta, TokenUsage, GenerateOptions } from '../types'
 import { PROVIDER_INFO } from '../types'
-import { aiFetch } from '../fetch-helper'
+import { toClaudeParams } from '../sampling'
+import { aiFetch, aiFetchStream, createHTTPError, createProviderError, isAbortError } from '../fetch-helper'
 
 // Claude 模型配置
 const CLAUDE_MODELS: Record<string, ModelInfo> = {
@@ -46,6 +47,7 @@ export class ClaudeProvider implements AIProvider {
   private apiKey: string = ''
   private currentModel: string = DEFAULT_MODEL
   private initialized: boolean = false
+  private lastUsage: TokenUsage | null = null
 
   async init(apiKey: string, modelName?: string): Promise<boolean> {
     try {
@@ -66,12 +68,15 @@ export class ClaudeProvider implements AIProvider {
   async generateText(
     prompt: string,
     retries: number = 2,
-    _timeout: number = 60000
+    _timeout: number = 60000,
+    signal?: AbortSignal,
+    options: GenerateOptions = {}  // Claude 没有原生 JSON 模式，jsonMode 依赖提示词约束输出
   ): Promise<string> {
     if (!this.initialized || !this.apiKey) {
       throw new Error('Claude API 未初始化，请先在设置中配置 API Key')
     }
 
+    this.lastUsage = null
     let lastError: any = null
 
     for (let attempt = 0; attempt <= retries; attempt++) {
@@ -80,6 +85,7 @@ export class ClaudeProvider implements AIProvider {
 
         const response = await aiFetch(`${API_BASE}/messages`, {
           method: 'POST',
+          signal,
           headers: {
             'Content-Type': 'application/json',
             'x-api-key': this.apiKey,
@@ -87,22 +93,27 @@ export class ClaudeProvider implements AIProvider {
           },
           body: JSON.stringify({
             model: this.currentModel,
-            max_tokens: 8192,
+            ...toClaudeParams(options),
             messages: [{ role: 'user', content: prompt }]
           })
         })
 
         if (!response.ok) {
           const errorMsg = response.data?.error?.message || response.error || `HTTP ${response.status}`
-          throw new Error(errorMsg)
+          throw createHTTPError(errorMsg, response.status)
         }
 
         const text = response.data?.content?.[0]?.text || ''
+        const usage = response.data?.usage
+        this.lastUsage = usage
+          ? { promptTokens: usage.input_tokens || 0, completionTokens: usage.output_tokens || 0 }
+          : null
 
         console.log(`[Claude API] 请求成功`)
         return text
 
       } catch (error: any) {
+        if (isAbortError(error)) throw error
         lastError = error
         const errorMsg = error.message || String(error)
         console.error(`[Claude API] 请求失败 (尝试 ${attempt + 1}/${retries + 1}):`, errorMsg)
@@ -110,11 +121,11 @@ export class ClaudeProvider implements AIProvider {
         if (attempt === retries) break
 
         if (errorMsg.includes('429') || errorMsg.includes('rate limit')) {
-          throw new Error('⚠️ API 配额已用尽，请稍后重试')
+          throw createProviderError('⚠️ API 配额已用尽，请稍后重试', error)
         }
 
         if (errorMsg.includes('401') || errorMsg.includes('invalid')) {
-          throw new Error('❌ API Key 无效，请检查全局设置')
+          throw createProviderError('❌ API Key 无效，请检查全局设置', error)
         }
 
         const waitTime = Math.min(2000 * (attempt + 1), 5000)
@@ -128,16 +139,17 @@ export class ClaudeProvider implements AIProvider {
       throw new Error('🌐 网络连接失败，请检查网络设置')
     }
 
-    throw new Error(`生成失败: ${errorMsg}`)
+    throw createProviderError(`生成失败: ${errorMsg}`, lastError)
   }
 
-  async *generateTextStream(prompt: string): AsyncGenerator<string, void, unknown> {
+  async *generateTextStream(prompt: string, signal?: AbortSignal, options: GenerateOptions = {}): AsyncGenerator<string, void, unknown> {
     if (!this.initialized || !this.apiKey) {
       throw new Error('Claude API 未初始化，请先在设置中配置 API Key')
     }
 
-    const response = await fetch(`${API_BASE}/messages`, {
+    for await (const data of aiFetchStream(`${API_BASE}/messages`, {
       method: 'POST',
+      signal,
       headers: {
         'Content-Type': 'application/json',
         'x-api-key': this.apiKey,
@@ -145,43 +157,18 @@ export class ClaudeProvider implements AIProvider {
       },
       body: JSON.stringify({
         model: this.currentModel,
-        max_tokens: 8192,
+        ...toClaudeParams(options),
         messages: [{ role: 'user', content: prompt }],
         stream: true
       })
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}))
-      throw new Error(errorData.error?.message || `HTTP ${response.status}`)
-    }
-
-    const reader = response.body?.getReader()
-    if (!reader) throw new Error('无法获取响应流')
-
-    const decoder = new TextDecoder()
-    let buffer = ''
-
-    while (true) {
-      const { done, value } = await reader.read()
-      if (done) break
-
-      buffer += decoder.decode(value, { stream: true })
-      const lines = buffer.split('\n')
-      buffer = lines.pop() || ''
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6)
-          try {
-            const json = JSON.parse(data)
-            if (json.type === 'content_block_delta' && json.delta?.text) {
-              yield json.delta.text
-            }
-          } catch {
-            // Skip invalid JSON
-          }
+    })) {
+      try {
+        const json = JSON.parse(data)
+        if (json.type === 'content_block_delta' && json.delta?.text) {
+          yield json.delta.text
         }
+      } catch {
+        // Skip invalid JSON
       }
     }
   }
@@ -272,6 +259,10 @@ export class ClaudeProvider implements AIProvider {
     return this.currentModel
   }
 
+  getLastUsage(): TokenUsage | null {
+    return this.lastUsage
+  }
+
   isReady(): boolean {
     return this.initialized && !!this.apiKey
   }
@@ -0,0 +1,360 @@
+/**
+ * Custom Endpoint AI Provider
+ * 任意 OpenAI 兼容接口（Ollama、llama.cpp server、vLLM、企业网关等）
+ * 非流式请求通过 Electron IPC 代理，端点配置保存在 customEndpoint 设置中
+ */
+
+import type { AIProvider, ModelInfo, QuotaInfo, ProviderMeta, CustomEndpointConfig, TokenUsage, GenerateOptions } from '../types'
+import { PROVIDER_INFO } from '../types'
+import { toOpenAIParams } from '../sampling'
+import { aiFetch, aiFetchStream, createHTTPError, createProviderError, isAbortError } from '../fetch-helper'
+import { parseOpenAIUsage } from '../usage'
+import { requestOpenAIEmbeddings } from '../embedding'
+
+// 设置存储键
+export const CUSTOM_ENDPOINT_SETTINGS_KEY = 'customEndpoint'
+
+export const DEFAULT_CUSTOM_ENDPOINT: CustomEndpointConfig = {
+  baseUrl: 'http://localhost:11434/v1',
+  headers: {},
+  models: [],
+  contextWindow: 32768
+}
+
+/**
+ * 规范化用户输入的端点地址
+ * 去掉末尾的斜杠和误粘贴的 /chat/completions、/models 路径
+ */
+export function normalizeBaseUrl(url: string): string {
+  return url
+    .trim()
+    .replace(/\/+$/, '')
+    .replace(/\/(chat\/completions|models)$/, '')
+}
+
+// 向量化单次请求的文本数（本地服务通常没有限制，取较保守的值）
+const EMBEDDING_BATCH_SIZE = 32
+
+export class CustomProvider implements AIProvider {
+  readonly type = 'custom' as const
+  readonly meta: ProviderMeta = PROVIDER_INFO.custom
+
+  private apiKey: string = ''
+  private currentModel: string = ''
+  private initialized: boolean = false
+  private lastUsage: TokenUsage | null = null
+  private endpoint: CustomEndpointConfig = { ...DEFAULT_CUSTOM_ENDPOINT }
+
+  async init(apiKey: string, modelName?: string): Promise<boolean> {
+    try {
+      await this.loadEndpoint()
+
+      if (modelName) {
+        this.currentModel = modelName
+      } else if (!this.currentModel && this.endpoint.models.length > 0) {
+        this.currentModel = this.endpoint.models[0]
+      }
+
+      this.apiKey = apiKey
+      this.initialized = true
+      console.log(`✅ Custom endpoint initialized: ${this.endpoint.baseUrl} (${this.currentModel || '未选择模型'})`)
+      return true
+    } catch (error) {
+      console.error('❌ Failed to initialize custom endpoint:', error)
+      return false
+    }
+  }
+
+  /**
+   * 更新端点配置（由全局设置页调用，不会持久化）
+   */
+  configure(config: Partial<CustomEndpointConfig>): void {
+    this.endpoint = {
+      ...this.endpoint,
+      ...config,
+      baseUrl: normalizeBaseUrl(config.baseUrl ?? this.endpoint.baseUrl)
+    }
+  }
+
+  /**
+   * 获取当前端点配置
+   */
+  getEndpoint(): CustomEndpointConfig {
+    return this.endpoint
+  }
+
+  /**
+   * 通过 GET /models 发现端点提供的模型
+   */
+  async discoverModels(): Promise<string[]> {
+    const response = await aiFetch(`${this.endpoint.baseUrl}/models`, {
+      method: 'GET',
+      headers: this.buildHeaders()
+    })
+
+    if (!response.ok) {
+      const errorMsg = response.data?.error?.message || response.error || `HTTP ${response.status}`
+      throw new Error(`获取模型列表失败: ${errorMsg}`)
+    }
+
+    const list: any[] = Array.isArray(response.data?.data)
+      ? response.data.data
+      : Array.isArray(response.data?.models) ? response.data.models : []
+
+    const models = list
+      .map(item => (typeof item === 'string' ? item : item?.id || item?.name))
+      .filter((id): id is string => typeof id === 'string' && id.length > 0)
+
+    this.endpoint = { ...this.endpoint, models }
+    if (!this.currentModel && models.length > 0) {
+      this.currentModel = models[0]
+    }
+
+    console.log(`[Custom] 发现 ${models.length} 个模型`)
+    return models
+  }
+
+  async generateText(
+    prompt: string,
+    retries: number = 2,
+    _timeout: number = 60000,
+    signal?: AbortSignal,
+    options: GenerateOptions = {}  // 端点不一定支持 response_format，jsonMode 依赖提示词约束输出
+  ): Promise<string> {
+    if (!this.initialized) {
+      throw new Error('自定义端点未初始化，请先在全局设置中配置')
+    }
+    if (!this.currentModel) {
+      throw new Error('自定义端点未选择模型，请先在全局设置中获取模型列表')
+    }
+
+    this.lastUsage = null
+    let lastError: any = null
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      try {
+        console.log(`[Custom API] 请求尝试 ${attempt + 1}/${retries + 1}`)
+
+        const response = await aiFetch(`${this.endpoint.baseUrl}/chat/completions`, {
+          method: 'POST',
+          signal,
+          headers: this.buildHeaders(),
+          body: JSON.stringify({
+            model: this.currentModel,
+            messages: [{ role: 'user', content: prompt }],
+            ...toOpenAIParams(options)
+          })
+        })
+
+        if (!response.ok) {
+          const errorMsg = response.data?.error?.message || response.error || `HTTP ${response.status}`
+          throw createHTTPError(errorMsg, response.status)
+        }
+
+        const text = response.data?.choices?.[0]?.message?.content || ''
+        this.lastUsage = parseOpenAIUsage(response.data?.usage)
+
+        console.log(`[Custom API] 请求成功`)
+        return text
+
+      } catch (error: any) {
+        if (isAbortError(error)) throw error
+        lastError = error
+        const errorMsg = error.message || String(error)
+        console.error(`[Custom API] 请求失败 (尝试 ${attempt + 1}/${retries + 1}):`, errorMsg)
+
+        if (attempt === retries) break
+
+        if (errorMsg.includes('429') || errorMsg.includes('rate limit')) {
+          throw createProviderError('⚠️ API 配额已用尽，请稍后重试', error)
+        }
+
+        if (errorMsg.includes('401') || errorMsg.includes('invalid')) {
+          throw createProviderError('❌ API Key 无效，请检查全局设置', error)
+        }
+
+        const waitTime = Math.min(2000 * (attempt + 1), 5000)
+        console.log(`[Custom API] ${waitTime}ms 后重试...`)
+        await new Promise(resolve => setTimeout(resolve, waitTime))
+      }
+    }
+
+    const errorMsg = lastError?.message || String(lastError)
+    if (errorMsg.includes('fetch') || errorMsg.includes('network') || errorMsg.includes('连接被拒绝')) {
+      throw new Error(`🌐 无法连接到自定义端点 ${this.endpoint.baseUrl}，请确认服务已启动`)
+    }
+
+    throw createProviderError(`生成失败: ${errorMsg}`, lastError)
+  }
+
+  async *generateTextStream(prompt: string, signal?: AbortSignal, options: GenerateOptions = {}): AsyncGenerator<string, void, unknown> {
+    if (!this.initialized) {
+      throw new Error('自定义端点未初始化，请先在全局设置中配置')
+    }
+
+    for await (const data of aiFetchStream(`${this.endpoint.baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: this.buildHeaders(),
+      body: JSON.stringify({
+        model: this.currentModel,
+        messages: [{ role: 'user', content: prompt }],
+        ...toOpenAIParams(options),
+        stream: true
+      })
+    })) {
+      if (data === '[DONE]') return
+      try {
+        const json = JSON.parse(data)
+        const content = json.choices?.[0]?.delta?.content
+        if (content) yield content
+      } catch {
+        // Skip invalid JSON
+      }
+    }
+  }
+
+  async switchModel(modelName: string): Promise<boolean> {
+    if (!this.initialized) {
+      throw new Error('自定义端点未初始化')
+    }
+
+    // 端点模型列表可能尚未获取，允许使用任意模型名
+    if (this.endpoint.models.length > 0 && !this.endpoint.models.includes(modelName)) {
+      throw new Error(`端点未提供该模型: ${modelName}`)
+    }
+
+    this.currentModel = modelName
+    console.log(`Switched to model: ${this.currentModel}`)
+    return true
+  }
+
+  async checkQuota(): Promise<QuotaInfo> {
+    if (!this.initialized) {
+      return {
+        isValid: false,
+        model: this.currentModel,
+        error: '自定义端点未配置'
+      }
+    }
+
+    try {
+      console.log(`[Custom] 检查端点: ${this.endpoint.baseUrl}，模型: ${this.currentModel}`)
+
+      const response = await aiFetch(`${this.endpoint.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify({
+          model: this.currentModel,
+          messages: [{ role: 'user', content: 'Hi' }],
+          max_tokens: 5
+        })
+      })
+
+      console.log(`[Custom] 响应状态: ${response.status}`)
+
+      if (response.ok) {
+        return {
+          isValid: true,
+          model: this.currentModel,
+          quotaExceeded: false
+        }
+      }
+
+      const errorMsg = response.data?.error?.message || response.error || `HTTP ${response.status}`
+
+      return {
+        isValid: false,
+        model: this.currentModel,
+        error: errorMsg,
+        quotaExceeded: response.status === 429
+      }
+    } catch (error: any) {
+      console.error(`[Custom] 端点检查异常:`, error)
+      return {
+        isValid: false,
+        model: this.currentModel,
+        error: error.message || String(error)
+      }
+    }
+  }
+
+  getAvailableModels(): Record<string, ModelInfo> {
+    const models: Record<string, ModelInfo> = {}
+    for (const id of this.endpoint.models) {
+      models[id] = {
+        name: id,
+        description: `来自 ${this.endpoint.baseUrl}`,
+        contextWindow: this.endpoint.contextWindow
+      }
+    }
+    // 当前模型不在列表中时（手动填写），也保证可选
+    if (this.currentModel && !models[this.currentModel]) {
+      models[this.currentModel] = {
+        name: this.currentModel,
+        description: '手动指定的模型',
+        contextWindow: this.endpoint.contextWindow
+      }
+    }
+    return models
+  }
+
+  getCurrentModel(): string {
+    return this.currentModel
+  }
+
+  getLastUsage(): TokenUsage | null {
+    return this.lastUsage
+  }
+
+  isReady(): boolean {
+    return this.initialized && !!this.endpoint.baseUrl
+  }
+
+  private async loadEndpoint(): Promise<void> {
+    if (typeof window === 'undefined' || !window.electron?.settings) return
+    const saved = await window.electron.settings.get(CUSTOM_ENDPOINT_SETTINGS_KEY) as Partial<CustomEndpointConfig> | null
+    if (saved) {
+      this.configure(saved)
+    }
+  }
+
+  getEmbeddingModel(): string | null {
+    return this.endpoint.embeddingModel || null
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    if (!this.initialized) {
+      throw new Error('自定义端点未初始化，请先在全局设置中配置')
+    }
+    if (!this.endpoint.embeddingModel) {
+      throw new Error('自定义端点未配置向量模型')
+    }
+
+    const { vectors, usage } = await requestOpenAIEmbeddings(
+      this.endpoint.baseUrl,
+      this.buildHeaders(),
+      this.endpoint.embeddingModel,
+      texts,
+      EMBEDDING_BATCH_SIZE,
+      signal
+    )
+    this.lastUsage = usage
+    return vectors
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.endpoint.headers
+    }
+    // 本地模型通常不需要密钥
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`
+    }
+    return headers
+  }
+}
+
+// 导出单例实例
+export const customProvider = new CustomProvider()
@@ -3,9 +3,11 @@
  * 使用 OpenAI 兼容 API（通过 Electron IPC 代理请求）
  */
 
-import type { AIProvider, ModelInfo, QuotaInfo, ProviderMeta } from '../types'
+import type { AIProvider, ModelInfo, QuotaInfo, ProviderMeta, TokenUsage, GenerateOptions } from '../types'
 import { PROVIDER_INFO } from '../types'
-import { aiFetch } from '../fetch-helper'
+import { toOpenAIParams } from '../sampling'
+import { aiFetch, aiFetchStream, createHTTPError, createProviderError, isAbortError } from '../fetch-helper'
+import { parseOpenAIUsage } from '../usage'
 
 // DeepSeek 模型配置
 const DEEPSEEK_MODELS: Record<string, ModelInfo> = {
@@ -33,6 +35,7 @@ export class DeepSeekProvider implements AIProvider {
   private apiKey: string = ''
   private currentModel: string = DEFAULT_MODEL
   private initialized: boolean = false
+  private lastUsage: TokenUsage | null = null
 
   async init(apiKey: string, modelName?: string): Promise<boolean> {
     try {
@@ -53,12 +56,15 @@ export class DeepSeekProvider implements AIProvider {
   async generateText(
     prompt: string,
     retries: number = 2,
-    _timeout: number = 60000
+    _timeout: number = 60000,
+    signal?: AbortSignal,
+    options: GenerateOptions = {}
   ): Promise<string> {
     if (!this.initialized || !this.apiKey) {
       throw new Error('DeepSeek API 未初始化，请先在设置中配置 API Key')
     }
 
+    this.lastUsage = null
     let lastError: any = null
 
     for (let attempt = 0; attempt <= retries; attempt++) {
@@ -67,6 +73,7 @@ export class DeepSeekProvider implements AIProvider {
 
         const response = await aiFetch(`${API_BASE}/chat/completions`, {
           method: 'POST',
+          signal,
           headers: {
             'Content-Type': 'application/json',
             'Authorization': `Bearer ${this.apiKey}`
@@ -74,21 +81,24 @@ export class DeepSeekProvider implements AIProvider {
           body: JSON.stringify({
             model: this.currentModel,
             messages: [{ role: 'user', content: prompt }],
-            temperature: 0.7
+            ...toOpenAIParams(options),
+            ...(options.jsonMode ? { response_format: { type: 'json_object' } } : {})
           })
         })
 
         if (!response.ok) {
           const errorMsg = response.data?.error?.message || response.error || `HTTP ${response.status}`
-          throw new Error(errorMsg)
+          throw createHTTPError(errorMsg, response.status)
         }
 
         const text = response.data?.choices?.[0]?.message?.content || ''
+        this.lastUsage = parseOpenAIUsage(response.data?.usage)
 
         console.log(`[DeepSeek API] 请求成功`)
         return text
 
       } catch (error: any) {
+        if (isAbortError(error)) throw error
         lastError = error
         const errorMsg = error.message || String(error)
         console.error(`[DeepSeek API] 请求失败 (尝试 ${attempt + 1}/${retries + 1}):`, errorMsg)
@@ -96,11 +106,11 @@ export class DeepSeekProvider implements AIProvider {
         if (attempt === retries) break
 
         if (errorMsg.includes('429') || errorMsg.includes('rate limit')) {
-          throw new Error('⚠️ API 配额已用尽，请稍后重试')
+          throw createProviderError('⚠️ API 配额已用尽，请稍后重试', error)
         }
 
         if (errorMsg.includes('401') || errorMsg.includes('invalid')) {
-          throw new Error('❌ API Key 无效，请检查全局设置')
+          throw createProviderError('❌ API Key 无效，请检查全局设置', error)
         }
 
         const waitTime = Math.min(2000 * (attempt + 1), 5000)
@@ -114,16 +124,17 @@ export class DeepSeekProvider implements AIProvider {
       throw new Error('🌐 网络连接失败，请检查网络设置')
     }
 
-    throw new Error(`生成失败: ${errorMsg}`)
+    throw createProviderError(`生成失败: ${errorMsg}`, lastError)
   }
 
-  async *generateTextStream(prompt: string): AsyncGenerator<string, void, unknown> {
+  async *generateTextStream(prompt: string, signal?: AbortSignal, options: GenerateOptions = {}): AsyncGenerator<string, void, unknown> {
     if (!this.initialized || !this.apiKey) {
       throw new Error('DeepSeek API 未初始化，请先在设置中配置 API Key')
     }
 
-    const response = await fetch(`${API_BASE}/chat/completions`, {
+    for await (const data of aiFetchStream(`${API_BASE}/chat/completions`, {
       method: 'POST',
+      signal,
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${this.apiKey}`
@@ -131,42 +142,17 @@ export class DeepSeekProvider implements AIProvider {
       body: JSON.stringify({
         model: this.currentModel,
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.7,
+        ...toOpenAIParams(options),
         stream: true
       })
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}))
-      throw new Error(errorData.error?.message || `HTTP ${response.status}`)
-    }
-
-    const reader = response.body?.getReader()
-    if (!reader) throw new Error('无法获取响应流')
-
-    const decoder = new TextDecoder()
-    let buffer = ''
-
-    while (true) {
-      const { done, value } = await reader.read()
-      if (done) break
-
-      buffer += decoder.decode(value, { stream: true })
-      const lines = buffer.split('\n')
-      buffer = lines.pop() || ''
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6)
-          if (data === '[DONE]') return
-          try {
-            const json = JSON.parse(data)
-            const content = json.choices?.[0]?.delta?.content
-            if (content) yield content
-          } catch {
-            // Skip invalid JSON
-          }
-        }
+    })) {
+      if (data === '[DONE]') return
+      try {
+        const json = JSON.parse(data)
+        const content = json.choices?.[0]?.delta?.content
+        if (content) yield content
+      } catch {
+        // Skip invalid JSON
       }
     }
   }
@@ -259,6 +245,10 @@ export class DeepSeekProvider implements AIProvider {
     return this.currentModel
   }
 
+  getLastUsage(): TokenUsage | null {
+    return this.lastUsage
+  }
+
   isReady(): boolean {
     return this.initialized && !!this.apiKey
   }
@@ -4,9 +4,13 @@
  */
 
 import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai'
-import type { AIProvider, ModelInfo, QuotaInfo, ProviderMeta } from '../types'
+import type { AIProvider, ModelInfo, QuotaInfo, ProviderMeta, TokenUsage, GenerateOptions } from '../types'
 import { PROVIDER_INFO } from '../types'
-import type { Character } from '../../../types'
+import { toGeminiConfig } from '../sampling'
+import { aiFetch, aiFetchStream, createAbortError, createProviderError, isAbortError } from '../fetch-helper'
+
+// REST 接口地址（流式请求）
+const REST_API_BASE = 'https://generativelanguage.googleapis.com/v1beta'
 
 // Gemini 模型配置
 const GEMINI_MODELS: Record<string, ModelInfo> = {
@@ -49,6 +53,12 @@ const GEMINI_MODELS: Record<string, ModelInfo> = {
 }
 
 const DEFAULT_MODEL = 'gemini-3.1-flash-lite-preview'
+const EMBEDDING_MODEL = 'text-embedding-004'
+const EMBEDDING_BATCH_SIZE = 100
+export const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image'
+
+// 图片生成耗时较长，单独放宽超时
+const IMAGE_TIMEOUT = 120000
 
 export class GeminiProvider implements AIProvider {
   readonly type = 'gemini' as const
@@ -57,6 +67,7 @@ export class GeminiProvider implements AIProvider {
   private genAI: GoogleGenerativeAI | null = null
   private model: GenerativeModel | null = null
   private apiKey: string = ''
+  private lastUsage: TokenUsage | null = null
   private currentModel: string = DEFAULT_MODEL
 
   async init(apiKey: string, modelName?: string): Promise<boolean> {
@@ -79,12 +90,15 @@ export class GeminiProvider implements AIProvider {
   async generateText(
     prompt: string,
     retries: number = 2,
-    timeout: number = 60000
+    timeout: number = 60000,
+    signal?: AbortSignal,
+    options: GenerateOptions = {}
   ): Promise<string> {
     if (!this.model) {
       throw new Error('Gemini API 未初始化，请先在设置中配置 API Key')
     }
 
+    this.lastUsage = null
     let lastError: any = null
 
     for (let attempt = 0; attempt <= retries; attempt++) {
@@ -96,8 +110,18 @@ export class GeminiProvider implements AIProvider {
         })
 
         const apiPromise = (async () => {
-          const result = await this.model!.generateContent(prompt)
+          const result = await this.model!.generateContent(
+            {
+              contents: [{ role: 'user', parts: [{ text: prompt }] }],
+              generationConfig: toGeminiConfig(options)
+            },
+            { signal }
+          )
           const response = await result.response
+          const usage = response.usageMetadata
+          this.lastUsage = usage
+            ? { promptTokens: usage.promptTokenCount || 0, completionTokens: usage.candidatesTokenCount || 0 }
+            : null
           return response.text()
         })()
 
@@ -106,6 +130,7 @@ export class GeminiProvider implements AIProvider {
         return text
 
       } catch (error: any) {
+        if (signal?.aborted) throw createAbortError()
         lastError = error
         const errorMsg = error.message || String(error)
         console.error(`[Gemini API] 请求失败 (尝试 ${attempt + 1}/${retries + 1}):`, errorMsg)
@@ -113,11 +138,11 @@ export class GeminiProvider implements AIProvider {
         if (attempt === retries) break
 
         if (errorMsg.includes('429') || errorMsg.includes('quota')) {
-          throw new Error('⚠️ API 配额已用尽，请稍后重试或更换模型')
+          throw createProviderError('⚠️ API 配额已用尽，请稍后重试或更换模型', error)
         }
 
         if (errorMsg.includes('401') || errorMsg.includes('invalid')) {
-          throw new Error('❌ API Key 无效，请检查全局设置')
+          throw createProviderError('❌ API Key 无效，请检查全局设置', error)
         }
 
         const waitTime = Math.min(2000 * (attempt + 1), 5000)
@@ -131,20 +156,36 @@ export class GeminiProvider implements AIProvider {
       throw new Error('🌐 网络连接失败，请检查：\n1. 如果在中国大陆，请在"全局设置"中启用代理\n2. 确认代理配置正确（需要重启应用生效）\n3. 或者切换到国内AI服务（DeepSeek/通义千问/Kimi）')
     }
 
-    throw new Error(`生成失败: ${errorMsg}`)
+    throw createProviderError(`生成失败: ${errorMsg}`, lastError)
   }
 
-  async *generateTextStream(prompt: string): AsyncGenerator<string, void, unknown> {
-    if (!this.model) {
+  /**
+   * 流式生成直接调用 REST 接口（SSE），以便经主进程代理发送
+   */
+  async *generateTextStream(prompt: string, signal?: AbortSignal, options: GenerateOptions = {}): AsyncGenerator<string, void, unknown> {
+    if (!this.model || !this.apiKey) {
       throw new Error('Gemini API 未初始化，请先在设置中配置 API Key')
     }
 
-    const result = await this.model.generateContentStream(prompt)
-
-    for await (const chunk of result.stream) {
-      const text = chunk.text()
-      if (text) {
-        yield text
+    for await (const data of aiFetchStream(`${REST_API_BASE}/models/${this.currentModel}:streamGenerateContent?alt=sse`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.apiKey
+      },
+      body: JSON.stringify({
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig: toGeminiConfig({ ...options, jsonMode: false })
+      })
+    })) {
+      try {
+        const json = JSON.parse(data)
+        const parts: { text?: string }[] = json.candidates?.[0]?.content?.parts || []
+        const text = parts.map(part => part.text || '').join('')
+        if (text) yield text
+      } catch {
+        // Skip invalid JSON
       }
     }
   }
@@ -237,6 +278,39 @@ export class GeminiProvider implements AIProvider {
     return this.currentModel
   }
 
+  getLastUsage(): TokenUsage | null {
+    return this.lastUsage
+  }
+
+  getEmbeddingModel(): string | null {
+    return EMBEDDING_MODEL
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    if (!this.genAI) {
+      throw new Error('Gemini API 未初始化，请先在设置中配置 API Key')
+    }
+
+    const embeddingModel = this.genAI.getGenerativeModel({ model: EMBEDDING_MODEL })
+    const vectors: number[][] = []
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      if (signal?.aborted) throw createAbortError()
+      const result = await embeddingModel.batchEmbedContents(
+        {
+          requests: texts.slice(i, i + EMBEDDING_BATCH_SIZE).map(text => ({
+            content: { role: 'user', parts: [{ text }] }
+          }))
+        },
+        { signal }
+      )
+      vectors.push(...result.embeddings.map(embedding => embedding.values))
+    }
+
+    // 向量化接口不返回用量
+    this.lastUsage = null
+    return vectors
+  }
+
   isReady(): boolean {
     return this.model !== null
   }
@@ -278,86 +352,26 @@ export class GeminiProvider implements AIProvider {
     return { availableModel, results }
   }
 
-  // Gemini 特有方法：生成封面图片
-  async generateCoverImage(
-    bookTitle: string,
-    _authorName: string,
-    style: string,
-    genres: string[],
-    characters?: Character[]
-  ): Promise<string> {
+  // Gemini 特有方法：生成图片（封面），返回 data URL
+  async generateImage(prompt: string, aspectRatio: string, signal?: AbortSignal): Promise<string> {
     if (!this.genAI || !this.apiKey) {
       throw new Error('Gemini API 未初始化，请先在设置中配置 API Key')
     }
 
-    const IMAGE_MODEL = 'gemini-2.5-flash-image'
-
-    // 扩展的风格描述
-    const styleDescriptions: Record<string, string> = {
-      // 东方风格
-      wuxia: 'Chinese wuxia martial arts style, flowing robes, sword aura, misty mountains backdrop, ink wash painting elements',
-      xuanhuan: 'Eastern fantasy cultivation style, glowing spiritual energy, floating immortal palaces, mystical clouds, Chinese mythological elements',
-      xianxia: 'Chinese immortal cultivation style, celestial atmosphere, ethereal lighting, floating islands, Taoist elements',
-      ancient: 'Ancient Chinese palace style, elegant hanfu costumes, golden and red colors, imperial architecture',
-      ink: 'Traditional Chinese ink wash painting style, monochrome with subtle colors, calligraphic brushstrokes, poetic atmosphere',
-      // 西方风格
-      fantasy: 'epic Western fantasy style, magical glowing elements, mystical purple and blue atmosphere, medieval fantasy setting',
-      medieval: 'medieval European style, knights and castles, warm candlelight, heraldry elements, stone architecture',
-      gothic: 'dark gothic style, cathedral architecture, dramatic shadows, deep red and black, mysterious atmosphere',
-      steampunk: 'steampunk Victorian style, brass gears and machinery, warm amber tones, industrial elegance',
-      // 现代风格
-      modern: 'modern urban style, contemporary fashion, city skyline, clean design, warm sunset colors',
-      scifi: 'sci-fi futuristic style, sleek technology, holographic displays, blue and silver metallic',
-      cyberpunk: 'cyberpunk neon style, rain-slicked streets, neon signs, pink and cyan colors, high contrast',
-      mecha: 'mecha anime style, giant robots, dramatic poses, metallic textures, explosive action',
-      // 情感风格
-      romance: 'romantic dreamy style, soft pink and gold colors, flower petals, bokeh lights, emotional atmosphere',
-      youth: 'youth campus style, school uniforms, cherry blossoms, bright colors, nostalgic feeling',
-      warm: 'warm healing style, cozy atmosphere, soft lighting, pastel colors, heartwarming scene',
-      // 其他风格
-      horror: 'dark horror style, deep shadows, blood red accents, fog, unsettling atmosphere',
-      mystery: 'mystery thriller style, dramatic lighting, shadows, noir elements, suspenseful mood',
-      apocalypse: 'post-apocalyptic style, ruined cityscape, dusty atmosphere, survival elements, dramatic sky',
-      anime: 'anime manga style, dynamic composition, bold colors, clean lines, expressive characters',
-      realistic: 'realistic oil painting style, detailed textures, classical composition, rich colors',
-      comic: 'comic book illustration style, bold outlines, vibrant colors, dynamic action poses'
-    }
-
-    const styleDesc = styleDescriptions[style] || styleDescriptions.xuanhuan
-    const genreDesc = genres.slice(0, 2).join(' ') || 'fantasy'
-
-    // 构建角色描述
-    let characterDesc = ''
-    if (characters && characters.length > 0) {
-      const charDescriptions = characters.map(char => {
-        const role = char.role === 'protagonist' ? 'main character' : char.role === 'antagonist' ? 'villain' : 'supporting character'
-        // 从角色设定中提取外貌描述
-        const appearance = char.description?.slice(0, 150) || ''
-        return `${role} "${char.name}": ${appearance}`
-      }).join('; ')
-
-      characterDesc = `, featuring characters: ${charDescriptions}`
+    const generationConfig = {
+      responseModalities: ['IMAGE', 'TEXT'],
+      imageConfig: { aspectRatio }
     }
-
-    // 根据是否有角色调整构图
-    const composition = characters && characters.length > 0
-      ? 'character-focused composition with figures prominently displayed'
-      : 'atmospheric landscape composition'
-
-    const prompt = `Create a stunning book cover illustration: ${styleDesc}, book title theme "${bookTitle}", genre ${genreDesc}${characterDesc}. ${composition}, professional quality, vertical portrait orientation (3:4 ratio), cinematic dramatic lighting, ultra detailed, masterpiece quality. IMPORTANT: Do not include any text, letters, words, or watermarks in the image.`
-
     const errors: string[] = []
 
     try {
-      console.log(`Using image model: ${IMAGE_MODEL}`)
+      console.log(`Using image model: ${GEMINI_IMAGE_MODEL}`)
       const imageModel = this.genAI.getGenerativeModel({
-        model: IMAGE_MODEL,
-        generationConfig: {
-          responseModalities: ['IMAGE', 'TEXT'],
-        } as any,
+        model: GEMINI_IMAGE_MODEL,
+        generationConfig: generationConfig as any,
       })
 
-      const result = await imageModel.generateContent(prompt)
+      const result = await imageModel.generateContent(prompt, { signal })
       const response = result.response
       const parts = response.candidates?.[0]?.content?.parts || []
 
@@ -370,33 +384,32 @@ export class GeminiProvider implements AIProvider {
       }
       errors.push('SDK: 无图像返回')
     } catch (e: any) {
+      if (signal?.aborted) throw createAbortError()
       console.error('SDK method error:', e)
       errors.push(`SDK: ${e.message}`)
     }
 
-    // Fallback: Direct REST API call
+    // Fallback: REST API（经主进程代理）
     try {
       console.log('Fallback: Direct REST API call')
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${IMAGE_MODEL}:generateContent?key=${this.apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{ parts: [{ text: prompt }] }],
-            generationConfig: {
-              responseModalities: ['IMAGE', 'TEXT']
-            }
-          })
-        }
-      )
+      const response = await aiFetch(`${REST_API_BASE}/models/${GEMINI_IMAGE_MODEL}:generateContent`, {
+        method: 'POST',
+        signal,
+        timeout: IMAGE_TIMEOUT,
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': this.apiKey
+        },
+        body: JSON.stringify({
+          contents: [{ parts: [{ text: prompt }] }],
+          generationConfig
+        })
+      })
 
-      const responseText = await response.text()
       console.log('REST API response status:', response.status)
 
       if (response.ok) {
-        const data = JSON.parse(responseText)
-        const parts = data.candidates?.[0]?.content?.parts || []
+        const parts = response.data?.candidates?.[0]?.content?.parts || []
 
         for (const part of parts) {
           if (part.inlineData?.data) {
@@ -406,9 +419,10 @@ export class GeminiProvider implements AIProvider {
         }
         errors.push('REST: 无图像返回')
       } else {
-        errors.push(`REST: ${response.status}`)
+        errors.push(`REST: ${response.data?.error?.message || response.error || response.status}`)
       }
     } catch (e: any) {
+      if (isAbortError(e)) throw e
       console.error('REST API error:', e)
       errors.push(`REST: ${e.message}`)
     }
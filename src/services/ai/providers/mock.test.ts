@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { AIFixtureEntry } from '../../../types'
+import { hashText } from '../../../utils'
+import { MockProvider } from './mock'
+
+let fixtures: AIFixtureEntry[]
+
+const fixture = async (prompt: string, response: string): Promise<AIFixtureEntry> => ({
+  hash: await hashText(prompt),
+  prompt,
+  response,
+  provider: 'openai',
+  model: 'test-model',
+  jsonMode: false,
+  createdAt: '2026-01-01T00:00:00.000Z'
+})
+
+const outlinePrompt = (time: string) =>
+  `当前时间：${time}\n请根据以下设定为第三章写一份详细大纲：主角林风在宗门大比中击败对手，` +
+  '随后发现师父留下的玉佩与上古遗迹有关，决定连夜下山寻找线索。要求包含场景、冲突和结尾悬念，字数控制在五百字以内。'
+
+async function createProvider(mode: string): Promise<MockProvider> {
+  const provider = new MockProvider()
+  await provider.init('', mode)
+  return provider
+}
+
+describe('MockProvider', () => {
+  beforeEach(() => {
+    fixtures = []
+    vi.stubGlobal('window', {
+      electron: { aiFixtures: { load: async () => fixtures } }
+    })
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('回放', () => {
+    it('精确匹配时按录制顺序返回，用完后重复最后一条', async () => {
+      fixtures = [await fixture('提示词', '第一次'), await fixture('其他', '无关'), await fixture('提示词', '第二次')]
+      const provider = await createProvider('replay')
+      const responses = []
+      for (let i = 0; i < 3; i++) responses.push(await provider.generateText('提示词'))
+      expect(responses).toEqual(['第一次', '第二次', '第二次'])
+    })
+
+    it('重置后从头回放', async () => {
+      fixtures = [await fixture('提示词', '第一次'), await fixture('提示词', '第二次')]
+      const provider = await createProvider('replay')
+      await provider.generateText('提示词')
+      provider.resetReplay()
+      expect(await provider.generateText('提示词')).toBe('第一次')
+    })
+
+    it('提示词只有细微差异时按相似度匹配', async () => {
+      fixtures = [
+        await fixture('请为主角起一个名字', '无关'),
+        await fixture(outlinePrompt('2026-01-01 12:00'), '第三章大纲')
+      ]
+      const provider = await createProvider('replay')
+      expect(await provider.generateText(outlinePrompt('2026-03-05 08:30'))).toBe('第三章大纲')
+    })
+
+    it('排版空白不影响相似度', async () => {
+      fixtures = [await fixture(outlinePrompt('2026-01-01 12:00'), '第三章大纲')]
+      const provider = await createProvider('replay')
+      provider.configure({ fuzzyThreshold: 0.99 })
+      const reformatted = outlinePrompt('2026-01-01 12:00').replace(/，/g, '，\n  ')
+      expect(await provider.generateText(reformatted)).toBe('第三章大纲')
+    })
+
+    it('相似度相同时取最早录制的记录', async () => {
+      fixtures = [
+        await fixture(outlinePrompt('2026-01-01 12:00'), '较早的录制'),
+        await fixture(outlinePrompt('2026-01-01 12:00') + ' ', '较晚的录制')
+      ]
+      const provider = await createProvider('replay')
+      expect(await provider.generateText(outlinePrompt('2026-02-02 12:00'))).toBe('较早的录制')
+    })
+
+    it('低于阈值时报错并给出最接近的相似度', async () => {
+      fixtures = [await fixture(outlinePrompt('2026-01-01 12:00'), '第三章大纲')]
+      const provider = await createProvider('replay')
+      await expect(provider.generateText('请根据以下设定为第五章写一份详细大纲：反派登场')).rejects.toThrow(/没有匹配的响应（最接近的记录相似度 0\.\d\d，低于阈值 0\.85）/)
+    })
+
+    it('阈值可调整', async () => {
+      fixtures = [await fixture(outlinePrompt('2026-01-01 12:00'), '第三章大纲')]
+      const provider = await createProvider('replay')
+      provider.configure({ fuzzyThreshold: 1 })
+      await expect(provider.generateText(outlinePrompt('2026-03-05 08:30'))).rejects.toThrow('没有匹配的响应')
+    })
+
+    it('流式回放输出完整响应', async () => {
+      const response = '林风'.repeat(30)
+      fixtures = [await fixture('提示词', response)]
+      const provider = await createProvider('replay')
+      let text = ''
+      for await (const chunk of provider.generateTextStream('提示词')) text += chunk
+      expect(text).toBe(response)
+    })
+  })
+
+  describe('脚本', () => {
+    it('按顺序匹配子串和正则规则，未命中时返回默认响应', async () => {
+      const provider = await createProvider('scripted')
+      provider.configure({
+        script: [
+          { match: '/第\\d+章/', response: '章节' },
+          { match: '角色', response: '角色列表' }
+        ],
+        scriptDefault: '默认'
+      })
+      expect(await provider.generateText('写第12章')).toBe('章节')
+      expect(await provider.generateText('生成角色')).toBe('角色列表')
+      expect(await provider.generateText('其他请求')).toBe('默认')
+    })
+
+    it('没有匹配且未配置默认响应时报错', async () => {
+      const provider = await createProvider('scripted')
+      provider.configure({ script: [{ match: '角色', response: '角色列表' }], scriptDefault: '' })
+      await expect(provider.generateText('其他请求')).rejects.toThrow('没有匹配的脚本规则')
+    })
+  })
+})
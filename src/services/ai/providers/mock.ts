@@ -0,0 +1,362 @@
+/**
+ * Mock AI Provider
+ * 离线模拟提供商，模式即模型：
+ *   record   调用真实提供商，并把提示词和响应追加到录制集
+ *   replay   从录制集回放响应：先按提示词哈希精确匹配，再按相似度模糊匹配，完全离线且结果确定
+ *   scripted 按脚本规则返回预设响应
+ * 用于演示、复现 auto-create 等解析问题，以及不消耗配额地跑通完整自动写作流程
+ * 录制集保存在主进程的 userData/ai-fixtures 目录，配置保存在 mockProvider 设置中
+ */
+
+import type { AIProvider, ModelInfo, QuotaInfo, ProviderMeta, TokenUsage, GenerateOptions, MockProviderConfig } from '../types'
+import { PROVIDER_INFO } from '../types'
+import type { AIFixtureEntry } from '../../../types'
+import { throwIfAborted } from '../fetch-helper'
+import { getRoutedProvider } from '../routing'
+import { hashText } from '../../../utils'
+
+// 设置存储键
+export const MOCK_SETTINGS_KEY = 'mockProvider'
+
+// 离线模拟不需要密钥，保存配置时使用固定占位符，使各页面的"已配置"判断照常生效
+export const MOCK_API_KEY = 'offline-mock'
+
+export const DEFAULT_MOCK_CONFIG: MockProviderConfig = {
+  fixtureSet: 'default',
+  recordTarget: null,
+  fuzzyThreshold: 0.85,
+  script: [],
+  scriptDefault: ''
+}
+
+export const MOCK_MODELS: Record<string, ModelInfo> = {
+  'replay': {
+    name: '回放',
+    description: '从录制集回放响应，完全离线，同一提示词多次录制时按录制顺序依次返回',
+    contextWindow: 1000000,
+    recommended: true
+  },
+  'record': {
+    name: '录制',
+    description: '调用录制目标的真实提供商，并把提示词和响应写入录制集',
+    contextWindow: 1000000
+  },
+  'scripted': {
+    name: '脚本',
+    description: '按脚本规则返回预设响应，适合构造边界情况',
+    contextWindow: 1000000
+  }
+}
+
+const DEFAULT_MODEL = 'replay'
+
+// 流式回放时每次输出的字数和间隔，模拟真实的逐字输出
+const STREAM_CHUNK_SIZE = 24
+const STREAM_CHUNK_DELAY = 15
+
+/**
+ * 提取字符三元组（去掉空白，避免排版差异影响相似度）
+ */
+function toTrigrams(text: string): Set<string> {
+  const compact = text.replace(/\s+/g, '')
+  const trigrams = new Set<string>()
+  for (let i = 0; i + 3 <= compact.length; i++) {
+    trigrams.add(compact.slice(i, i + 3))
+  }
+  return trigrams
+}
+
+/**
+ * 三元组 Dice 系数（0-1）
+ */
+function diceSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1
+  if (a.size === 0 || b.size === 0) return 0
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a]
+  let shared = 0
+  for (const gram of smaller) {
+    if (larger.has(gram)) shared++
+  }
+  return (2 * shared) / (a.size + b.size)
+}
+
+/**
+ * 脚本规则是否匹配提示词（/正则/flags 按正则匹配，否则按子串匹配）
+ */
+function matchesRule(match: string, prompt: string): boolean {
+  const regex = match.match(/^\/(.+)\/([gimsuy]*)$/s)
+  if (regex) {
+    try {
+      return new RegExp(regex[1], regex[2]).test(prompt)
+    } catch {
+      console.warn(`[Mock] 无效的正则规则: ${match}`)
+      return false
+    }
+  }
+  return prompt.includes(match)
+}
+
+export class MockProvider implements AIProvider {
+  readonly type = 'mock' as const
+  readonly meta: ProviderMeta = PROVIDER_INFO.mock
+
+  private currentModel: string = DEFAULT_MODEL
+  private initialized: boolean = false
+  private lastUsage: TokenUsage | null = null
+  private config: MockProviderConfig = { ...DEFAULT_MOCK_CONFIG }
+
+  // 回放状态：录制集内容、每个哈希已返回的次数、模糊匹配用的三元组缓存
+  private fixtures: AIFixtureEntry[] | null = null
+  private servedCounts = new Map<string, number>()
+  private trigramCache = new Map<AIFixtureEntry, Set<string>>()
+
+  async init(_apiKey: string, modelName?: string): Promise<boolean> {
+    try {
+      await this.loadConfig()
+      this.currentModel = modelName && MOCK_MODELS[modelName] ? modelName : DEFAULT_MODEL
+      this.resetReplay()
+      this.initialized = true
+      console.log(`✅ Mock provider initialized: ${this.currentModel} (${this.config.fixtureSet})`)
+      return true
+    } catch (error) {
+      console.error('❌ Failed to initialize mock provider:', error)
+      return false
+    }
+  }
+
+  /**
+   * 更新配置（由全局设置页调用，不会持久化）
+   * 录制集变化后重新加载，回放从头开始
+   */
+  configure(config: Partial<MockProviderConfig>): void {
+    this.config = { ...this.config, ...config }
+    this.resetReplay()
+  }
+
+  /**
+   * 获取当前配置
+   */
+  getConfig(): MockProviderConfig {
+    return this.config
+  }
+
+  /**
+   * 回放从头开始（重新读取录制集，重复提示词的计数清零）
+   */
+  resetReplay(): void {
+    this.fixtures = null
+    this.servedCounts.clear()
+    this.trigramCache.clear()
+  }
+
+  async generateText(
+    prompt: string,
+    retries: number = 2,
+    timeout: number = 60000,
+    signal?: AbortSignal,
+    options: GenerateOptions = {}
+  ): Promise<string> {
+    if (!this.initialized) {
+      throw new Error('离线模拟未初始化，请先在全局设置中配置')
+    }
+    throwIfAborted(signal)
+    this.lastUsage = null
+
+    switch (this.currentModel) {
+      case 'record': {
+        const target = await this.getRecordTarget()
+        const text = await target.generateText(prompt, retries, timeout, signal, options)
+        this.lastUsage = target.getLastUsage()
+        await this.appendFixture(prompt, text, target, options.jsonMode ?? false)
+        return text
+      }
+      case 'scripted':
+        return this.matchScript(prompt)
+      default:
+        return this.replay(prompt)
+    }
+  }
+
+  async *generateTextStream(prompt: string, signal?: AbortSignal, options: GenerateOptions = {}): AsyncGenerator<string, void, unknown> {
+    if (!this.initialized) {
+      throw new Error('离线模拟未初始化，请先在全局设置中配置')
+    }
+
+    if (this.currentModel === 'record') {
+      // 透传真实提供商的流，结束后把完整响应写入录制集（中途取消的不录制）
+      const target = await this.getRecordTarget()
+      let text = ''
+      for await (const chunk of target.generateTextStream(prompt, signal, options)) {
+        text += chunk
+        yield chunk
+      }
+      await this.appendFixture(prompt, text, target, false)
+      return
+    }
+
+    const text = this.currentModel === 'scripted' ? this.matchScript(prompt) : await this.replay(prompt)
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+      throwIfAborted(signal)
+      yield text.slice(i, i + STREAM_CHUNK_SIZE)
+      await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY))
+    }
+  }
+
+  async switchModel(modelName: string): Promise<boolean> {
+    if (!MOCK_MODELS[modelName]) {
+      throw new Error(`不支持的模式: ${modelName}`)
+    }
+    this.currentModel = modelName
+    this.resetReplay()
+    console.log(`Switched to mock mode: ${this.currentModel}`)
+    return true
+  }
+
+  async checkQuota(): Promise<QuotaInfo> {
+    if (!this.initialized) {
+      return { isValid: false, model: this.currentModel, error: '离线模拟未初始化' }
+    }
+
+    try {
+      switch (this.currentModel) {
+        case 'record':
+          await this.getRecordTarget()
+          break
+        case 'scripted':
+          if (this.config.script.length === 0 && !this.config.scriptDefault) {
+            return { isValid: false, model: this.currentModel, error: '尚未配置脚本规则或默认响应' }
+          }
+          break
+        default:
+          if ((await this.loadFixtures()).length === 0) {
+            return { isValid: false, model: this.currentModel, error: `录制集「${this.config.fixtureSet}」为空，请先用录制模式录制` }
+          }
+      }
+      return { isValid: true, model: this.currentModel }
+    } catch (error: any) {
+      return { isValid: false, model: this.currentModel, error: error.message || String(error) }
+    }
+  }
+
+  getAvailableModels(): Record<string, ModelInfo> {
+    return MOCK_MODELS
+  }
+
+  getCurrentModel(): string {
+    return this.currentModel
+  }
+
+  getLastUsage(): TokenUsage | null {
+    return this.lastUsage
+  }
+
+  isReady(): boolean {
+    return this.initialized
+  }
+
+  private async loadConfig(): Promise<void> {
+    if (typeof window === 'undefined' || !window.electron?.settings) return
+    const saved = await window.electron.settings.get(MOCK_SETTINGS_KEY) as Partial<MockProviderConfig> | null
+    if (saved) {
+      this.config = { ...DEFAULT_MOCK_CONFIG, ...saved }
+    }
+  }
+
+  private async loadFixtures(): Promise<AIFixtureEntry[]> {
+    if (!this.fixtures) {
+      this.fixtures = await window.electron.aiFixtures.load(this.config.fixtureSet)
+      console.log(`[Mock] 已加载录制集「${this.config.fixtureSet}」: ${this.fixtures.length} 条`)
+    }
+    return this.fixtures
+  }
+
+  private getTrigrams(entry: AIFixtureEntry): Set<string> {
+    let trigrams = this.trigramCache.get(entry)
+    if (!trigrams) {
+      trigrams = toTrigrams(entry.prompt)
+      this.trigramCache.set(entry, trigrams)
+    }
+    return trigrams
+  }
+
+  /**
+   * 从录制集查找响应：精确匹配优先，否则取相似度最高且达到阈值的记录
+   */
+  private async replay(prompt: string): Promise<string> {
+    const fixtures = await this.loadFixtures()
+    const hash = await hashText(prompt)
+
+    const exact = fixtures.filter(entry => entry.hash === hash)
+    if (exact.length > 0) {
+      // 同一提示词录制了多次（如 JSON 修复重试、重新生成）时按录制顺序返回，用完后重复最后一条
+      const served = this.servedCounts.get(hash) ?? 0
+      this.servedCounts.set(hash, served + 1)
+      return exact[Math.min(served, exact.length - 1)].response
+    }
+
+    // 提示词中含有时间、随机数等细微差异时按相似度匹配，相同分数取最早录制的记录，保证结果确定
+    const promptTrigrams = toTrigrams(prompt)
+    let best: AIFixtureEntry | null = null
+    let bestScore = 0
+    for (const entry of fixtures) {
+      const score = diceSimilarity(promptTrigrams, this.getTrigrams(entry))
+      if (score > bestScore) {
+        best = entry
+        bestScore = score
+      }
+    }
+
+    if (best && bestScore >= this.config.fuzzyThreshold) {
+      console.log(`[Mock] 模糊匹配（相似度 ${bestScore.toFixed(3)}）`)
+      return best.response
+    }
+
+    throw new Error(
+      `录制集「${this.config.fixtureSet}」中没有匹配的响应` +
+      (best ? `（最接近的记录相似度 ${bestScore.toFixed(2)}，低于阈值 ${this.config.fuzzyThreshold}）` : '') +
+      '，请先用录制模式录制该流程'
+    )
+  }
+
+  private matchScript(prompt: string): string {
+    const rule = this.config.script.find(r => r.match && matchesRule(r.match, prompt))
+    if (rule) return rule.response
+    if (this.config.scriptDefault) return this.config.scriptDefault
+    throw new Error('没有匹配的脚本规则，且未配置默认响应')
+  }
+
+  private async getRecordTarget(): Promise<AIProvider> {
+    const target = this.config.recordTarget
+    if (!target || target.provider === 'mock') {
+      throw new Error('录制模式未配置录制目标，请在全局设置中选择要录制的提供商和模型')
+    }
+    const provider = await getRoutedProvider(target)
+    if (!provider) {
+      throw new Error(`录制目标 ${PROVIDER_INFO[target.provider].name} / ${target.model} 不可用，请检查密钥和模型`)
+    }
+    return provider
+  }
+
+  private async appendFixture(prompt: string, response: string, target: AIProvider, jsonMode: boolean): Promise<void> {
+    const entry: AIFixtureEntry = {
+      hash: await hashText(prompt),
+      prompt,
+      response,
+      provider: target.type,
+      model: target.getCurrentModel(),
+      jsonMode,
+      createdAt: new Date().toISOString()
+    }
+    try {
+      await window.electron.aiFixtures.append(this.config.fixtureSet, entry)
+      // 已加载的录制集同步追加，切换到回放时无需重新读取
+      this.fixtures?.push(entry)
+    } catch (error) {
+      // 录制失败不影响本次生成
+      console.error('[Mock] 写入录制集失败:', error)
+    }
+  }
+}
+
+// 导出单例
+export const mockProvider = new MockProvider()
@@ -0,0 +1,114 @@
+/**
+ * Response Cache
+ * 分析类调用按 作品 + 提供商/模型 + 提示词 + 生成参数 的哈希缓存响应，写入本地数据库 ai_response_cache 表
+ * 调用方通过 GenerateOptions.cache 显式开启；只缓存由目标模型生成的结果（备用链接手的不缓存）
+ * 重新扫描未修改的章节时直接返回缓存，不再请求接口
+ */
+
+import type { GenerateOptions, ProviderModelRef } from './types'
+import { getUsageProject } from './usage'
+import type { UsageTaskType } from '../../types'
+import { hashText } from '../../utils'
+
+// 设置存储键
+export const RESPONSE_CACHE_SETTINGS_KEY = 'aiResponseCache'
+
+export interface ResponseCacheConfig {
+  enabled: boolean
+  maxSizeMB: number   // 缓存总大小上限，超出时淘汰最久未用的条目
+}
+
+export const DEFAULT_RESPONSE_CACHE_CONFIG: ResponseCacheConfig = {
+  enabled: true,
+  maxSizeMB: 50
+}
+
+let cacheConfig: ResponseCacheConfig = DEFAULT_RESPONSE_CACHE_CONFIG
+
+export interface CacheRequest {
+  prompt: string
+  target: ProviderModelRef
+  taskType: UsageTaskType
+  options: GenerateOptions
+  variant?: string   // 影响结果的其他条件（如 JSON schema）
+}
+
+/**
+ * 从设置加载缓存配置（应用启动时调用）
+ */
+export async function loadResponseCacheConfig(): Promise<void> {
+  const saved = await window.electron.settings.get(RESPONSE_CACHE_SETTINGS_KEY) as Partial<ResponseCacheConfig> | null
+  cacheConfig = { ...DEFAULT_RESPONSE_CACHE_CONFIG, ...(saved || {}) }
+}
+
+/**
+ * 保存并应用缓存配置
+ */
+export async function setResponseCacheConfig(config: ResponseCacheConfig): Promise<void> {
+  await window.electron.settings.set(RESPONSE_CACHE_SETTINGS_KEY, config)
+  cacheConfig = config
+}
+
+export function getResponseCacheConfig(): ResponseCacheConfig {
+  return cacheConfig
+}
+
+function isCacheAvailable(): boolean {
+  return cacheConfig.enabled && typeof window !== 'undefined' && !!window.electron?.db?.getCachedResponse
+}
+
+/**
+ * 缓存键：只取影响输出的参数，顺序固定
+ */
+async function computeCacheKey(request: CacheRequest): Promise<string> {
+  const { options } = request
+  const material = JSON.stringify([
+    getUsageProject(),
+    request.target.provider,
+    request.target.model,
+    options.temperature ?? null,
+    options.topP ?? null,
+    options.maxTokens ?? null,
+    options.stop ?? null,
+    !!options.jsonMode,
+    request.variant ?? null,
+    request.prompt
+  ])
+  return hashText(material)
+}
+
+/**
+ * 读取缓存的响应，未命中、未开启或读取失败时返回 null
+ */
+export async function getCachedResponse(request: CacheRequest): Promise<string | null> {
+  if (!isCacheAvailable()) return null
+  try {
+    const response = await window.electron.db.getCachedResponse(await computeCacheKey(request))
+    if (response !== null) {
+      console.log(`[Cache] 命中 ${request.target.provider}/${request.target.model}`)
+    }
+    return response
+  } catch (error) {
+    console.warn('[Cache] 读取缓存失败:', error)
+    return null
+  }
+}
+
+/**
+ * 写入缓存（失败只记录日志，不影响调用结果）
+ */
+export async function putCachedResponse(request: CacheRequest, response: string): Promise<void> {
+  if (!isCacheAvailable() || !response) return
+  try {
+    await window.electron.db.putCachedResponse({
+      cacheKey: await computeCacheKey(request),
+      projectId: getUsageProject(),
+      taskType: request.taskType,
+      provider: request.target.provider,
+      model: request.target.model,
+      response
+    }, Math.round(cacheConfig.maxSizeMB * 1024 * 1024))
+  } catch (error) {
+    console.warn('[Cache] 写入缓存失败:', error)
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Model Routing
+ * 按任务类型把请求路由到不同的提供商/模型，例如大纲用推理强的模型、正文用快速模型、分析用最便宜的模型
+ * 全局规则保存在 aiModelRoutes 设置中，作品可单独覆盖
+ */
+
+import type { AIProvider, ProviderType, ProviderModelRef, ModelRoutes, ProviderConfig, LegacyProviderConfig } from './types'
+import { requiresApiKey } from './types'
+import { pickKey } from './key-health'
+import type { UsageTaskType, TaskModelRoutes } from '../../types'
+import { GeminiProvider } from './providers/gemini'
+import { OpenAIProvider } from './providers/openai'
+import { ClaudeProvider } from './providers/claude'
+import { DeepSeekProvider } from './providers/deepseek'
+import { QwenProvider } from './providers/qwen'
+import { KimiProvider } from './providers/kimi'
+import { CustomProvider } from './providers/custom'
+import { MockProvider } from './providers/mock'
+
+// 设置存储键
+export const MODEL_ROUTES_SETTINGS_KEY = 'aiModelRoutes'
+
+// 可路由的任务类型（封面使用图片模型，不参与路由）
+export const ROUTABLE_TASK_TYPES: UsageTaskType[] = ['outline', 'chapter', 'analysis', 'other']
+
+// 路由使用独立的提供商实例，不影响当前提供商的模型和密钥
+const PROVIDER_FACTORIES: Record<ProviderType, () => AIProvider> = {
+  gemini: () => new GeminiProvider(),
+  openai: () => new OpenAIProvider(),
+  claude: () => new ClaudeProvider(),
+  deepseek: () => new DeepSeekProvider(),
+  qwen: () => new QwenProvider(),
+  kimi: () => new KimiProvider(),
+  custom: () => new CustomProvider(),
+  mock: () => new MockProvider()
+}
+
+// 当前生效的路由（全局规则叠加作品覆盖，由布局组件根据路由加载）
+let activeRoutes: ModelRoutes = {}
+let routesProjectId: string | null = null
+let loadSequence = 0
+
+// 已初始化的独立实例（按 提供商/模型/密钥 缓存，密钥变化时自动重建）
+const routedProviders = new Map<string, AIProvider>()
+
+// 路由实例使用的密钥（用于记录密钥健康状态）及其序号（用于调用记录）
+const routedKeys = new WeakMap<AIProvider, string>()
+const routedKeyIndexes = new WeakMap<AIProvider, number | null>()
+
+/**
+ * 过滤无效的路由条目
+ */
+function sanitizeRoutes(routes: TaskModelRoutes | null | undefined): ModelRoutes {
+  const result: ModelRoutes = {}
+  for (const taskType of ROUTABLE_TASK_TYPES) {
+    const route = routes?.[taskType]
+    if (route && route.provider in PROVIDER_FACTORIES && route.model) {
+      result[taskType] = { provider: route.provider as ProviderType, model: route.model }
+    }
+  }
+  return result
+}
+
+/**
+ * 读取全局路由规则
+ */
+export async function getGlobalModelRoutes(): Promise<ModelRoutes> {
+  if (typeof window === 'undefined' || !window.electron?.settings) return {}
+  return sanitizeRoutes(await window.electron.settings.get(MODEL_ROUTES_SETTINGS_KEY) as TaskModelRoutes | null)
+}
+
+/**
+ * 保存全局路由规则并立即生效
+ */
+export async function setGlobalModelRoutes(routes: TaskModelRoutes): Promise<void> {
+  await window.electron.settings.set(MODEL_ROUTES_SETTINGS_KEY, sanitizeRoutes(routes))
+  await loadModelRoutes(routesProjectId)
+}
+
+/**
+ * 加载当前生效的路由：作品覆盖 > 全局规则
+ * @param projectId - 当前作品，未进入作品时为 null
+ */
+export async function loadModelRoutes(projectId: string | null): Promise<void> {
+  if (typeof window === 'undefined' || !window.electron?.db) return
+  routesProjectId = projectId
+  const sequence = ++loadSequence
+
+  try {
+    const [globalRoutes, project] = await Promise.all([
+      getGlobalModelRoutes(),
+      projectId ? window.electron.db.getProject(projectId) : Promise.resolve(null)
+    ])
+    // 加载期间路由已切换，丢弃过期结果
+    if (sequence !== loadSequence) return
+    activeRoutes = { ...globalRoutes, ...sanitizeRoutes(project?.modelRoutes) }
+  } catch (error) {
+    console.warn('[Routing] 加载模型路由失败，全部使用当前提供商:', error)
+    if (sequence === loadSequence) activeRoutes = {}
+  }
+}
+
+/**
+ * 获取任务类型的路由目标，未配置时返回 null
+ */
+export function getModelRoute(taskType: UsageTaskType): ProviderModelRef | null {
+  return activeRoutes[taskType] ?? null
+}
+
+/**
+ * 获取路由目标的提供商实例
+ * @returns 未配置密钥、模型不可用或初始化失败时返回 null
+ */
+export async function getRoutedProvider(route: ProviderModelRef): Promise<AIProvider | null> {
+  const configs = await window.electron.settings.get('aiProviderConfigs') as Record<string, ProviderConfig | LegacyProviderConfig> | null
+  const config = configs?.[route.provider]
+  const picked = config ? await pickKey(route.provider, config) : null
+  if (!picked && requiresApiKey(route.provider)) {
+    console.log(`[Routing] ${route.provider}/${route.model} 未配置密钥，使用当前提供商`)
+    return null
+  }
+
+  const provider = await getKeyedProvider(route.provider, route.model, picked?.apiKey ?? null)
+  if (provider) routedKeyIndexes.set(provider, picked?.keyIndex ?? null)
+  return provider
+}
+
+/**
+ * 获取使用指定密钥的提供商实例
+ * 调度器按密钥限流，请求必须由该密钥的实例发出（当前提供商的密钥可能在排队期间被切换）
+ * @returns 模型不可用或初始化失败时返回 null
+ */
+export async function getKeyedProvider(providerType: ProviderType, model: string, apiKey: string | null): Promise<AIProvider | null> {
+  const cacheKey = `${providerType}/${model}/${apiKey || ''}`
+  const cached = routedProviders.get(cacheKey)
+  if (cached) return cached
+
+  const provider = PROVIDER_FACTORIES[providerType]()
+  if (!(await provider.init(apiKey || '', model))) return null
+  // 提供商不认识的模型名会退回默认模型，此时不使用该实例
+  if (provider.getCurrentModel() !== model) {
+    console.warn(`[Routing] ${providerType} 不支持模型 ${model}`)
+    return null
+  }
+
+  routedProviders.set(cacheKey, provider)
+  if (apiKey) routedKeys.set(provider, apiKey)
+  return provider
+}
+
+/**
+ * 获取路由实例使用的密钥
+ */
+export function getRoutedApiKey(provider: AIProvider): string | null {
+  return routedKeys.get(provider) ?? null
+}
+
+/**
+ * 获取路由实例使用的密钥序号，无法确定时返回 null
+ */
+export function getRoutedKeyIndex(provider: AIProvider): number | null {
+  return routedKeyIndexes.get(provider) ?? null
+}
@@ -0,0 +1,125 @@
+/**
+ * Generation Parameters
+ * 按任务类型选择采样参数：正文写作用较高温度保持文笔变化，大纲和分析输出 JSON，用低温度保证结构稳定
+ * 作品可按任务覆盖预设（保存在作品的 generationParams 中），调用时显式传入的参数优先级最高
+ * 这里同时负责把统一的参数转换为各提供商的请求字段
+ */
+
+import type { GenerateOptions } from './types'
+import type { GenerationParams, TaskGenerationParams, UsageTaskType } from '../../types'
+
+// 各任务类型的默认预设
+export const GENERATION_PRESETS: Record<UsageTaskType, GenerationParams> = {
+  outline: { temperature: 0.4 },
+  chapter: { temperature: 0.9 },
+  analysis: { temperature: 0.2 },
+  cover: {},
+  other: { temperature: 0.7 }
+}
+
+// 未指定温度时的默认值（与之前各提供商写死的值一致）
+const DEFAULT_TEMPERATURE = 0.7
+
+// Claude 必须指定 max_tokens
+const CLAUDE_DEFAULT_MAX_TOKENS = 8192
+
+// 停止序列最多条数（OpenAI 兼容接口的上限）
+const MAX_STOP_SEQUENCES = 4
+
+// 当前作品的参数覆盖（由布局组件根据路由加载）
+let projectParams: TaskGenerationParams = {}
+let loadSequence = 0
+
+/**
+ * 过滤超出范围的参数，只保留有效项
+ */
+export function sanitizeGenerationParams(params: GenerationParams | null | undefined): GenerationParams {
+  const result: GenerationParams = {}
+  if (!params) return result
+  if (typeof params.temperature === 'number' && params.temperature >= 0 && params.temperature <= 2) {
+    result.temperature = params.temperature
+  }
+  if (typeof params.topP === 'number' && params.topP > 0 && params.topP <= 1) {
+    result.topP = params.topP
+  }
+  if (typeof params.maxTokens === 'number' && params.maxTokens >= 1) {
+    result.maxTokens = Math.floor(params.maxTokens)
+  }
+  const stop = (params.stop || []).filter(s => typeof s === 'string' && s.length > 0).slice(0, MAX_STOP_SEQUENCES)
+  if (stop.length > 0) result.stop = stop
+  return result
+}
+
+/**
+ * 加载作品的参数覆盖
+ * @param projectId - 当前作品，未进入作品时为 null
+ */
+export async function loadGenerationParams(projectId: string | null): Promise<void> {
+  if (typeof window === 'undefined' || !window.electron?.db) return
+  const sequence = ++loadSequence
+
+  try {
+    const project = projectId ? await window.electron.db.getProject(projectId) : null
+    // 加载期间已切换作品，丢弃过期结果
+    if (sequence !== loadSequence) return
+    projectParams = project?.generationParams || {}
+  } catch (error) {
+    console.warn('[Sampling] 加载生成参数失败，使用默认预设:', error)
+    if (sequence === loadSequence) projectParams = {}
+  }
+}
+
+/**
+ * 任务类型的生效参数：预设 < 作品覆盖
+ */
+export function getTaskGenerationParams(taskType: UsageTaskType): GenerationParams {
+  return { ...GENERATION_PRESETS[taskType], ...sanitizeGenerationParams(projectParams[taskType]) }
+}
+
+/**
+ * 合并任务参数和本次调用的选项（显式传入的优先）
+ */
+export function resolveGenerateOptions(taskType: UsageTaskType, options: GenerateOptions): GenerateOptions {
+  const explicit = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined))
+  return { ...getTaskGenerationParams(taskType), ...explicit }
+}
+
+// ==================== 提供商请求字段 ====================
+
+/**
+ * OpenAI 兼容接口（OpenAI、DeepSeek、通义千问、Kimi、自定义端点）
+ */
+export function toOpenAIParams(options: GenerateOptions = {}): Record<string, unknown> {
+  return {
+    temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+    ...(options.maxTokens !== undefined ? { max_tokens: options.maxTokens } : {}),
+    ...(options.topP !== undefined ? { top_p: options.topP } : {}),
+    ...(options.stop?.length ? { stop: options.stop } : {})
+  }
+}
+
+/**
+ * Claude Messages 接口（温度上限为 1）
+ */
+export function toClaudeParams(options: GenerateOptions = {}): Record<string, unknown> {
+  return {
+    max_tokens: options.maxTokens ?? CLAUDE_DEFAULT_MAX_TOKENS,
+    ...(options.temperature !== undefined ? { temperature: Math.min(options.temperature, 1) } : {}),
+    ...(options.topP !== undefined ? { top_p: options.topP } : {}),
+    ...(options.stop?.length ? { stop_sequences: options.stop } : {})
+  }
+}
+
+/**
+ * Gemini generationConfig
+ */
+export function toGeminiConfig(options: GenerateOptions = {}): Record<string, unknown> | undefined {
+  const config = {
+    ...(options.jsonMode ? { responseMimeType: 'application/json' } : {}),
+    ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+    ...(options.maxTokens !== undefined ? { maxOutputTokens: options.maxTokens } : {}),
+    ...(options.topP !== undefined ? { topP: options.topP } : {}),
+    ...(options.stop?.length ? { stopSequences: options.stop } : {})
+  }
+  return Object.keys(config).length > 0 ? config : undefined
+}
@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ScheduleOptions } from './scheduler'
+
+type SchedulerModule = typeof import('./scheduler')
+
+let scheduler: SchedulerModule
+
+const normal: ScheduleOptions = { priority: 'normal', tokens: 0 }
+
+// 可由测试控制结束时机的任务
+function deferred() {
+  let resolve!: () => void
+  const promise = new Promise<void>(r => { resolve = r })
+  return { promise, resolve }
+}
+
+const httpError = (message: string, status: number) => Object.assign(new Error(message), { status })
+
+describe('scheduleAICall', () => {
+  beforeEach(async () => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    // 队列和限额状态保存在模块中，每个用例重新加载
+    vi.resetModules()
+    scheduler = await import('./scheduler')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('同一密钥超出并发数时排队，不同密钥互不影响', async () => {
+    // custom 默认并发 1
+    const started: string[] = []
+    const first = deferred()
+    const run = (name: string, apiKey: string, wait?: Promise<void>) =>
+      scheduler.scheduleAICall({ provider: 'custom', apiKey }, async () => {
+        started.push(name)
+        await wait
+      }, normal)
+
+    const calls = [run('a1', 'key-a', first.promise), run('a2', 'key-a'), run('b1', 'key-b')]
+    await vi.advanceTimersByTimeAsync(0)
+    expect(started).toEqual(['a1', 'b1'])
+    expect(scheduler.getSchedulerStatus()).toEqual({ queued: 1, active: 1 })
+
+    first.resolve()
+    await Promise.all(calls)
+    expect(started).toEqual(['a1', 'b1', 'a2'])
+  })
+
+  it('优先级高的请求先出队', async () => {
+    const started: string[] = []
+    const blocker = deferred()
+    const run = (name: string, options: ScheduleOptions, wait?: Promise<void>) =>
+      scheduler.scheduleAICall({ provider: 'custom', apiKey: 'key' }, async () => {
+        started.push(name)
+        await wait
+      }, options)
+
+    const calls = [
+      run('blocker', normal, blocker.promise),
+      run('low', { priority: 'low', tokens: 0 }),
+      run('normal', normal),
+      run('high', { priority: 'high', tokens: 0 })
+    ]
+    await vi.advanceTimersByTimeAsync(0)
+    blocker.resolve()
+    await Promise.all(calls)
+    expect(started).toEqual(['blocker', 'high', 'normal', 'low'])
+  })
+
+  it('达到每分钟请求数后等到统计窗口滑过再开始', async () => {
+    scheduler.applyReportedRateLimits('deepseek', { requestsPerMinute: 2 })
+    const startedAt: number[] = []
+    const calls = [0, 1, 2].map(() =>
+      scheduler.scheduleAICall({ provider: 'deepseek', apiKey: 'key' }, async () => { startedAt.push(Date.now()) }, normal)
+    )
+    await vi.advanceTimersByTimeAsync(0)
+    expect(startedAt).toHaveLength(2)
+
+    await vi.advanceTimersByTimeAsync(60 * 1000)
+    await Promise.all(calls)
+    expect(startedAt[2] - startedAt[0]).toBeGreaterThanOrEqual(60 * 1000)
+  })
+
+  it('超过每分钟 token 数时等待', async () => {
+    scheduler.applyReportedRateLimits('deepseek', { tokensPerMinute: 1000 })
+    const started: number[] = []
+    const run = (tokens: number) =>
+      scheduler.scheduleAICall({ provider: 'deepseek', apiKey: 'key' }, async () => { started.push(tokens) }, { priority: 'normal', tokens })
+
+    const calls = [run(600), run(600)]
+    await vi.advanceTimersByTimeAsync(0)
+    expect(started).toEqual([600])
+
+    await vi.advanceTimersByTimeAsync(60 * 1000)
+    await Promise.all(calls)
+    expect(started).toEqual([600, 600])
+  })
+
+  it('限流等待较短时暂停该密钥后自动重试', async () => {
+    let attempts = 0
+    const call = scheduler.scheduleAICall({ provider: 'custom', apiKey: 'key' }, async () => {
+      attempts++
+      if (attempts === 1) throw httpError('Rate limit reached, retry after 5s', 429)
+      return 'ok'
+    }, normal)
+
+    await vi.advanceTimersByTimeAsync(4000)
+    expect(attempts).toBe(1)
+    await vi.advanceTimersByTimeAsync(1000)
+    await expect(call).resolves.toBe('ok')
+    expect(attempts).toBe(2)
+  })
+
+  it('限流等待过长时直接抛出原错误', async () => {
+    const error = httpError('Rate limit reached, retry after 120s', 429)
+    const task = vi.fn(async () => { throw error })
+    await expect(scheduler.scheduleAICall({ provider: 'custom', apiKey: 'key' }, task, normal)).rejects.toBe(error)
+    expect(task).toHaveBeenCalledTimes(1)
+  })
+
+  it('与密钥无关的错误不重试', async () => {
+    const error = httpError('Internal Server Error', 500)
+    const task = vi.fn(async () => { throw error })
+    await expect(scheduler.scheduleAICall({ provider: 'custom', apiKey: 'key' }, task, normal)).rejects.toBe(error)
+    expect(task).toHaveBeenCalledTimes(1)
+    expect(scheduler.getSchedulerStatus()).toEqual({ queued: 0, active: 0 })
+  })
+
+  it('取消排队中的请求时移出队列', async () => {
+    const blocker = deferred()
+    const running = scheduler.scheduleAICall({ provider: 'custom', apiKey: 'key' }, () => blocker.promise, normal)
+    const controller = new AbortController()
+    const task = vi.fn(async () => {})
+    const queued = scheduler.scheduleAICall({ provider: 'custom', apiKey: 'key' }, task, { ...normal, signal: controller.signal })
+    await vi.advanceTimersByTimeAsync(0)
+
+    controller.abort()
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' })
+    expect(scheduler.getSchedulerStatus()).toEqual({ queued: 0, active: 1 })
+
+    blocker.resolve()
+    await running
+    expect(task).not.toHaveBeenCalled()
+  })
+})
+
+describe('acquireSlot', () => {
+  beforeEach(async () => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.resetModules()
+    scheduler = await import('./scheduler')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('释放时传入限流错误会暂停该密钥', async () => {
+    const release = await scheduler.acquireSlot({ provider: 'custom', apiKey: 'key' }, normal)
+    release(httpError('Too Many Requests', 429))
+    // 重复释放不影响计数
+    release()
+
+    const next = scheduler.acquireSlot({ provider: 'custom', apiKey: 'key' }, normal)
+    await vi.advanceTimersByTimeAsync(59 * 1000)
+    expect(scheduler.getSchedulerStatus()).toEqual({ queued: 1, active: 0 })
+    await vi.advanceTimersByTimeAsync(1000)
+    const releaseNext = await next
+    releaseNext()
+    expect(scheduler.getSchedulerStatus()).toEqual({ queued: 0, active: 0 })
+  })
+})
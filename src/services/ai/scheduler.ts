@@ -0,0 +1,328 @@
+/**
+ * Request Scheduler
+ * 所有 AI 调用经过调度器排队，按 提供商 + 密钥 限制并发数、每分钟请求数（RPM）和每分钟 token 数（TPM）
+ * 优先级高的请求先出队（正文写作 > 一般生成 > 批量分析），同一密钥内按优先级和入队顺序依次执行
+ * 遇到限流时按 Retry-After（或错误信息中的重试时间）暂停该密钥的队列，等待较短时自动重试
+ * 限额保存在 aiRateLimits 设置中，未设置的提供商使用接口报告的限额或默认值
+ */
+
+import type { ProviderType, QuotaInfo, RateLimitConfig, RequestPriority } from './types'
+import type { UsageTaskType } from '../../types'
+import { createAbortError, isAbortError, takeRetryAfter } from './fetch-helper'
+import { classifyKeyError } from './key-health'
+
+// 设置存储键
+export const RATE_LIMITS_SETTINGS_KEY = 'aiRateLimits'
+
+// 默认限额（偏保守，按各家入门档位设置，可在全局设置中调整）
+export const DEFAULT_RATE_LIMITS: Record<ProviderType, RateLimitConfig> = {
+  gemini: { concurrency: 2, rpm: 15, tpm: null },
+  openai: { concurrency: 4, rpm: 60, tpm: null },
+  claude: { concurrency: 2, rpm: 50, tpm: null },
+  deepseek: { concurrency: 4, rpm: null, tpm: null },
+  qwen: { concurrency: 4, rpm: 60, tpm: null },
+  kimi: { concurrency: 2, rpm: 20, tpm: null },
+  custom: { concurrency: 1, rpm: null, tpm: null },
+  mock: { concurrency: 4, rpm: null, tpm: null }
+}
+
+// 各任务类型的默认优先级
+const TASK_PRIORITIES: Record<UsageTaskType, RequestPriority> = {
+  chapter: 'high',
+  outline: 'normal',
+  cover: 'normal',
+  other: 'normal',
+  analysis: 'low'
+}
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = { high: 0, normal: 1, low: 2 }
+
+// RPM / TPM 统计窗口
+const RATE_WINDOW = 60 * 1000
+
+// 限流等待不超过该时长时在队列中自动重试，否则交给调用方切换密钥或备用链
+const MAX_RETRY_WAIT = 30 * 1000
+const MAX_RATE_LIMIT_RETRIES = 2
+
+interface Bucket {
+  active: number
+  starts: { at: number; tokens: number }[]  // 统计窗口内开始的请求
+  pausedUntil: number
+}
+
+interface Waiter {
+  bucketKey: string
+  provider: ProviderType
+  priority: RequestPriority
+  tokens: number
+  seq: number
+  start: () => void
+}
+
+export interface ScheduleTarget {
+  provider: ProviderType
+  apiKey: string | null
+}
+
+export interface ScheduleOptions {
+  priority: RequestPriority
+  tokens: number
+  signal?: AbortSignal
+}
+
+let userLimits: Partial<Record<ProviderType, RateLimitConfig>> = {}
+const reportedLimits: Partial<Record<ProviderType, Partial<RateLimitConfig>>> = {}
+
+const buckets = new Map<string, Bucket>()
+const waiters: Waiter[] = []
+let sequence = 0
+let wakeTimer: ReturnType<typeof setTimeout> | null = null
+
+// ==================== 限额配置 ====================
+
+function sanitizeLimit(limit: Partial<RateLimitConfig> | undefined, fallback: RateLimitConfig): RateLimitConfig {
+  const positive = (value: unknown): number | null =>
+    typeof value === 'number' && value > 0 ? Math.floor(value) : null
+  return {
+    concurrency: positive(limit?.concurrency) ?? fallback.concurrency,
+    rpm: limit && 'rpm' in limit ? positive(limit.rpm) : fallback.rpm,
+    tpm: limit && 'tpm' in limit ? positive(limit.tpm) : fallback.tpm
+  }
+}
+
+/**
+ * 读取用户设置的限额
+ */
+export async function loadRateLimits(): Promise<void> {
+  if (typeof window === 'undefined' || !window.electron?.settings) return
+  try {
+    const stored = await window.electron.settings.get(RATE_LIMITS_SETTINGS_KEY) as Partial<Record<ProviderType, RateLimitConfig>> | null
+    userLimits = {}
+    for (const [provider, limit] of Object.entries(stored || {}) as [ProviderType, RateLimitConfig][]) {
+      if (provider in DEFAULT_RATE_LIMITS) {
+        userLimits[provider] = sanitizeLimit(limit, DEFAULT_RATE_LIMITS[provider])
+      }
+    }
+    pump()
+  } catch (error) {
+    console.warn('[Scheduler] 加载限额设置失败，使用默认限额:', error)
+  }
+}
+
+/**
+ * 保存用户设置的限额并立即生效（未包含的提供商恢复默认）
+ */
+export async function setRateLimits(limits: Partial<Record<ProviderType, RateLimitConfig>>): Promise<void> {
+  await window.electron.settings.set(RATE_LIMITS_SETTINGS_KEY, limits)
+  await loadRateLimits()
+}
+
+/**
+ * 当前生效的限额：用户设置 > 接口报告 > 默认值
+ */
+export function getRateLimits(provider: ProviderType): RateLimitConfig {
+  return userLimits[provider] ?? { ...DEFAULT_RATE_LIMITS[provider], ...reportedLimits[provider] }
+}
+
+/**
+ * 用户单独设置过限额的提供商
+ */
+export function getUserRateLimits(): Partial<Record<ProviderType, RateLimitConfig>> {
+  return { ...userLimits }
+}
+
+/**
+ * 记录配额检查返回的限额（用户未单独设置时生效）
+ */
+export function applyReportedRateLimits(provider: ProviderType, info: QuotaInfo['rateLimitInfo']): void {
+  if (!info) return
+  reportedLimits[provider] = {
+    ...(info.requestsPerMinute ? { rpm: info.requestsPerMinute } : {}),
+    ...(info.tokensPerMinute ? { tpm: info.tokensPerMinute } : {})
+  }
+  pump()
+}
+
+export function getTaskPriority(taskType: UsageTaskType): RequestPriority {
+  return TASK_PRIORITIES[taskType]
+}
+
+/**
+ * 排队和进行中的请求数
+ */
+export function getSchedulerStatus(): { queued: number; active: number } {
+  let active = 0
+  for (const bucket of buckets.values()) active += bucket.active
+  return { queued: waiters.length, active }
+}
+
+// ==================== 排队 ====================
+
+function getBucket(key: string): Bucket {
+  let bucket = buckets.get(key)
+  if (!bucket) {
+    bucket = { active: 0, starts: [], pausedUntil: 0 }
+    buckets.set(key, bucket)
+  }
+  return bucket
+}
+
+/**
+ * 计算还需等待多久才能开始新请求
+ * @returns 0 表示可以立即开始，Infinity 表示要等进行中的请求结束
+ */
+function getWaitTime(bucket: Bucket, limits: RateLimitConfig, tokens: number, now: number): number {
+  bucket.starts = bucket.starts.filter(entry => entry.at > now - RATE_WINDOW)
+  if (bucket.pausedUntil > now) return bucket.pausedUntil - now
+  if (bucket.active >= limits.concurrency) return Infinity
+  if (limits.rpm && bucket.starts.length >= limits.rpm) {
+    return bucket.starts[bucket.starts.length - limits.rpm].at + RATE_WINDOW - now
+  }
+  if (limits.tpm && bucket.starts.length > 0) {
+    let used = bucket.starts.reduce((sum, entry) => sum + entry.tokens, 0)
+    if (used + tokens > limits.tpm) {
+      // 等到足够多的请求移出统计窗口；单个请求超过 TPM 时等窗口清空后放行
+      for (const entry of bucket.starts) {
+        used -= entry.tokens
+        if (used + tokens <= limits.tpm) return entry.at + RATE_WINDOW - now
+      }
+      return bucket.starts[bucket.starts.length - 1].at + RATE_WINDOW - now
+    }
+  }
+  return 0
+}
+
+/**
+ * 按优先级放行可以开始的请求，并在最近的限额恢复时间再次检查
+ */
+function pump(): void {
+  if (wakeTimer) {
+    clearTimeout(wakeTimer)
+    wakeTimer = null
+  }
+
+  const now = Date.now()
+  let nextWake = Infinity
+  // 同一密钥内排在前面的请求被阻塞时，后面的请求也不能越过它
+  const blocked = new Set<string>()
+
+  waiters.sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.seq - b.seq)
+  for (const waiter of [...waiters]) {
+    if (blocked.has(waiter.bucketKey)) continue
+    const bucket = getBucket(waiter.bucketKey)
+    const wait = getWaitTime(bucket, getRateLimits(waiter.provider), waiter.tokens, now)
+    if (wait > 0) {
+      blocked.add(waiter.bucketKey)
+      nextWake = Math.min(nextWake, wait)
+      continue
+    }
+
+    waiters.splice(waiters.indexOf(waiter), 1)
+    bucket.active++
+    bucket.starts.push({ at: now, tokens: waiter.tokens })
+    waiter.start()
+  }
+
+  if (nextWake !== Infinity) {
+    wakeTimer = setTimeout(pump, Math.max(nextWake, 10))
+  }
+}
+
+/**
+ * 等待轮到本次请求
+ */
+function acquire(bucketKey: string, provider: ProviderType, options: ScheduleOptions, seq: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const { signal } = options
+    if (signal?.aborted) return reject(createAbortError())
+
+    const onAbort = () => {
+      const index = waiters.indexOf(waiter)
+      if (index !== -1) waiters.splice(index, 1)
+      reject(createAbortError())
+      pump()
+    }
+    const waiter: Waiter = {
+      bucketKey,
+      provider,
+      priority: options.priority,
+      tokens: options.tokens,
+      seq,
+      start: () => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+    waiters.push(waiter)
+    pump()
+  })
+}
+
+/**
+ * 限流错误建议的等待时间（优先使用响应头），不是限流错误时返回 null
+ * 按错误的原始状态码和信息判断（提供商改写的提示通过 cause 保留原始错误），当日配额用尽和密钥无效不等待
+ */
+function getRateLimitDelay(apiKey: string | null, error: unknown): number | null {
+  const hinted = takeRetryAfter(apiKey)
+  const classified = classifyKeyError(error)
+  if (classified?.status === 'rate_limited') {
+    return hinted ?? (classified.until !== null ? Math.max(0, classified.until - Date.now()) : null)
+  }
+  // 503 等服务繁忙响应不属于密钥错误，但同样可能带 Retry-After
+  return classified === null ? hinted : null
+}
+
+/**
+ * 申请一个请求名额，用于流式生成等需要自行控制结束时机的调用
+ * @returns 结束时调用的释放函数，传入错误时按限流情况暂停该密钥
+ */
+export async function acquireSlot(target: ScheduleTarget, options: ScheduleOptions): Promise<(error?: unknown) => void> {
+  const bucketKey = `${target.provider}:${target.apiKey ?? ''}`
+  await acquire(bucketKey, target.provider, options, ++sequence)
+
+  let released = false
+  return (error?: unknown) => {
+    if (released) return
+    released = true
+    const bucket = getBucket(bucketKey)
+    bucket.active--
+    if (error !== undefined && !isAbortError(error)) {
+      const delay = getRateLimitDelay(target.apiKey, error)
+      if (delay !== null) pauseBucket(bucket, target.provider, delay)
+    }
+    pump()
+  }
+}
+
+function pauseBucket(bucket: Bucket, provider: ProviderType, delay: number): void {
+  bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + delay)
+  console.log(`[Scheduler] ${provider} 限流，该密钥暂停 ${Math.ceil(delay / 1000)} 秒`)
+}
+
+/**
+ * 排队执行一次 AI 调用
+ * 限流且建议等待不超过 30 秒时暂停该密钥并重新排队（保持原有顺序），否则抛出原错误
+ */
+export async function scheduleAICall<T>(target: ScheduleTarget, task: () => Promise<T>, options: ScheduleOptions): Promise<T> {
+  const bucketKey = `${target.provider}:${target.apiKey ?? ''}`
+  const seq = ++sequence
+
+  for (let attempt = 0; ; attempt++) {
+    await acquire(bucketKey, target.provider, options, seq)
+    const bucket = getBucket(bucketKey)
+    try {
+      return await task()
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      const delay = getRateLimitDelay(target.apiKey, error)
+      if (delay === null) throw error
+      pauseBucket(bucket, target.provider, delay)
+      if (delay > MAX_RETRY_WAIT || attempt >= MAX_RATE_LIMIT_RETRIES) throw error
+      console.log(`[Scheduler] ${target.provider} 排队重试 (${attempt + 1}/${MAX_RATE_LIMIT_RETRIES})`)
+    } finally {
+      bucket.active--
+      pump()
+    }
+  }
+}
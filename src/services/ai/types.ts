@@ -3,8 +3,10 @@
  * 多 AI 模型提供商支持的类型定义
  */
 
+import type { UsageTaskType, GenerationParams } from '../../types'
+
 // 支持的提供商类型
-export type ProviderType = 'gemini' | 'openai' | 'claude' | 'deepseek' | 'qwen' | 'kimi'
+export type ProviderType = 'gemini' | 'openai' | 'claude' | 'deepseek' | 'qwen' | 'kimi' | 'custom' | 'mock'
 
 // 模型信息
 export interface ModelInfo {
@@ -27,15 +29,38 @@ export interface QuotaInfo {
   }
 }
 
+// 单次调用的 token 用量
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
 // 提供商元信息
 export interface ProviderMeta {
   name: string
-  region: 'global' | 'china'
+  region: 'global' | 'china' | 'local'
   website: string
   apiKeyUrl: string
   description: string
 }
 
+// 单次生成的附加选项
+export interface GenerateOptions extends GenerationParams {
+  jsonMode?: boolean  // 要求输出 JSON（支持原生 JSON 模式的提供商会启用，其余忽略）
+  priority?: RequestPriority  // 排队优先级（只由调度器使用），未指定时按任务类型决定
+  cache?: boolean  // 使用响应缓存（用于会重复执行的分析调用，相同输入直接返回上次结果）
+}
+
+// 请求排队优先级：high 交互式写作，normal 一般生成，low 批量分析
+export type RequestPriority = 'high' | 'normal' | 'low'
+
+// 每个密钥的请求限额（null 表示不限制）
+export interface RateLimitConfig {
+  concurrency: number   // 同时进行的请求数
+  rpm: number | null    // 每分钟请求数
+  tpm: number | null    // 每分钟 token 数（按提示词估算 + 最大输出）
+}
+
 // AI 提供商接口
 export interface AIProvider {
   // 提供商类型标识
@@ -47,11 +72,17 @@ export interface AIProvider {
   // 初始化 API
   init(apiKey: string, modelName?: string): Promise<boolean>
 
-  // 生成文本内容（带超时和重试）
-  generateText(prompt: string, retries?: number, timeout?: number): Promise<string>
+  // 生成文本内容（带超时和重试，signal 取消时抛出 AbortError）
+  generateText(
+    prompt: string,
+    retries?: number,
+    timeout?: number,
+    signal?: AbortSignal,
+    options?: GenerateOptions
+  ): Promise<string>
 
-  // 流式生成文本
-  generateTextStream(prompt: string): AsyncGenerator<string, void, unknown>
+  // 流式生成文本（忽略 jsonMode）
+  generateTextStream(prompt: string, signal?: AbortSignal, options?: GenerateOptions): AsyncGenerator<string, void, unknown>
 
   // 切换模型
   switchModel(modelName: string): Promise<boolean>
@@ -65,6 +96,15 @@ export interface AIProvider {
   // 获取当前模型
   getCurrentModel(): string
 
+  // 获取最近一次非流式调用的用量（接口未返回时为 null）
+  getLastUsage(): TokenUsage | null
+
+  // 文本向量化，按顺序返回每段文本的向量（可选，未实现时检索回退到 BM25）
+  embed?(texts: string[], signal?: AbortSignal): Promise<number[][]>
+
+  // 向量化使用的模型，未配置时返回 null（可选，与 embed 一起实现）
+  getEmbeddingModel?(): string | null
+
   // 检查是否已初始化
   isReady(): boolean
 }
@@ -76,6 +116,132 @@ export interface ProviderConfig {
   model: string
 }
 
+// 密钥状态：正常、限流冷却中、当日配额用尽、无效
+export type KeyStatus = 'healthy' | 'rate_limited' | 'quota_exhausted' | 'invalid'
+
+// 多密钥轮换方式：failover 固定使用一个密钥、出错再切换；round_robin 每次调用轮流使用可用密钥
+export type KeyRotationMode = 'failover' | 'round_robin'
+
+// 单个密钥的健康状态
+export interface KeyHealth {
+  status: KeyStatus
+  until: number | null                          // 冷却结束时间（毫秒时间戳），到期后自动恢复；invalid 为 null
+  recentErrors: { at: number; message: string }[]  // 最近的错误（新的在前）
+}
+
+// 本次调用选中的密钥
+export interface PickedKey {
+  apiKey: string
+  keyIndex: number | null                       // 密钥序号（从 0 开始），旧版单密钥配置为 null
+}
+
+// 提供商 + 模型（备用链条目）
+export interface ProviderModelRef {
+  provider: ProviderType
+  model: string
+}
+
+// 一次生成实际使用的提供商和模型
+export interface GenerationSource extends ProviderModelRef {
+  isFallback: boolean  // 是否由备用链接手
+}
+
+// 按任务类型路由的模型（未配置的任务使用当前提供商）
+export type ModelRoutes = Partial<Record<UsageTaskType, ProviderModelRef>>
+
+// 自定义端点配置（OpenAI 兼容接口，如 Ollama、llama.cpp、vLLM、企业网关）
+export interface CustomEndpointConfig {
+  baseUrl: string                   // 例如 http://localhost:11434/v1
+  headers: Record<string, string>   // 额外请求头（可选）
+  models: string[]                  // 通过 /models 发现的模型列表
+  contextWindow: number             // 上下文窗口（无法自动获取，由用户填写）
+  embeddingModel?: string           // 向量模型（可选，填写后通过 /embeddings 检索相关前文）
+}
+
+// 离线模拟提供商的脚本规则
+export interface MockScriptRule {
+  match: string     // 提示词包含的文本，或 /正则/flags
+  response: string
+}
+
+// 离线模拟提供商配置（模式即模型：replay 回放、record 录制、scripted 脚本）
+export interface MockProviderConfig {
+  fixtureSet: string                 // 录制和回放使用的录制集名称
+  recordTarget: ProviderModelRef | null  // 录制模式实际调用的提供商/模型
+  fuzzyThreshold: number             // 回放模糊匹配的最低相似度（0-1），1 表示只做精确匹配
+  script: MockScriptRule[]           // 脚本模式按顺序匹配的规则
+  scriptDefault: string              // 脚本模式无规则匹配时的响应，为空则报错
+}
+
+// ==================== 图片生成 ====================
+
+// 图片生成提供商（与文本提供商独立选择）
+export type ImageProviderType = 'gemini' | 'openai' | 'local'
+
+// 画幅预设
+export type ImageAspect = 'portrait' | 'tall' | 'square' | 'landscape' | 'wide'
+
+// 尺寸预设：standard 标准、hd 高清（部分提供商只支持一种）
+export type ImageSize = 'standard' | 'hd'
+
+// 单次图片生成请求
+export interface ImageGenerateRequest {
+  prompt: string
+  negativePrompt?: string
+  aspect: ImageAspect
+  size: ImageSize
+  signal?: AbortSignal
+}
+
+// 图片生成结果
+export interface ImageResult {
+  dataUrl: string
+  model: string
+  usage: TokenUsage | null
+  cost?: number            // 按张计费的模型直接给出费用（美元），不再按 token 估算
+}
+
+// 画幅预设（宽高比）
+export const IMAGE_ASPECTS: Record<ImageAspect, { label: string; width: number; height: number }> = {
+  portrait: { label: '竖版 3:4', width: 3, height: 4 },
+  tall: { label: '长竖版 2:3', width: 2, height: 3 },
+  square: { label: '方形 1:1', width: 1, height: 1 },
+  landscape: { label: '横版 4:3', width: 4, height: 3 },
+  wide: { label: '宽屏 16:9', width: 16, height: 9 }
+}
+
+// 图片生成提供商接口
+export interface ImageProvider {
+  readonly type: ImageProviderType
+  readonly name: string
+  readonly aspects: ImageAspect[]  // 支持的画幅
+  readonly sizes: ImageSize[]      // 支持的尺寸
+
+  // 检查配置，可用时返回 null，否则返回提示信息
+  checkConfig(): Promise<string | null>
+
+  // 生成图片，返回 data URL
+  generate(request: ImageGenerateRequest): Promise<ImageResult>
+}
+
+// 本地图片端点（Stable Diffusion WebUI / ComfyUI）
+export interface LocalImageEndpointConfig {
+  kind: 'sdwebui' | 'comfyui'
+  baseUrl: string          // 例如 http://127.0.0.1:7860（WebUI）或 http://127.0.0.1:8188（ComfyUI）
+  steps: number
+  negativePrompt: string
+  workflow: string         // ComfyUI API 格式工作流，支持 {{prompt}} {{negative}} {{width}} {{height}} {{steps}} {{seed}} 占位符
+}
+
+// 图片生成设置
+export interface ImageSettings {
+  provider: ImageProviderType
+  aspect: ImageAspect
+  size: ImageSize
+  openaiModel: string
+  local: LocalImageEndpointConfig
+}
+
 // 旧版提供商配置（用于向后兼容）
 export interface LegacyProviderConfig {
   apiKey: string
@@ -118,6 +284,13 @@ export function getActiveApiKey(config: ProviderConfig | LegacyProviderConfig):
   return config.apiKey || null
 }
 
+/**
+ * 提供商是否必须配置 API Key（自定义端点和离线模拟可以不填）
+ */
+export function requiresApiKey(provider: ProviderType): boolean {
+  return provider !== 'custom' && provider !== 'mock'
+}
+
 // 提供商信息常量
 export const PROVIDER_INFO: Record<ProviderType, ProviderMeta> = {
   gemini: {
@@ -161,11 +334,26 @@ export const PROVIDER_INFO: Record<ProviderType, ProviderMeta> = {
     website: 'https://kimi.moonshot.cn',
     apiKeyUrl: 'https://platform.moonshot.cn/console/api-keys',
     description: 'Moonshot Kimi，国产大模型，支持超长上下文'
+  },
+  custom: {
+    name: '自定义端点',
+    region: 'local',
+    website: 'https://platform.openai.com/docs/api-reference/chat',
+    apiKeyUrl: 'https://platform.openai.com/docs/api-reference/authentication',
+    description: '任意 OpenAI 兼容接口，如 Ollama、llama.cpp server、vLLM 或企业网关，适合本地或自托管模型'
+  },
+  mock: {
+    name: '离线模拟',
+    region: 'local',
+    website: '',
+    apiKeyUrl: '',
+    description: '录制真实提供商的响应并离线回放，或按脚本返回预设响应，用于演示、复现解析问题和不消耗配额地调试完整流程'
   }
 }
 
 // 按区域分组的提供商
 export const PROVIDERS_BY_REGION = {
   global: ['gemini', 'openai', 'claude'] as ProviderType[],
-  china: ['deepseek', 'qwen', 'kimi'] as ProviderType[]
+  china: ['deepseek', 'qwen', 'kimi'] as ProviderType[],
+  local: ['custom', 'mock'] as ProviderType[]
 }
@@ -0,0 +1,134 @@
+/**
+ * AI Usage Ledger
+ * 记录每次 AI 调用的 token 用量和估算费用，写入本地数据库 usage_records 表
+ */
+
+import type { ProviderType, TokenUsage } from './types'
+import type { UsageTaskType } from '../../types'
+
+// 模型参考单价（美元 / 百万 tokens），仅用于估算，实际以各平台账单为准
+// 国内模型按人民币官方价格折算
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  // Gemini
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  // OpenAI
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  // Claude
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'claude-3-opus-20240229': { input: 15, output: 75 },
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  // DeepSeek
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+  'deepseek-reasoner': { input: 0.55, output: 2.19 },
+  // 通义千问
+  'qwen-max': { input: 2.8, output: 8.4 },
+  'qwen-plus': { input: 0.11, output: 0.28 },
+  'qwen-turbo': { input: 0.04, output: 0.08 },
+  'qwen-long': { input: 0.07, output: 0.28 },
+  // Kimi
+  'moonshot-v1-8k': { input: 1.7, output: 1.7 },
+  'moonshot-v1-32k': { input: 3.4, output: 3.4 },
+  'moonshot-v1-128k': { input: 8.4, output: 8.4 },
+  // 向量模型（只计输入）
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-v3': { input: 0.07, output: 0 },
+  'text-embedding-004': { input: 0, output: 0 },
+  // 封面图片（按输出 token 计费）
+  'gemini-2.5-flash-image': { input: 0.3, output: 30 },
+  'gpt-image-1': { input: 5, output: 40 }
+}
+
+// Gemini 图片模型每张图固定计 1290 个输出 token
+export const IMAGE_OUTPUT_TOKENS = 1290
+
+// DALL·E 3 按张计费（美元 / 张），按质量和像素尺寸区分
+export const DALL_E_3_PRICING: Record<'standard' | 'hd', Record<string, number>> = {
+  standard: { '1024x1024': 0.04, '1024x1792': 0.08, '1792x1024': 0.08 },
+  hd: { '1024x1024': 0.08, '1024x1792': 0.12, '1792x1024': 0.12 }
+}
+
+// 当前项目（由布局组件根据路由设置，未进入项目时为 null）
+let usageProjectId: string | null = null
+
+/**
+ * 设置用量记录关联的项目
+ */
+export function setUsageProject(projectId: string | null): void {
+  usageProjectId = projectId
+}
+
+/**
+ * 获取当前关联的项目（调用记录同样关联到该项目）
+ */
+export function getUsageProject(): string | null {
+  return usageProjectId
+}
+
+/**
+ * 计算上下文的token估算（粗略）
+ */
+export function estimateContextTokens(context: string): number {
+  // 中文约2字符一个token，英文约4字符一个token
+  const chineseChars = (context.match(/[\u4e00-\u9fff]/g) || []).length
+  const otherChars = context.length - chineseChars
+  return Math.ceil(chineseChars / 2 + otherChars / 4)
+}
+
+/**
+ * 估算费用（美元），未知模型返回 0
+ */
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  const pricing = MODEL_PRICING[model]
+  if (!pricing) return 0
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000
+}
+
+/**
+ * 解析 OpenAI 兼容接口返回的 usage 字段
+ */
+export function parseOpenAIUsage(usage: any): TokenUsage | null {
+  if (!usage || typeof usage.prompt_tokens !== 'number') return null
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens || 0
+  }
+}
+
+/**
+ * 记录一次调用的用量
+ * 优先使用接口返回的 usage，没有时按文本长度估算；传入 cost 时直接记为费用（按张计费的图片模型）
+ * 写入失败不影响生成流程
+ */
+export function recordUsage(entry: {
+  provider: ProviderType
+  model: string
+  taskType: UsageTaskType
+  prompt: string
+  completion: string
+  usage: TokenUsage | null
+  cost?: number
+}): void {
+  const promptTokens = entry.usage?.promptTokens ?? estimateContextTokens(entry.prompt)
+  const completionTokens = entry.usage?.completionTokens ?? estimateContextTokens(entry.completion)
+
+  if (typeof window === 'undefined' || !window.electron?.db?.recordUsage) return
+
+  window.electron.db.recordUsage({
+    projectId: usageProjectId,
+    provider: entry.provider,
+    model: entry.model,
+    taskType: entry.taskType,
+    promptTokens,
+    completionTokens,
+    estimatedCost: entry.cost ?? estimateCost(entry.model, promptTokens, completionTokens),
+    isEstimated: !entry.usage
+  }).catch(error => {
+    console.warn('[Usage] 记录用量失败:', error)
+  })
+}
@@ -1,6 +1,10 @@
 import { generateText } from './gemini'
+import { isAbortError, generateJSON } from './ai'
+import type { JSONSchema, FromSchema } from './ai'
 import type { Character, Volume } from '../types'
 import { buildCompressedContext } from './outline-optimizer'
+import { renderPrompt } from './prompt-templates'
+import type { PromptVariables } from './prompt-templates'
 import {
   buildVolumeBoundary,
   buildBoundaryConstraintPrompt,
@@ -22,6 +26,100 @@ interface ProgressCallback {
   (phase: string, progress: number, message: string): void
 }
 
+// ==================== JSON 结构 ====================
+
+const FRAMEWORK_CHARACTER_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    role: { type: 'string' },
+    gender: { type: 'string' },
+    age: { type: 'string' },
+    identity: { type: 'string' },
+    description: { type: 'string' },
+    arc: { type: 'string' }
+  },
+  required: ['name']
+} as const satisfies JSONSchema
+
+const MICRO_FRAMEWORK_SCHEMA = {
+  type: 'object',
+  properties: {
+    worldSetting: { type: 'string' },
+    characters: { type: 'array', items: FRAMEWORK_CHARACTER_SCHEMA },
+    volumes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          summary: { type: 'string' },
+          chapters: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { title: { type: 'string' }, outline: { type: 'string' } },
+              required: ['title', 'outline']
+            }
+          }
+        },
+        required: ['title', 'chapters']
+      }
+    }
+  },
+  required: ['worldSetting', 'characters', 'volumes']
+} as const satisfies JSONSchema
+
+const MILLION_FRAMEWORK_SCHEMA = {
+  type: 'object',
+  properties: {
+    worldSetting: { type: 'string' },
+    characters: { type: 'array', items: FRAMEWORK_CHARACTER_SCHEMA },
+    volumes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          summary: { type: 'string' },
+          mainPlot: { type: 'string' },
+          keyEvents: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['title', 'summary']
+      }
+    }
+  },
+  required: ['worldSetting', 'characters', 'volumes']
+} as const satisfies JSONSchema
+
+const VOLUME_CHAPTERS_SCHEMA = {
+  type: 'object',
+  properties: {
+    chapters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          chapterNumber: { type: 'integer' },
+          title: { type: 'string' },
+          outline: { type: 'string' }
+        },
+        required: ['title', 'outline']
+      }
+    }
+  },
+  required: ['chapters']
+} as const satisfies JSONSchema
+
+const SINGLE_CHAPTER_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    outline: { type: 'string' }
+  },
+  required: ['title', 'outline']
+} as const satisfies JSONSchema
+
 /**
  * 全自动创作 - 根据灵感生成完整的小说框架
  */
@@ -31,17 +129,18 @@ export async function autoCreateNovel(
   scale: string,
   genres: string[],
   styles: string[],
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
 ): Promise<AutoCreateResult> {
   const scaleConfig = getScaleConfig(scale)
   const isMillion = scale === 'million'
 
   if (isMillion) {
     // 百万巨著：分步生成
-    return generateMillionNovel(inspiration, constraints, scaleConfig, genres, styles, onProgress)
+    return generateMillionNovel(inspiration, constraints, scaleConfig, genres, styles, onProgress, signal)
   } else {
     // 微小说：一次性生成
-    return generateMicroNovel(inspiration, constraints, scaleConfig, genres, styles)
+    return generateMicroNovel(inspiration, constraints, scaleConfig, genres, styles, signal)
   }
 }
 
@@ -53,12 +152,13 @@ async function generateMicroNovel(
   constraints: string,
   scaleConfig: ReturnType<typeof getScaleConfig>,
   genres: string[],
-  styles: string[]
+  styles: string[],
+  signal?: AbortSignal
 ): Promise<AutoCreateResult> {
   const frameworkPrompt = buildMicroNovelPrompt(inspiration, constraints, scaleConfig, genres, styles)
   // 使用较长的超时时间（2分钟）
-  const frameworkResponse = await generateText(frameworkPrompt, 2, 120000)
-  return parseFrameworkResponse(frameworkResponse)
+  const framework = await generateJSON(frameworkPrompt, MICRO_FRAMEWORK_SCHEMA, 120000, signal, 'outline')
+  return normalizeFramework(framework)
 }
 
 /**
@@ -71,15 +171,17 @@ async function generateMillionNovel(
   scaleConfig: ReturnType<typeof getScaleConfig>,
   genres: string[],
   styles: string[],
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
 ): Promise<AutoCreateResult> {
   // 只生成世界观、角色和卷结构（不生成章节）
   onProgress?.('framework', 20, '正在构建世界观和角色...')
 
   const frameworkPrompt = buildMillionFrameworkPrompt(inspiration, constraints, scaleConfig, genres, styles)
   // 使用较长的超时时间（3分钟）
-  const frameworkResponse = await generateText(frameworkPrompt, 2, 180000)
-  const framework = parseMillionFramework(frameworkResponse)
+  const framework = normalizeMillionFramework(
+    await generateJSON(frameworkPrompt, MILLION_FRAMEWORK_SCHEMA, 180000, signal, 'outline')
+  )
 
   onProgress?.('framework', 80, '正在整理分卷结构...')
 
@@ -102,7 +204,7 @@ async function generateMillionNovel(
 /**
  * 获取创作规模配置
  */
-function getScaleConfig(scale: string) {
+export function getScaleConfig(scale: string) {
   const configs: Record<string, {
     wordCount: string
     volumeCount: string
@@ -125,6 +227,25 @@ function getScaleConfig(scale: string) {
   return configs[scale] || configs.million
 }
 
+/**
+ * 框架提示词变量（微小说和百万巨著共用）
+ */
+export function frameworkPromptVariables(
+  inspiration: string,
+  constraints: string,
+  scaleConfig: ReturnType<typeof getScaleConfig>,
+  genres: string[],
+  styles: string[]
+): PromptVariables {
+  return {
+    inspiration,
+    constraints: constraints || '无特殊约束',
+    wordCount: scaleConfig.wordCount,
+    genres: genres.join('、') || '未指定',
+    styles: styles.join('、') || '未指定'
+  }
+}
+
 /**
  * 构建微小说提示词（一次性生成）
  */
@@ -135,65 +256,7 @@ function buildMicroNovelPrompt(
   genres: string[],
   styles: string[]
 ): string {
-  return `你是一个顶级的网文主编兼金牌编剧，精通番茄、起点等平台的市场风向。
-
-请根据以下灵感，生成完整的微小说创作框架。
-
-【核心灵感】
-${inspiration}
-
-【额外约束】
-${constraints || '无特殊约束'}
-
-【创作规模】
-- 这是一部微小说
-- 目标字数：${scaleConfig.wordCount}
-- 只有1卷，最多8章
-- 每章2500字左右
-
-【题材标签】
-${genres.join('、') || '未指定'}
-
-【写作风格】
-${styles.join('、') || '未指定'}
-
-请严格按照以下 JSON 格式返回（不要包含任何其他文字，只返回纯 JSON）：
-
-{
-  "worldSetting": "详细的世界观设定，至少300字",
-  "characters": [
-    {
-      "name": "角色名",
-      "role": "protagonist/supporting/antagonist",
-      "gender": "男/女",
-      "age": "年龄描述",
-      "identity": "身份职业",
-      "description": "详细的角色设定，至少100字",
-      "arc": "人物成长弧线"
-    }
-  ],
-  "volumes": [
-    {
-      "title": "卷名（10字内，无编号）",
-      "summary": "核心剧情，50-80字，简洁直接",
-      "chapters": [
-        {
-          "title": "标题（10字内，无编号）",
-          "outline": "简洁大纲，50-80字：场景+冲突+悬念"
-        }
-      ]
-    }
-  ]
-}
-
-要求：
-1. 角色至少包含1个主角、1-2个配角
-2. 只生成1卷，5-8章
-3. 情节紧凑，快节奏
-4. 每章结尾要有悬念
-5. 标题和大纲都要简洁，无废话，直击要点
-
-只返回 JSON，不要有任何解释文字。`
+  return renderPrompt('micro-novel', frameworkPromptVariables(inspiration, constraints, scaleConfig, genres, styles))
 }
 
 /**
@@ -206,64 +269,7 @@ function buildMillionFrameworkPrompt(
   genres: string[],
   styles: string[]
 ): string {
-  return `你是一个顶级的网文主编兼金牌编剧，精通番茄、起点等平台的市场风向。
-
-请根据以下灵感，生成百万巨著的整体框架（世界观、角色、分卷结构）。
-
-【核心灵感】
-${inspiration}
-
-【额外约束】
-${constraints || '无特殊约束'}
-
-【创作规模】
-- 这是一部百万字级别的长篇巨著
-- 目标字数：${scaleConfig.wordCount}
-- 必须规划至少12卷
-- 每卷后续会生成40+章节
-
-【题材标签】
-${genres.join('、') || '未指定'}
-
-【写作风格】
-${styles.join('、') || '未指定'}
-
-请严格按照以下 JSON 格式返回（不要包含任何其他文字，只返回纯 JSON）：
-
-{
-  "worldSetting": "详细的世界观设定，包括时代背景、地理环境、社会结构、力量体系/修炼等级（如有）、特殊规则等，至少800字",
-  "characters": [
-    {
-      "name": "角色名",
-      "role": "protagonist/supporting/antagonist",
-      "gender": "男/女",
-      "age": "年龄描述",
-      "identity": "身份职业",
-      "description": "详细的角色设定，包括外貌、性格、背景、动机等，至少200字",
-      "arc": "人物成长弧线"
-    }
-  ],
-  "volumes": [
-    {
-      "title": "卷名（10字以内，不要编号）",
-      "summary": "本卷核心剧情，50-80字，简洁明了，直击要点，无废话",
-      "mainPlot": "本卷主线剧情（一句话）",
-      "keyEvents": ["关键事件1", "关键事件2", "关键事件3"]
-    }
-  ]
-}
-
-【重要要求】：
-1. 角色至少包含1个主角、4-6个重要配角、2-3个反派
-2. 必须生成至少12卷的volumes数组
-3. 每卷的summary必须简洁，50-80字，直击核心冲突，无铺垫废话
-4. 卷标题不要编号（不要"第一卷 XXX"），直接写卷名，10字以内
-5. 整体剧情要有明确的"爽点循环"设计
-6. 卷与卷之间要有承接和递进
-7. 世界观要宏大且有特色
-8. 人物要立体，有清晰的成长弧光
-
-只返回 JSON，不要有任何解释文字。`
+  return renderPrompt('million-framework', frameworkPromptVariables(inspiration, constraints, scaleConfig, genres, styles))
 }
 
 /**
@@ -283,6 +289,15 @@ interface CharacterArchive {
  * 构建单卷章节大纲提示词（包含完整角色档案）
  */
 function buildVolumeChaptersPrompt(
+  ...args: Parameters<typeof volumeChaptersPromptVariables>
+): string {
+  return renderPrompt('volume-chapters', volumeChaptersPromptVariables(...args))
+}
+
+/**
+ * 单卷章节大纲提示词变量
+ */
+export function volumeChaptersPromptVariables(
   worldSetting: string,
   characters: Partial<Character>[],
   volume: { title: string; summary: string; mainPlot?: string; keyEvents?: string[] },
@@ -309,10 +324,10 @@ function buildVolumeChaptersPrompt(
     volumeIndex?: string  // 全书卷索引（压缩模式）
     boundaryConstraint?: string  // 边界约束提示词（新增）
   }
-): string {
+): PromptVariables {
   // 构建角色档案信息（包含关系、状态等）
   let characterInfo: string
-  let deceasedWarning: string = ''
+  let deceasedCharacters: string = ''
 
   if (characterArchives && characterArchives.length > 0) {
     // 分离存活和已故角色
@@ -329,18 +344,14 @@ function buildVolumeChaptersPrompt(
       return info
     }).join('\n')
 
-    // 构建已故角色警告
-    if (deceasedArchives.length > 0) {
-      deceasedWarning = '\n\n【🚨 已故角色 - 禁止安排出场】\n'
-      deceasedWarning += deceasedArchives.map(c => {
-        let info = `• ${c.name}`
-        if (c.deathChapter) {
-          info += `（死于：${c.deathChapter}）`
-        }
-        return info
-      }).join('\n')
-      deceasedWarning += '\n⚠️ 大纲中不要安排已故角色有任何活动或对话！'
-    }
+    // 已故角色列表
+    deceasedCharacters = deceasedArchives.map(c => {
+      let info = `• ${c.name}`
+      if (c.deathChapter) {
+        info += `（死于：${c.deathChapter}）`
+      }
+      return info
+    }).join('\n')
   } else {
     // 使用基础角色信息
     const activeChars = characters.filter(c => c.status !== 'deceased')
@@ -351,25 +362,17 @@ function buildVolumeChaptersPrompt(
       .map(c => `${c.name}(${c.role}): ${c.identity}`)
       .join('\n')
 
-    if (deceasedChars.length > 0) {
-      deceasedWarning = '\n\n【🚨 已故角色 - 禁止安排出场】\n'
-      deceasedWarning += deceasedChars.map(c => {
-        let info = `• ${c.name}`
-        if (c.deathChapter) {
-          info += `（死于：${c.deathChapter}）`
-        }
-        return info
-      }).join('\n')
-      deceasedWarning += '\n⚠️ 大纲中不要安排已故角色有任何活动或对话！'
-    }
+    deceasedCharacters = deceasedChars.map(c => {
+      let info = `• ${c.name}`
+      if (c.deathChapter) {
+        info += `（死于：${c.deathChapter}）`
+      }
+      return info
+    }).join('\n')
   }
 
   const endChapterNumber = startChapterNumber + chapterCount - 1
 
-  const guidanceSection = guidance.trim()
-    ? `\n【重要指导意见】\n${guidance.trim()}\n请务必根据以上指导意见调整章节大纲！\n`
-    : ''
-
   // 构建上下文信息
   let contextSection = ''
 
@@ -478,109 +481,31 @@ function buildVolumeChaptersPrompt(
   const phase3End = Math.floor(chapterCount * 0.8)  // 高潮 40% (累计80%)
   // 收尾 20% (剩余)
 
-  return `你是一个顶级的网文主编兼金牌编剧。
-
-请为以下卷生成详细的章节大纲。
-
-╔══════════════════════════════════════════════════════════════╗
-║  【🎯 核心任务】为第${volumeIndex + 1}卷生成 ${chapterCount} 章大纲                    ║
-║  【⚠️ 重要】这 ${chapterCount} 章只覆盖本卷内容，不要写下一卷的任何内容！   ║
-╚══════════════════════════════════════════════════════════════╝
-
-【世界观概要】
-${worldSetting.slice(0, 800)}
-
-【角色档案】
-${characterInfo}${deceasedWarning}
-
-【当前卷信息】
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-📖 卷号：第${volumeIndex + 1}卷（共${totalVolumes}卷）
-📗 卷名：${volume.title}
-📝 本卷剧情范围：${volume.summary}
-${volume.mainPlot ? `🎬 主线剧情：${volume.mainPlot}` : ''}
-${volume.keyEvents ? `🔑 本卷关键事件：${volume.keyEvents.join('、')}` : ''}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-🚨🚨🚨【本卷边界 - 极其重要】🚨🚨🚨
-• 本卷只讲述"${volume.title}"的故事
-• 这 ${chapterCount} 章的全部内容必须在本卷的剧情范围内
-• 本卷结束时 = 本卷任务完成，但下一卷尚未开始
-• 最后几章是"为下一卷埋伏笔"，绝不是"开始下一卷"
-${contextSection}
-${guidanceSection}
-【题材】${genres.join('、') || '未指定'}
-【风格】${styles.join('、') || '未指定'}
-
-请生成本卷的章节大纲，要求：
-1. 必须生成恰好 ${chapterCount} 章
-2. 章节编号从 ${startChapterNumber} 开始，到 ${endChapterNumber} 结束
-3. 🔥【字数限制】标题+简介总共不超过60字：
-   - 标题：最多8字，无编号（不要"第X章"），直接写标题，吸引眼球
-   - 简介：40-50字，极度精简，只写核心：场景+冲突+悬念
-4. 每章结尾必须有悬念或钩子
-5. 章节之间要有逻辑连贯性
-6. 注意角色的生死状态和人物关系，已故角色不应再出场
-
-🎯【本卷章节进度规划 - 必须遵守】：
-本卷 ${chapterCount} 章的剧情分布（以"${volume.title}"为主线）：
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-📍 第1-${phase1End}章【开篇10%】：建立本卷起点，承接上一卷结尾
-📍 第${phase1End + 1}-${phase2End}章【发展30%】：展开本卷主线冲突，逐步升级
-📍 第${phase2End + 1}-${phase3End}章【高潮40%】：本卷核心事件的爆发与解决
-📍 第${phase3End + 1}-${chapterCount}章【收尾20%】：总结本卷，为下一卷埋伏笔
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-⚠️ 收尾阶段（最后${chapterCount - phase3End}章）注意：
-   • ✅ 正确：本卷任务完成，主角获得成长，留下悬念
-   • ✅ 正确：暗示下一卷的危机，但不触发
-   • ❌ 错误：主角已经进入下一卷的场景
-   • ❌ 错误：开始处理下一卷的核心冲突
-   • ❌ 错误：本卷最后几章的内容属于下一卷
-
-🎯【网文节奏控制】：
-7. 【章节类型分配】必须按以下比例分配章节类型（${chapterCount}章约等于）：
-   - 铺垫章（30%）：日常修炼、人物互动、环境描写、伏笔埋设、情报收集
-   - 发展章（40%）：小冲突、小试炼、关系推进、势力交锋、线索展开
-   - 高潮章（20%）：重大战斗、重要转折、情感爆发、秘密揭露
-   - 过渡章（10%）：休整恢复、总结反思、承上启下、气氛调节
-8. 【节奏曲线】遵循"慢热-渐进-爆发-缓和"的节奏：
-   - 每个小弧线（8-12章）：2-3章铺垫 → 4-5章发展 → 2章高潮 → 1章过渡
-   - 禁止连续3章以上都是高潮/战斗
-   - 禁止每章都有重大事件，要有"平淡但不无聊"的日常
-9. 【故事线控制】本卷只推进1-2条主要故事线：
-   - 不要在一卷内解决所有问题
-   - 大BOSS、终极秘密等留到后面的卷
-   - 本卷结束时，主角应该有成长，但距离最终目标还很远
-10. 【伏笔与悬念】：
-    - 每卷至少埋3-5个伏笔，留待后续卷揭示
-    - 本卷结尾要留下新的疑问或危机，而不是大圆满
-
-🔴🔴🔴【内容边界红线 - 违反即失败】🔴🔴🔴：
-11. 📚【参考所有卷】已提供全书结构索引，必须了解全书布局，确保本卷剧情在整体中的定位准确
-12. ⛔【不可重复上一卷】上一卷的剧情、冲突、场景已完成，本卷必须开启新的故事线
-13. ⛔⛔⛔【不可提前写下一卷】⛔⛔⛔
-    - 下一卷的关键事件、冲突、转折不能在本卷出现
-    - 本卷最后几章是"本卷收尾"，不是"下一卷开头"
-    - 只能埋伏笔暗示，不能直接开始下一卷的剧情
-14. 🚫【不可重复本卷已写】新章节必须从已写内容的结尾继续，绝不可重复已发生的情节
-15. ✅【专注当前卷任务】聚焦"${volume.title}"的核心矛盾和故事弧，不越界、不重复
-
-请严格按照以下 JSON 格式返回（只返回纯 JSON）：
-
-{
-  "chapters": [
-    {
-      "chapterNumber": ${startChapterNumber},
-      "title": "标题（8字内，无编号）",
-      "outline": "简洁大纲，40-50字：场景+冲突+悬念（标题+大纲总共不超过60字）"
-    }
-  ]
-}
-
-【重要】必须生成 ${chapterCount} 章，编号从 ${startChapterNumber} 到 ${endChapterNumber}！
-【重要】所有章节都必须在"${volume.title}"的剧情范围内，不要写下一卷的内容！
-
-只返回 JSON，不要有任何解释文字。`
+  return {
+    volumeNumber: volumeIndex + 1,
+    totalVolumes,
+    volumeTitle: volume.title,
+    volumeSummary: volume.summary,
+    mainPlot: volume.mainPlot || '',
+    keyEvents: volume.keyEvents?.join('、') || '',
+    worldSetting: worldSetting.slice(0, 800),
+    characterInfo,
+    deceasedCharacters,
+    contextSection,
+    guidance: guidance.trim(),
+    genres: genres.join('、') || '未指定',
+    styles: styles.join('、') || '未指定',
+    chapterCount,
+    startChapterNumber,
+    endChapterNumber,
+    phase1End,
+    phase2Start: phase1End + 1,
+    phase2End,
+    phase3Start: phase2End + 1,
+    phase3End,
+    phase4Start: phase3End + 1,
+    closingChapterCount: chapterCount - phase3End
+  }
 }
 
 /**
@@ -616,7 +541,8 @@ export async function generateVolumeChapters(
     writtenChaptersSummary?: string[]
   },
   useCompression: boolean = true,
-  allVolumes?: Volume[]
+  allVolumes?: Volume[],
+  signal?: AbortSignal
 ): Promise<{ chapterNumber: number; title: string; outline: string }[]> {
   console.log('[AutoCreate] 开始生成单卷章节大纲...')
   console.log('[AutoCreate] 参数:', {
@@ -723,12 +649,8 @@ export async function generateVolumeChapters(
     console.log('[AutoCreate] 调用 Gemini API...')
 
     // 使用更长的超时时间（3分钟），因为生成40章大纲需要较长时间
-    const response = await generateText(prompt, 2, 180000)
-
-    console.log('[AutoCreate] Gemini 响应长度:', response.length)
-    console.log('[AutoCreate] 解析章节数据...')
-
-    const chapters = parseChaptersResponse(response, chapterCount, startChapterNumber)
+    const response = await generateJSON(prompt, VOLUME_CHAPTERS_SCHEMA, 180000, signal, 'outline')
+    const chapters = normalizeChapters(response, chapterCount, startChapterNumber)
 
     console.log('[AutoCreate] 成功生成章节数:', chapters.length)
 
@@ -753,221 +675,112 @@ export async function generateVolumeChapters(
 
     return chapters
   } catch (error: any) {
+    if (isAbortError(error)) throw error
     console.error('[AutoCreate] 生成章节大纲失败:', error)
     throw new Error(`生成章节大纲失败: ${error.message}`)
   }
 }
 
 /**
- * 解析百万巨著框架响应
+ * 规范化框架中的角色
  */
-function parseMillionFramework(response: string): {
+function normalizeFrameworkCharacters(characters: FromSchema<typeof FRAMEWORK_CHARACTER_SCHEMA>[]): Partial<Character>[] {
+  return characters.map(char => ({
+    name: char.name || '未命名角色',
+    role: (char.role || 'supporting') as Character['role'],
+    gender: char.gender || '',
+    age: char.age || '',
+    identity: char.identity || '',
+    description: char.description || '',
+    arc: char.arc || '',
+    status: 'pending'
+  }))
+}
+
+/**
+ * 规范化百万巨著框架
+ */
+function normalizeMillionFramework(data: FromSchema<typeof MILLION_FRAMEWORK_SCHEMA>): {
   worldSetting: string
   characters: Partial<Character>[]
   volumes: { title: string; summary: string; mainPlot?: string; keyEvents?: string[] }[]
 } {
-  try {
-    let jsonStr = response.trim()
-    const jsonMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/)
-    if (jsonMatch) {
-      jsonStr = jsonMatch[1].trim()
-    }
-    const startIndex = jsonStr.indexOf('{')
-    const endIndex = jsonStr.lastIndexOf('}')
-    if (startIndex !== -1 && endIndex !== -1) {
-      jsonStr = jsonStr.substring(startIndex, endIndex + 1)
-    }
-
-    const data = JSON.parse(jsonStr)
-
-    return {
-      worldSetting: data.worldSetting || '',
-      characters: (data.characters || []).map((char: any) => ({
-        name: char.name || '未命名角色',
-        role: char.role || 'supporting',
-        gender: char.gender || '',
-        age: char.age || '',
-        identity: char.identity || '',
-        description: char.description || '',
-        arc: char.arc || '',
-        status: 'pending'
-      })),
-      volumes: (data.volumes || []).map((vol: any) => ({
-        title: vol.title || '未命名卷',
-        summary: vol.summary || '',
-        mainPlot: vol.mainPlot || '',
-        keyEvents: vol.keyEvents || []
-      }))
-    }
-  } catch (error) {
-    console.error('Failed to parse million framework:', error)
-    // 返回默认的12卷结构
-    const defaultVolumes = Array.from({ length: 12 }, (_, i) => ({
-      title: `第${i + 1}卷`,
-      summary: '',
-      mainPlot: '',
-      keyEvents: []
+  return {
+    worldSetting: data.worldSetting,
+    characters: normalizeFrameworkCharacters(data.characters),
+    volumes: data.volumes.map(vol => ({
+      title: vol.title || '未命名卷',
+      summary: vol.summary || '',
+      mainPlot: vol.mainPlot || '',
+      keyEvents: vol.keyEvents || []
     }))
-    return {
-      worldSetting: response,
-      characters: [],
-      volumes: defaultVolumes
-    }
   }
 }
 
 /**
- * 解析章节响应
+ * 规范化章节列表：补全缺失字段，并按期望章节数截断或补齐
  */
-function parseChaptersResponse(
-  response: string,
+function normalizeChapters(
+  data: FromSchema<typeof VOLUME_CHAPTERS_SCHEMA>,
   expectedCount: number = 40,
   startChapterNumber: number = 1
 ): { chapterNumber: number; title: string; outline: string }[] {
-  console.log('[AutoCreate] 开始解析章节响应，期望章节数:', expectedCount)
-
-  try {
-    let jsonStr = response.trim()
+  console.log('[AutoCreate] 解析到章节数:', data.chapters.length, '期望章节数:', expectedCount)
 
-    // 提取 JSON (如果包含在代码块中)
-    const jsonMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/)
-    if (jsonMatch) {
-      console.log('[AutoCreate] 从代码块中提取 JSON')
-      jsonStr = jsonMatch[1].trim()
+  const chapters = data.chapters.map((ch, index) => {
+    const chapter = {
+      chapterNumber: ch.chapterNumber || (startChapterNumber + index),
+      title: ch.title || `未命名章节`,
+      outline: ch.outline || ''
     }
 
-    // 提取 JSON 对象
-    const startIndex = jsonStr.indexOf('{')
-    const endIndex = jsonStr.lastIndexOf('}')
-    if (startIndex !== -1 && endIndex !== -1) {
-      jsonStr = jsonStr.substring(startIndex, endIndex + 1)
-    } else {
-      console.warn('[AutoCreate] 未找到 JSON 对象标记')
-      throw new Error('响应中未找到有效的 JSON 对象')
+    if (!ch.title) {
+      console.warn(`[AutoCreate] 第 ${chapter.chapterNumber} 章缺少标题`)
     }
-
-    console.log('[AutoCreate] JSON 字符串长度:', jsonStr.length)
-
-    const data = JSON.parse(jsonStr)
-
-    if (!data.chapters || !Array.isArray(data.chapters)) {
-      console.error('[AutoCreate] 响应中没有 chapters 数组')
-      throw new Error('响应格式错误：缺少 chapters 数组')
+    if (!ch.outline) {
+      console.warn(`[AutoCreate] 第 ${chapter.chapterNumber} 章缺少大纲`)
     }
 
-    console.log('[AutoCreate] 解析到章节数:', data.chapters.length)
-
-    const chapters = (data.chapters || []).map((ch: any, index: number) => {
-      const chapter = {
-        chapterNumber: ch.chapterNumber || (startChapterNumber + index),
-        title: ch.title || `未命名章节`,
-        outline: ch.outline || ''
-      }
-
-      if (!ch.title) {
-        console.warn(`[AutoCreate] 第 ${chapter.chapterNumber} 章缺少标题`)
-      }
-      if (!ch.outline) {
-        console.warn(`[AutoCreate] 第 ${chapter.chapterNumber} 章缺少大纲`)
-      }
-
-      return chapter
-    })
+    return chapter
+  })
 
-    // 如果章节数过多，截断多余章节（防止AI误解生成过多）
-    if (chapters.length > expectedCount) {
-      console.warn(`[AutoCreate] 章节数超出预期，截断多余章节: ${chapters.length} -> ${expectedCount}`)
-      chapters.splice(expectedCount)
-    }
+  // 如果章节数过多，截断多余章节（防止AI误解生成过多）
+  if (chapters.length > expectedCount) {
+    console.warn(`[AutoCreate] 章节数超出预期，截断多余章节: ${chapters.length} -> ${expectedCount}`)
+    chapters.splice(expectedCount)
+  }
 
-    // 如果章节数不够，补充空章节
-    if (chapters.length < expectedCount) {
-      console.warn(`[AutoCreate] 章节数不足，补充空章节: ${chapters.length} -> ${expectedCount}`)
-      while (chapters.length < expectedCount) {
-        chapters.push({
-          chapterNumber: startChapterNumber + chapters.length,
-          title: `未命名章节`,
-          outline: ''
-        })
-      }
+  // 如果章节数不够，补充空章节
+  if (chapters.length < expectedCount) {
+    console.warn(`[AutoCreate] 章节数不足，补充空章节: ${chapters.length} -> ${expectedCount}`)
+    while (chapters.length < expectedCount) {
+      chapters.push({
+        chapterNumber: startChapterNumber + chapters.length,
+        title: `未命名章节`,
+        outline: ''
+      })
     }
-
-    console.log('[AutoCreate] 章节解析成功，最终章节数:', chapters.length)
-    return chapters
-  } catch (error: any) {
-    console.error('[AutoCreate] 解析章节失败:', error)
-    console.error('[AutoCreate] 原始响应 (前500字符):', response.slice(0, 500))
-    console.error('[AutoCreate] 原始响应 (后500字符):', response.slice(-500))
-
-    // 返回默认章节
-    console.log('[AutoCreate] 返回默认章节结构')
-    return Array.from({ length: expectedCount }, (_, i) => ({
-      chapterNumber: startChapterNumber + i,
-      title: `未命名章节`,
-      outline: ''
-    }))
   }
+
+  console.log('[AutoCreate] 章节解析成功，最终章节数:', chapters.length)
+  return chapters
 }
 
 /**
- * 解析框架响应
+ * 规范化微小说框架
  */
-function parseFrameworkResponse(response: string): AutoCreateResult {
-  try {
-    // 尝试提取 JSON
-    let jsonStr = response.trim()
-
-    // 如果被 markdown 代码块包裹，提取出来
-    const jsonMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/)
-    if (jsonMatch) {
-      jsonStr = jsonMatch[1].trim()
-    }
-
-    // 尝试找到 JSON 对象的开始和结束
-    const startIndex = jsonStr.indexOf('{')
-    const endIndex = jsonStr.lastIndexOf('}')
-    if (startIndex !== -1 && endIndex !== -1) {
-      jsonStr = jsonStr.substring(startIndex, endIndex + 1)
-    }
-
-    const data = JSON.parse(jsonStr)
-
-    // 验证并规范化数据
-    return {
-      worldSetting: data.worldSetting || '',
-      characters: (data.characters || []).map((char: any) => ({
-        name: char.name || '未命名角色',
-        role: char.role || 'supporting',
-        gender: char.gender || '',
-        age: char.age || '',
-        identity: char.identity || '',
-        description: char.description || '',
-        arc: char.arc || '',
-        status: 'pending'
-      })),
-      volumes: (data.volumes || []).map((vol: any) => ({
-        title: vol.title || '未命名卷',
-        summary: vol.summary || '',
-        chapters: (vol.chapters || []).map((ch: any) => ({
-          title: ch.title || '未命名章节',
-          outline: ch.outline || ''
-        }))
+function normalizeFramework(data: FromSchema<typeof MICRO_FRAMEWORK_SCHEMA>): AutoCreateResult {
+  return {
+    worldSetting: data.worldSetting,
+    characters: normalizeFrameworkCharacters(data.characters),
+    volumes: data.volumes.map(vol => ({
+      title: vol.title || '未命名卷',
+      summary: vol.summary || '',
+      chapters: (vol.chapters || []).map(ch => ({
+        title: ch.title || '未命名章节',
+        outline: ch.outline || ''
       }))
-    }
-  } catch (error) {
-    console.error('Failed to parse framework response:', error)
-    console.log('Raw response:', response)
-
-    // 返回默认结构
-    return {
-      worldSetting: response, // 把原始响应作为世界观
-      characters: [],
-      volumes: [{
-        title: '第一卷',
-        summary: '',
-        chapters: [{ title: '第一章', outline: '' }]
-      }]
-    }
+    }))
   }
 }
 
@@ -997,7 +810,8 @@ export async function generateSingleChapterOutline(
     volumeTitle?: string         // 当前卷标题
     totalChaptersInVolume?: number  // 本卷总章节数
     currentChapterInVolume?: number // 当前是本卷第几章
-  }
+  },
+  signal?: AbortSignal
 ): Promise<{ title: string; outline: string }> {
   const guidanceText = guidance.trim() ? `\n【指导】${guidance.trim()}` : ''
 
@@ -1061,19 +875,10 @@ export async function generateSingleChapterOutline(
 返回JSON：{"title":"标题（10字内，无编号）","outline":"50-80字：场景+冲突+悬念，简洁无废话"}`
 
   // 使用较长的超时时间（2分钟）
-  const response = await generateText(prompt, 2, 120000)
-
-  try {
-    let jsonStr = response.trim()
-    const match = jsonStr.match(/\{[\s\S]*\}/)
-    if (match) jsonStr = match[0]
-    const data = JSON.parse(jsonStr)
-    return {
-      title: data.title || '未命名',
-      outline: data.outline || ''
-    }
-  } catch {
-    return { title: '未命名', outline: response.slice(0, 150) }
+  const data = await generateJSON(prompt, SINGLE_CHAPTER_SCHEMA, 120000, signal, 'outline')
+  return {
+    title: data.title || '未命名',
+    outline: data.outline || ''
   }
 }
 
@@ -1097,7 +902,8 @@ export async function generateChaptersOneByOne(
     nextVolumeTitle?: string     // 下一卷标题（重要边界标识）
     characterInfo?: string       // 角色档案（精简版）
     volumeTitle?: string         // 当前卷标题
-  }
+  },
+  signal?: AbortSignal
 ): Promise<{ chapterNumber: number; title: string; outline: string }[]> {
   const startNum = startChapterNumber || (existingChapters.length + 1)
 
@@ -1151,7 +957,8 @@ export async function generateChaptersOneByOne(
         volumeSummary,
         genres,
         guidance,
-        contextInfo
+        contextInfo,
+        signal
       )
 
       console.log(`[AutoCreate] 第 ${chapterNum} 章生成成功:`, result.title)
@@ -1168,6 +975,7 @@ export async function generateChaptersOneByOne(
     console.log('[AutoCreate] 逐章生成完成，总计:', results.length)
     return results
   } catch (error: any) {
+    if (isAbortError(error)) throw error
     console.error('[AutoCreate] 逐章生成失败:', error)
     const failedChapter = results.length + 1
     const errorMsg = error.message || String(error)
@@ -1189,7 +997,8 @@ export async function generateChapterContent(
   characters: { name: string; description: string; status?: string; deathChapter?: string }[],
   chapterOutline: string,
   previousContent: string,
-  styles: string[]
+  styles: string[],
+  signal?: AbortSignal
 ): Promise<string> {
   // 分离存活和已故角色
   const activeChars = characters.filter(c => c.status !== 'deceased')
@@ -1240,5 +1049,5 @@ ${styles.join('、') || '现代轻快、画面感强'}
 请直接输出正文内容，不要包含任何元信息或解释。`
 
   // 使用较长的超时时间（3分钟），因为生成正文需要更长时间
-  return generateText(prompt, 2, 180000)
+  return generateText(prompt, 2, 180000, signal, 'chapter')
 }
@@ -1,5 +1,17 @@
-import { generateText } from './gemini'
+import { generateText, generateTextStream } from './gemini'
+import { isAbortError, abortable, generateJSON, generateTextWithSource } from './ai'
+import type { JSONSchema, GenerationSource } from './ai'
 import type { Character } from '../types'
+import { renderPrompt, getActiveTemplateContent } from './prompt-templates'
+import { fitPromptSections, getPromptBudget } from './prompt-budget'
+import type { PromptSection } from './prompt-budget'
+import type { PromptVariables } from './prompt-templates'
+import { buildRelatedPassages } from './retrieval'
+import { buildMemoryContext, updateMemoryAfterChapter } from './memory-manager'
+import { indexChapterEntities } from './codex'
+import { detectChapterPlotThreads, buildPlotReminder } from './plot-tracker'
+import { recordChapterEmotion, buildEmotionGuidance } from './emotional-arc'
+import { checkChapterConsistency } from './consistency-checker'
 // Anti-AI guidelines integrated into prompts
 // import { getFullAntiAIGuidelines, getSceneSpecificGuidelines, generateSelfCheckList, ENHANCED_ANTI_AI_GUIDELINES } from './anti-ai-guidelines'
 
@@ -14,7 +26,8 @@ export async function generateStorySummary(
   options?: {
     triggerReason?: 'interval' | 'major_event' | 'character_death' | 'power_up' | 'new_arc'
     majorEvent?: string
-  }
+  },
+  signal?: AbortSignal
 ): Promise<string> {
   if (recentChapters.length === 0) return existingSummary
 
@@ -66,9 +79,20 @@ ${triggerContext}
 只输出摘要内容，不要任何解释。`
 
   // 使用较长的超时时间（2分钟）
-  return generateText(prompt, 2, 120000)
+  return generateText(prompt, 2, 120000, signal, 'analysis')
 }
 
+// 重大事件检测结果结构
+const MAJOR_EVENT_CHECK_SCHEMA = {
+  type: 'object',
+  properties: {
+    hasMajorEvent: { type: 'boolean' },
+    eventType: { type: 'string', enum: ['character_death', 'power_up', 'major_event', 'new_arc'] },
+    description: { type: 'string' }
+  },
+  required: ['hasMajorEvent']
+} as const satisfies JSONSchema
+
 /**
  * 检测是否应该更新摘要（事件驱动）
  */
@@ -76,7 +100,8 @@ export async function shouldUpdateSummary(
   chapterContent: string,
   chapterIndex: number,
   lastUpdateChapter: number,
-  config: { intervalChapters: number } = { intervalChapters: 10 }
+  config: { intervalChapters: number } = { intervalChapters: 10 },
+  signal?: AbortSignal
 ): Promise<{
   shouldUpdate: boolean
   reason: 'interval' | 'major_event' | 'character_death' | 'power_up' | 'new_arc' | null
@@ -110,20 +135,16 @@ ${chapterContent.slice(0, 1500)}
 只输出JSON。`
 
   try {
-    const result = await generateText(prompt)
-    const jsonMatch = result.match(/```json\s*([\s\S]*?)\s*```/) || result.match(/\{[\s\S]*\}/)
-
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[1] || jsonMatch[0])
-      if (parsed.hasMajorEvent && parsed.eventType) {
-        return {
-          shouldUpdate: true,
-          reason: parsed.eventType,
-          eventDescription: parsed.description
-        }
+    const parsed = await generateJSON(prompt, MAJOR_EVENT_CHECK_SCHEMA, undefined, signal, 'analysis')
+    if (parsed.hasMajorEvent && parsed.eventType) {
+      return {
+        shouldUpdate: true,
+        reason: parsed.eventType,
+        eventDescription: parsed.description
       }
     }
   } catch (e) {
+    if (isAbortError(e)) throw e
     // 检测失败，不触发更新
   }
 
@@ -187,11 +208,60 @@ export interface VolumeTransitionContext {
 }
 
 /**
- * 严格按大纲写作 - 单章生成
+ * 写作时附加的检索上下文
+ */
+export interface ChapterExtraContext {
+  relatedPassages?: string       // 检索到的相关历史章节片段（每个片段一行）
+  memoryContext?: string         // 分层记忆中的当前状态（角色状态、进行中的冲突、近期剧情）
+  plotReminder?: string          // 本章应揭晓或暗示的伏笔
+  emotionGuidance?: string       // 根据近期情感曲线给出的本章节奏建议
+}
+
+/**
+ * 按作品的写作上下文开关收集记忆档案、伏笔提醒和情感节奏建议
+ * @param previousChapterIds - 本章之前的全书章节 ID（按全书顺序），本章编号为其数量 + 1
+ * @param signal - 取消时不再等待排队中的记忆、伏笔和情感分析
+ */
+export async function buildWritingGuidance(
+  projectId: string,
+  previousChapterIds: string[],
+  signal?: AbortSignal
+): Promise<Pick<ChapterExtraContext, 'memoryContext' | 'plotReminder' | 'emotionGuidance'>> {
+  // 读取开关失败时按默认（全部开启）处理，不影响写作
+  const project = await window.electron.db.getProject(projectId).catch(error => {
+    console.warn('[ChapterWriter] 读取写作上下文开关失败:', error)
+    return null
+  })
+  const toggles = project?.writingContext || {}
+  const [memoryContext, plotReminder, emotionGuidance] = await abortable(Promise.all([
+    toggles.memory !== false ? buildMemoryContext(projectId) : '',
+    toggles.plot !== false ? buildPlotReminder(projectId, previousChapterIds.length + 1) : '',
+    toggles.emotion !== false ? buildEmotionGuidance(projectId, previousChapterIds) : ''
+  ]), signal)
+  return { memoryContext, plotReminder, emotionGuidance }
+}
+
+/**
+ * 构建严格按大纲写作的提示词（单章）
  * @param storySummary - 前情提要，用于保持长篇连贯性
  * @param volumeContext - 跨卷上下文信息
  */
-export async function writeChapterStrict(
+export function buildStrictChapterPrompt(
+  ...args: Parameters<typeof strictChapterPromptVariables>
+): string {
+  return renderPrompt('chapter-strict', strictChapterPromptVariables(...args))
+}
+
+// 角色在提示词中的排列顺序（按整行裁剪时先保留主角和反派）
+const ROLE_ORDER: Record<string, number> = { protagonist: 0, antagonist: 1 }
+
+const roleLabel = (c: Character) => c.role === 'protagonist' ? '主角' : c.role === 'antagonist' ? '反派' : '配角'
+
+/**
+ * 单章写作提示词变量
+ * 各部分篇幅按写作模型的上下文窗口分配：最小值沿用原先的固定截取长度，大窗口模型获得更完整的上下文
+ */
+export function strictChapterPromptVariables(
   worldSetting: string,
   characters: Character[],
   chapterTitle: string,
@@ -201,349 +271,168 @@ export async function writeChapterStrict(
   styles: string[],
   targetWordCount: number = 2500,
   storySummary: string = '',
-  volumeContext?: VolumeTransitionContext
-): Promise<string> {
+  volumeContext?: VolumeTransitionContext,
+  extraContext?: ChapterExtraContext
+): PromptVariables {
   // 分类角色状态
-  const activeChars = characters.filter(c => c.status !== 'deceased')
+  const activeChars = characters
+    .filter(c => c.status !== 'deceased')
+    .sort((a, b) => (ROLE_ORDER[a.role] ?? 2) - (ROLE_ORDER[b.role] ?? 2))
   const deceasedChars = characters.filter(c => c.status === 'deceased')
 
   const characterInfo = activeChars
-    .slice(0, 6)
-    .map(c => `【${c.name}】${c.role === 'protagonist' ? '主角' : c.role === 'antagonist' ? '反派' : '配角'}，${c.identity}。${c.description?.slice(0, 100) || ''}`)
+    .map(c => `【${c.name}】${roleLabel(c)}，${c.identity}。${c.description?.slice(0, 300) || ''}`)
     .join('\n')
+  const compactCharacterInfo = activeChars
+    .map(c => `【${c.name}】${roleLabel(c)}，${c.identity}。${c.description?.slice(0, 60) || ''}`)
+    .join('\n')
+  // 原先的固定格式（前 6 个角色、描述前 100 字）作为最小保留篇幅
+  const minCharacterChars = activeChars
+    .slice(0, 6)
+    .map(c => `【${c.name}】${roleLabel(c)}，${c.identity}。${c.description?.slice(0, 100) || ''}`)
+    .join('\n').length
 
-  // 死亡角色警告
-  const deceasedWarning = deceasedChars.length > 0
-    ? `\n\n【已死亡角色 - 禁止出场】\n以下角色已在之前的剧情中死亡，绝对不能让他们出现或说话：\n${deceasedChars.map(c => `- ${c.name}（已死亡）`).join('\n')}\n`
-    : ''
-
-  // 前情提要
-  const summarySection = storySummary
-    ? `\n【前情提要 - 重要剧情摘要】\n${storySummary}\n请确保本章内容与以上剧情保持一致，不要出现矛盾。\n`
-    : ''
+  // 已死亡角色列表
+  const deceasedCharacters = deceasedChars.map(c => `- ${c.name}（已死亡）`).join('\n')
 
-  // 跨卷上下文处理
+  // 跨卷上下文：只有新卷第一章才提供上一卷信息
   const isNewVolume = volumeContext?.isNewVolume || false
-  const volumeTransitionSection = isNewVolume && volumeContext?.previousVolumeName
-    ? `
-╔══════════════════════════════════════════════════════════════╗
-║  📚📚📚【新卷开始 - 重要提示】📚📚📚                          ║
-╚══════════════════════════════════════════════════════════════╝
-
-🔄 卷切换：「${volumeContext.previousVolumeName}」→「${volumeContext.currentVolumeName || '新卷'}」
-
-【新卷开篇要求】
-1. ✅ 这是新卷的第一章，可以有适当的"新篇章感"
-2. ✅ 但必须自然承接上一卷结尾，不能跳跃或遗漏
-3. ✅ 可以用简短的场景/时间切换，但要平滑过渡
-4. ❌ 不要写大段回顾或总结上一卷的内容
-5. ❌ 不要有"翻开新篇章"之类的废话
-
-【上一卷结尾回顾】
-以下是上一卷最后一章的完整内容，请仔细阅读后自然承接：
-${volumeContext.previousVolumeLastChapter || previousChapterContent}
-
-`
-    : ''
+  const previousVolumeName = isNewVolume ? volumeContext?.previousVolumeName || '' : ''
+  const styleText = styles.join('、') || '现代轻快、画面感强'
+
+  const sections: PromptSection[] = [
+    { name: 'previousChapterTail', content: previousChapterContent, priority: 6, minChars: isNewVolume ? 3000 : 1500, maxChars: isNewVolume ? 8000 : 5000, keep: 'tail' },
+    // 越靠后的剧情离本章越近，裁剪时保留结尾
+    { name: 'storySummary', content: storySummary, priority: 5, minChars: 800, maxChars: 6000, keep: 'tail' },
+    // 近期剧情在末尾，裁剪时保留结尾
+    { name: 'memoryContext', content: extraContext?.memoryContext || '', priority: 5, minChars: 0, maxChars: 4000, keep: 'tail' },
+    // 按相关度排列，裁剪时整段丢弃排在后面的片段
+    { name: 'relatedPassages', content: extraContext?.relatedPassages || '', priority: 4, minChars: 0, maxChars: 4000, keep: 'lines' },
+    // 超期伏笔排在最前，裁剪时整行丢弃排在后面的
+    { name: 'plotReminder', content: extraContext?.plotReminder || '', priority: 4, minChars: 0, maxChars: 2000, keep: 'lines' },
+    { name: 'emotionGuidance', content: extraContext?.emotionGuidance || '', priority: 3, minChars: 0, maxChars: 1000, keep: 'head' },
+    { name: 'nextChapterOutline', content: nextChapterOutline, priority: 4, minChars: 300, maxChars: 1500, keep: 'head' },
+    { name: 'characterInfo', content: characterInfo, compressed: compactCharacterInfo, priority: 4, minChars: minCharacterChars, maxChars: 6000, keep: 'lines' },
+    {
+      name: 'previousVolumeEnding',
+      content: previousVolumeName ? volumeContext?.previousVolumeLastChapter || previousChapterContent : '',
+      priority: 3,
+      minChars: 1500,
+      maxChars: 8000,
+      keep: 'tail'
+    },
+    { name: 'worldSetting', content: worldSetting, priority: 2, minChars: 600, maxChars: 8000, keep: 'head' }
+  ]
+
+  const fixedText = [getActiveTemplateContent('chapter-strict'), chapterTitle, chapterOutline, deceasedCharacters, styleText].join('\n')
+  const { values } = fitPromptSections(sections, getPromptBudget('chapter', targetWordCount), fixedText)
+
+  return {
+    chapterTitle,
+    chapterOutline,
+    nextChapterOutline: values.nextChapterOutline,
+    previousChapterTail: values.previousChapterTail,
+    previousTailLength: values.previousChapterTail.length,
+    previousVolumeName,
+    currentVolumeName: volumeContext?.currentVolumeName || '新卷',
+    previousVolumeEnding: values.previousVolumeEnding,
+    worldSetting: values.worldSetting,
+    characterInfo: values.characterInfo,
+    deceasedCharacters,
+    storySummary: values.storySummary,
+    relatedPassages: values.relatedPassages,
+    memoryContext: values.memoryContext,
+    plotReminder: values.plotReminder,
+    emotionGuidance: values.emotionGuidance,
+    styles: styleText,
+    targetWordCount
+  }
+}
 
-  const prompt = `你是一个经验丰富的网文作家，正在创作一部商业小说。你的写作风格自然流畅，没有AI的痕迹。
-
-【核心创作原则】
-像真正的人类作家一样写作，让读者完全感觉不到这是AI生成的内容。
-
-【严禁的AI写作痕迹 - 这些是AI的典型特征，必须完全避免】
-
-1. 禁止任何形式的总结和升华：
-   ❌ "这一战让他明白了..."
-   ❌ "经此一役，他终于成长了"
-   ❌ "他知道，这只是开始"
-   ❌ "命运的齿轮开始转动"
-   ❌ 章末写感悟、领悟、反思
-   ✅ 正确做法：停在具体的动作、对话或场景上
-
-2. 禁止AI式套话和过渡：
-   ❌ "就这样"、"于是"、"总之"开头
-   ❌ "就在这时"、"突然间"、"霎时间"
-   ❌ "不知过了多久"、"时间一分一秒过去"
-   ❌ "他深吸一口气"（每章都出现）
-   ❌ "眼中闪过一丝..."、"心中一动"
-   ❌ "一股强大的气息"、"一道身影"
-   ✅ 正确做法：直接写动作，省略过渡词
-
-3. 禁止抽象和模糊的描写：
-   ❌ "仿佛"、"似乎"、"宛如"过度使用
-   ❌ "难以言喻的感觉"、"莫名的情绪"
-   ❌ "说不出的压迫感"、"无法形容的..."
-   ❌ "前所未有的体验"
-   ✅ 正确做法：写具体的感官细节
-
-4. 禁止解释和说教：
-   ❌ 解释角色为什么这么做
-   ❌ 解释事件背后的意义
-   ❌ 插入作者视角的评论
-   ❌ "因为...所以..."的因果解释
-   ✅ 正确做法：只写发生了什么，让读者自己理解
-
-5. 禁止重复和注水：
-   ❌ 同一个动作或情绪反复描写
-   ❌ 换个说法重复同样的意思
-   ❌ 大段的心理独白
-   ❌ 为凑字数而拖沓
-   ✅ 正确做法：每句话都推进剧情
-
-【自然写作的技巧】
-
-1. 动作描写要具体：
-   ❌ "他很愤怒"
-   ✅ "他握紧拳头，指节发白"
-
-   ❌ "她很紧张"
-   ✅ "她咬着下唇，手指绞着衣角"
-
-2. 对话要自然简洁：
-   ❌ "我不会放过你的！"他咬牙切齿地说道，眼中充满了愤怒的火焰
-   ✅ "我不会放过你。"他说
-
-   - 不要每句话都加"他说道"、"她回答道"
-   - 对话简短有力，符合口语习惯
-   - 避免长篇大论式的对话
-
-3. 场景切换要干脆：
-   ❌ 经过了漫长的等待，时间一分一秒过去，终于...
-   ✅ 三天后。
-
-   ❌ 就在这个时候，突然间，一道身影出现了
-   ✅ 门开了，李四走了进来。
-
-4. 情绪通过细节展现：
-   ❌ 他感到非常恐惧，心中充满了害怕
-   ✅ 他的呼吸变得急促，手心渗出冷汗
-
-5. 章节结尾的处理：
-   ❌ 他转身离开，心中暗暗发誓，总有一天要报这个仇（总结）
-   ✅ 他转身离开。（停在动作）
-
-   ❌ 这一夜，注定不平静（升华）
-   ✅ 窗外传来一声尖叫。（悬念）
-
-【网文写作的实战技巧】
-
-1. 节奏控制：
-   - 紧张场景：短句、快节奏、多动作
-   - 日常场景：适当放缓，但不拖沓
-   - 对话场景：一问一答，简洁明快
-
-2. 描写的密度：
-   - 重要场景：多写感官细节（视觉、听觉、触觉）
-   - 过渡场景：一笔带过，不展开
-   - 战斗场景：动作清晰，避免"一片混乱"这种空话
-
-3. 人物塑造：
-   - 通过动作和对话展现性格
-   - 每个角色说话方式应该有区别
-   - 避免所有角色都用同样的语气
-
-4. 避免说明文式写作：
-   ❌ 这个地方叫做XX，是一个非常危险的地方，传说中...（百科式介绍）
-   ✅ "小心点，这里是XX。"张三压低声音。（通过对话自然引入）
-
-5. 制造悬念的技巧：
-   - 在关键时刻打断
-   - 留下疑问但不解答
-   - 埋下伏笔但不明说
-
-【逻辑一致性 - 绝对禁止违反】
-1. 已死亡的角色绝对不能复活或出现
-2. 已经发生的事件不能被推翻或遗忘
-3. 角色的能力、身份不能与之前的设定矛盾
-4. 时间线必须保持一致
-5. 角色性格要保持连贯，不能突然转性
-${deceasedWarning}
-
----
-
-【创作素材】
-
-【世界观背景】
-${worldSetting.slice(0, 600)}
-
-【主要角色（当前存活）】
-${characterInfo}
-${summarySection}
-${volumeTransitionSection}
-
-╔══════════════════════════════════════════════════════════════╗
-║  🎯🎯🎯【本章核心任务 - 必须严格执行】🎯🎯🎯                  ║
-╚══════════════════════════════════════════════════════════════╝
-
-📖 章节标题：${chapterTitle}
-
-📋 本章大纲（必须100%覆盖，不多不少）：
-${chapterOutline}
-
-🔴🔴🔴【严格按大纲写作 - 违反即失败】🔴🔴🔴
-1. ✅ 必须写：大纲中提到的每一个情节点、每一个事件
-2. ❌ 禁止写：大纲中没有提到的额外情节（不要自由发挥）
-3. ❌ 禁止跳过：不能省略大纲中的任何内容
-4. ❌ 禁止提前：不能写下一章大纲的内容（见下方"下章预告"）
-5. ⚠️ 节奏控制：合理分配字数，大纲中的每个点都要展开描写
-
-【大纲执行检查】
-写作前请确认：本章大纲包含哪些关键点？
-写作时请对照：每个关键点是否都已充分展开？
-写作后请检查：是否写了大纲之外的内容？是否提前写了下一章？
-
-【前文衔接】
-${previousChapterContent ? `前一章结尾（最后${isNewVolume ? '3000' : '1500'}字）：
-${previousChapterContent.slice(isNewVolume ? -3000 : -1500)}
-
-【本章开头 - 自然承接技巧】
-本章开头必须自然承接上一章结尾的悬念，不能跳过或忽略。
-
-✅ 正确的承接方式：
-
-示例1 - 直接承接动作：
-  上一章结尾：「门外传来急促的脚步声。」
-  本章开头：「门被推开，一个黑衣人闯了进来。」（直接写结果）
-  ❌ 错误：「就在这时，门被推开了。」（AI过渡词）
-  ❌ 错误：「第二天一早...」（直接跳过悬念）
-
-示例2 - 接续对话：
-  上一章结尾：「'你终于来了。'暗处有人开口。」
-  本章开头：「是李四的声音。」（揭晓身份）
-  ❌ 错误：「就这样，他们见面了。」（空话）
-
-示例3 - 解答悬念：
-  上一章结尾：「他的手机响了，是一个陌生号码。」
-  本章开头：「'喂？'他接起电话。」（自然接续）
-  ❌ 错误：「不知过了多久...」（跳过时间）
-
-【开头的黄金法则】
-1. 不用过渡词：禁止"就在这时"、"突然"、"于是"等AI惯用句
-2. 直接写动作：上一章停在哪，本章就从哪接着写
-3. 0.5秒原则：开头场景距离上一章结尾不超过0.5秒（除非明确需要时间跳跃）
-4. 承接但不重复：揭晓悬念，但不复述上一章的内容` : `这是故事的开始，从一个吸引人的场景或对话切入。
-
-【开头的写作要求】
-1. 第一段立即进入场景，不要铺垫
-2. 用动作或对话开场，不要描写或心理活动
-3. 让读者立刻进入状态`}
-
-${nextChapterOutline ? `
-╔══════════════════════════════════════════════════════════════╗
-║  ⛔⛔⛔【下章内容 - 绝对禁止提前写】⛔⛔⛔                     ║
-╚══════════════════════════════════════════════════════════════╝
-
-下一章大纲：${nextChapterOutline}
-
-🚫🚫🚫【本章禁止出现以下内容】🚫🚫🚫
-以上是下一章的剧情，本章绝对不能写！
-- ❌ 不能写下一章大纲中的任何事件
-- ❌ 不能让剧情推进到下一章的开头
-- ❌ 不能提前揭示下一章才会发生的事
-
-✅ 本章结尾的正确做法：
-- 完成本章大纲的全部内容
-- 用最后1-2句制造悬念，引向下一章
-- 但悬念只是"引子"，不是"开始写下一章"
-
-【断章技巧 - 承上启下的引子】
-本章结尾必须为下章埋下引子，用最后1-2句话制造悬念，让读者忍不住想看下一章。
-
-✅ 好的结尾示例：
-「门外传来急促的脚步声。」
-「他的手机响了，是一个陌生号码。」
-「'你终于来了。'暗处有人开口。」
-「远处升起一道黑烟。」
-
-❌ 差的结尾（有AI味）：
-「他不知道，更大的危机正在等着他。」（多余的铺垫）
-「这一切都还只是开始。」（空洞的总结）
-「他转身离开，心中暗暗发誓。」（内心独白）
-
-【结尾的黄金法则】
-1. 停在动作的一半：别写完整个动作，让读者心里痒痒
-2. 停在意外出现时：新角色、新事件、新转折，戛然而止
-3. 停在对话前半句：引出话题但不说破，吊胃口
-4. 绝对不加任何解释、评论、暗示` : `【断章技巧 - 网文结尾的艺术】
-这是一个章节的结尾，需要让读者产生"必须看下一章"的冲动。
-
-✅ 好的结尾方式：
-方式1 - 悬念型：
-  「门突然开了。」
-  「手机屏幕亮起：【你的秘密我都知道】」
-  「那道熟悉的身影出现在走廊尽头。」
-
-方式2 - 冲突升级：
-  「'你敢！'」
-  「枪声响起。」
-  「他握紧了拳头，转身走向那扇门。」
-
-方式3 - 信息爆炸：
-  「'她是你亲妹妹。'」
-  「屏幕上显示：【倒计时：00:05:00】」
-  「'老板说，行动取消。'」
-
-❌ 绝对禁止的结尾（有AI味的废话）：
-「他知道，真正的考验才刚刚开始。」（空洞总结）
-「这一夜注定不平静。」（无意义升华）
-「他转身离去，眼中闪过坚定。」（内心戏）
-「暴风雨即将来临。」（比喻废话）
-「命运的齿轮开始转动。」（中二病）
-
-【结尾写作要求】
-1. 最后一句必须是：动作、对话、或场景描写
-2. 停在最让人好奇的地方
-3. 不超过20个字
-4. 绝不加任何解释`}
-
----
-
-【写作要求】
-
-风格：${styles.join('、') || '现代轻快、画面感强'}
-字数：约${targetWordCount}字，🔴🔴🔴【硬性要求：必须不少于2000字】🔴🔴🔴
-- 这是网文平台的基本要求，少于2000字的章节会被系统拒绝
-- 请充分展开大纲中的每个情节点，确保字数达标
-- 宁缺毋滥，但必须保证2000字以上
-
-【输出规范】
-1. 直接输出正文内容，不要标题、不要解释
-2. 每段开头缩进两个全角空格（　　）
-3. 段落之间空一行
-4. 🔴 严格按大纲写，大纲有的必须写，大纲没有的不能写
-5. 🔴 不能提前写下一章的内容
-6. 最后一段必须是具体的动作、对话或场景
-7. 绝对禁止任何形式的总结句、感悟句、升华句
-
-【进阶去AI化要求】
-1. 句式变化：长短句比例3:1，每5句至少1个短句
-2. 句首变化：禁止连续2句以上"他/她"开头
-3. 词汇禁用："一时间"、"刹那间"、"冷冷道"、"淡淡道"
-4. 描写技巧：用动词代替形容词，用具体代替抽象
-5. 对话规范：每角色有独特说话方式，对话穿插动作描写
-
-【检查清单 - 写完后自查】
-□ 🔴 大纲中的每个情节点都已写到（最重要！）
-□ 🔴 没有写大纲之外的额外情节
-□ 🔴 没有提前写下一章的内容
-□ 没有"就这样"、"于是"、"总之"等AI套话
-□ 没有"眼中闪过"、"深吸一口气"等AI惯用句
-□ 没有结尾总结或升华
-□ 没有连续3句以上相同句式
-□ 对话简洁自然，有角色特色
-□ 描写具体不抽象
-□ 长短句有变化
-□ 章末是动作/对话/场景，不是感悟
-□ 字数适中不注水
-
-现在开始创作：`
+/**
+ * 生成的章节正文和实际使用的提供商/模型
+ */
+export interface ChapterGeneration {
+  content: string
+  source: GenerationSource
+}
+
+/**
+ * 严格按大纲写作 - 单章生成
+ * @param storySummary - 前情提要，用于保持长篇连贯性
+ * @param volumeContext - 跨卷上下文信息
+ * @param extraContext - 检索到的相关前文等附加上下文
+ */
+export async function writeChapterStrict(
+  worldSetting: string,
+  characters: Character[],
+  chapterTitle: string,
+  chapterOutline: string,
+  previousChapterContent: string,
+  nextChapterOutline: string,
+  styles: string[],
+  targetWordCount: number = 2500,
+  storySummary: string = '',
+  volumeContext?: VolumeTransitionContext,
+  extraContext?: ChapterExtraContext,
+  signal?: AbortSignal
+): Promise<ChapterGeneration> {
+  const prompt = buildStrictChapterPrompt(
+    worldSetting,
+    characters,
+    chapterTitle,
+    chapterOutline,
+    previousChapterContent,
+    nextChapterOutline,
+    styles,
+    targetWordCount,
+    storySummary,
+    volumeContext,
+    extraContext
+  )
 
   // 使用更长的超时时间（3分钟），因为生成正文需要较长时间
-  const content = await generateText(prompt, 2, 180000)
+  const { text, source } = await generateTextWithSource(prompt, 2, 180000, signal, 'chapter')
 
   // 确保格式正确
-  return formatToTxt(content)
+  return { content: formatToTxt(text), source }
+}
+
+/**
+ * 严格按大纲写作 - 流式生成
+ * 逐段返回原始文本，调用方在结束后用 formatToTxt 统一格式
+ * @param onSource - 开始生成前回调本次使用的提供商/模型
+ */
+export async function* writeChapterStrictStream(
+  worldSetting: string,
+  characters: Character[],
+  chapterTitle: string,
+  chapterOutline: string,
+  previousChapterContent: string,
+  nextChapterOutline: string,
+  styles: string[],
+  targetWordCount: number = 2500,
+  storySummary: string = '',
+  volumeContext?: VolumeTransitionContext,
+  extraContext?: ChapterExtraContext,
+  signal?: AbortSignal,
+  onSource?: (source: GenerationSource) => void
+): AsyncGenerator<string, void, unknown> {
+  const prompt = buildStrictChapterPrompt(
+    worldSetting,
+    characters,
+    chapterTitle,
+    chapterOutline,
+    previousChapterContent,
+    nextChapterOutline,
+    styles,
+    targetWordCount,
+    storySummary,
+    volumeContext,
+    extraContext
+  )
+
+  yield* generateTextStream(prompt, signal, 'chapter', onSource)
 }
 
 /**
@@ -557,8 +446,17 @@ export interface WriteProgress {
   error?: string
 }
 
+/**
+ * 生成使用的提供商/模型，保存到章节的 generatedBy
+ */
+export function describeGenerationSource(source: GenerationSource): string {
+  return `${source.provider}/${source.model}`
+}
+
 /**
  * 连续自动写作多章
+ * @param projectId - 提供时检索相关前文，并按作品的写作上下文开关注入记忆、伏笔和情感建议
+ * @param bookChapters - 全书章节（按全书顺序），用于计算章节编号和检索相关前文
  */
 export async function writeChaptersContinuous(
   worldSetting: string,
@@ -572,16 +470,21 @@ export async function writeChaptersContinuous(
   styles: string[],
   targetWordCount: number,
   onProgress: (progress: WriteProgress) => void,
-  onChapterComplete: (chapterId: string, content: string) => Promise<void>,
-  shouldStop: () => boolean
+  onChapterComplete: (chapterId: string, content: string, generatedBy?: string) => Promise<void>,
+  shouldStop: () => boolean,
+  signal?: AbortSignal,
+  projectId?: string,
+  bookChapters?: { id: string; title: string; content: string }[]
 ): Promise<{ completed: number; failed: number }> {
   let completed = 0
   let failed = 0
   let previousContent = ''
+  // 本次写完的章节正文（检索时覆盖传入的旧内容）
+  const writtenContents = new Map<string, string>()
 
   for (let i = 0; i < chaptersToWrite.length; i++) {
     // 检查是否应该停止
-    if (shouldStop()) {
+    if (shouldStop() || signal?.aborted) {
       break
     }
 
@@ -603,8 +506,21 @@ export async function writeChaptersContinuous(
         continue
       }
 
+      // 本章之前的章节（未提供全书章节时按待写列表计算章节编号）
+      const bookIndex = bookChapters ? bookChapters.findIndex(c => c.id === chapter.id) : -1
+      const earlierChapters = (bookIndex >= 0 ? bookChapters!.slice(0, bookIndex) : chaptersToWrite.slice(0, i))
+        .map(c => ({ id: c.id, title: c.title, content: writtenContents.get(c.id) ?? c.content }))
+
+      // 检索与本章相关的历史章节片段，以及记忆、伏笔和情感上下文
+      const relatedPassages = projectId
+        ? await buildRelatedPassages(projectId, chapter.outline, characters, earlierChapters, signal)
+        : ''
+      const guidance = projectId
+        ? await buildWritingGuidance(projectId, earlierChapters.map(c => c.id), signal)
+        : {}
+
       // 生成章节内容
-      const content = await writeChapterStrict(
+      const { content, source } = await writeChapterStrict(
         worldSetting,
         characters,
         chapter.title,
@@ -612,7 +528,11 @@ export async function writeChaptersContinuous(
         previousContent,
         nextChapter?.outline || '',
         styles,
-        targetWordCount
+        targetWordCount,
+        '',
+        undefined,
+        { relatedPassages, ...guidance },
+        signal
       )
 
       onProgress({
@@ -623,12 +543,15 @@ export async function writeChaptersContinuous(
       })
 
       // 保存章节
-      await onChapterComplete(chapter.id, content)
+      await onChapterComplete(chapter.id, content, describeGenerationSource(source))
+      writtenContents.set(chapter.id, content)
 
       previousContent = content
       completed++
 
     } catch (error: any) {
+      // 用户停止：当前请求已中止，不计为失败
+      if (isAbortError(error)) break
       console.error(`Failed to write chapter ${chapter.title}:`, error)
       failed++
       onProgress({
@@ -652,9 +575,9 @@ export async function writeChaptersContinuous(
 }
 
 /**
- * 单章重写 - 保持风格一致
+ * 构建单章重写提示词
  */
-export async function rewriteChapter(
+export function buildRewritePrompt(
   worldSetting: string,
   characters: Character[],
   chapterTitle: string,
@@ -662,7 +585,7 @@ export async function rewriteChapter(
   currentContent: string,
   styles: string[],
   instruction: string
-): Promise<string> {
+): string {
   const characterInfo = characters
     .slice(0, 4)
     .map(c => `${c.name}(${c.role})`)
@@ -701,9 +624,63 @@ ${instruction}
 
 现在开始重写：`
 
+  return prompt
+}
+
+/**
+ * 单章重写 - 保持风格一致
+ */
+export async function rewriteChapter(
+  worldSetting: string,
+  characters: Character[],
+  chapterTitle: string,
+  chapterOutline: string,
+  currentContent: string,
+  styles: string[],
+  instruction: string,
+  signal?: AbortSignal
+): Promise<ChapterGeneration> {
+  const prompt = buildRewritePrompt(
+    worldSetting,
+    characters,
+    chapterTitle,
+    chapterOutline,
+    currentContent,
+    styles,
+    instruction
+  )
+
   // 使用更长的超时时间（3分钟）
-  const content = await generateText(prompt, 2, 180000)
-  return formatToTxt(content)
+  const { text, source } = await generateTextWithSource(prompt, 2, 180000, signal, 'chapter')
+  return { content: formatToTxt(text), source }
+}
+
+/**
+ * 单章重写 - 流式生成
+ * @param onSource - 开始生成前回调本次使用的提供商/模型
+ */
+export async function* rewriteChapterStream(
+  worldSetting: string,
+  characters: Character[],
+  chapterTitle: string,
+  chapterOutline: string,
+  currentContent: string,
+  styles: string[],
+  instruction: string,
+  signal?: AbortSignal,
+  onSource?: (source: GenerationSource) => void
+): AsyncGenerator<string, void, unknown> {
+  const prompt = buildRewritePrompt(
+    worldSetting,
+    characters,
+    chapterTitle,
+    chapterOutline,
+    currentContent,
+    styles,
+    instruction
+  )
+
+  yield* generateTextStream(prompt, signal, 'chapter', onSource)
 }
 
 /**
@@ -744,7 +721,7 @@ ${chapterOutline || '无明确大纲，根据前文自然发展剧情'}
 现在开始续写：`
 
   // 使用较长的超时时间（2分钟）
-  const content = await generateText(prompt, 2, 120000)
+  const content = await generateText(prompt, 2, 120000, undefined, 'chapter')
   return formatToTxt(content)
 }
 
@@ -768,7 +745,7 @@ export async function autoWriteAll(
   styles: string[],
   targetWordCount: number,
   onProgress: (progress: WriteProgress & { volumeTitle?: string }) => void,
-  onChapterComplete: (chapterId: string, content: string) => Promise<void>,
+  onChapterComplete: (chapterId: string, content: string, generatedBy?: string) => Promise<void>,
   shouldStop: () => boolean,
   startFromChapterId?: string,
   onSummaryUpdate?: (summary: string) => Promise<void>,
@@ -777,7 +754,10 @@ export async function autoWriteAll(
     summaryInterval?: number  // 摘要更新频率（章节数），默认20
     characterInterval?: number // 角色更新频率（章节数），默认30
     enableAutoUpdate?: boolean // 是否启用自动更新，默认true
-  }
+    memoryInterval?: number    // 记忆档案更新间隔（章节数），默认每章
+  },
+  signal?: AbortSignal,
+  projectId?: string  // 提供时在写每章前检索相关前文和记忆档案，写完后更新记忆
 ): Promise<{ completed: number; failed: number; totalWords: number }> {
   let completed = 0
   let failed = 0
@@ -786,12 +766,14 @@ export async function autoWriteAll(
   let storySummary = '' // 剧情摘要
   const recentChapters: { title: string; content: string }[] = [] // 最近写的章节（用于摘要）
   const newChaptersForAnalysis: { title: string; content: string }[] = [] // 新章节（用于角色分析）
+  const writtenContents = new Map<string, string>() // 本次写成的正文（allChapters 中仍是旧内容，检索前文时使用）
 
   // 配置项（优化：缩短摘要更新间隔，支持事件驱动）
   const config = {
     summaryInterval: autoUpdateConfig?.summaryInterval || 10,  // 从20章缩短到10章
     characterInterval: autoUpdateConfig?.characterInterval || 30,
     enableAutoUpdate: autoUpdateConfig?.enableAutoUpdate !== false,
+    memoryInterval: autoUpdateConfig?.memoryInterval,
     enableEventDrivenUpdate: true  // 启用事件驱动更新
   }
   let lastSummaryUpdateChapter = 0  // 记录上次摘要更新的章节
@@ -842,7 +824,9 @@ export async function autoWriteAll(
         storySummary = await generateStorySummary(
           '',
           previousChapters.map(c => ({ title: c.title, content: c.content })),
-          characters
+          characters,
+          undefined,
+          signal
         )
         console.log('Generated initial story summary from previous chapters')
       } catch (e) {
@@ -854,7 +838,7 @@ export async function autoWriteAll(
   const chaptersToWrite = sortedChapters.slice(startIndex)
 
   for (let i = 0; i < chaptersToWrite.length; i++) {
-    if (shouldStop()) {
+    if (shouldStop() || signal?.aborted) {
       break
     }
 
@@ -932,7 +916,8 @@ export async function autoWriteAll(
             lastContent,
             globalChapterNumber,
             lastSummaryUpdateChapter,
-            { intervalChapters: config.summaryInterval }
+            { intervalChapters: config.summaryInterval },
+            signal
           )
           if (eventCheck.shouldUpdate && eventCheck.reason) {
             shouldUpdate = true
@@ -952,7 +937,8 @@ export async function autoWriteAll(
             storySummary,
             recentChapters.slice(-5),
             characters,
-            { triggerReason: updateReason, majorEvent: eventDesc }
+            { triggerReason: updateReason, majorEvent: eventDesc },
+            signal
           )
           lastSummaryUpdateChapter = globalChapterNumber
           console.log(`✅ [AutoWrite] 已更新全书摘要 (原因: ${updateReason}, 章节数: ${recentChapters.length})`)
@@ -1006,7 +992,8 @@ export async function autoWriteAll(
               storySummary,
               recentChapters.slice(-8),  // 取更多章节生成更详细的摘要
               characters,
-              { triggerReason: 'new_arc', majorEvent: `开始新卷：${chapter.volumeName || '新卷'}` }
+              { triggerReason: 'new_arc', majorEvent: `开始新卷：${chapter.volumeName || '新卷'}` },
+              signal
             )
             console.log(`✅ [AutoWrite] 跨卷时已更新全书摘要`)
             if (onSummaryUpdate) {
@@ -1026,14 +1013,32 @@ export async function autoWriteAll(
         }
       }
 
+      // 检索与本章相关的历史章节片段
+      const relatedPassages = projectId
+        ? await buildRelatedPassages(
+            projectId,
+            chapter.outline,
+            characters,
+            sortedChapters
+              .slice(0, startIndex + i)
+              .map(c => ({ id: c.id, title: c.title, content: writtenContents.get(c.id) ?? c.content })),
+            signal
+          )
+        : ''
+      // 记忆档案、伏笔提醒和情感建议（等待上一章的记忆、伏笔和情感分析完成）
+      const guidance = projectId
+        ? await buildWritingGuidance(projectId, sortedChapters.slice(0, startIndex + i).map(c => c.id), signal)
+        : {}
+
       // 🔥 字数约束：生成后检查，少于 1100 字自动重写（最多重试 2 次）
       const MIN_WORD_COUNT = 1100
       const MAX_REWRITE_ATTEMPTS = 2
       let content = ''
+      let generatedBy: string | undefined
       let rewriteAttempt = 0
 
       while (rewriteAttempt <= MAX_REWRITE_ATTEMPTS) {
-        content = await writeChapterStrict(
+        const generation = await writeChapterStrict(
           worldSetting,
           characters,
           chapter.title,
@@ -1043,8 +1048,12 @@ export async function autoWriteAll(
           styles,
           targetWordCount,
           storySummary, // 传递剧情摘要
-          volumeContext  // 传递跨卷上下文
+          volumeContext,  // 传递跨卷上下文
+          { relatedPassages, ...guidance },
+          signal
         )
+        content = generation.content
+        generatedBy = describeGenerationSource(generation.source)
 
         const wordCount = content.trim().length
         if (wordCount >= MIN_WORD_COUNT) {
@@ -1071,7 +1080,23 @@ export async function autoWriteAll(
         status: 'saving'
       })
 
-      await onChapterComplete(chapter.id, content)
+      await onChapterComplete(chapter.id, content, generatedBy)
+      writtenContents.set(chapter.id, content)
+
+      // 后台检查一致性，更新记忆档案、Codex、伏笔和情感曲线，写下一章前会等待记忆更新完成
+      if (projectId && config.enableAutoUpdate) {
+        // 一致性检查需在记忆更新之前排队，与写本章之前的状态对比
+        checkChapterConsistency(projectId, chapter.id, globalChapterNumber, content, characters)
+          .catch(e => console.warn('Failed to check chapter consistency:', e))
+        updateMemoryAfterChapter(projectId, globalChapterNumber, chapter.title, content, characters, config.memoryInterval)
+          .catch(e => console.warn('Failed to update memory:', e))
+        indexChapterEntities(projectId, chapter.id, globalChapterNumber, content)
+          .catch(e => console.warn('Failed to index codex entities:', e))
+        detectChapterPlotThreads(projectId, chapter.id, globalChapterNumber, content)
+          .catch(e => console.warn('Failed to detect plot threads:', e))
+        recordChapterEmotion(projectId, chapter.id, globalChapterNumber, content)
+          .catch(e => console.warn('Failed to record chapter emotion:', e))
+      }
 
       previousContent = content
       recentChapters.push({ title: chapter.title, content })
@@ -1080,6 +1105,8 @@ export async function autoWriteAll(
       totalWords += content.length
 
     } catch (error: any) {
+      // 用户停止：当前请求已中止，不计为失败
+      if (isAbortError(error)) break
       console.error(`Failed to write chapter ${chapter.title}:`, error)
       failed++
       onProgress({
@@ -1094,11 +1121,11 @@ export async function autoWriteAll(
   }
 
   // 写作完成后，处理剩余未更新的章节
-  if (config.enableAutoUpdate && !shouldStop()) {
+  if (config.enableAutoUpdate && !shouldStop() && !signal?.aborted) {
     try {
       // 生成最终摘要（如果有剩余章节）
       if (recentChapters.length > 0) {
-        storySummary = await generateStorySummary(storySummary, recentChapters, characters)
+        storySummary = await generateStorySummary(storySummary, recentChapters, characters, undefined, signal)
         console.log(`✅ [AutoWrite] 已生成最终全书摘要 (${recentChapters.length}章)`)
 
         // 保存摘要到项目
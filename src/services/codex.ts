@@ -6,35 +6,18 @@
  * 2. 追踪实体在各章节的出现
  * 3. 检测实体属性变化
  * 4. 生成实体关系图谱
+ * 5. 按作品保存到本地数据库 codex_entities 表，章节保存后增量索引
  */
 
-import { generateText } from './gemini'
+import { generateJSON, isAbortError } from './ai'
+import type { JSONSchema } from './ai'
+import { CODEX_TYPE_LABELS } from '../types'
+import type { CodexEntity } from '../types'
+import { MIN_ANALYSIS_CHAPTER_LENGTH, hashText, createKeyedQueue } from '../utils'
 
 // ==================== 类型定义 ====================
 
-export interface CodexEntity {
-  id: string
-  name: string
-  type: 'character' | 'location' | 'item' | 'faction' | 'concept'
-  aliases: string[]  // 别名/称号
-  description: string
-  // 首次出现
-  firstAppearance: number
-  // 出现的章节
-  appearances: number[]
-  // 属性（随章节变化）
-  attributes: {
-    chapter: number
-    key: string
-    value: string
-  }[]
-  // 关联实体
-  relations: {
-    targetId: string
-    relation: string
-    since: number  // 从哪章开始
-  }[]
-}
+export type { CodexEntity }
 
 export interface Codex {
   entities: CodexEntity[]
@@ -42,6 +25,56 @@ export interface Codex {
   version: number
 }
 
+// 实体提取结果结构
+const ENTITY_EXTRACTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    newEntities: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          type: { type: 'string', enum: ['character', 'location', 'item', 'faction', 'concept'] },
+          aliases: { type: 'array', items: { type: 'string' } },
+          description: { type: 'string' }
+        },
+        required: ['name', 'type']
+      }
+    },
+    entityUpdates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          attributeChanges: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { key: { type: 'string' }, value: { type: 'string' } },
+              required: ['key', 'value']
+            }
+          }
+        },
+        required: ['name']
+      }
+    },
+    newRelations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          source: { type: 'string' },
+          target: { type: 'string' },
+          relation: { type: 'string' }
+        },
+        required: ['source', 'target', 'relation']
+      }
+    }
+  }
+} as const satisfies JSONSchema
+
 // ==================== 核心功能 ====================
 
 /**
@@ -56,12 +89,14 @@ export function createEmptyCodex(): Codex {
 }
 
 /**
- * 从章节内容提取实体
+ * 从章节内容提取实体（失败时抛出错误）
+ * 关系两端可以是已有实体，也可以是本章的新实体
  */
 export async function extractEntitiesFromChapter(
   chapterContent: string,
   chapterIndex: number,
-  existingEntities: CodexEntity[]
+  existingEntities: CodexEntity[],
+  signal?: AbortSignal
 ): Promise<{
   newEntities: Partial<CodexEntity>[]
   updatedEntities: { id: string; updates: Partial<CodexEntity> }[]
@@ -115,74 +150,61 @@ ${existingNames || '暂无'}
 
 只提取本章新出现或有变化的实体。只输出JSON。`
 
-  try {
-    const result = await generateText(prompt)
-    const jsonMatch = result.match(/```json\s*([\s\S]*?)\s*```/) || result.match(/\{[\s\S]*\}/)
-
-    if (!jsonMatch) {
-      return { newEntities: [], updatedEntities: [], newRelations: [] }
-    }
-
-    const parsed = JSON.parse(jsonMatch[1] || jsonMatch[0])
-
-    // 处理新实体
-    const newEntities: Partial<CodexEntity>[] = (parsed.newEntities || []).map((e: any) => ({
-      id: `entity_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
-      name: e.name,
-      type: e.type,
-      aliases: e.aliases || [],
-      description: e.description || '',
-      firstAppearance: chapterIndex,
-      appearances: [chapterIndex],
-      attributes: [],
-      relations: []
-    }))
-
-    // 处理实体更新
-    const updatedEntities: { id: string; updates: Partial<CodexEntity> }[] = []
-    for (const update of parsed.entityUpdates || []) {
-      const existing = existingEntities.find(e =>
-        e.name === update.name || e.aliases.includes(update.name)
-      )
-      if (existing) {
-        const newAttributes = (update.attributeChanges || []).map((attr: any) => ({
-          chapter: chapterIndex,
-          key: attr.key,
-          value: attr.value
-        }))
-        updatedEntities.push({
-          id: existing.id,
-          updates: {
-            appearances: [...existing.appearances, chapterIndex],
-            attributes: [...existing.attributes, ...newAttributes]
-          }
-        })
-      }
+  const parsed = await generateJSON(prompt, ENTITY_EXTRACTION_SCHEMA, undefined, signal, 'analysis')
+
+  // 处理新实体
+  const newEntities: Partial<CodexEntity>[] = (parsed.newEntities || []).map(e => ({
+    id: `entity_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+    name: e.name,
+    type: e.type,
+    aliases: e.aliases || [],
+    description: e.description || '',
+    firstAppearance: chapterIndex,
+    appearances: [chapterIndex],
+    attributes: [],
+    relations: []
+  }))
+
+  // 处理实体更新
+  const updatedEntities: { id: string; updates: Partial<CodexEntity> }[] = []
+  for (const update of parsed.entityUpdates || []) {
+    const existing = existingEntities.find(e =>
+      e.name === update.name || e.aliases.includes(update.name)
+    )
+    if (existing) {
+      const newAttributes = (update.attributeChanges || []).map(attr => ({
+        chapter: chapterIndex,
+        key: attr.key,
+        value: attr.value
+      }))
+      updatedEntities.push({
+        id: existing.id,
+        updates: {
+          appearances: [...existing.appearances, chapterIndex],
+          attributes: [...existing.attributes, ...newAttributes]
+        }
+      })
     }
+  }
 
-    // 处理新关系
-    const newRelations: { sourceId: string; targetId: string; relation: string }[] = []
-    for (const rel of parsed.newRelations || []) {
-      const source = existingEntities.find(e =>
-        e.name === rel.source || e.aliases.includes(rel.source)
-      )
-      const target = existingEntities.find(e =>
-        e.name === rel.target || e.aliases.includes(rel.target)
-      )
-      if (source && target) {
-        newRelations.push({
-          sourceId: source.id,
-          targetId: target.id,
-          relation: rel.relation
-        })
-      }
+  // 处理新关系（已有实体优先，找不到时再匹配本章的新实体）
+  const findEndpoint = (name: string) =>
+    existingEntities.find(e => e.name === name || e.aliases.includes(name)) ??
+    newEntities.find(e => e.name === name || e.aliases?.includes(name))
+  const newRelations: { sourceId: string; targetId: string; relation: string }[] = []
+  for (const rel of parsed.newRelations || []) {
+    const source = findEndpoint(rel.source)
+    const target = findEndpoint(rel.target)
+    if (source?.id && target?.id) {
+      newRelations.push({
+        sourceId: source.id,
+        targetId: target.id,
+        relation: rel.relation
+      })
     }
-
-    return { newEntities, updatedEntities, newRelations }
-  } catch (e) {
-    console.error('Failed to extract entities:', e)
-    return { newEntities: [], updatedEntities: [], newRelations: [] }
   }
+
+  return { newEntities, updatedEntities, newRelations }
 }
 
 /**
@@ -196,10 +218,22 @@ export function updateCodex(
   chapterIndex: number
 ): Codex {
   const entities = [...codex.entities]
+  // 重新索引时本章可能早于实体当前的首次出现（手动添加的实体为 0，保持不变）
+  const firstAppearanceOf = (entity: CodexEntity) =>
+    entity.firstAppearance > 0 ? Math.min(entity.firstAppearance, chapterIndex) : entity.firstAppearance
 
-  // 添加新实体
+  // 添加新实体（模型有时把已知实体当作新实体返回，此时只记一次出场）
   for (const newEntity of newEntities) {
-    entities.push(newEntity as CodexEntity)
+    const idx = entities.findIndex(e => e.name === newEntity.name || e.aliases.includes(newEntity.name || ''))
+    if (idx >= 0) {
+      entities[idx] = {
+        ...entities[idx],
+        firstAppearance: firstAppearanceOf(entities[idx]),
+        appearances: [...new Set([...entities[idx].appearances, chapterIndex])]
+      }
+    } else {
+      entities.push(newEntity as CodexEntity)
+    }
   }
 
   // 更新现有实体
@@ -209,6 +243,7 @@ export function updateCodex(
       entities[idx] = {
         ...entities[idx],
         ...updates,
+        firstAppearance: firstAppearanceOf(entities[idx]),
         appearances: [...new Set([...entities[idx].appearances, ...(updates.appearances || [])])]
       }
     }
@@ -305,6 +340,44 @@ export function getEntitiesInChapter(codex: Codex, chapterIndex: number): CodexE
   return codex.entities.filter(e => e.appearances.includes(chapterIndex))
 }
 
+/**
+ * 关系图中的一条边（有向：source 对 target 的关系）
+ */
+export interface CodexGraphEdge {
+  sourceId: string
+  targetId: string
+  relation: string
+  since: number
+}
+
+/**
+ * 获取截至某章的实体关系图
+ * 只包含首次出现不晚于该章的实体（手动添加、未出场的实体始终包含）和已建立的关系
+ * @param uptoChapter - 截至章节，不传则返回完整关系图
+ */
+export function getRelationGraph(
+  codex: Codex,
+  uptoChapter?: number
+): { nodes: CodexEntity[]; edges: CodexGraphEdge[] } {
+  const limit = uptoChapter ?? Infinity
+  const nodes = codex.entities.filter(e => e.firstAppearance <= limit)
+  const nodeIds = new Set(nodes.map(e => e.id))
+
+  const edges: CodexGraphEdge[] = []
+  const seen = new Set<string>()
+  for (const entity of nodes) {
+    for (const rel of entity.relations) {
+      if (rel.since > limit || !nodeIds.has(rel.targetId) || rel.targetId === entity.id) continue
+      const key = `${entity.id}|${rel.targetId}|${rel.relation}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      edges.push({ sourceId: entity.id, targetId: rel.targetId, relation: rel.relation, since: rel.since })
+    }
+  }
+
+  return { nodes, edges }
+}
+
 /**
  * 生成实体简报（用于写作提示）
  */
@@ -380,20 +453,12 @@ export function generateCodexReport(codex: Codex): string {
     byType[entity.type].push(entity)
   }
 
-  const typeLabels: Record<string, string> = {
-    character: '角色',
-    location: '地点',
-    item: '物品',
-    faction: '势力',
-    concept: '概念'
-  }
-
   let report = `# Codex 索引报告\n\n`
   report += `总实体数：${codex.entities.length}\n`
   report += `最后更新：${codex.lastUpdated}\n\n`
 
   for (const [type, entities] of Object.entries(byType)) {
-    report += `## ${typeLabels[type] || type}（${entities.length}）\n\n`
+    report += `## ${CODEX_TYPE_LABELS[type as CodexEntity['type']] || type}（${entities.length}）\n\n`
     for (const entity of entities) {
       report += `### ${entity.name}\n`
       if (entity.aliases.length > 0) {
@@ -415,3 +480,164 @@ export function generateCodexReport(codex: Codex): string {
 
   return report
 }
+
+// ==================== 持久化 ====================
+
+// 每个作品的 Codex 读写依次执行，避免后台索引和手动编辑互相覆盖
+const enqueueCodexTask = createKeyedQueue()
+
+/**
+ * 读取作品的 Codex
+ */
+export async function loadCodex(projectId: string): Promise<Codex> {
+  const entities = await window.electron.db.getCodexEntities(projectId)
+  return { ...createEmptyCodex(), entities }
+}
+
+/**
+ * 移除某章之前记录的出场、属性和关系（章节修改后重新索引时使用）
+ * 由该章引入且没有其他出场的实体一并移除，指向它们的关系也会删除
+ */
+function removeChapterFacts(entities: CodexEntity[], chapterIndex: number): { kept: CodexEntity[]; removedIds: string[] } {
+  const removedIds = entities
+    .filter(e => e.firstAppearance === chapterIndex && e.appearances.every(a => a === chapterIndex))
+    .map(e => e.id)
+  const removed = new Set(removedIds)
+
+  const kept = entities
+    .filter(e => !removed.has(e.id))
+    .map(e => {
+      const appearances = e.appearances.filter(a => a !== chapterIndex)
+      return {
+        ...e,
+        firstAppearance: e.firstAppearance === chapterIndex ? Math.min(...appearances) : e.firstAppearance,
+        appearances,
+        attributes: e.attributes.filter(a => a.chapter !== chapterIndex),
+        relations: e.relations.filter(r => r.since !== chapterIndex && !removed.has(r.targetId))
+      }
+    })
+  return { kept, removedIds }
+}
+
+/**
+ * 增量索引章节实体：正文未变化的章节直接跳过，修改过的章节先移除旧记录再重新提取
+ * @param chapterIndex - 全书章节编号（从 1 开始）
+ * @returns 更新后的 Codex，未索引时返回 null
+ */
+export function indexChapterEntities(
+  projectId: string,
+  chapterId: string,
+  chapterIndex: number,
+  chapterContent: string,
+  signal?: AbortSignal
+): Promise<Codex | null> {
+  if (chapterContent.trim().length < MIN_ANALYSIS_CHAPTER_LENGTH) return Promise.resolve(null)
+
+  return enqueueCodexTask(projectId, async () => {
+    const hash = await hashText(chapterContent)
+    const indexed = await window.electron.db.getCodexIndexedChapters(projectId)
+    if (indexed.some(c => c.chapterId === chapterId && c.contentHash === hash)) return null
+
+    const codex = await loadCodex(projectId)
+    const { kept, removedIds } = removeChapterFacts(codex.entities, chapterIndex)
+    let result: Awaited<ReturnType<typeof extractEntitiesFromChapter>>
+    try {
+      result = await extractEntitiesFromChapter(chapterContent, chapterIndex, kept, signal)
+    } catch (error) {
+      // 提取失败不标记为已索引，下次保存时重试
+      if (isAbortError(error)) throw error
+      console.warn('[Codex] 提取章节实体失败:', error)
+      return null
+    }
+
+    const updated = updateCodex({ ...codex, entities: kept }, result.newEntities, result.updatedEntities, result.newRelations, chapterIndex)
+    if (removedIds.length > 0) {
+      await window.electron.db.deleteCodexEntities(removedIds)
+    }
+    await window.electron.db.saveCodexEntities(projectId, updated.entities)
+    await window.electron.db.markCodexChapterIndexed(projectId, chapterId, hash)
+    return updated
+  })
+}
+
+/**
+ * 按全书顺序索引多个章节（已索引且未修改的章节会跳过）
+ */
+export async function indexCodexChapters(
+  projectId: string,
+  chapters: { id: string; content: string }[],
+  onProgress?: (current: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  for (let i = 0; i < chapters.length; i++) {
+    if (signal?.aborted) break
+    onProgress?.(i + 1, chapters.length)
+    await indexChapterEntities(projectId, chapters[i].id, i + 1, chapters[i].content || '', signal)
+  }
+}
+
+/**
+ * 保存手动编辑的实体
+ */
+export function saveCodexEntity(projectId: string, entity: CodexEntity): Promise<void> {
+  return enqueueCodexTask(projectId, () => window.electron.db.saveCodexEntities(projectId, [entity]))
+}
+
+/**
+ * 删除实体，并移除其他实体指向它的关系
+ */
+export function deleteCodexEntity(projectId: string, entityId: string): Promise<void> {
+  return enqueueCodexTask(projectId, async () => {
+    const { entities } = await loadCodex(projectId)
+    const referencing = entities
+      .filter(e => e.id !== entityId && e.relations.some(r => r.targetId === entityId))
+      .map(e => ({ ...e, relations: e.relations.filter(r => r.targetId !== entityId) }))
+    if (referencing.length > 0) {
+      await window.electron.db.saveCodexEntities(projectId, referencing)
+    }
+    await window.electron.db.deleteCodexEntities([entityId])
+  })
+}
+
+/**
+ * 合并重复实体：别名、出场、属性和关系并入目标实体，指向被合并实体的关系改为指向目标
+ */
+export function mergeCodexEntities(projectId: string, targetId: string, sourceIds: string[]): Promise<void> {
+  return enqueueCodexTask(projectId, async () => {
+    const { entities } = await loadCodex(projectId)
+    const target = entities.find(e => e.id === targetId)
+    const sources = entities.filter(e => sourceIds.includes(e.id) && e.id !== targetId)
+    if (!target || sources.length === 0) return
+
+    const removed = new Set(sources.map(s => s.id))
+    const retarget = (relations: CodexEntity['relations'], ownerId: string) => {
+      const seen = new Set<string>()
+      return relations
+        .map(r => (removed.has(r.targetId) ? { ...r, targetId } : r))
+        .filter(r => {
+          const key = `${r.targetId}|${r.relation}`
+          if (r.targetId === ownerId || seen.has(key)) return false
+          seen.add(key)
+          return true
+        })
+    }
+
+    const all = [target, ...sources]
+    const merged: CodexEntity = {
+      ...target,
+      aliases: [...new Set(all.flatMap(e => [e.name, ...e.aliases]))].filter(name => name !== target.name),
+      description: target.description || sources.find(s => s.description)?.description || '',
+      firstAppearance: Math.min(...all.map(e => e.firstAppearance)),
+      appearances: [...new Set(all.flatMap(e => e.appearances))].sort((a, b) => a - b),
+      attributes: all.flatMap(e => e.attributes).sort((a, b) => a.chapter - b.chapter),
+      relations: retarget(all.flatMap(e => e.relations), targetId)
+    }
+
+    const others = entities
+      .filter(e => e.id !== targetId && !removed.has(e.id) && e.relations.some(r => removed.has(r.targetId)))
+      .map(e => ({ ...e, relations: retarget(e.relations, e.id) }))
+
+    await window.electron.db.saveCodexEntities(projectId, [merged, ...others])
+    await window.electron.db.deleteCodexEntities([...removed])
+  })
+}
@@ -0,0 +1,211 @@
+/**
+ * 章节一致性检查 - 新章节与记忆中的世界状态对比
+ *
+ * 检查项：
+ * 1. 已故角色复活（本地检测，不调用 AI）
+ * 2. 时间线冲突
+ * 3. 实力/境界前后矛盾
+ * 4. 角色位置错误
+ * 5. 性格突变
+ * 6. 报告按章节保存到本地数据库 chapter_consistency_reports 表，章节保存后自动检查
+ */
+
+import { generateJSON, isAbortError } from './ai'
+import type { JSONSchema } from './ai'
+import { detectDeceasedInContent } from './character-utils'
+import { readProjectMemory } from './memory-manager'
+import type { Character } from '../types'
+import type { LayeredMemory, ConsistencyWarning, ConsistencyReport } from '../types/memory'
+import { MIN_ANALYSIS_CHAPTER_LENGTH, hashText } from '../utils'
+
+export const CONSISTENCY_TYPE_LABELS: Record<ConsistencyWarning['type'], string> = {
+  character_revival: '已故角色出场',
+  timeline_conflict: '时间线冲突',
+  power_inconsistency: '实力矛盾',
+  location_error: '位置错误',
+  personality_shift: '性格突变'
+}
+
+// 一致性检查结果结构（已故角色由本地检测，不交给 AI）
+const CONSISTENCY_SCHEMA = {
+  type: 'object',
+  properties: {
+    warnings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['timeline_conflict', 'power_inconsistency', 'location_error', 'personality_shift'] },
+          severity: { type: 'string', enum: ['warning', 'error'] },
+          description: { type: 'string' },
+          suggestion: { type: 'string' }
+        },
+        required: ['type', 'severity', 'description', 'suggestion']
+      }
+    }
+  },
+  required: ['warnings']
+} as const satisfies JSONSchema
+
+/**
+ * 检测已故角色在本章出场
+ * 记忆中死于本章或之后章节的角色不算（修改前文时）
+ */
+function findRevivals(
+  chapterContent: string,
+  chapterIndex: number,
+  characters: Character[],
+  memory: LayeredMemory
+): ConsistencyWarning[] {
+  const diedLater = new Set(
+    memory.worldState.characterStates
+      .filter(s => !s.isAlive && s.deathChapter !== undefined && s.deathChapter >= chapterIndex)
+      .map(s => s.name)
+  )
+  const { violations } = detectDeceasedInContent(chapterContent, characters.filter(c => !diedLater.has(c.name)))
+
+  return violations.map(v => ({
+    type: 'character_revival',
+    severity: 'error',
+    chapter: chapterIndex,
+    description: `已故角色「${v.name}」${v.deathChapter ? `（死于${v.deathChapter}）` : ''}在本章出场：${v.contexts[0]}`,
+    suggestion: `删除「${v.name}」的出场，或改为回忆、传闻等不与其死亡矛盾的写法`
+  }))
+}
+
+/**
+ * 请求 AI 对比本章与世界状态（失败时抛出错误）
+ * 只对比本章出现的角色；没有可对比的状态时直接返回空列表
+ */
+async function requestConsistencyCheck(
+  chapterContent: string,
+  chapterIndex: number,
+  memory: LayeredMemory,
+  signal?: AbortSignal
+): Promise<ConsistencyWarning[]> {
+  const { core, worldState, recent } = memory
+  const states = worldState.characterStates.filter(s => s.isAlive && chapterContent.includes(s.name))
+  const lastChapters = recent.lastChapters.filter(c => c.chapterIndex < chapterIndex).slice(-3)
+  if (states.length === 0 && lastChapters.length === 0) return []
+
+  const stateText = states
+    .map(s => `【${s.name}】实力：${s.currentPower || '未知'}；位置：${s.currentLocation || '未知'}；心境：${s.currentMood || '未知'}${s.recentEvents.length > 0 ? `；近期经历：${s.recentEvents.slice(-3).join('、')}` : ''}`)
+    .join('\n')
+  const recentText = lastChapters
+    .map(c => `第${c.chapterIndex}章「${c.title}」：${c.summary}`)
+    .join('\n')
+  const conflictText = worldState.activeConflicts
+    .map(c => `- ${c.description}（${c.participants.join('、')}）`)
+    .join('\n')
+  // 记忆已包含本章或之后章节时（修改前文），状态可能晚于本章
+  const stateNote = worldState.lastUpdatedChapter >= chapterIndex
+    ? `注意：以下状态截至第${worldState.lastUpdatedChapter}章，可能包含本章及之后的变化，只报告无法用后续剧情解释的明显矛盾。`
+    : `以下状态截至第${worldState.lastUpdatedChapter}章。`
+
+  const prompt = `你是一个严谨的小说编辑，请检查第${chapterIndex}章与已有设定和前文状态是否矛盾。
+
+${stateNote}
+
+${core.powerSystem ? `【力量体系】\n${core.powerSystem.slice(0, 1000)}\n\n` : ''}${stateText ? `【角色当前状态】\n${stateText}\n\n` : ''}${recentText ? `【近期剧情】\n${recentText}\n\n` : ''}${conflictText ? `【进行中的冲突】\n${conflictText}\n\n` : ''}【第${chapterIndex}章正文】
+${chapterContent.slice(0, 6000)}
+
+请只检查以下四类问题：
+- timeline_conflict: 时间线冲突（事件先后顺序、经过时间、季节昼夜与前文矛盾）
+- power_inconsistency: 实力矛盾（境界无故倒退或跳跃、能力超出当前实力且无交代）
+- location_error: 位置错误（角色出现在本章之前不可能到达的地点，且没有交代移动过程）
+- personality_shift: 性格突变（言行与心境、性格明显不符，且没有合理动机）
+
+情节本身交代了原因的变化（如突破境界、赶路、受刺激）不算问题。确定是矛盾的标为 error，存疑的标为 warning。
+description 指出本章的具体内容与哪条状态矛盾，suggestion 给出具体的修改方法。
+
+返回JSON格式：
+
+\`\`\`json
+{
+  "warnings": [
+    {
+      "type": "location_error",
+      "severity": "error",
+      "description": "问题描述",
+      "suggestion": "修改建议"
+    }
+  ]
+}
+\`\`\`
+
+没有问题时返回 {"warnings": []}。只输出JSON，不要解释。`
+
+  const parsed = await generateJSON(prompt, CONSISTENCY_SCHEMA, undefined, signal, 'analysis')
+  return parsed.warnings.map(w => ({ ...w, chapter: chapterIndex }))
+}
+
+/**
+ * 生成“重写修复”使用的修改指令
+ */
+export function buildConsistencyFixInstruction(warning: ConsistencyWarning): string {
+  return `修正本章的以下${CONSISTENCY_TYPE_LABELS[warning.type]}问题，其余情节、人物和文风保持不变：
+${warning.description}
+修改建议：${warning.suggestion}`
+}
+
+// ==================== 持久化 ====================
+
+/**
+ * 一致性检查结果：未检查时给出原因（正文太短 / 正文未变化 / 检查失败）
+ */
+export type ConsistencyCheckResult =
+  | { status: 'checked'; report: ConsistencyReport }
+  | { status: 'too_short' | 'unchanged' | 'failed' }
+
+/**
+ * 读取章节已保存的一致性报告
+ */
+export async function loadConsistencyReport(chapterId: string): Promise<ConsistencyReport | null> {
+  const record = await window.electron.db.getConsistencyReport(chapterId)
+  return record?.report ?? null
+}
+
+/**
+ * 检查章节一致性并保存报告：正文未变化的章节直接跳过
+ * 需在本章的记忆更新之前调用，才能与写本章之前的世界状态对比
+ * @param chapterIndex - 全书章节编号（从 1 开始）
+ * @returns 新的报告，未检查时返回原因
+ */
+export async function checkChapterConsistency(
+  projectId: string,
+  chapterId: string,
+  chapterIndex: number,
+  chapterContent: string,
+  characters: Character[],
+  signal?: AbortSignal
+): Promise<ConsistencyCheckResult> {
+  if (chapterContent.trim().length < MIN_ANALYSIS_CHAPTER_LENGTH) return { status: 'too_short' }
+
+  // 先排入记忆队列，读取的是之后加入的本章记忆更新之前的状态
+  const memoryPromise = readProjectMemory(projectId)
+  const contentHash = await hashText(chapterContent)
+  const saved = await window.electron.db.getConsistencyReport(chapterId)
+  if (saved?.contentHash === contentHash) return { status: 'unchanged' }
+
+  const memory = await memoryPromise
+  let warnings: ConsistencyWarning[]
+  try {
+    warnings = [
+      ...findRevivals(chapterContent, chapterIndex, characters, memory),
+      ...await requestConsistencyCheck(chapterContent, chapterIndex, memory, signal)
+    ]
+  } catch (error) {
+    // 检查失败不保存报告，下次保存时重试
+    if (isAbortError(error)) throw error
+    console.warn('[Consistency] 检查章节一致性失败:', error)
+    return { status: 'failed' }
+  }
+
+  const report: ConsistencyReport = {
+    isConsistent: warnings.length === 0,
+    warnings,
+    checkedAt: new Date().toISOString()
+  }
+  await window.electron.db.saveConsistencyReport(projectId, { chapterId, contentHash, report })
+  return { status: 'checked', report }
+}
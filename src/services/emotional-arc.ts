@@ -6,21 +6,46 @@
  * 2. 分析情感趋势
  * 3. 建议下一章情绪走向
  * 4. 检测节奏问题
+ * 5. 按章节保存到本地数据库 chapter_emotions 表，用于全书曲线
  */
 
-import { generateText } from './gemini'
+import { generateJSON, isAbortError } from './ai'
+import type { JSONSchema } from './ai'
 import type {
   EmotionPoint,
   EmotionalArc,
   EmotionSuggestion
 } from '../types/memory'
+import { MIN_ANALYSIS_CHAPTER_LENGTH, hashText, createKeyedQueue } from '../utils'
+
+// 节奏检测阈值
+const FLAT_INTENSITY = 5      // 低于该强度视为平淡
+const FLAT_STREAK = 5         // 连续平淡章数
+const HIGH_INTENSITY = 7      // 高于该强度视为高强度
+const HIGH_STREAK = 4         // 连续高强度章数
+const RHYTHM_WINDOW = 10      // 情绪类型和波动的检测窗口
+const MIN_VARIATION = 3       // 窗口内强度最大差值下限
+
+// 情感分析结果结构（章节分析与大纲预估共用）
+const EMOTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    emotion: { type: 'string' },
+    intensity: { type: 'number', minimum: 0, maximum: 10 },
+    tension: { type: 'number', minimum: 0, maximum: 10 },
+    hope: { type: 'number', minimum: -10, maximum: 10 }
+  },
+  required: ['emotion', 'intensity', 'tension', 'hope']
+} as const satisfies JSONSchema
 
 /**
- * 从章节内容分析情感数据
+ * 请求 AI 分析章节情感（失败时抛出错误）
+ * 结果缓存：记忆更新和情感曲线分析同一章节时只调用一次
  */
-export async function analyzeChapterEmotion(
+async function requestChapterEmotion(
   chapterContent: string,
-  chapterIndex: number
+  chapterIndex: number,
+  signal?: AbortSignal
 ): Promise<EmotionPoint> {
   const prompt = `你是一个专业的小说编辑，请分析以下章节的情感数据。
 
@@ -46,28 +71,25 @@ ${chapterContent.slice(0, 2500)}
 
 只输出JSON，不要解释。`
 
-  try {
-    const result = await generateText(prompt)
-    const jsonMatch = result.match(/```json\s*([\s\S]*?)\s*```/) || result.match(/\{[\s\S]*\}/)
-
-    if (!jsonMatch) {
-      return {
-        chapter: chapterIndex,
-        emotion: 'neutral',
-        intensity: 5,
-        tension: 5,
-        hope: 0
-      }
-    }
+  const parsed = await generateJSON(prompt, EMOTION_SCHEMA, undefined, signal, 'analysis', { cache: true })
+  return {
+    chapter: chapterIndex,
+    emotion: parsed.emotion || 'neutral',
+    intensity: parsed.intensity,
+    tension: parsed.tension,
+    hope: parsed.hope
+  }
+}
 
-    const parsed = JSON.parse(jsonMatch[1] || jsonMatch[0])
-    return {
-      chapter: chapterIndex,
-      emotion: parsed.emotion || 'neutral',
-      intensity: Math.min(10, Math.max(0, parsed.intensity || 5)),
-      tension: Math.min(10, Math.max(0, parsed.tension || 5)),
-      hope: Math.min(10, Math.max(-10, parsed.hope || 0))
-    }
+/**
+ * 从章节内容分析情感数据
+ */
+export async function analyzeChapterEmotion(
+  chapterContent: string,
+  chapterIndex: number
+): Promise<EmotionPoint> {
+  try {
+    return await requestChapterEmotion(chapterContent, chapterIndex)
   } catch (e) {
     console.error('Failed to analyze chapter emotion:', e)
     return {
@@ -246,15 +268,15 @@ export function detectRhythmIssues(arc: EmotionalArc): string[] {
   const issues: string[] = []
   const points = arc.chapters
 
-  if (points.length < 10) return issues
+  if (points.length < RHYTHM_WINDOW) return issues
 
   // 检测连续平淡
   let flatStreak = 0
-  for (const p of points.slice(-10)) {
-    if (p.intensity < 5) flatStreak++
+  for (const p of points.slice(-RHYTHM_WINDOW)) {
+    if (p.intensity < FLAT_INTENSITY) flatStreak++
     else flatStreak = 0
 
-    if (flatStreak >= 5) {
+    if (flatStreak >= FLAT_STREAK) {
       issues.push(`连续${flatStreak}章情绪平淡，建议增加冲突`)
       break
     }
@@ -262,34 +284,109 @@ export function detectRhythmIssues(arc: EmotionalArc): string[] {
 
   // 检测连续高潮
   let highStreak = 0
-  for (const p of points.slice(-10)) {
-    if (p.intensity > 7) highStreak++
+  for (const p of points.slice(-RHYTHM_WINDOW)) {
+    if (p.intensity > HIGH_INTENSITY) highStreak++
     else highStreak = 0
 
-    if (highStreak >= 4) {
+    if (highStreak >= HIGH_STREAK) {
       issues.push(`连续${highStreak}章高强度，建议安排喘息`)
       break
     }
   }
 
   // 检测情绪单一
-  const emotions = points.slice(-10).map(p => p.emotion)
+  const emotions = points.slice(-RHYTHM_WINDOW).map(p => p.emotion)
   const uniqueEmotions = new Set(emotions)
   if (uniqueEmotions.size <= 2) {
     issues.push(`近10章情绪类型单一，建议丰富情感变化`)
   }
 
   // 检测缺乏波动
-  const intensities = points.slice(-10).map(p => p.intensity)
+  const intensities = points.slice(-RHYTHM_WINDOW).map(p => p.intensity)
   const maxI = Math.max(...intensities)
   const minI = Math.min(...intensities)
-  if (maxI - minI < 3) {
+  if (maxI - minI < MIN_VARIATION) {
     issues.push(`近10章情绪波动过小（${minI}-${maxI}），建议增加起伏`)
   }
 
   return issues
 }
 
+export interface RhythmIssue {
+  type: 'flat' | 'intense' | 'monotone' | 'low_variation'
+  description: string
+  // 涉及的章节编号（连续区间）
+  chapters: number[]
+}
+
+/**
+ * 在全书范围检测节奏问题（detectRhythmIssues 只看最近 10 章）
+ * 连续的问题章节合并为一个区间
+ */
+export function findRhythmIssues(arc: EmotionalArc): RhythmIssue[] {
+  const points = arc.chapters
+  const issues: RhythmIssue[] = []
+  const range = (chapters: number[]) =>
+    chapters.length > 1 ? `第${chapters[0]}-${chapters[chapters.length - 1]}章` : `第${chapters[0]}章`
+
+  // 连续平淡 / 连续高强度（按相邻的已分析章节计算）
+  const collectStreaks = (match: (p: EmotionPoint) => boolean, minLength: number): number[][] => {
+    const streaks: number[][] = []
+    let current: number[] = []
+    for (const p of points) {
+      if (match(p)) {
+        current.push(p.chapter)
+      } else {
+        if (current.length >= minLength) streaks.push(current)
+        current = []
+      }
+    }
+    if (current.length >= minLength) streaks.push(current)
+    return streaks
+  }
+
+  for (const chapters of collectStreaks(p => p.intensity < FLAT_INTENSITY, FLAT_STREAK)) {
+    issues.push({ type: 'flat', chapters, description: `${range(chapters)}连续${chapters.length}章情绪平淡，建议增加冲突` })
+  }
+  for (const chapters of collectStreaks(p => p.intensity > HIGH_INTENSITY, HIGH_STREAK)) {
+    issues.push({ type: 'intense', chapters, description: `${range(chapters)}连续${chapters.length}章高强度，建议安排喘息` })
+  }
+
+  // 滑动窗口检测情绪单一和波动过小，重叠的窗口合并
+  const collectWindows = (match: (window: EmotionPoint[]) => boolean): number[][] => {
+    const ranges: number[][] = []
+    for (let i = 0; i + RHYTHM_WINDOW <= points.length; i++) {
+      const window = points.slice(i, i + RHYTHM_WINDOW)
+      if (!match(window)) continue
+      const chapters = window.map(p => p.chapter)
+      const last = ranges[ranges.length - 1]
+      if (last && last.includes(chapters[0])) {
+        ranges[ranges.length - 1] = [...new Set([...last, ...chapters])]
+      } else {
+        ranges.push(chapters)
+      }
+    }
+    return ranges
+  }
+
+  for (const chapters of collectWindows(w => new Set(w.map(p => p.emotion)).size <= 2)) {
+    issues.push({ type: 'monotone', chapters, description: `${range(chapters)}情绪类型单一，建议丰富情感变化` })
+  }
+  for (const chapters of collectWindows(w => {
+    const intensities = w.map(p => p.intensity)
+    return Math.max(...intensities) - Math.min(...intensities) < MIN_VARIATION
+  })) {
+    const intensities = points.filter(p => chapters.includes(p.chapter)).map(p => p.intensity)
+    issues.push({
+      type: 'low_variation',
+      chapters,
+      description: `${range(chapters)}情绪波动过小（${Math.min(...intensities)}-${Math.max(...intensities)}），建议增加起伏`
+    })
+  }
+
+  return issues.sort((a, b) => a.chapters[0] - b.chapters[0])
+}
+
 /**
  * 生成情感弧线可视化数据（用于图表）
  */
@@ -331,15 +428,110 @@ ${outline}
 只输出JSON。`
 
   try {
-    const result = await generateText(prompt)
-    const jsonMatch = result.match(/```json\s*([\s\S]*?)\s*```/) || result.match(/\{[\s\S]*\}/)
-
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[1] || jsonMatch[0])
-    }
+    return await generateJSON(prompt, EMOTION_SCHEMA, undefined, undefined, 'analysis')
   } catch (e) {
     console.error('Failed to estimate emotion:', e)
   }
 
   return { intensity: 5, tension: 5, hope: 0 }
 }
+
+// ==================== 持久化 ====================
+
+// 每个作品的情感数据读写依次执行，写下一章前等待上一章分析完成
+const enqueueEmotionTask = createKeyedQueue()
+
+/**
+ * 读取作品已保存的情感数据，按当前章节顺序编号
+ * @param chapterIds - 全书顺序的章节 ID（章节编号 = 下标 + 1），已删除章节的数据会被忽略
+ */
+export async function loadEmotionPoints(projectId: string, chapterIds: string[]): Promise<EmotionPoint[]> {
+  const records = await window.electron.db.getChapterEmotions(projectId)
+  const byChapter = new Map(records.map(r => [r.chapterId, r]))
+  const points: EmotionPoint[] = []
+  chapterIds.forEach((chapterId, index) => {
+    const record = byChapter.get(chapterId)
+    if (record) {
+      points.push({
+        chapter: index + 1,
+        emotion: record.emotion,
+        intensity: record.intensity,
+        tension: record.tension,
+        hope: record.hope
+      })
+    }
+  })
+  return points
+}
+
+/**
+ * 分析并保存章节情感：正文未变化的章节直接跳过
+ * @param chapterIndex - 全书章节编号（从 1 开始）
+ * @returns 新的情感数据，未分析时返回 null
+ */
+export function recordChapterEmotion(
+  projectId: string,
+  chapterId: string,
+  chapterIndex: number,
+  chapterContent: string,
+  signal?: AbortSignal
+): Promise<EmotionPoint | null> {
+  if (chapterContent.trim().length < MIN_ANALYSIS_CHAPTER_LENGTH) return Promise.resolve(null)
+  return enqueueEmotionTask(projectId, () => analyzeAndSaveEmotion(projectId, chapterId, chapterIndex, chapterContent, signal))
+}
+
+async function analyzeAndSaveEmotion(
+  projectId: string,
+  chapterId: string,
+  chapterIndex: number,
+  chapterContent: string,
+  signal?: AbortSignal
+): Promise<EmotionPoint | null> {
+  const contentHash = await hashText(chapterContent)
+  const records = await window.electron.db.getChapterEmotions(projectId)
+  if (records.some(r => r.chapterId === chapterId && r.contentHash === contentHash)) return null
+
+  let point: EmotionPoint
+  try {
+    point = await requestChapterEmotion(chapterContent, chapterIndex, signal)
+  } catch (error) {
+    // 分析失败不保存默认值，下次保存时重试
+    if (isAbortError(error)) throw error
+    console.warn('[EmotionalArc] 分析章节情感失败:', error)
+    return null
+  }
+
+  const { chapter: _chapter, ...values } = point
+  await window.electron.db.saveChapterEmotion(projectId, { chapterId, contentHash, ...values })
+  return point
+}
+
+/**
+ * 生成写作用的情感节奏建议
+ * 会等待进行中的情感分析完成；读取失败时返回空字符串
+ * @param previousChapterIds - 将要写的章节之前的全书章节 ID（按全书顺序）
+ */
+export function buildEmotionGuidance(projectId: string, previousChapterIds: string[]): Promise<string> {
+  return enqueueEmotionTask(projectId, async () =>
+    generateEmotionGuidance(buildEmotionalArc(await loadEmotionPoints(projectId, previousChapterIds)))
+  ).catch(error => {
+    console.warn('[EmotionalArc] 读取情感数据失败，跳过情感建议:', error)
+    return ''
+  })
+}
+
+/**
+ * 补全已有章节的情感数据（已分析且未修改的章节会跳过）
+ */
+export async function backfillChapterEmotions(
+  projectId: string,
+  chapters: { id: string; content: string }[],
+  onProgress?: (current: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  for (let i = 0; i < chapters.length; i++) {
+    if (signal?.aborted) break
+    onProgress?.(i + 1, chapters.length)
+    await recordChapterEmotion(projectId, chapters[i].id, i + 1, chapters[i].content || '', signal)
+  }
+}
@@ -31,7 +31,8 @@ import {
   setProvider,
   getCurrentProviderType
 } from './ai'
-import type { QuotaInfo, ModelInfo } from './ai'
+import type { QuotaInfo, ModelInfo, GenerationSource } from './ai'
+import type { UsageTaskType } from '../types'
 
 // 导出模型配置（保持向后兼容）
 export const AVAILABLE_MODELS: Record<string, ModelInfo> = getAvailableModels()
@@ -68,18 +69,24 @@ export function isGeminiReady(): boolean {
 export async function generateText(
   prompt: string,
   retries: number = 2,
-  timeout: number = 60000
+  timeout: number = 60000,
+  signal?: AbortSignal,
+  taskType?: UsageTaskType
 ): Promise<string> {
-  return aiGenerateText(prompt, retries, timeout)
+  return aiGenerateText(prompt, retries, timeout, signal, taskType)
 }
 
 /**
  * 流式生成文本
+ * @param onSource - 开始生成前回调本次使用的提供商/模型
  */
 export async function* generateTextStream(
-  prompt: string
+  prompt: string,
+  signal?: AbortSignal,
+  taskType?: UsageTaskType,
+  onSource?: (source: GenerationSource) => void
 ): AsyncGenerator<string, void, unknown> {
-  yield* aiGenerateTextStream(prompt)
+  yield* aiGenerateTextStream(prompt, signal, taskType, undefined, onSource)
 }
 
 /**
@@ -149,9 +156,10 @@ export async function generateCoverImage(
   authorName: string,
   style: string,
   genres: string[],
-  characters?: import('../types').Character[]
+  characters?: import('../types').Character[],
+  signal?: AbortSignal
 ): Promise<string> {
-  return aiGenerateCoverImage(bookTitle, authorName, style, genres, characters)
+  return aiGenerateCoverImage(bookTitle, authorName, style, genres, characters, signal)
 }
 
 /**
@@ -187,12 +195,13 @@ export async function findAvailableModel(): Promise<{
 export async function analyzeChapterForDeaths(
   chapterTitle: string,
   chapterContent: string,
-  characterNames: string[]
+  characterNames: string[],
+  signal?: AbortSignal
 ): Promise<{
   deaths: { name: string; description: string }[]
   confidence: 'high' | 'medium' | 'low'
 }> {
-  return aiAnalyzeChapterForDeaths(chapterTitle, chapterContent, characterNames)
+  return aiAnalyzeChapterForDeaths(chapterTitle, chapterContent, characterNames, signal)
 }
 
 /**
@@ -201,13 +210,14 @@ export async function analyzeChapterForDeaths(
 export async function analyzeChapterForCharacters(
   chapterTitle: string,
   chapterContent: string,
-  characterNames: string[]
+  characterNames: string[],
+  signal?: AbortSignal
 ): Promise<{
   appearances: string[]
   deaths: string[]
   relationships: { char1: string; char2: string; relation: string }[]
 }> {
-  return aiAnalyzeChapterForCharacters(chapterTitle, chapterContent, characterNames)
+  return aiAnalyzeChapterForCharacters(chapterTitle, chapterContent, characterNames, signal)
 }
 
 /**
@@ -216,7 +226,8 @@ export async function analyzeChapterForCharacters(
 export async function analyzeAllChaptersForArchive(
   chapters: { title: string; content: string }[],
   characterNames: string[],
-  onProgress?: (current: number, total: number) => void
+  onProgress?: (current: number, total: number) => void,
+  signal?: AbortSignal
 ): Promise<{
   characterUpdates: {
     name: string
@@ -226,7 +237,7 @@ export async function analyzeAllChaptersForArchive(
     relationships: { targetName: string; relation: string }[]
   }[]
 }> {
-  return aiAnalyzeAllChaptersForArchive(chapters, characterNames, onProgress)
+  return aiAnalyzeAllChaptersForArchive(chapters, characterNames, onProgress, signal)
 }
 
 /**
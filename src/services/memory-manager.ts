@@ -6,9 +6,11 @@
  * 2. 智能更新记忆
  * 3. 生成写作上下文
  * 4. 检测重大事件触发更新
+ * 5. 按作品保存到本地数据库 project_memory 表，章节保存后自动更新
  */
 
-import { generateText } from './gemini'
+import { generateJSON } from './ai'
+import type { JSONSchema } from './ai'
 import type {
   LayeredMemory,
   CoreMemory,
@@ -17,10 +19,97 @@ import type {
   CharacterState,
   ChapterSummary
 } from '../types/memory'
+import { createEmptyLayeredMemory } from '../types/memory'
 import type { Character } from '../types'
 import { analyzeChapterEmotion } from './emotional-arc'
+import { MIN_ANALYSIS_CHAPTER_LENGTH, createKeyedQueue } from '../utils'
 // import { detectPlotThreads } from './plot-tracker'
 
+// ==================== JSON 结构 ====================
+
+const CORE_MEMORY_SCHEMA = {
+  type: 'object',
+  properties: {
+    worldRules: { type: 'string' },
+    powerSystem: { type: 'string' },
+    mainConflict: { type: 'string' },
+    keyLocations: { type: 'array', items: { type: 'string' } },
+    factions: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['worldRules', 'powerSystem', 'mainConflict', 'keyLocations', 'factions']
+} as const satisfies JSONSchema
+
+const WORLD_STATE_SCHEMA = {
+  type: 'object',
+  properties: {
+    characterChanges: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          changes: {
+            type: 'object',
+            properties: {
+              isAlive: { type: 'boolean' },
+              currentPower: { type: 'string' },
+              currentLocation: { type: 'string' },
+              currentMood: { type: 'string' },
+              recentEvent: { type: 'string' }
+            }
+          }
+        },
+        required: ['name', 'changes']
+      }
+    },
+    newConflicts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          description: { type: 'string' },
+          participants: { type: 'array', items: { type: 'string' } },
+          urgency: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] }
+        },
+        required: ['description', 'participants', 'urgency']
+      }
+    },
+    resolvedConflicts: { type: 'array', items: { type: 'string' } },
+    majorEvents: { type: 'array', items: { type: 'string' } }
+  }
+} as const satisfies JSONSchema
+
+const CHAPTER_SUMMARY_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    keyEvents: { type: 'array', items: { type: 'string' } },
+    charactersAppeared: { type: 'array', items: { type: 'string' } },
+    emotionalTone: { type: 'string' },
+    hasMajorTurn: { type: 'boolean' }
+  },
+  required: ['summary']
+} as const satisfies JSONSchema
+
+const MAJOR_EVENTS_SCHEMA = {
+  type: 'object',
+  properties: {
+    events: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['character_death', 'power_up', 'major_conflict', 'plot_resolution', 'new_arc'] },
+          description: { type: 'string' },
+          urgency: { type: 'string', enum: ['immediate', 'soon', 'normal'] }
+        },
+        required: ['type', 'description', 'urgency']
+      }
+    }
+  },
+  required: ['events']
+} as const satisfies JSONSchema
+
 // ==================== 核心记忆管理 ====================
 
 /**
@@ -46,12 +135,7 @@ ${worldSetting}
 只输出JSON，提取最关键的设定。`
 
   try {
-    const result = await generateText(prompt)
-    const jsonMatch = result.match(/```json\s*([\s\S]*?)\s*```/) || result.match(/\{[\s\S]*\}/)
-
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[1] || jsonMatch[0])
-    }
+    return await generateJSON(prompt, CORE_MEMORY_SCHEMA, undefined, undefined, 'analysis')
   } catch (e) {
     console.error('Failed to extract core memory:', e)
   }
@@ -132,60 +216,55 @@ ${characterNames}
 只输出JSON，只记录本章发生变化的内容。`
 
   try {
-    const result = await generateText(prompt)
-    const jsonMatch = result.match(/```json\s*([\s\S]*?)\s*```/) || result.match(/\{[\s\S]*\}/)
-
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[1] || jsonMatch[0])
-
-      // 更新角色状态
-      const updatedCharacterStates = [...currentState.characterStates]
-      for (const change of parsed.characterChanges || []) {
-        const idx = updatedCharacterStates.findIndex(c => c.name === change.name)
-        if (idx >= 0) {
-          const updated = { ...updatedCharacterStates[idx] }
-          if (change.changes.isAlive !== undefined) updated.isAlive = change.changes.isAlive
-          if (change.changes.currentPower) updated.currentPower = change.changes.currentPower
-          if (change.changes.currentLocation) updated.currentLocation = change.changes.currentLocation
-          if (change.changes.currentMood) updated.currentMood = change.changes.currentMood
-          if (change.changes.recentEvent) {
-            updated.recentEvents = [...updated.recentEvents.slice(-4), change.changes.recentEvent]
-          }
-          if (!change.changes.isAlive && !updated.deathChapter) {
-            updated.deathChapter = chapterIndex
-          }
-          updatedCharacterStates[idx] = updated
+    const parsed = await generateJSON(prompt, WORLD_STATE_SCHEMA, undefined, undefined, 'analysis')
+
+    // 更新角色状态
+    const updatedCharacterStates = [...currentState.characterStates]
+    for (const change of parsed.characterChanges || []) {
+      const idx = updatedCharacterStates.findIndex(c => c.name === change.name)
+      if (idx >= 0) {
+        const updated = { ...updatedCharacterStates[idx] }
+        if (change.changes.isAlive !== undefined) updated.isAlive = change.changes.isAlive
+        if (change.changes.currentPower) updated.currentPower = change.changes.currentPower
+        if (change.changes.currentLocation) updated.currentLocation = change.changes.currentLocation
+        if (change.changes.currentMood) updated.currentMood = change.changes.currentMood
+        if (change.changes.recentEvent) {
+          updated.recentEvents = [...updated.recentEvents.slice(-4), change.changes.recentEvent]
+        }
+        if (!change.changes.isAlive && !updated.deathChapter) {
+          updated.deathChapter = chapterIndex
         }
+        updatedCharacterStates[idx] = updated
       }
+    }
 
-      // 更新冲突
-      const updatedConflicts = [...currentState.activeConflicts]
-      for (const conflict of parsed.newConflicts || []) {
-        updatedConflicts.push({
-          id: `conflict_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
-          description: conflict.description,
-          participants: conflict.participants,
-          startChapter: chapterIndex,
-          status: 'ongoing',
-          urgency: conflict.urgency
-        })
-      }
+    // 更新冲突
+    const updatedConflicts = [...currentState.activeConflicts]
+    for (const conflict of parsed.newConflicts || []) {
+      updatedConflicts.push({
+        id: `conflict_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+        description: conflict.description,
+        participants: conflict.participants,
+        startChapter: chapterIndex,
+        status: 'ongoing',
+        urgency: conflict.urgency
+      })
+    }
 
-      // 标记已解决的冲突
-      for (const resolved of parsed.resolvedConflicts || []) {
-        const idx = updatedConflicts.findIndex(c =>
-          c.description.includes(resolved) && c.status === 'ongoing'
-        )
-        if (idx >= 0) {
-          updatedConflicts[idx] = { ...updatedConflicts[idx], status: 'resolving' }
-        }
+    // 标记已解决的冲突
+    for (const resolved of parsed.resolvedConflicts || []) {
+      const idx = updatedConflicts.findIndex(c =>
+        c.description.includes(resolved) && c.status === 'ongoing'
+      )
+      if (idx >= 0) {
+        updatedConflicts[idx] = { ...updatedConflicts[idx], status: 'resolving' }
       }
+    }
 
-      return {
-        characterStates: updatedCharacterStates,
-        activeConflicts: updatedConflicts,
-        lastUpdatedChapter: chapterIndex
-      }
+    return {
+      characterStates: updatedCharacterStates,
+      activeConflicts: updatedConflicts,
+      lastUpdatedChapter: chapterIndex
     }
   } catch (e) {
     console.error('Failed to analyze chapter for world state:', e)
@@ -224,20 +303,15 @@ ${chapterContent.slice(0, 2000)}
 只输出JSON。`
 
   try {
-    const result = await generateText(prompt)
-    const jsonMatch = result.match(/```json\s*([\s\S]*?)\s*```/) || result.match(/\{[\s\S]*\}/)
-
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[1] || jsonMatch[0])
-      return {
-        chapterIndex,
-        title: chapterTitle,
-        summary: parsed.summary,
-        keyEvents: parsed.keyEvents || [],
-        charactersAppeared: parsed.charactersAppeared || [],
-        emotionalTone: parsed.emotionalTone || '',
-        hasMajorTurn: parsed.hasMajorTurn || false
-      }
+    const parsed = await generateJSON(prompt, CHAPTER_SUMMARY_SCHEMA, undefined, undefined, 'analysis')
+    return {
+      chapterIndex,
+      title: chapterTitle,
+      summary: parsed.summary,
+      keyEvents: parsed.keyEvents || [],
+      charactersAppeared: parsed.charactersAppeared || [],
+      emotionalTone: parsed.emotionalTone || '',
+      hasMajorTurn: parsed.hasMajorTurn || false
     }
   } catch (e) {
     console.error('Failed to generate chapter summary:', e)
@@ -342,13 +416,9 @@ ${characterNames}
 如果没有重大事件，返回空数组。只输出JSON。`
 
   try {
-    const result = await generateText(prompt)
-    const jsonMatch = result.match(/```json\s*([\s\S]*?)\s*```/) || result.match(/\{[\s\S]*\}/)
-
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[1] || jsonMatch[0])
-      return parsed.events || []
-    }
+    // 未到更新间隔时每次保存都会检测，缓存避免重复请求
+    const parsed = await generateJSON(prompt, MAJOR_EVENTS_SCHEMA, undefined, undefined, 'analysis', { cache: true })
+    return parsed.events
   } catch (e) {
     console.error('Failed to detect major events:', e)
   }
@@ -392,10 +462,12 @@ export function generateWritingContext(memory: LayeredMemory): string {
   const parts: string[] = []
 
   // 核心设定（压缩）
-  parts.push(`【世界观核心】
+  if (memory.core.worldRules || memory.core.powerSystem || memory.core.mainConflict) {
+    parts.push(`【世界观核心】
 ${memory.core.worldRules}
 力量体系：${memory.core.powerSystem}
 核心矛盾：${memory.core.mainConflict}`)
+  }
 
   // 角色当前状态
   const aliveChars = memory.worldState.characterStates.filter(c => c.isAlive)
@@ -440,12 +512,130 @@ ${memory.recent.lastChapters.map(c =>
   return parts.join('\n\n')
 }
 
+// ==================== 持久化 ====================
+
+// 设置存储键：记忆更新间隔（章节数）
+export const MEMORY_INTERVAL_SETTINGS_KEY = 'memoryInterval'
+export const DEFAULT_MEMORY_INTERVAL = 1
+
+// 每个作品的记忆读写依次执行，避免并发更新互相覆盖
+const enqueueMemoryTask = createKeyedQueue()
+
+/**
+ * 读取作品的分层记忆，未保存过时返回空记忆
+ */
+export async function loadProjectMemory(projectId: string): Promise<LayeredMemory> {
+  const saved = await window.electron.db.getProjectMemory(projectId)
+  return saved ? { ...createEmptyLayeredMemory(), ...saved } : createEmptyLayeredMemory()
+}
+
 /**
- * 计算上下文的token估算（粗略）
+ * 读取作品的分层记忆（排在进行中的记忆更新之后，之后加入的更新不影响结果）
  */
-export function estimateContextTokens(context: string): number {
-  // 中文约2字符一个token，英文约4字符一个token
-  const chineseChars = (context.match(/[\u4e00-\u9fff]/g) || []).length
-  const otherChars = context.length - chineseChars
-  return Math.ceil(chineseChars / 2 + otherChars / 4)
+export function readProjectMemory(projectId: string): Promise<LayeredMemory> {
+  return enqueueMemoryTask(projectId, () => loadProjectMemory(projectId))
 }
+
+/**
+ * 保存作品的分层记忆
+ */
+export async function saveProjectMemory(projectId: string, memory: LayeredMemory): Promise<LayeredMemory> {
+  const saved = { ...memory, lastUpdated: new Date().toISOString() }
+  await window.electron.db.saveProjectMemory(projectId, saved)
+  return saved
+}
+
+/**
+ * 补充记忆中尚未记录的角色（创建作品后新增的角色）
+ */
+function mergeCharacterStates(states: CharacterState[], characters: Character[]): CharacterState[] {
+  const known = new Set(states.map(s => s.characterId))
+  return [...states, ...initializeCharacterStates(characters.filter(c => !known.has(c.id)))]
+}
+
+/**
+ * 创建作品时初始化记忆：从世界观提取核心记忆，并记录初始角色状态
+ */
+export function initializeProjectMemory(
+  projectId: string,
+  worldSetting: string,
+  characters: Character[]
+): Promise<LayeredMemory> {
+  return enqueueMemoryTask(projectId, async () => {
+    const memory = await loadProjectMemory(projectId)
+    const core = worldSetting.trim() ? await extractCoreMemory(worldSetting) : memory.core
+    return saveProjectMemory(projectId, {
+      ...memory,
+      core,
+      worldState: {
+        ...memory.worldState,
+        characterStates: mergeCharacterStates(memory.worldState.characterStates, characters)
+      }
+    })
+  })
+}
+
+/**
+ * 章节保存后更新记忆
+ * 由 shouldUpdateMemory 判断：达到更新间隔，或检测到需要立即记录的重大事件时，分析世界状态并更新近期记忆
+ * 已记录过的章节（重复保存、修改前文）不会重复更新
+ * @param chapterIndex - 全书章节编号（从 1 开始）
+ * @returns 更新后的记忆，未更新时返回 null
+ */
+export function updateMemoryAfterChapter(
+  projectId: string,
+  chapterIndex: number,
+  chapterTitle: string,
+  chapterContent: string,
+  characters: Character[],
+  intervalChapters: number = DEFAULT_MEMORY_INTERVAL
+): Promise<LayeredMemory | null> {
+  if (chapterContent.trim().length < MIN_ANALYSIS_CHAPTER_LENGTH) return Promise.resolve(null)
+
+  return enqueueMemoryTask(projectId, async () => {
+    const memory = await loadProjectMemory(projectId)
+    const lastUpdated = memory.worldState.lastUpdatedChapter
+    if (chapterIndex <= lastUpdated) return null
+
+    // 到了更新间隔就不必检测重大事件，节省调用
+    const config = { intervalChapters }
+    const events = shouldUpdateMemory(chapterIndex, lastUpdated, [], config)
+      ? []
+      : await detectMajorEvents(chapterContent, characters)
+    if (!shouldUpdateMemory(chapterIndex, lastUpdated, events, config)) return null
+
+    const worldState = {
+      ...memory.worldState,
+      characterStates: mergeCharacterStates(memory.worldState.characterStates, characters)
+    }
+    const [stateChanges, recent] = await Promise.all([
+      analyzeChapterForWorldState(chapterContent, chapterIndex, worldState, characters),
+      updateRecentMemory(memory.recent, chapterContent, chapterTitle, chapterIndex)
+    ])
+
+    console.log(`[Memory] 已根据第${chapterIndex}章更新记忆`)
+    return saveProjectMemory(projectId, {
+      ...memory,
+      worldState: { ...worldState, ...stateChanges },
+      recent
+    })
+  })
+}
+
+/**
+ * 生成写作用的记忆上下文
+ * 会等待进行中的记忆更新完成；没有任何记忆或读取失败时返回空字符串
+ */
+export function buildMemoryContext(projectId: string): Promise<string> {
+  return enqueueMemoryTask(projectId, async () => {
+    const memory = await loadProjectMemory(projectId)
+    if (!memory.core.worldRules && memory.worldState.lastUpdatedChapter === 0) return ''
+    return generateWritingContext(memory)
+  }).catch(error => {
+    console.warn('[Memory] 读取记忆失败，跳过记忆上下文:', error)
+    return ''
+  })
+}
+
+// token 估算已移至 AI 用量模块，保留导出以兼容旧调用
+export { estimateContextTokens } from './ai/usage'
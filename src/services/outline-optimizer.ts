@@ -1,4 +1,5 @@
-import { generateText } from './gemini'
+import { isAbortError, throwIfAborted, generateJSON } from './ai'
+import type { JSONSchema } from './ai'
 import type { Volume, Character, CharacterRelation } from '../types'
 
 // 压缩函数使用的最小角色类型
@@ -101,13 +102,22 @@ export function buildVolumeIndex(volumes: Volume[]): string {
 
 // ==================== 2. 自动提取卷核心要点 ====================
 
+const KEY_POINTS_SCHEMA = {
+  type: 'object',
+  properties: {
+    keyPoints: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['keyPoints']
+} as const satisfies JSONSchema
+
 /**
  * 从卷摘要中提取3-5个核心要点（使用AI）
  */
 export async function extractVolumeKeyPoints(
   volumeTitle: string,
   volumeSummary: string,
-  volumeIndex: number
+  volumeIndex: number,
+  signal?: AbortSignal
 ): Promise<string[]> {
   if (!volumeSummary || volumeSummary.length < 50) {
     return []
@@ -129,13 +139,10 @@ export async function extractVolumeKeyPoints(
 只返回JSON，不要其他解释。`
 
   try {
-    const response = await generateText(prompt)
-    const jsonMatch = response.match(/\{[\s\S]*\}/)
-    if (jsonMatch) {
-      const data = JSON.parse(jsonMatch[0])
-      return data.keyPoints || []
-    }
+    const data = await generateJSON(prompt, KEY_POINTS_SCHEMA, undefined, signal, 'outline', { cache: true })
+    return data.keyPoints
   } catch (error) {
+    if (isAbortError(error)) throw error
     console.error('[OutlineOptimizer] 提取核心要点失败:', error)
   }
 
@@ -149,31 +156,21 @@ export async function extractVolumeKeyPoints(
  */
 export async function extractAllVolumeKeyPoints(
   volumes: Volume[],
-  onProgress?: (current: number, total: number) => void
+  onProgress?: (current: number, total: number) => void,
+  signal?: AbortSignal
 ): Promise<Volume[]> {
-  const updatedVolumes: Volume[] = []
-
-  for (let i = 0; i < volumes.length; i++) {
-    const vol = volumes[i]
-    onProgress?.(i + 1, volumes.length)
-
-    if (vol.keyPoints && vol.keyPoints.length > 0) {
-      // 已有核心要点，跳过
-      updatedVolumes.push(vol)
-      continue
-    }
-
-    const keyPoints = await extractVolumeKeyPoints(vol.title, vol.summary, i)
-    updatedVolumes.push({
-      ...vol,
-      keyPoints
-    })
-
-    // 避免API限流
-    await new Promise(resolve => setTimeout(resolve, 500))
-  }
-
-  return updatedVolumes
+  throwIfAborted(signal)
+
+  // 各卷互不依赖，并行提取（并发和限流由请求调度器控制）
+  let completed = 0
+  return Promise.all(volumes.map(async (vol, i) => {
+    // 已有核心要点，跳过
+    const updated = vol.keyPoints && vol.keyPoints.length > 0
+      ? vol
+      : { ...vol, keyPoints: await extractVolumeKeyPoints(vol.title, vol.summary, i, signal) }
+    onProgress?.(++completed, volumes.length)
+    return updated
+  }))
 }
 
 // ==================== 3. 构建压缩后的上下文 ====================
@@ -6,25 +6,80 @@
  * 2. 追踪伏笔状态
  * 3. 提醒伏笔回收
  * 4. 检测伏笔冲突
+ * 5. 按作品保存到本地数据库 plot_threads 表，章节保存后自动检测
  */
 
-import { generateText } from './gemini'
+import { generateJSON, isAbortError } from './ai'
+import type { JSONSchema } from './ai'
 import type { PlotThread, ConsistencyWarning } from '../types/memory'
+import { MIN_ANALYSIS_CHAPTER_LENGTH, hashText, createKeyedQueue } from '../utils'
+
+export const PLOT_STATUS_LABELS: Record<PlotThread['status'], string> = {
+  active: '未揭晓',
+  hinted: '已暗示',
+  resolved: '已揭晓',
+  abandoned: '已放弃'
+}
+
+export const PLOT_IMPORTANCE_LABELS: Record<PlotThread['importance'], string> = {
+  minor: '次要',
+  major: '重要',
+  critical: '关键'
+}
 
 /**
- * 从章节内容中自动检测伏笔
+ * 伏笔是否仍待揭晓（未暗示或已暗示）
  */
-export async function detectPlotThreads(
-  chapterContent: string,
-  chapterIndex: number,
-  existingThreads: PlotThread[]
-): Promise<{
+export function isOpenPlotThread(thread: PlotThread): boolean {
+  return thread.status === 'active' || thread.status === 'hinted'
+}
+
+// 伏笔检测结果结构
+const PLOT_DETECTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    newThreads: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          description: { type: 'string' },
+          importance: { type: 'string', enum: ['minor', 'major', 'critical'] },
+          relatedCharacters: { type: 'array', items: { type: 'string' } },
+          expectedChaptersToResolve: { type: 'number', minimum: 1 }
+        },
+        required: ['description']
+      }
+    },
+    hints: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { threadId: { type: 'string' }, hint: { type: 'string' } },
+        required: ['threadId', 'hint']
+      }
+    },
+    resolved: { type: 'array', items: { type: 'string' } }
+  }
+} as const satisfies JSONSchema
+
+interface PlotDetectionResult {
   newThreads: PlotThread[]
   hints: { threadId: string; hint: string }[]
   resolved: string[]
-}> {
+}
+
+/**
+ * 请求 AI 检测伏笔（失败时抛出错误）
+ */
+async function requestPlotDetection(
+  chapterContent: string,
+  chapterIndex: number,
+  existingThreads: PlotThread[],
+  signal?: AbortSignal
+): Promise<PlotDetectionResult> {
   const existingDesc = existingThreads
-    .filter(t => t.status === 'active' || t.status === 'hinted')
+    .filter(isOpenPlotThread)
     .map(t => `[${t.id}] ${t.description}`)
     .join('\n')
 
@@ -65,37 +120,40 @@ ${existingDesc || '暂无'}
 
 只输出JSON，不要解释。如果没有检测到，对应数组返回空[]。`
 
-  try {
-    const result = await generateText(prompt)
-
-    // 解析JSON
-    const jsonMatch = result.match(/```json\s*([\s\S]*?)\s*```/) || result.match(/\{[\s\S]*\}/)
-    if (!jsonMatch) {
-      return { newThreads: [], hints: [], resolved: [] }
-    }
+  const parsed = await generateJSON(prompt, PLOT_DETECTION_SCHEMA, undefined, signal, 'analysis')
+
+  // 处理新伏笔
+  const newThreads: PlotThread[] = (parsed.newThreads || []).map(t => ({
+    id: `plot_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    description: t.description,
+    plantedChapter: chapterIndex,
+    expectedResolutionRange: {
+      min: chapterIndex + 5,
+      max: chapterIndex + Math.max(t.expectedChaptersToResolve || 30, 5)
+    },
+    status: 'active' as const,
+    relatedCharacters: t.relatedCharacters || [],
+    hints: [],
+    importance: t.importance || 'major'
+  }))
+
+  return {
+    newThreads,
+    hints: parsed.hints || [],
+    resolved: parsed.resolved || []
+  }
+}
 
-    const parsed = JSON.parse(jsonMatch[1] || jsonMatch[0])
-
-    // 处理新伏笔
-    const newThreads: PlotThread[] = (parsed.newThreads || []).map((t: any) => ({
-      id: `plot_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
-      description: t.description,
-      plantedChapter: chapterIndex,
-      expectedResolutionRange: {
-        min: chapterIndex + 5,
-        max: chapterIndex + (t.expectedChaptersToResolve || 30)
-      },
-      status: 'active' as const,
-      relatedCharacters: t.relatedCharacters || [],
-      hints: [],
-      importance: t.importance || 'major'
-    }))
-
-    return {
-      newThreads,
-      hints: parsed.hints || [],
-      resolved: parsed.resolved || []
-    }
+/**
+ * 从章节内容中自动检测伏笔
+ */
+export async function detectPlotThreads(
+  chapterContent: string,
+  chapterIndex: number,
+  existingThreads: PlotThread[]
+): Promise<PlotDetectionResult> {
+  try {
+    return await requestPlotDetection(chapterContent, chapterIndex, existingThreads)
   } catch (e) {
     console.error('Failed to detect plot threads:', e)
     return { newThreads: [], hints: [], resolved: [] }
@@ -113,7 +171,7 @@ export function checkPlotConsistency(
 
   for (const thread of threads) {
     // 检查过期未揭晓的伏笔
-    if (thread.status === 'active' && chapterIndex > thread.expectedResolutionRange.max) {
+    if (isOpenPlotThread(thread) && chapterIndex > thread.expectedResolutionRange.max) {
       warnings.push({
         type: 'timeline_conflict',
         severity: 'warning',
@@ -125,7 +183,7 @@ export function checkPlotConsistency(
 
     // 检查临近揭晓期的伏笔
     if (
-      thread.status === 'active' &&
+      isOpenPlotThread(thread) &&
       chapterIndex >= thread.expectedResolutionRange.min &&
       chapterIndex <= thread.expectedResolutionRange.max
     ) {
@@ -161,6 +219,14 @@ export function checkPlotConsistency(
   return warnings
 }
 
+/**
+ * 获取已超过预期揭晓章节仍未揭晓的伏笔
+ * @param currentChapter - 当前写到的全书章节编号
+ */
+export function getOverduePlotThreads(threads: PlotThread[], currentChapter: number): PlotThread[] {
+  return threads.filter(t => isOpenPlotThread(t) && currentChapter > t.expectedResolutionRange.max)
+}
+
 /**
  * 获取当前章节应该回收的伏笔建议
  */
@@ -172,7 +238,7 @@ export function getPlotResolutionSuggestions(
   shouldHint: PlotThread[]
   canResolve: PlotThread[]
 } {
-  const activeThreads = threads.filter(t => t.status === 'active' || t.status === 'hinted')
+  const activeThreads = threads.filter(isOpenPlotThread)
 
   // 必须揭晓（已超期或即将超期）
   const mustResolve = activeThreads.filter(t =>
@@ -288,7 +354,7 @@ ${major.map(t => `- [重要] ${t.description}`).join('\n') || '无'}
 ### 详细列表
 ${threads.map(t => `
 **${t.description}**
-- 状态: ${t.status}
+- 状态: ${PLOT_STATUS_LABELS[t.status]}
 - 埋设: 第${t.plantedChapter}章
 - 预期揭晓: 第${t.expectedResolutionRange.min}-${t.expectedResolutionRange.max}章
 - 相关角色: ${t.relatedCharacters.join('、') || '无'}
@@ -297,3 +363,139 @@ ${t.resolvedChapter ? `- 揭晓于: 第${t.resolvedChapter}章` : ''}
 `).join('\n')}
 `.trim()
 }
+
+// ==================== 持久化 ====================
+
+// 每个作品的伏笔读写依次执行，避免后台检测和手动编辑互相覆盖
+const enqueuePlotTask = createKeyedQueue()
+
+/**
+ * 读取作品的伏笔（按埋设章节排序）
+ */
+export function loadPlotThreads(projectId: string): Promise<PlotThread[]> {
+  return window.electron.db.getPlotThreads(projectId)
+}
+
+/**
+ * 撤销某章之前的自动检测结果（章节修改后重新检测时使用）
+ * 手动创建或编辑过的伏笔保留，只移除该章的暗示和揭晓记录
+ */
+function revertChapterDetection(
+  threads: PlotThread[],
+  chapterIndex: number
+): { kept: PlotThread[]; removedIds: string[] } {
+  const removedIds = threads
+    .filter(t => !t.manual && t.plantedChapter === chapterIndex)
+    .map(t => t.id)
+
+  const kept = threads
+    .filter(t => !removedIds.includes(t.id))
+    .map(t => {
+      const hints = t.hints.filter(h => h.chapter !== chapterIndex)
+      const unresolved = !t.manual && t.status === 'resolved' && t.resolvedChapter === chapterIndex
+      if (hints.length === t.hints.length && !unresolved) return t
+
+      let status = t.status
+      if (unresolved || status === 'hinted') {
+        status = hints.length > 0 ? 'hinted' : 'active'
+      }
+      return { ...t, hints, status, resolvedChapter: unresolved ? undefined : t.resolvedChapter }
+    })
+
+  return { kept, removedIds }
+}
+
+/**
+ * 检测章节伏笔并保存：正文未变化的章节直接跳过，修改过的章节先撤销旧结果再重新检测
+ * @param chapterIndex - 全书章节编号（从 1 开始）
+ * @returns 更新后的伏笔列表，未检测时返回 null
+ */
+export function detectChapterPlotThreads(
+  projectId: string,
+  chapterId: string,
+  chapterIndex: number,
+  chapterContent: string,
+  signal?: AbortSignal
+): Promise<PlotThread[] | null> {
+  if (chapterContent.trim().length < MIN_ANALYSIS_CHAPTER_LENGTH) return Promise.resolve(null)
+
+  return enqueuePlotTask(projectId, async () => {
+    const hash = await hashText(chapterContent)
+    const indexed = await window.electron.db.getPlotIndexedChapters(projectId)
+    if (indexed.some(c => c.chapterId === chapterId && c.contentHash === hash)) return null
+
+    const { kept, removedIds } = revertChapterDetection(await loadPlotThreads(projectId), chapterIndex)
+    let result: PlotDetectionResult
+    try {
+      result = await requestPlotDetection(chapterContent, chapterIndex, kept, signal)
+    } catch (error) {
+      // 检测失败不标记为已检测，下次保存时重试
+      if (isAbortError(error)) throw error
+      console.warn('[PlotTracker] 检测伏笔失败:', error)
+      return null
+    }
+
+    const resolved = new Set(result.resolved)
+    const updated = kept.map(thread => {
+      if (!isOpenPlotThread(thread)) return thread
+      let next = thread
+      for (const hint of result.hints.filter(h => h.threadId === thread.id)) {
+        next = updatePlotThread(next, { addHint: { chapter: chapterIndex, content: hint.hint } })
+      }
+      if (resolved.has(thread.id)) {
+        next = updatePlotThread(next, { resolve: chapterIndex })
+      }
+      return next
+    })
+    const threads = [...updated, ...result.newThreads]
+
+    if (removedIds.length > 0) {
+      await window.electron.db.deletePlotThreads(removedIds)
+    }
+    await window.electron.db.savePlotThreads(projectId, threads)
+    await window.electron.db.markPlotChapterIndexed(projectId, chapterId, hash)
+    return threads.sort((a, b) => a.plantedChapter - b.plantedChapter)
+  })
+}
+
+/**
+ * 按全书顺序检测多个章节（已检测且未修改的章节会跳过）
+ */
+export async function detectPlotChapters(
+  projectId: string,
+  chapters: { id: string; content: string }[],
+  onProgress?: (current: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  for (let i = 0; i < chapters.length; i++) {
+    if (signal?.aborted) break
+    onProgress?.(i + 1, chapters.length)
+    await detectChapterPlotThreads(projectId, chapters[i].id, i + 1, chapters[i].content || '', signal)
+  }
+}
+
+/**
+ * 保存手动创建或编辑的伏笔（之后重新检测章节时不会被覆盖）
+ */
+export function savePlotThread(projectId: string, thread: PlotThread): Promise<void> {
+  return enqueuePlotTask(projectId, () =>
+    window.electron.db.savePlotThreads(projectId, [{ ...thread, manual: true }])
+  )
+}
+
+/**
+ * 生成写作用的伏笔提醒
+ * 会等待进行中的伏笔检测完成；读取失败时返回空字符串
+ * @param chapterIndex - 将要写的全书章节编号
+ */
+export function buildPlotReminder(projectId: string, chapterIndex: number): Promise<string> {
+  return enqueuePlotTask(projectId, async () => generatePlotReminder(chapterIndex, await loadPlotThreads(projectId)))
+    .catch(error => {
+      console.warn('[PlotTracker] 读取伏笔失败，跳过伏笔提醒:', error)
+      return ''
+    })
+}
+
+export function deletePlotThread(projectId: string, threadId: string): Promise<void> {
+  return enqueuePlotTask(projectId, () => window.electron.db.deletePlotThreads([threadId]))
+}
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { fitPromptSections, type PromptSection } from './prompt-budget'
+
+// 中文按 2 字一个 token 估算
+const section = (overrides: Partial<PromptSection> & Pick<PromptSection, 'name' | 'content'>): PromptSection => ({
+  priority: 1,
+  minChars: 0,
+  keep: 'head',
+  ...overrides
+})
+
+describe('fitPromptSections', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('预算充足时只压缩空白', () => {
+    const result = fitPromptSections([section({ name: 'world', content: '世界观  \n\n\n\n设定' })], 1000, '')
+    expect(result.values.world).toBe('世界观\n\n设定')
+    expect(result.trimmed).toEqual([])
+    expect(result.overBudget).toBe(false)
+  })
+
+  it('超过 maxChars 时截断并记录', () => {
+    const result = fitPromptSections([section({ name: 'world', content: '甲'.repeat(100), maxChars: 30 })], 1000, '')
+    expect(result.values.world).toBe('甲'.repeat(30))
+    expect(result.trimmed).toEqual(['world'])
+  })
+
+  it('先裁剪优先级低的部分', () => {
+    const result = fitPromptSections([
+      section({ name: 'important', content: '乙'.repeat(400), priority: 2 }),
+      section({ name: 'optional', content: '甲'.repeat(400), priority: 1 })
+    ], 300, '')
+    expect(result.values.important).toBe('乙'.repeat(400))
+    expect(result.values.optional).toBe('甲'.repeat(200))
+    expect(result.trimmed).toEqual(['optional'])
+    expect(result.totalTokens).toBe(300)
+  })
+
+  it('固定部分计入占用', () => {
+    const result = fitPromptSections([section({ name: 'memory', content: '甲'.repeat(400) })], 200, '丙'.repeat(200))
+    expect(result.values.memory).toBe('甲'.repeat(200))
+    expect(result.totalTokens).toBe(200)
+  })
+
+  it('优先改用精简版本，放得下时不再截断', () => {
+    const result = fitPromptSections([
+      section({ name: 'characters', content: '甲'.repeat(400), compressed: '简'.repeat(100) })
+    ], 150, '')
+    expect(result.values.characters).toBe('简'.repeat(100))
+    expect(result.overBudget).toBe(false)
+  })
+
+  it('保留结尾时在句末处断开', () => {
+    const content = '开头的内容。' + '乙'.repeat(20) + '。结尾' + '丁'.repeat(20)
+    const result = fitPromptSections([section({ name: 'previous', content, keep: 'tail' })], 13, '')
+    expect(result.values.previous).toBe('结尾' + '丁'.repeat(20))
+  })
+
+  it('按整行保留时不截断半行', () => {
+    const content = ['第一行内容', '第二行内容', '第三行内容'].join('\n')
+    const result = fitPromptSections([section({ name: 'threads', content, keep: 'lines' })], 6, '')
+    expect(result.values.threads).toBe('第一行内容\n第二行内容')
+  })
+
+  it('裁到最小字数仍超出时标记 overBudget', () => {
+    const result = fitPromptSections([
+      section({ name: 'a', content: '甲'.repeat(400), minChars: 300 }),
+      section({ name: 'b', content: '乙'.repeat(400), minChars: 400, priority: 2 })
+    ], 100, '')
+    expect(result.values.a).toBe('甲'.repeat(300))
+    expect(result.values.b).toBe('乙'.repeat(400))
+    expect(result.overBudget).toBe(true)
+    expect(result.totalTokens).toBe(350)
+  })
+})
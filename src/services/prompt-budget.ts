@@ -0,0 +1,162 @@
+/**
+ * Prompt Budget
+ * 按当前模型的上下文窗口分配提示词各部分（世界观、前情提要、前文、角色、记忆、伏笔提醒等）的篇幅
+ * 每个部分有优先级和最小保留字数：窗口充足时尽量提供完整上下文（不超过各部分上限），
+ * 超出预算时先压缩空白和改用精简版本，再按优先级从低到高截断，直到放得下
+ */
+
+import { getContextWindow, estimateContextTokens } from './ai'
+import type { UsageTaskType } from '../types'
+
+// ==================== 预算 ====================
+
+// 未知模型的上下文窗口（tokens）
+const FALLBACK_CONTEXT_WINDOW = 32000
+
+// token 估算偏乐观（部分分词器中文接近一字一 token），提示词只使用可用窗口的这一比例
+const WINDOW_SAFETY_RATIO = 0.6
+
+// 除输出外额外预留的 token（系统消息、格式开销）
+const RESERVED_TOKENS = 512
+
+/**
+ * 计算任务提示词可用的 token 预算
+ * @param taskType - 任务类型（决定使用路由后的哪个模型）
+ * @param expectedOutputChars - 预计输出字数，为输出预留空间
+ */
+export function getPromptBudget(taskType: UsageTaskType, expectedOutputChars: number): number {
+  const contextWindow = getContextWindow(taskType) || FALLBACK_CONTEXT_WINDOW
+  // 正文可能超出目标字数，按 1.5 倍预留（中文约 2 字一个 token）
+  const outputTokens = Math.ceil(expectedOutputChars * 1.5 / 2)
+  return Math.max(0, Math.floor((contextWindow - outputTokens - RESERVED_TOKENS) * WINDOW_SAFETY_RATIO))
+}
+
+// ==================== 分段裁剪 ====================
+
+export interface PromptSection {
+  name: string            // 对应的模板变量名
+  content: string
+  priority: number        // 越大越重要，超出预算时先裁剪优先级低的部分
+  minChars: number        // 裁剪后至少保留的字数（0 表示可以整段省略）
+  maxChars?: number       // 窗口再大也不超过的字数，避免单次调用过于昂贵
+  keep: 'head' | 'tail' | 'lines'  // 裁剪方式：保留开头 / 保留结尾 / 按整行保留开头
+  compressed?: string     // 精简版本（如只保留角色的一句话描述），裁剪前优先改用
+}
+
+export interface FittedPrompt {
+  values: Record<string, string>
+  totalTokens: number       // 固定部分 + 各部分的 token 估算
+  trimmed: string[]         // 被压缩或截断的部分
+  overBudget: boolean       // 所有部分都裁到最小后仍超出预算
+}
+
+/**
+ * 合并多余的空白（连续空行、行尾空格）
+ */
+function compactWhitespace(text: string): string {
+  return text
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * 把文本截到指定字数，尽量在换行或句末处断开
+ */
+function cutText(text: string, maxChars: number, keep: PromptSection['keep']): string {
+  if (text.length <= maxChars) return text
+  if (maxChars <= 0) return ''
+
+  if (keep === 'lines') {
+    const lines = text.split('\n')
+    const kept: string[] = []
+    let length = 0
+    for (const line of lines) {
+      const next = length + line.length + (kept.length > 0 ? 1 : 0)
+      if (next > maxChars) break
+      kept.push(line)
+      length = next
+    }
+    // 第一行就放不下时退回按字截断
+    return kept.length > 0 ? kept.join('\n') : text.slice(0, maxChars)
+  }
+
+  // 在截断点附近（保留部分的最后 20% 内）寻找自然断点
+  const boundary = /[\n。！？!?」”]/
+  if (keep === 'head') {
+    const head = text.slice(0, maxChars)
+    for (let i = head.length - 1; i >= Math.floor(maxChars * 0.8); i--) {
+      if (boundary.test(head[i])) return head.slice(0, i + 1)
+    }
+    return head
+  }
+
+  const tail = text.slice(-maxChars)
+  for (let i = 0; i < Math.ceil(maxChars * 0.2); i++) {
+    if (boundary.test(tail[i])) return tail.slice(i + 1)
+  }
+  return tail
+}
+
+/**
+ * 在 token 预算内放入各部分
+ * @param sections - 各部分内容
+ * @param budgetTokens - 总预算（由 getPromptBudget 计算）
+ * @param fixedText - 不可裁剪的部分（模板本身、本章大纲等），只用于计算占用
+ */
+export function fitPromptSections(sections: PromptSection[], budgetTokens: number, fixedText: string): FittedPrompt {
+  const texts = new Map<string, string>()
+  const trimmed = new Set<string>()
+
+  for (const section of sections) {
+    const compacted = compactWhitespace(section.content)
+    const capped = section.maxChars !== undefined ? cutText(compacted, section.maxChars, section.keep) : compacted
+    if (capped.length < compacted.length) trimmed.add(section.name)
+    texts.set(section.name, capped)
+  }
+
+  const fixedTokens = estimateContextTokens(fixedText)
+  const sumTokens = () => fixedTokens + [...texts.values()].reduce((sum, text) => sum + estimateContextTokens(text), 0)
+  let total = sumTokens()
+
+  // 按优先级从低到高裁剪，同优先级按传入顺序
+  const byPriority = sections
+    .map((section, index) => ({ section, index }))
+    .sort((a, b) => a.section.priority - b.section.priority || a.index - b.index)
+    .map(item => item.section)
+
+  for (const section of byPriority) {
+    if (total <= budgetTokens) break
+
+    let text = texts.get(section.name) || ''
+    if (section.compressed !== undefined) {
+      const compressed = compactWhitespace(section.compressed)
+      if (compressed.length < text.length) text = compressed
+    }
+
+    // 按本段的字符/token 比例换算需要去掉的字数（改用精简版本后超出部分相应减少）
+    const tokens = estimateContextTokens(text)
+    const over = total - estimateContextTokens(texts.get(section.name) || '') + tokens - budgetTokens
+    const charsPerToken = tokens > 0 ? text.length / tokens : 1
+    const target = Math.max(section.minChars, text.length - Math.ceil(over * charsPerToken))
+    text = cutText(text, target, section.keep)
+
+    if (text !== texts.get(section.name)) {
+      trimmed.add(section.name)
+      texts.set(section.name, text)
+      total = sumTokens()
+    }
+  }
+
+  const overBudget = total > budgetTokens
+  if (trimmed.size > 0 || overBudget) {
+    console.log(`[PromptBudget] 预算 ${budgetTokens} tokens，使用约 ${total} tokens，裁剪：${[...trimmed].join('、') || '无'}${overBudget ? '（已裁到最小仍超出）' : ''}`)
+  }
+
+  return {
+    values: Object.fromEntries(texts),
+    totalTokens: total,
+    trimmed: [...trimmed],
+    overBudget
+  }
+}
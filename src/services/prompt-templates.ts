@@ -0,0 +1,846 @@
+/**
+ * Prompt Template Registry
+ * 核心提示词模板：每个模板有具名变量和内置默认版本
+ * 用户可以在「提示词模板」页面复制默认模板修改，每次保存生成新版本，可随时回滚
+ *
+ * 模板语法：
+ *   {{变量名}}                              插入变量
+ *   {{#if 变量名}}...{{/if}}                 变量非空时才输出
+ *   {{#if 变量名}}...{{else}}...{{/if}}      变量为空时输出 else 部分
+ */
+
+import type { PromptTemplate, PromptTemplateKey } from '../types'
+
+// ==================== 模板定义 ====================
+
+export interface PromptVariable {
+  name: string
+  description: string
+}
+
+export interface PromptTemplateDefinition {
+  key: PromptTemplateKey
+  name: string
+  description: string
+  variables: PromptVariable[]
+  defaultContent: string
+}
+
+export type PromptVariables = Record<string, string | number>
+
+// 全局默认选用的模板（模板键 → 模板 ID），未进入作品时（如新建作品）使用
+export const PROMPT_TEMPLATE_DEFAULTS_SETTINGS_KEY = 'promptTemplateDefaults'
+
+const FRAMEWORK_VARIABLES: PromptVariable[] = [
+  { name: 'inspiration', description: '核心灵感' },
+  { name: 'constraints', description: '额外约束（未填写时为"无特殊约束"）' },
+  { name: 'wordCount', description: '目标字数说明' },
+  { name: 'genres', description: '题材标签，以顿号分隔' },
+  { name: 'styles', description: '写作风格，以顿号分隔' }
+]
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateKey, PromptTemplateDefinition> = {
+  'micro-novel': {
+    key: 'micro-novel',
+    name: '微小说框架',
+    description: '一次性生成微小说的世界观、角色和全部章节大纲，要求返回 JSON',
+    variables: FRAMEWORK_VARIABLES,
+    defaultContent: `你是一个顶级的网文主编兼金牌编剧，精通番茄、起点等平台的市场风向。
+
+请根据以下灵感，生成完整的微小说创作框架。
+
+【核心灵感】
+{{inspiration}}
+
+【额外约束】
+{{constraints}}
+
+【创作规模】
+- 这是一部微小说
+- 目标字数：{{wordCount}}
+- 只有1卷，最多8章
+- 每章2500字左右
+
+【题材标签】
+{{genres}}
+
+【写作风格】
+{{styles}}
+
+请严格按照以下 JSON 格式返回（不要包含任何其他文字，只返回纯 JSON）：
+
+{
+  "worldSetting": "详细的世界观设定，至少300字",
+  "characters": [
+    {
+      "name": "角色名",
+      "role": "protagonist/supporting/antagonist",
+      "gender": "男/女",
+      "age": "年龄描述",
+      "identity": "身份职业",
+      "description": "详细的角色设定，至少100字",
+      "arc": "人物成长弧线"
+    }
+  ],
+  "volumes": [
+    {
+      "title": "卷名（10字内，无编号）",
+      "summary": "核心剧情，50-80字，简洁直接",
+      "chapters": [
+        {
+          "title": "标题（10字内，无编号）",
+          "outline": "简洁大纲，50-80字：场景+冲突+悬念"
+        }
+      ]
+    }
+  ]
+}
+
+要求：
+1. 角色至少包含1个主角、1-2个配角
+2. 只生成1卷，5-8章
+3. 情节紧凑，快节奏
+4. 每章结尾要有悬念
+5. 标题和大纲都要简洁，无废话，直击要点
+
+只返回 JSON，不要有任何解释文字。`
+  },
+  'million-framework': {
+    key: 'million-framework',
+    name: '百万巨著框架',
+    description: '生成长篇的世界观、角色和分卷结构，要求返回 JSON',
+    variables: FRAMEWORK_VARIABLES,
+    defaultContent: `你是一个顶级的网文主编兼金牌编剧，精通番茄、起点等平台的市场风向。
+
+请根据以下灵感，生成百万巨著的整体框架（世界观、角色、分卷结构）。
+
+【核心灵感】
+{{inspiration}}
+
+【额外约束】
+{{constraints}}
+
+【创作规模】
+- 这是一部百万字级别的长篇巨著
+- 目标字数：{{wordCount}}
+- 必须规划至少12卷
+- 每卷后续会生成40+章节
+
+【题材标签】
+{{genres}}
+
+【写作风格】
+{{styles}}
+
+请严格按照以下 JSON 格式返回（不要包含任何其他文字，只返回纯 JSON）：
+
+{
+  "worldSetting": "详细的世界观设定，包括时代背景、地理环境、社会结构、力量体系/修炼等级（如有）、特殊规则等，至少800字",
+  "characters": [
+    {
+      "name": "角色名",
+      "role": "protagonist/supporting/antagonist",
+      "gender": "男/女",
+      "age": "年龄描述",
+      "identity": "身份职业",
+      "description": "详细的角色设定，包括外貌、性格、背景、动机等，至少200字",
+      "arc": "人物成长弧线"
+    }
+  ],
+  "volumes": [
+    {
+      "title": "卷名（10字以内，不要编号）",
+      "summary": "本卷核心剧情，50-80字，简洁明了，直击要点，无废话",
+      "mainPlot": "本卷主线剧情（一句话）",
+      "keyEvents": ["关键事件1", "关键事件2", "关键事件3"]
+    }
+  ]
+}
+
+【重要要求】：
+1. 角色至少包含1个主角、4-6个重要配角、2-3个反派
+2. 必须生成至少12卷的volumes数组
+3. 每卷的summary必须简洁，50-80字，直击核心冲突，无铺垫废话
+4. 卷标题不要编号（不要"第一卷 XXX"），直接写卷名，10字以内
+5. 整体剧情要有明确的"爽点循环"设计
+6. 卷与卷之间要有承接和递进
+7. 世界观要宏大且有特色
+8. 人物要立体，有清晰的成长弧光
+
+只返回 JSON，不要有任何解释文字。`
+  },
+  'volume-chapters': {
+    key: 'volume-chapters',
+    name: '分卷章节大纲',
+    description: '为单卷生成章节大纲，要求返回 JSON',
+    variables: [
+      { name: 'volumeNumber', description: '卷号（从 1 开始）' },
+      { name: 'totalVolumes', description: '总卷数' },
+      { name: 'volumeTitle', description: '卷名' },
+      { name: 'volumeSummary', description: '本卷剧情概要' },
+      { name: 'mainPlot', description: '本卷主线剧情（可能为空）' },
+      { name: 'keyEvents', description: '本卷关键事件，以顿号分隔（可能为空）' },
+      { name: 'worldSetting', description: '世界观（截取前 800 字）' },
+      { name: 'characterInfo', description: '存活角色档案，每行一个' },
+      { name: 'deceasedCharacters', description: '已故角色列表（可能为空）' },
+      { name: 'contextSection', description: '全书索引、上下卷边界、已写内容等上下文（可能为空）' },
+      { name: 'guidance', description: '用户指导意见（可能为空）' },
+      { name: 'genres', description: '题材标签' },
+      { name: 'styles', description: '写作风格' },
+      { name: 'chapterCount', description: '本次生成的章节数' },
+      { name: 'startChapterNumber', description: '起始章节编号' },
+      { name: 'endChapterNumber', description: '结束章节编号' },
+      { name: 'phase1End', description: '开篇阶段结束章' },
+      { name: 'phase2Start', description: '发展阶段起始章' },
+      { name: 'phase2End', description: '发展阶段结束章' },
+      { name: 'phase3Start', description: '高潮阶段起始章' },
+      { name: 'phase3End', description: '高潮阶段结束章' },
+      { name: 'phase4Start', description: '收尾阶段起始章' },
+      { name: 'closingChapterCount', description: '收尾阶段章节数' }
+    ],
+    defaultContent: `你是一个顶级的网文主编兼金牌编剧。
+
+请为以下卷生成详细的章节大纲。
+
+╔══════════════════════════════════════════════════════════════╗
+║  【🎯 核心任务】为第{{volumeNumber}}卷生成 {{chapterCount}} 章大纲                    ║
+║  【⚠️ 重要】这 {{chapterCount}} 章只覆盖本卷内容，不要写下一卷的任何内容！   ║
+╚══════════════════════════════════════════════════════════════╝
+
+【世界观概要】
+{{worldSetting}}
+
+【角色档案】
+{{characterInfo}}{{#if deceasedCharacters}}
+
+【🚨 已故角色 - 禁止安排出场】
+{{deceasedCharacters}}
+⚠️ 大纲中不要安排已故角色有任何活动或对话！{{/if}}
+
+【当前卷信息】
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+📖 卷号：第{{volumeNumber}}卷（共{{totalVolumes}}卷）
+📗 卷名：{{volumeTitle}}
+📝 本卷剧情范围：{{volumeSummary}}
+{{#if mainPlot}}🎬 主线剧情：{{mainPlot}}{{/if}}
+{{#if keyEvents}}🔑 本卷关键事件：{{keyEvents}}{{/if}}
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+🚨🚨🚨【本卷边界 - 极其重要】🚨🚨🚨
+• 本卷只讲述"{{volumeTitle}}"的故事
+• 这 {{chapterCount}} 章的全部内容必须在本卷的剧情范围内
+• 本卷结束时 = 本卷任务完成，但下一卷尚未开始
+• 最后几章是"为下一卷埋伏笔"，绝不是"开始下一卷"
+{{contextSection}}
+{{#if guidance}}
+【重要指导意见】
+{{guidance}}
+请务必根据以上指导意见调整章节大纲！
+{{/if}}
+【题材】{{genres}}
+【风格】{{styles}}
+
+请生成本卷的章节大纲，要求：
+1. 必须生成恰好 {{chapterCount}} 章
+2. 章节编号从 {{startChapterNumber}} 开始，到 {{endChapterNumber}} 结束
+3. 🔥【字数限制】标题+简介总共不超过60字：
+   - 标题：最多8字，无编号（不要"第X章"），直接写标题，吸引眼球
+   - 简介：40-50字，极度精简，只写核心：场景+冲突+悬念
+4. 每章结尾必须有悬念或钩子
+5. 章节之间要有逻辑连贯性
+6. 注意角色的生死状态和人物关系，已故角色不应再出场
+
+🎯【本卷章节进度规划 - 必须遵守】：
+本卷 {{chapterCount}} 章的剧情分布（以"{{volumeTitle}}"为主线）：
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+📍 第1-{{phase1End}}章【开篇10%】：建立本卷起点，承接上一卷结尾
+📍 第{{phase2Start}}-{{phase2End}}章【发展30%】：展开本卷主线冲突，逐步升级
+📍 第{{phase3Start}}-{{phase3End}}章【高潮40%】：本卷核心事件的爆发与解决
+📍 第{{phase4Start}}-{{chapterCount}}章【收尾20%】：总结本卷，为下一卷埋伏笔
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+⚠️ 收尾阶段（最后{{closingChapterCount}}章）注意：
+   • ✅ 正确：本卷任务完成，主角获得成长，留下悬念
+   • ✅ 正确：暗示下一卷的危机，但不触发
+   • ❌ 错误：主角已经进入下一卷的场景
+   • ❌ 错误：开始处理下一卷的核心冲突
+   • ❌ 错误：本卷最后几章的内容属于下一卷
+
+🎯【网文节奏控制】：
+7. 【章节类型分配】必须按以下比例分配章节类型（{{chapterCount}}章约等于）：
+   - 铺垫章（30%）：日常修炼、人物互动、环境描写、伏笔埋设、情报收集
+   - 发展章（40%）：小冲突、小试炼、关系推进、势力交锋、线索展开
+   - 高潮章（20%）：重大战斗、重要转折、情感爆发、秘密揭露
+   - 过渡章（10%）：休整恢复、总结反思、承上启下、气氛调节
+8. 【节奏曲线】遵循"慢热-渐进-爆发-缓和"的节奏：
+   - 每个小弧线（8-12章）：2-3章铺垫 → 4-5章发展 → 2章高潮 → 1章过渡
+   - 禁止连续3章以上都是高潮/战斗
+   - 禁止每章都有重大事件，要有"平淡但不无聊"的日常
+9. 【故事线控制】本卷只推进1-2条主要故事线：
+   - 不要在一卷内解决所有问题
+   - 大BOSS、终极秘密等留到后面的卷
+   - 本卷结束时，主角应该有成长，但距离最终目标还很远
+10. 【伏笔与悬念】：
+    - 每卷至少埋3-5个伏笔，留待后续卷揭示
+    - 本卷结尾要留下新的疑问或危机，而不是大圆满
+
+🔴🔴🔴【内容边界红线 - 违反即失败】🔴🔴🔴：
+11. 📚【参考所有卷】已提供全书结构索引，必须了解全书布局，确保本卷剧情在整体中的定位准确
+12. ⛔【不可重复上一卷】上一卷的剧情、冲突、场景已完成，本卷必须开启新的故事线
+13. ⛔⛔⛔【不可提前写下一卷】⛔⛔⛔
+    - 下一卷的关键事件、冲突、转折不能在本卷出现
+    - 本卷最后几章是"本卷收尾"，不是"下一卷开头"
+    - 只能埋伏笔暗示，不能直接开始下一卷的剧情
+14. 🚫【不可重复本卷已写】新章节必须从已写内容的结尾继续，绝不可重复已发生的情节
+15. ✅【专注当前卷任务】聚焦"{{volumeTitle}}"的核心矛盾和故事弧，不越界、不重复
+
+请严格按照以下 JSON 格式返回（只返回纯 JSON）：
+
+{
+  "chapters": [
+    {
+      "chapterNumber": {{startChapterNumber}},
+      "title": "标题（8字内，无编号）",
+      "outline": "简洁大纲，40-50字：场景+冲突+悬念（标题+大纲总共不超过60字）"
+    }
+  ]
+}
+
+【重要】必须生成 {{chapterCount}} 章，编号从 {{startChapterNumber}} 到 {{endChapterNumber}}！
+【重要】所有章节都必须在"{{volumeTitle}}"的剧情范围内，不要写下一卷的内容！
+
+只返回 JSON，不要有任何解释文字。`
+  },
+  'chapter-strict': {
+    key: 'chapter-strict',
+    name: '正文写作',
+    description: '严格按大纲写作单章正文（单章生成、流式生成和批量写作共用）',
+    variables: [
+      { name: 'chapterTitle', description: '章节标题' },
+      { name: 'chapterOutline', description: '本章大纲' },
+      { name: 'nextChapterOutline', description: '下一章大纲（可能为空）' },
+      { name: 'previousChapterTail', description: '前一章结尾片段（第一章为空，长度按模型上下文窗口分配）' },
+      { name: 'previousTailLength', description: '前一章结尾片段的实际字数' },
+      { name: 'previousVolumeName', description: '上一卷名称（仅新卷首章有值）' },
+      { name: 'currentVolumeName', description: '当前卷名称' },
+      { name: 'previousVolumeEnding', description: '上一卷最后一章内容（仅新卷首章有值）' },
+      { name: 'worldSetting', description: '世界观（至少前 600 字，窗口充足时更完整）' },
+      { name: 'characterInfo', description: '存活角色信息，每行一个，主角和反派在前' },
+      { name: 'deceasedCharacters', description: '已死亡角色列表（可能为空）' },
+      { name: 'storySummary', description: '前情提要（可能为空）' },
+      { name: 'relatedPassages', description: '检索到的相关历史章节片段，每行一段（可能为空）' },
+      { name: 'memoryContext', description: '记忆档案中的角色当前状态、进行中的冲突和近期剧情（可能为空）' },
+      { name: 'plotReminder', description: '本章应揭晓或暗示的伏笔（可能为空）' },
+      { name: 'emotionGuidance', description: '根据近期情感曲线给出的本章节奏建议（可能为空）' },
+      { name: 'styles', description: '写作风格' },
+      { name: 'targetWordCount', description: '目标字数' }
+    ],
+    defaultContent: `你是一个经验丰富的网文作家，正在创作一部商业小说。你的写作风格自然流畅，没有AI的痕迹。
+
+【核心创作原则】
+像真正的人类作家一样写作，让读者完全感觉不到这是AI生成的内容。
+
+【严禁的AI写作痕迹 - 这些是AI的典型特征，必须完全避免】
+
+1. 禁止任何形式的总结和升华：
+   ❌ "这一战让他明白了..."
+   ❌ "经此一役，他终于成长了"
+   ❌ "他知道，这只是开始"
+   ❌ "命运的齿轮开始转动"
+   ❌ 章末写感悟、领悟、反思
+   ✅ 正确做法：停在具体的动作、对话或场景上
+
+2. 禁止AI式套话和过渡：
+   ❌ "就这样"、"于是"、"总之"开头
+   ❌ "就在这时"、"突然间"、"霎时间"
+   ❌ "不知过了多久"、"时间一分一秒过去"
+   ❌ "他深吸一口气"（每章都出现）
+   ❌ "眼中闪过一丝..."、"心中一动"
+   ❌ "一股强大的气息"、"一道身影"
+   ✅ 正确做法：直接写动作，省略过渡词
+
+3. 禁止抽象和模糊的描写：
+   ❌ "仿佛"、"似乎"、"宛如"过度使用
+   ❌ "难以言喻的感觉"、"莫名的情绪"
+   ❌ "说不出的压迫感"、"无法形容的..."
+   ❌ "前所未有的体验"
+   ✅ 正确做法：写具体的感官细节
+
+4. 禁止解释和说教：
+   ❌ 解释角色为什么这么做
+   ❌ 解释事件背后的意义
+   ❌ 插入作者视角的评论
+   ❌ "因为...所以..."的因果解释
+   ✅ 正确做法：只写发生了什么，让读者自己理解
+
+5. 禁止重复和注水：
+   ❌ 同一个动作或情绪反复描写
+   ❌ 换个说法重复同样的意思
+   ❌ 大段的心理独白
+   ❌ 为凑字数而拖沓
+   ✅ 正确做法：每句话都推进剧情
+
+【自然写作的技巧】
+
+1. 动作描写要具体：
+   ❌ "他很愤怒"
+   ✅ "他握紧拳头，指节发白"
+
+   ❌ "她很紧张"
+   ✅ "她咬着下唇，手指绞着衣角"
+
+2. 对话要自然简洁：
+   ❌ "我不会放过你的！"他咬牙切齿地说道，眼中充满了愤怒的火焰
+   ✅ "我不会放过你。"他说
+
+   - 不要每句话都加"他说道"、"她回答道"
+   - 对话简短有力，符合口语习惯
+   - 避免长篇大论式的对话
+
+3. 场景切换要干脆：
+   ❌ 经过了漫长的等待，时间一分一秒过去，终于...
+   ✅ 三天后。
+
+   ❌ 就在这个时候，突然间，一道身影出现了
+   ✅ 门开了，李四走了进来。
+
+4. 情绪通过细节展现：
+   ❌ 他感到非常恐惧，心中充满了害怕
+   ✅ 他的呼吸变得急促，手心渗出冷汗
+
+5. 章节结尾的处理：
+   ❌ 他转身离开，心中暗暗发誓，总有一天要报这个仇（总结）
+   ✅ 他转身离开。（停在动作）
+
+   ❌ 这一夜，注定不平静（升华）
+   ✅ 窗外传来一声尖叫。（悬念）
+
+【网文写作的实战技巧】
+
+1. 节奏控制：
+   - 紧张场景：短句、快节奏、多动作
+   - 日常场景：适当放缓，但不拖沓
+   - 对话场景：一问一答，简洁明快
+
+2. 描写的密度：
+   - 重要场景：多写感官细节（视觉、听觉、触觉）
+   - 过渡场景：一笔带过，不展开
+   - 战斗场景：动作清晰，避免"一片混乱"这种空话
+
+3. 人物塑造：
+   - 通过动作和对话展现性格
+   - 每个角色说话方式应该有区别
+   - 避免所有角色都用同样的语气
+
+4. 避免说明文式写作：
+   ❌ 这个地方叫做XX，是一个非常危险的地方，传说中...（百科式介绍）
+   ✅ "小心点，这里是XX。"张三压低声音。（通过对话自然引入）
+
+5. 制造悬念的技巧：
+   - 在关键时刻打断
+   - 留下疑问但不解答
+   - 埋下伏笔但不明说
+
+【逻辑一致性 - 绝对禁止违反】
+1. 已死亡的角色绝对不能复活或出现
+2. 已经发生的事件不能被推翻或遗忘
+3. 角色的能力、身份不能与之前的设定矛盾
+4. 时间线必须保持一致
+5. 角色性格要保持连贯，不能突然转性
+{{#if deceasedCharacters}}
+
+【已死亡角色 - 禁止出场】
+以下角色已在之前的剧情中死亡，绝对不能让他们出现或说话：
+{{deceasedCharacters}}
+{{/if}}
+
+---
+
+【创作素材】
+
+【世界观背景】
+{{worldSetting}}
+
+【主要角色（当前存活）】
+{{characterInfo}}
+{{#if storySummary}}
+【前情提要 - 重要剧情摘要】
+{{storySummary}}
+请确保本章内容与以上剧情保持一致，不要出现矛盾。
+{{/if}}
+{{#if memoryContext}}
+【记忆档案 - 当前状态】
+{{memoryContext}}
+角色的实力、位置、生死和进行中的冲突必须与以上状态衔接。
+{{/if}}
+{{#if relatedPassages}}
+【相关前文回顾】
+以下是与本章情节相关的历史章节片段，涉及的人物、事件和设定必须与之保持一致（不要照抄原文）：
+{{relatedPassages}}
+{{/if}}
+{{#if plotReminder}}
+{{plotReminder}}
+以上伏笔可在不违背本章大纲的前提下顺势暗示或揭晓，不要为了回收伏笔强行改动情节。
+{{/if}}
+{{#if emotionGuidance}}
+{{emotionGuidance}}
+在本章大纲允许的范围内参考以上节奏建议安排情绪起伏。
+{{/if}}
+{{#if previousVolumeName}}
+╔══════════════════════════════════════════════════════════════╗
+║  📚📚📚【新卷开始 - 重要提示】📚📚📚                          ║
+╚══════════════════════════════════════════════════════════════╝
+
+🔄 卷切换：「{{previousVolumeName}}」→「{{currentVolumeName}}」
+
+【新卷开篇要求】
+1. ✅ 这是新卷的第一章，可以有适当的"新篇章感"
+2. ✅ 但必须自然承接上一卷结尾，不能跳跃或遗漏
+3. ✅ 可以用简短的场景/时间切换，但要平滑过渡
+4. ❌ 不要写大段回顾或总结上一卷的内容
+5. ❌ 不要有"翻开新篇章"之类的废话
+
+【上一卷结尾回顾】
+以下是上一卷最后一章的完整内容，请仔细阅读后自然承接：
+{{previousVolumeEnding}}
+
+{{/if}}
+
+╔══════════════════════════════════════════════════════════════╗
+║  🎯🎯🎯【本章核心任务 - 必须严格执行】🎯🎯🎯                  ║
+╚══════════════════════════════════════════════════════════════╝
+
+📖 章节标题：{{chapterTitle}}
+
+📋 本章大纲（必须100%覆盖，不多不少）：
+{{chapterOutline}}
+
+🔴🔴🔴【严格按大纲写作 - 违反即失败】🔴🔴🔴
+1. ✅ 必须写：大纲中提到的每一个情节点、每一个事件
+2. ❌ 禁止写：大纲中没有提到的额外情节（不要自由发挥）
+3. ❌ 禁止跳过：不能省略大纲中的任何内容
+4. ❌ 禁止提前：不能写下一章大纲的内容（见下方"下章预告"）
+5. ⚠️ 节奏控制：合理分配字数，大纲中的每个点都要展开描写
+
+【大纲执行检查】
+写作前请确认：本章大纲包含哪些关键点？
+写作时请对照：每个关键点是否都已充分展开？
+写作后请检查：是否写了大纲之外的内容？是否提前写了下一章？
+
+【前文衔接】
+{{#if previousChapterTail}}前一章结尾（最后{{previousTailLength}}字）：
+{{previousChapterTail}}
+
+【本章开头 - 自然承接技巧】
+本章开头必须自然承接上一章结尾的悬念，不能跳过或忽略。
+
+✅ 正确的承接方式：
+
+示例1 - 直接承接动作：
+  上一章结尾：「门外传来急促的脚步声。」
+  本章开头：「门被推开，一个黑衣人闯了进来。」（直接写结果）
+  ❌ 错误：「就在这时，门被推开了。」（AI过渡词）
+  ❌ 错误：「第二天一早...」（直接跳过悬念）
+
+示例2 - 接续对话：
+  上一章结尾：「'你终于来了。'暗处有人开口。」
+  本章开头：「是李四的声音。」（揭晓身份）
+  ❌ 错误：「就这样，他们见面了。」（空话）
+
+示例3 - 解答悬念：
+  上一章结尾：「他的手机响了，是一个陌生号码。」
+  本章开头：「'喂？'他接起电话。」（自然接续）
+  ❌ 错误：「不知过了多久...」（跳过时间）
+
+【开头的黄金法则】
+1. 不用过渡词：禁止"就在这时"、"突然"、"于是"等AI惯用句
+2. 直接写动作：上一章停在哪，本章就从哪接着写
+3. 0.5秒原则：开头场景距离上一章结尾不超过0.5秒（除非明确需要时间跳跃）
+4. 承接但不重复：揭晓悬念，但不复述上一章的内容{{else}}这是故事的开始，从一个吸引人的场景或对话切入。
+
+【开头的写作要求】
+1. 第一段立即进入场景，不要铺垫
+2. 用动作或对话开场，不要描写或心理活动
+3. 让读者立刻进入状态{{/if}}
+
+{{#if nextChapterOutline}}
+╔══════════════════════════════════════════════════════════════╗
+║  ⛔⛔⛔【下章内容 - 绝对禁止提前写】⛔⛔⛔                     ║
+╚══════════════════════════════════════════════════════════════╝
+
+下一章大纲：{{nextChapterOutline}}
+
+🚫🚫🚫【本章禁止出现以下内容】🚫🚫🚫
+以上是下一章的剧情，本章绝对不能写！
+- ❌ 不能写下一章大纲中的任何事件
+- ❌ 不能让剧情推进到下一章的开头
+- ❌ 不能提前揭示下一章才会发生的事
+
+✅ 本章结尾的正确做法：
+- 完成本章大纲的全部内容
+- 用最后1-2句制造悬念，引向下一章
+- 但悬念只是"引子"，不是"开始写下一章"
+
+【断章技巧 - 承上启下的引子】
+本章结尾必须为下章埋下引子，用最后1-2句话制造悬念，让读者忍不住想看下一章。
+
+✅ 好的结尾示例：
+「门外传来急促的脚步声。」
+「他的手机响了，是一个陌生号码。」
+「'你终于来了。'暗处有人开口。」
+「远处升起一道黑烟。」
+
+❌ 差的结尾（有AI味）：
+「他不知道，更大的危机正在等着他。」（多余的铺垫）
+「这一切都还只是开始。」（空洞的总结）
+「他转身离开，心中暗暗发誓。」（内心独白）
+
+【结尾的黄金法则】
+1. 停在动作的一半：别写完整个动作，让读者心里痒痒
+2. 停在意外出现时：新角色、新事件、新转折，戛然而止
+3. 停在对话前半句：引出话题但不说破，吊胃口
+4. 绝对不加任何解释、评论、暗示{{else}}【断章技巧 - 网文结尾的艺术】
+这是一个章节的结尾，需要让读者产生"必须看下一章"的冲动。
+
+✅ 好的结尾方式：
+方式1 - 悬念型：
+  「门突然开了。」
+  「手机屏幕亮起：【你的秘密我都知道】」
+  「那道熟悉的身影出现在走廊尽头。」
+
+方式2 - 冲突升级：
+  「'你敢！'」
+  「枪声响起。」
+  「他握紧了拳头，转身走向那扇门。」
+
+方式3 - 信息爆炸：
+  「'她是你亲妹妹。'」
+  「屏幕上显示：【倒计时：00:05:00】」
+  「'老板说，行动取消。'」
+
+❌ 绝对禁止的结尾（有AI味的废话）：
+「他知道，真正的考验才刚刚开始。」（空洞总结）
+「这一夜注定不平静。」（无意义升华）
+「他转身离去，眼中闪过坚定。」（内心戏）
+「暴风雨即将来临。」（比喻废话）
+「命运的齿轮开始转动。」（中二病）
+
+【结尾写作要求】
+1. 最后一句必须是：动作、对话、或场景描写
+2. 停在最让人好奇的地方
+3. 不超过20个字
+4. 绝不加任何解释{{/if}}
+
+---
+
+【写作要求】
+
+风格：{{styles}}
+字数：约{{targetWordCount}}字，🔴🔴🔴【硬性要求：必须不少于2000字】🔴🔴🔴
+- 这是网文平台的基本要求，少于2000字的章节会被系统拒绝
+- 请充分展开大纲中的每个情节点，确保字数达标
+- 宁缺毋滥，但必须保证2000字以上
+
+【输出规范】
+1. 直接输出正文内容，不要标题、不要解释
+2. 每段开头缩进两个全角空格（　　）
+3. 段落之间空一行
+4. 🔴 严格按大纲写，大纲有的必须写，大纲没有的不能写
+5. 🔴 不能提前写下一章的内容
+6. 最后一段必须是具体的动作、对话或场景
+7. 绝对禁止任何形式的总结句、感悟句、升华句
+
+【进阶去AI化要求】
+1. 句式变化：长短句比例3:1，每5句至少1个短句
+2. 句首变化：禁止连续2句以上"他/她"开头
+3. 词汇禁用："一时间"、"刹那间"、"冷冷道"、"淡淡道"
+4. 描写技巧：用动词代替形容词，用具体代替抽象
+5. 对话规范：每角色有独特说话方式，对话穿插动作描写
+
+【检查清单 - 写完后自查】
+□ 🔴 大纲中的每个情节点都已写到（最重要！）
+□ 🔴 没有写大纲之外的额外情节
+□ 🔴 没有提前写下一章的内容
+□ 没有"就这样"、"于是"、"总之"等AI套话
+□ 没有"眼中闪过"、"深吸一口气"等AI惯用句
+□ 没有结尾总结或升华
+□ 没有连续3句以上相同句式
+□ 对话简洁自然，有角色特色
+□ 描写具体不抽象
+□ 长短句有变化
+□ 章末是动作/对话/场景，不是感悟
+□ 字数适中不注水
+
+现在开始创作：`
+  }
+}
+
+export const PROMPT_TEMPLATE_KEYS = Object.keys(PROMPT_TEMPLATES) as PromptTemplateKey[]
+
+// ==================== 模板渲染 ====================
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string }
+  | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+
+const TAG_PATTERN = /\{\{\s*(#if\s+\w+|else|\/if|\w+)\s*\}\}/g
+
+/**
+ * 解析模板，语法错误时抛出异常
+ */
+function parseTemplate(content: string): TemplateNode[] {
+  const root: TemplateNode[] = []
+  // 条件块栈：当前写入的节点列表
+  const stack: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }[] = []
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1]
+    if (!top) return root
+    return top.inElse ? top.node.otherwise : top.node.then
+  }
+
+  let lastIndex = 0
+  for (const match of content.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) {
+      current().push({ type: 'text', value: content.slice(lastIndex, index) })
+    }
+    lastIndex = index + match[0].length
+
+    const tag = match[1]
+    if (tag.startsWith('#if')) {
+      const node: Extract<TemplateNode, { type: 'if' }> = {
+        type: 'if',
+        name: tag.slice(3).trim(),
+        then: [],
+        otherwise: []
+      }
+      current().push(node)
+      stack.push({ node, inElse: false })
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1]
+      if (!top || top.inElse) throw new Error('模板语法错误：{{else}} 没有对应的 {{#if}}')
+      top.inElse = true
+    } else if (tag === '/if') {
+      if (!stack.pop()) throw new Error('模板语法错误：{{/if}} 没有对应的 {{#if}}')
+    } else {
+      current().push({ type: 'variable', name: tag })
+    }
+  }
+
+  if (lastIndex < content.length) {
+    current().push({ type: 'text', value: content.slice(lastIndex) })
+  }
+  if (stack.length > 0) {
+    throw new Error(`模板语法错误：{{#if ${stack[stack.length - 1].node.name}}} 缺少 {{/if}}`)
+  }
+  return root
+}
+
+function renderNodes(nodes: TemplateNode[], variables: PromptVariables): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value
+      case 'variable':
+        return String(variables[node.name] ?? '')
+      case 'if':
+        return renderNodes(variables[node.name] ? node.then : node.otherwise, variables)
+    }
+  }).join('')
+}
+
+/**
+ * 用变量渲染模板（变量值原样插入，不会再被当作模板解析）
+ */
+export function renderTemplate(content: string, variables: PromptVariables): string {
+  return renderNodes(parseTemplate(content), variables)
+}
+
+/**
+ * 检查模板：语法错误和未定义的变量
+ * @returns 问题列表，为空表示通过
+ */
+export function validateTemplate(key: PromptTemplateKey, content: string): string[] {
+  try {
+    parseTemplate(content)
+  } catch (error: any) {
+    return [error.message]
+  }
+
+  const known = new Set(PROMPT_TEMPLATES[key].variables.map(v => v.name))
+  const unknown = new Set<string>()
+  for (const match of content.matchAll(TAG_PATTERN)) {
+    const tag = match[1]
+    if (tag === 'else' || tag === '/if') continue
+    const name = tag.startsWith('#if') ? tag.slice(3).trim() : tag
+    if (!known.has(name)) unknown.add(name)
+  }
+  return [...unknown].map(name => `未知变量：{{${name}}}`)
+}
+
+// ==================== 模板选用 ====================
+
+// 当前生效的模板内容（由布局组件根据路由加载，未选用时使用内置默认模板）
+let activeContents: Partial<Record<PromptTemplateKey, string>> = {}
+let loadSequence = 0
+
+/**
+ * 加载当前生效的模板：作品选用 > 全局默认 > 内置默认
+ * @param projectId - 当前作品，未进入作品时为 null
+ */
+export async function loadActivePromptTemplates(projectId: string | null): Promise<void> {
+  if (typeof window === 'undefined' || !window.electron?.db) return
+  const sequence = ++loadSequence
+
+  try {
+    const [templates, defaults, project] = await Promise.all([
+      window.electron.db.getPromptTemplates(),
+      window.electron.settings.get(PROMPT_TEMPLATE_DEFAULTS_SETTINGS_KEY) as Promise<Partial<Record<PromptTemplateKey, string>> | null>,
+      projectId ? window.electron.db.getProject(projectId) : Promise.resolve(null)
+    ])
+    // 加载期间路由已切换，丢弃过期结果
+    if (sequence !== loadSequence) return
+
+    const selection = { ...(defaults || {}), ...(project?.promptTemplates || {}) }
+    const byId = new Map(templates.map(t => [t.id, t]))
+    const next: Partial<Record<PromptTemplateKey, string>> = {}
+    for (const key of PROMPT_TEMPLATE_KEYS) {
+      const template = selection[key] ? byId.get(selection[key]!) : undefined
+      if (template && template.templateKey === key) {
+        next[key] = template.content
+      }
+    }
+    activeContents = next
+  } catch (error) {
+    console.warn('[PromptTemplates] 加载模板失败，使用内置模板:', error)
+    if (sequence === loadSequence) activeContents = {}
+  }
+}
+
+/**
+ * 获取当前生效的模板内容
+ */
+export function getActiveTemplateContent(key: PromptTemplateKey): string {
+  return activeContents[key] ?? PROMPT_TEMPLATES[key].defaultContent
+}
+
+/**
+ * 用当前生效的模板渲染提示词
+ * 自定义模板语法有误时回退到内置模板，保证生成流程不中断
+ */
+export function renderPrompt(key: PromptTemplateKey, variables: PromptVariables): string {
+  const content = getActiveTemplateContent(key)
+  try {
+    return renderTemplate(content, variables)
+  } catch (error) {
+    console.warn(`[PromptTemplates] 模板 ${key} 渲染失败，使用内置模板:`, error)
+    return renderTemplate(PROMPT_TEMPLATES[key].defaultContent, variables)
+  }
+}
+
+/**
+ * 自定义模板的显示名称
+ */
+export function describeTemplate(template: PromptTemplate): string {
+  return `${template.name}（v${template.version}）`
+}
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ChapterChunk } from '../types'
+import { chunkChapter, retrievePassages } from './retrieval'
+
+let chunks: ChapterChunk[] = []
+let nextProject = 0
+
+const chunk = (chapterId: string, content: string): ChapterChunk => ({
+  id: `${chapterId}-${chunks.length}`,
+  projectId: '',
+  chapterId,
+  chunkIndex: 0,
+  content,
+  contentHash: '',
+  embedding: null,
+  embeddingModel: null
+})
+
+// 片段缓存按项目区分，每个用例使用新的项目 ID
+const search = (query: string, candidates: string[], topK?: number) =>
+  retrievePassages(`project-${nextProject++}`, query, candidates.map(id => ({ id, title: `标题${id}` })), topK)
+
+describe('retrievePassages（BM25）', () => {
+  beforeEach(() => {
+    chunks = []
+    vi.stubGlobal('window', {
+      electron: { db: { getChapterChunks: async () => chunks } }
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('按相关度排序，不相关的片段不返回', async () => {
+    chunks = [
+      chunk('c1', '林风在山谷中练剑，剑气纵横。'),
+      chunk('c2', '集市上人来人往，商贩叫卖。'),
+      chunk('c3', '林风取出那枚玉佩，玉佩泛起青光。')
+    ]
+    const results = await search('林风的玉佩', ['c1', 'c2', 'c3'])
+    expect(results.map(r => r.chapterId)).toEqual(['c3', 'c1'])
+    expect(results[0].chapterTitle).toBe('标题c3')
+    expect(results[0].score).toBeGreaterThan(results[1].score)
+  })
+
+  it('罕见词的权重高于常见词', async () => {
+    chunks = [
+      chunk('c1', '林风走进客栈。'),
+      chunk('c2', '林风看见了青铜古镜。'),
+      chunk('c3', '林风离开了城门。')
+    ]
+    const results = await search('林风 古镜', ['c1', 'c2', 'c3'])
+    expect(results[0].chapterId).toBe('c2')
+  })
+
+  it('只检索候选章节', async () => {
+    chunks = [
+      chunk('c1', '玉佩碎裂。'),
+      chunk('c2', '玉佩发光。')
+    ]
+    const results = await search('玉佩', ['c2'])
+    expect(results.map(r => r.chapterId)).toEqual(['c2'])
+  })
+
+  it('同一章最多入选两个片段', async () => {
+    chunks = [
+      chunk('c1', '玉佩一'),
+      chunk('c1', '玉佩二'),
+      chunk('c1', '玉佩三'),
+      chunk('c2', '玉佩四')
+    ]
+    const results = await search('玉佩', ['c1', 'c2'])
+    expect(results.filter(r => r.chapterId === 'c1')).toHaveLength(2)
+    expect(results.filter(r => r.chapterId === 'c2')).toHaveLength(1)
+  })
+
+  it('按 topK 截取结果', async () => {
+    chunks = ['c1', 'c2', 'c3'].map(id => chunk(id, '玉佩'))
+    expect(await search('玉佩', ['c1', 'c2', 'c3'], 2)).toHaveLength(2)
+  })
+
+  it('空查询返回空结果', async () => {
+    chunks = [chunk('c1', '玉佩')]
+    expect(await search('  ', ['c1'])).toEqual([])
+  })
+
+  it('英文和数字按单词匹配', async () => {
+    chunks = [
+      chunk('c1', 'Alpha 基地'),
+      chunk('c2', 'Beta 基地 2077')
+    ]
+    const results = await search('beta 2077', ['c1', 'c2'])
+    expect(results.map(r => r.chapterId)).toEqual(['c2'])
+  })
+})
+
+describe('chunkChapter', () => {
+  it('合并短段落，超出长度时另起片段', () => {
+    const paragraph = '甲'.repeat(300)
+    expect(chunkChapter(`${paragraph}\n\n${paragraph}\n短段`)).toEqual([paragraph, `${paragraph}\n短段`])
+  })
+
+  it('过长的段落按固定长度硬切', () => {
+    const pieces = chunkChapter('乙'.repeat(1200))
+    expect(pieces.map(p => p.length)).toEqual([500, 500, 200])
+  })
+})
@@ -0,0 +1,306 @@
+/**
+ * Chapter Retrieval
+ * 写作前从已写章节中检索与本章大纲、出场角色相关的片段，弥补前情提要覆盖不到的远距离呼应
+ * 章节按段落切成片段存入 chapter_chunks 表（正文变化时增量重建）
+ * 当前提供商支持向量化时按余弦相似度检索，否则（或索引尚未全部向量化）使用 BM25 词法检索
+ */
+
+import { getEmbeddingModel, embedTexts, isAbortError } from './ai'
+import type { Character, ChapterChunk } from '../types'
+import { hashText } from '../utils'
+
+// 设置存储键（默认开启）
+export const RETRIEVAL_SETTINGS_KEY = 'retrievalEnabled'
+
+// 片段目标字数，过长的段落按此长度硬切
+const CHUNK_SIZE = 500
+
+// 正文太短的章节不建索引
+const MIN_CHAPTER_LENGTH = 200
+
+// 注入提示词的片段数，以及同一章最多入选的片段数（避免被一章占满）
+const TOP_K = 6
+const MAX_PER_CHAPTER = 2
+
+// BM25 参数
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+export interface RetrievedPassage {
+  chapterId: string
+  chapterTitle: string
+  content: string
+  score: number
+}
+
+interface IndexableChapter {
+  id: string
+  title: string
+  content: string
+}
+
+// ==================== 切分与索引 ====================
+
+/**
+ * 按段落把章节切成约 CHUNK_SIZE 字的片段
+ */
+export function chunkChapter(content: string): string[] {
+  const paragraphs = content.split(/\n+/).map(p => p.trim()).filter(Boolean)
+  const chunks: string[] = []
+  let current = ''
+
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length > CHUNK_SIZE) {
+      chunks.push(current)
+      current = ''
+    }
+    if (paragraph.length > CHUNK_SIZE * 1.5) {
+      for (let i = 0; i < paragraph.length; i += CHUNK_SIZE) {
+        chunks.push(paragraph.slice(i, i + CHUNK_SIZE))
+      }
+      continue
+    }
+    current = current ? `${current}\n${paragraph}` : paragraph
+  }
+  if (current) chunks.push(current)
+  return chunks
+}
+
+// 当前项目的片段缓存（索引更新后失效），以及 BM25 分词缓存
+let chunkCache: { projectId: string; chunks: ChapterChunk[] } | null = null
+const tokenCache = new Map<string, string[]>()
+
+// 本次会话中向量化失败的模型，不再重复尝试（片段仍可用 BM25 检索）
+const failedEmbeddingModels = new Set<string>()
+
+async function loadChunks(projectId: string): Promise<ChapterChunk[]> {
+  if (chunkCache?.projectId !== projectId) {
+    chunkCache = { projectId, chunks: await window.electron.db.getChapterChunks(projectId) }
+    tokenCache.clear()
+  }
+  return chunkCache.chunks
+}
+
+function invalidateChunks(): void {
+  chunkCache = null
+  tokenCache.clear()
+}
+
+/**
+ * 增量更新章节索引：只重建正文变化、尚未索引或向量模型不一致的章节
+ */
+export async function indexChapters(projectId: string, chapters: IndexableChapter[], signal?: AbortSignal): Promise<void> {
+  const existing = new Map<string, ChapterChunk[]>()
+  for (const chunk of await loadChunks(projectId)) {
+    const list = existing.get(chunk.chapterId) || []
+    list.push(chunk)
+    existing.set(chunk.chapterId, list)
+  }
+
+  const model = getEmbeddingModel()
+  const canEmbed = !!model && !failedEmbeddingModels.has(model)
+
+  const pending: { chapter: IndexableChapter; hash: string; pieces: string[] }[] = []
+  for (const chapter of chapters) {
+    if (!chapter.content || chapter.content.trim().length < MIN_CHAPTER_LENGTH) continue
+    const hash = await hashText(chapter.content)
+    const chunks = existing.get(chapter.id)
+    const isCurrent = !!chunks?.length &&
+      chunks[0].contentHash === hash &&
+      (!canEmbed || chunks.every(c => c.embeddingModel === model))
+    if (!isCurrent) {
+      pending.push({ chapter, hash, pieces: chunkChapter(chapter.content) })
+    }
+  }
+  if (pending.length === 0) return
+
+  // 所有待更新片段一起向量化，失败时只保存文本
+  const pieces = pending.flatMap(p => p.pieces)
+  let vectors: number[][] | null = null
+  if (canEmbed) {
+    try {
+      vectors = await embedTexts(pieces, signal)
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      console.warn(`[Retrieval] 向量化失败，本次会话改用 BM25 检索:`, error)
+      failedEmbeddingModels.add(model!)
+    }
+  }
+
+  let offset = 0
+  for (const { chapter, hash, pieces: chapterPieces } of pending) {
+    await window.electron.db.replaceChapterChunks(projectId, chapter.id, chapterPieces.map((content, index) => ({
+      content,
+      contentHash: hash,
+      embedding: vectors ? new Float32Array(vectors[offset + index]) : null,
+      embeddingModel: vectors ? model : null
+    })))
+    offset += chapterPieces.length
+  }
+
+  invalidateChunks()
+  console.log(`[Retrieval] 已更新 ${pending.length} 章的索引（${pieces.length} 个片段，${vectors ? `向量模型 ${model}` : 'BM25'}）`)
+}
+
+// ==================== 检索 ====================
+
+/**
+ * 分词：中文按二元组，英文和数字按单词
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = []
+  for (const segment of text.toLowerCase().match(/[一-鿿]+|[a-z0-9]+/g) || []) {
+    if (/^[一-鿿]/.test(segment) && segment.length > 1) {
+      for (let i = 0; i < segment.length - 1; i++) {
+        tokens.push(segment.slice(i, i + 2))
+      }
+    } else {
+      tokens.push(segment)
+    }
+  }
+  return tokens
+}
+
+function getTokens(chunk: ChapterChunk): string[] {
+  let tokens = tokenCache.get(chunk.id)
+  if (!tokens) {
+    tokens = tokenize(chunk.content)
+    tokenCache.set(chunk.id, tokens)
+  }
+  return tokens
+}
+
+function scoreBM25(chunks: ChapterChunk[], query: string): number[] {
+  const queryTerms = [...new Set(tokenize(query))]
+  const docs = chunks.map(getTokens)
+  const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / Math.max(docs.length, 1)
+
+  const frequencies = docs.map(doc => {
+    const freq = new Map<string, number>()
+    for (const token of doc) freq.set(token, (freq.get(token) || 0) + 1)
+    return freq
+  })
+
+  const idf = new Map<string, number>()
+  for (const term of queryTerms) {
+    const df = frequencies.filter(freq => freq.has(term)).length
+    idf.set(term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5)))
+  }
+
+  return frequencies.map((freq, i) => {
+    let score = 0
+    for (const term of queryTerms) {
+      const tf = freq.get(term)
+      if (!tf) continue
+      score += idf.get(term)! * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * docs[i].length / avgLength))
+    }
+    return score
+  })
+}
+
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) return 0
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+/**
+ * 在候选章节中检索与查询最相关的片段
+ * @param candidates - 允许检索的章节（决定范围，并提供章节标题）
+ */
+export async function retrievePassages(
+  projectId: string,
+  query: string,
+  candidates: { id: string; title: string }[],
+  topK: number = TOP_K,
+  signal?: AbortSignal
+): Promise<RetrievedPassage[]> {
+  const titles = new Map(candidates.map(c => [c.id, c.title]))
+  const chunks = (await loadChunks(projectId)).filter(c => titles.has(c.chapterId))
+  if (chunks.length === 0 || !query.trim()) return []
+
+  // 候选片段全部由当前向量模型索引时才使用向量检索，否则分数不可比
+  let scores: number[] | null = null
+  const model = getEmbeddingModel()
+  if (model && !failedEmbeddingModels.has(model) && chunks.every(c => c.embedding && c.embeddingModel === model)) {
+    try {
+      const [queryVector] = await embedTexts([query], signal)
+      scores = chunks.map(c => cosineSimilarity(queryVector, c.embedding!))
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      console.warn('[Retrieval] 查询向量化失败，改用 BM25 检索:', error)
+    }
+  }
+  scores ??= scoreBM25(chunks, query)
+
+  const ranked = chunks
+    .map((chunk, i) => ({ chunk, score: scores![i] }))
+    .filter(item => item.score > 0)
+    .sort((a, b) => b.score - a.score)
+
+  const perChapter = new Map<string, number>()
+  const results: RetrievedPassage[] = []
+  for (const { chunk, score } of ranked) {
+    const count = perChapter.get(chunk.chapterId) || 0
+    if (count >= MAX_PER_CHAPTER) continue
+    perChapter.set(chunk.chapterId, count + 1)
+    results.push({ chapterId: chunk.chapterId, chapterTitle: titles.get(chunk.chapterId)!, content: chunk.content, score })
+    if (results.length >= topK) break
+  }
+  return results
+}
+
+// ==================== 写作上下文 ====================
+
+/**
+ * 检索查询：本章大纲 + 大纲中提到的角色
+ */
+export function buildRetrievalQuery(chapterOutline: string, characters: Character[]): string {
+  const mentioned = characters.filter(c => c.name && chapterOutline.includes(c.name))
+  return [chapterOutline, ...mentioned.map(c => `${c.name} ${c.identity || ''}`)].join('\n')
+}
+
+/**
+ * 检索结果格式化为提示词文本（每个片段一行，按相关度排列）
+ */
+export function formatPassages(passages: RetrievedPassage[]): string {
+  return passages
+    .map(p => `【${p.chapterTitle}】${p.content.replace(/\s*\n+\s*/g, ' ')}`)
+    .join('\n')
+}
+
+/**
+ * 为即将写作的章节检索相关前文（先增量更新索引）
+ * 检索失败不影响写作，返回空字符串
+ * @param earlierChapters - 本章之前的全部章节（按全书顺序），紧邻的前一章已作为前文衔接，不参与检索
+ */
+export async function buildRelatedPassages(
+  projectId: string,
+  chapterOutline: string,
+  characters: Character[],
+  earlierChapters: IndexableChapter[],
+  signal?: AbortSignal
+): Promise<string> {
+  const enabled = await window.electron.settings.get(RETRIEVAL_SETTINGS_KEY)
+  if (enabled === false) return ''
+
+  const candidates = earlierChapters.slice(0, -1).filter(c => c.content)
+  if (candidates.length === 0) return ''
+
+  try {
+    await indexChapters(projectId, earlierChapters, signal)
+    const passages = await retrievePassages(projectId, buildRetrievalQuery(chapterOutline, characters), candidates, TOP_K, signal)
+    return formatPassages(passages)
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    console.warn('[Retrieval] 检索相关前文失败:', error)
+    return ''
+  }
+}
@@ -1,5 +1,8 @@
 import { create } from 'zustand'
 
+// 流式生成状态：idle 空闲，streaming 接收中，done 已结束待确认
+export type StreamingStatus = 'idle' | 'streaming' | 'done'
+
 interface EditorState {
   // 编辑器状态
   content: string
@@ -13,6 +16,10 @@ interface EditorState {
   aiProgress: number
   aiMessage: string
 
+  // 流式生成
+  streamingText: string
+  streamingStatus: StreamingStatus
+
   // 自动续写模式
   autoWriteMode: boolean
   autoWriteInterval: number // 毫秒
@@ -29,6 +36,12 @@ interface EditorState {
   setAiProgress: (progress: number) => void
   setAiMessage: (message: string) => void
 
+  // 流式生成 Actions
+  startStreaming: () => void
+  appendStreamingText: (chunk: string) => void
+  finishStreaming: () => void
+  clearStreaming: () => void
+
   // 自动续写
   toggleAutoWrite: () => void
   setAutoWriteInterval: (interval: number) => void
@@ -46,6 +59,8 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   isAiGenerating: false,
   aiProgress: 0,
   aiMessage: '',
+  streamingText: '',
+  streamingStatus: 'idle',
   autoWriteMode: false,
   autoWriteInterval: 30000, // 默认30秒
 
@@ -68,6 +83,19 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
   setAiMessage: (aiMessage: string) => set({ aiMessage }),
 
+  startStreaming: () => set({ streamingText: '', streamingStatus: 'streaming' }),
+
+  appendStreamingText: (chunk: string) => set({ streamingText: get().streamingText + chunk }),
+
+  finishStreaming: () => {
+    // 已被丢弃（如切换章节）时不再恢复
+    if (get().streamingStatus === 'streaming') {
+      set({ streamingStatus: 'done' })
+    }
+  },
+
+  clearStreaming: () => set({ streamingText: '', streamingStatus: 'idle' }),
+
   toggleAutoWrite: () => set({ autoWriteMode: !get().autoWriteMode }),
 
   setAutoWriteInterval: (autoWriteInterval: number) => set({ autoWriteInterval }),
@@ -82,6 +110,8 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       isAiGenerating: false,
       aiProgress: 0,
       aiMessage: '',
+      streamingText: '',
+      streamingStatus: 'idle',
       autoWriteMode: false
     })
 }))
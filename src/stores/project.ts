@@ -1,5 +1,6 @@
 import { create } from 'zustand'
 import type { Project, Volume, Chapter, Character } from '../types'
+import type { LayeredMemory } from '../types/memory'
 
 interface ProjectState {
   // 项目列表
@@ -18,6 +19,9 @@ interface ProjectState {
   characters: Character[]
   currentCharacter: Character | null
 
+  // 分层记忆（未生成过时为 null）
+  memory: LayeredMemory | null
+
   // 加载状态
   isLoading: boolean
   error: string | null
@@ -57,6 +61,10 @@ interface ProjectState {
   deleteCharacter: (id: string) => Promise<void>
   setCurrentCharacter: (character: Character | null) => void
 
+  // 记忆操作
+  loadMemory: (projectId: string) => Promise<void>
+  setMemory: (memory: LayeredMemory | null) => void
+
   // 清除错误
   clearError: () => void
 }
@@ -70,6 +78,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   currentChapter: null,
   characters: [],
   currentCharacter: null,
+  memory: null,
   isLoading: false,
   error: null,
   isGenerating: false,
@@ -107,7 +116,8 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       currentChapter: null,
       volumes: [],
       chapters: [],
-      characters: []
+      characters: [],
+      memory: null
     })
 
     try {
@@ -118,6 +128,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         // 同时加载卷和角色
         await get().loadVolumes(id)
         await get().loadCharacters(id)
+        await get().loadMemory(id)
         console.log('🎉 [Store] 项目完整数据加载完成')
       } else {
         console.error('❌ [Store] 项目不存在')
@@ -362,5 +373,18 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
 
   setCurrentCharacter: (character) => set({ currentCharacter: character }),
 
+  // ==================== 记忆操作 ====================
+
+  loadMemory: async (projectId: string) => {
+    try {
+      const memory = await window.electron.db.getProjectMemory(projectId)
+      set({ memory })
+    } catch (error: any) {
+      set({ error: error.message })
+    }
+  },
+
+  setMemory: (memory) => set({ memory }),
+
   clearError: () => set({ error: null })
 }))
@@ -1,3 +1,5 @@
+import type { LayeredMemory, PlotThread, ChapterEmotionRecord, ChapterConsistencyRecord } from './memory'
+
 // 项目/书籍
 export interface Project {
   id: string
@@ -11,6 +13,10 @@ export interface Project {
   worldSetting: string
   summary: string
   coverHistory?: string[]   // 封面历史记录（base64图片，最多保存5张）
+  promptTemplates?: Partial<Record<PromptTemplateKey, string>>  // 本作品选用的提示词模板（模板键 → 模板 ID）
+  modelRoutes?: TaskModelRoutes  // 本作品的任务模型路由，覆盖全局规则
+  generationParams?: TaskGenerationParams  // 本作品各任务的生成参数，覆盖默认预设
+  writingContext?: WritingContextToggles    // 写正文时注入的记忆、伏笔和情感上下文开关
   createdAt: string
   updatedAt: string
   syncedAt?: string
@@ -48,6 +54,7 @@ export interface Chapter {
   content: string
   wordCount: number
   order: number
+  generatedBy?: string | null  // AI 生成时使用的提供商/模型，如 deepseek/deepseek-chat；手动修改后为 null
   createdAt: string
   updatedAt: string
 }
@@ -380,6 +387,235 @@ export const STYLE_OPTIONS = [
   '权谋烧脑', '硬核', '软萌', '废土风', '赛博朋克', '古风', '现代感'
 ] as const
 
+// AI 用量任务类型
+export type UsageTaskType = 'outline' | 'chapter' | 'analysis' | 'cover' | 'other'
+
+// 任务类型中文名
+export const TASK_TYPE_LABELS: Record<UsageTaskType, string> = {
+  outline: '大纲生成',
+  chapter: '正文写作',
+  analysis: '分析与摘要',
+  cover: '封面生成',
+  other: '其他'
+}
+
+// 任务模型路由（任务类型 → 提供商/模型）
+export type TaskModelRoutes = Partial<Record<UsageTaskType, { provider: string; model: string }>>
+
+// 生成参数（未设置的项使用任务预设或提供商默认值）
+export interface GenerationParams {
+  temperature?: number
+  maxTokens?: number     // 最大输出 token 数
+  topP?: number
+  stop?: string[]        // 停止序列
+}
+
+// 各任务类型的生成参数
+export type TaskGenerationParams = Partial<Record<UsageTaskType, GenerationParams>>
+
+// AI 用量记录
+export interface UsageRecord {
+  id: string
+  projectId: string | null
+  provider: string
+  model: string
+  taskType: UsageTaskType
+  promptTokens: number
+  completionTokens: number
+  estimatedCost: number  // 美元
+  isEstimated: boolean   // token 数为本地估算（接口未返回用量）
+  createdAt: string
+}
+
+// 用量汇总行（按日期/项目/任务/模型分组）
+export interface UsageSummary {
+  key: string
+  label: string
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  estimatedCost: number
+}
+
+// 用量统计
+export interface UsageStats {
+  total: Omit<UsageSummary, 'key' | 'label'>
+  daily: UsageSummary[]
+  byProject: UsageSummary[]
+  byTask: UsageSummary[]
+  byModel: UsageSummary[]
+}
+
+// 提示词模板键
+export type PromptTemplateKey = 'micro-novel' | 'million-framework' | 'volume-chapters' | 'chapter-strict'
+
+// 用户自定义的提示词模板（由内置模板复制而来）
+export interface PromptTemplate {
+  id: string
+  templateKey: PromptTemplateKey
+  name: string
+  content: string
+  version: number       // 当前版本号，每次保存递增
+  createdAt: string
+  updatedAt: string
+}
+
+// 提示词模板的历史版本
+export interface PromptTemplateVersion {
+  id: string
+  templateId: string
+  version: number
+  content: string
+  createdAt: string
+}
+
+// 章节检索片段（写作时检索相关前文）
+export interface ChapterChunk {
+  id: string
+  projectId: string
+  chapterId: string
+  chunkIndex: number
+  content: string
+  contentHash: string              // 所属章节正文的哈希，正文变化后重建
+  embedding: Float32Array | null   // 未向量化时为 null，只参与 BM25 检索
+  embeddingModel: string | null
+}
+
+// 写正文时注入的上下文（未设置的项视为开启）
+export type WritingContextKey = 'memory' | 'plot' | 'emotion'
+export type WritingContextToggles = Partial<Record<WritingContextKey, boolean>>
+
+export const WRITING_CONTEXT_LABELS: Record<WritingContextKey, string> = {
+  memory: '记忆档案',
+  plot: '伏笔提醒',
+  emotion: '情感节奏建议'
+}
+
+// Codex 实体类型
+export type CodexEntityType = 'character' | 'location' | 'item' | 'faction' | 'concept'
+
+export const CODEX_TYPE_LABELS: Record<CodexEntityType, string> = {
+  character: '角色',
+  location: '地点',
+  item: '物品',
+  faction: '势力',
+  concept: '概念'
+}
+
+// Codex 实体（章节号均为全书章节编号，从 1 开始）
+export interface CodexEntity {
+  id: string
+  name: string
+  type: CodexEntityType
+  aliases: string[]  // 别名/称号
+  description: string
+  // 首次出现
+  firstAppearance: number
+  // 出现的章节
+  appearances: number[]
+  // 属性（随章节变化）
+  attributes: {
+    chapter: number
+    key: string
+    value: string
+  }[]
+  // 关联实体
+  relations: {
+    targetId: string
+    relation: string
+    since: number  // 从哪章开始
+  }[]
+}
+
+// AI 录制集中的一条记录（离线模拟提供商）
+export interface AIFixtureEntry {
+  hash: string        // 提示词的 SHA-256
+  prompt: string
+  response: string
+  provider: string    // 录制时实际调用的提供商
+  model: string
+  jsonMode: boolean
+  createdAt: string
+}
+
+export interface AIFixtureSetInfo {
+  name: string
+  entryCount: number
+  size: number
+  updatedAt: string
+}
+
+// 主进程推送的流式请求事件（ai:stream）
+export type AIStreamEvent =
+  | { type: 'response'; status: number; retryAfter?: number }  // retryAfter：响应头建议的重试等待毫秒数
+  | { type: 'data'; chunk: string }
+  | { type: 'end' }
+  | { type: 'error'; error: string; aborted?: boolean }
+
+// AI 调用记录（调用检查器）
+export type AICallMode = 'text' | 'json' | 'stream'
+
+// 一次调用中的单次提供商尝试（路由、换密钥、备用链各算一次）
+export interface AICallAttempt {
+  provider: string
+  model: string
+  keyIndex: number | null   // 使用的密钥序号（从 0 开始）
+  latencyMs: number
+  error?: string
+}
+
+export interface AICallLog {
+  id: string
+  projectId: string | null
+  taskType: UsageTaskType
+  mode: AICallMode
+  provider: string          // 最后一次尝试的提供商
+  model: string
+  keyIndex: number | null
+  prompt: string            // 只记录元数据时为空
+  response: string
+  error: string | null
+  latencyMs: number         // 含所有尝试的总耗时
+  attempts: AICallAttempt[]
+  isFallback: boolean
+  redacted: boolean         // 写入前已遮盖敏感信息
+  createdAt: string
+}
+
+// 列表用的调用记录摘要（不含完整正文）
+export interface AICallLogSummary extends Omit<AICallLog, 'prompt' | 'response' | 'attempts'> {
+  projectTitle: string | null
+  promptPreview: string
+  promptLength: number
+  responseLength: number
+  attemptCount: number
+}
+
+// AI 响应缓存条目（按提示词、模型和参数的哈希索引）
+export interface AIResponseCacheEntry {
+  cacheKey: string
+  projectId: string | null
+  taskType: UsageTaskType
+  provider: string
+  model: string
+  response: string
+}
+
+// AI 响应缓存统计
+export interface AIResponseCacheStats {
+  entries: number
+  bytes: number
+  hits: number
+}
+
+export interface AICallLogQuery {
+  projectId?: string | null   // null 表示未关联作品的调用
+  taskType?: UsageTaskType
+  status?: 'success' | 'error'
+  search?: string             // 在提示词和响应中搜索
+  limit?: number
+}
+
 // 服务端用户信息
 export interface ServerUser {
   id: string
@@ -485,6 +721,56 @@ export interface ElectronAPI {
     createCharacter: (character: Partial<Character>) => Promise<Character>
     updateCharacter: (id: string, data: Partial<Character>) => Promise<Character>
     deleteCharacter: (id: string) => Promise<void>
+
+    recordUsage: (record: Omit<UsageRecord, 'id' | 'createdAt'>) => Promise<void>
+    getUsageStats: (options?: { days?: number; projectId?: string }) => Promise<UsageStats>
+    clearUsage: () => Promise<void>
+    // AI 调用记录
+    addAICallLog: (log: Omit<AICallLog, 'id' | 'createdAt'>, retention: number) => Promise<void>
+    getAICallLogs: (query?: AICallLogQuery) => Promise<AICallLogSummary[]>
+    getAICallLog: (id: string) => Promise<AICallLog | null>
+    deleteAICallLog: (id: string) => Promise<void>
+    clearAICallLogs: () => Promise<void>
+    // AI 响应缓存
+    getCachedResponse: (cacheKey: string) => Promise<string | null>
+    putCachedResponse: (entry: AIResponseCacheEntry, maxBytes: number) => Promise<void>
+    getResponseCacheStats: (projectId?: string | null) => Promise<AIResponseCacheStats>
+    clearResponseCache: (projectId?: string | null) => Promise<void>
+
+    getPromptTemplates: (templateKey?: PromptTemplateKey) => Promise<PromptTemplate[]>
+    createPromptTemplate: (template: { templateKey: PromptTemplateKey; name: string; content: string }) => Promise<PromptTemplate>
+    updatePromptTemplate: (id: string, data: { name?: string; content?: string }) => Promise<PromptTemplate>
+    deletePromptTemplate: (id: string) => Promise<void>
+    getPromptTemplateVersions: (templateId: string) => Promise<PromptTemplateVersion[]>
+    rollbackPromptTemplate: (templateId: string, version: number) => Promise<PromptTemplate>
+
+    getChapterChunks: (projectId: string) => Promise<ChapterChunk[]>
+    replaceChapterChunks: (
+      projectId: string,
+      chapterId: string,
+      chunks: Pick<ChapterChunk, 'content' | 'contentHash' | 'embedding' | 'embeddingModel'>[]
+    ) => Promise<void>
+
+    getProjectMemory: (projectId: string) => Promise<LayeredMemory | null>
+    saveProjectMemory: (projectId: string, memory: LayeredMemory) => Promise<void>
+
+    getCodexEntities: (projectId: string) => Promise<CodexEntity[]>
+    saveCodexEntities: (projectId: string, entities: CodexEntity[]) => Promise<void>
+    deleteCodexEntities: (ids: string[]) => Promise<void>
+    getCodexIndexedChapters: (projectId: string) => Promise<Array<{ chapterId: string; contentHash: string }>>
+    markCodexChapterIndexed: (projectId: string, chapterId: string, contentHash: string) => Promise<void>
+
+    getPlotThreads: (projectId: string) => Promise<PlotThread[]>
+    savePlotThreads: (projectId: string, threads: PlotThread[]) => Promise<void>
+    deletePlotThreads: (ids: string[]) => Promise<void>
+    getPlotIndexedChapters: (projectId: string) => Promise<Array<{ chapterId: string; contentHash: string }>>
+    markPlotChapterIndexed: (projectId: string, chapterId: string, contentHash: string) => Promise<void>
+
+    getChapterEmotions: (projectId: string) => Promise<ChapterEmotionRecord[]>
+    saveChapterEmotion: (projectId: string, record: ChapterEmotionRecord) => Promise<void>
+
+    getConsistencyReport: (chapterId: string) => Promise<ChapterConsistencyRecord | null>
+    saveConsistencyReport: (projectId: string, record: ChapterConsistencyRecord) => Promise<void>
   }
 
   settings: {
@@ -504,7 +790,27 @@ export interface ElectronAPI {
       method: string
       headers: Record<string, string>
       body?: string
-    }) => Promise<{ ok: boolean; status: number; data: any; error?: string }>
+      requestId?: string
+      timeout?: number              // 超时毫秒数，默认 60 秒
+      responseType?: 'json' | 'dataUrl'  // dataUrl：响应体按二进制读取，返回 data URL（用于下载图片）
+    }) => Promise<{ ok: boolean; status: number; data: any; error?: string; aborted?: boolean; retryAfter?: number }>
+    abort: (requestId: string) => Promise<boolean>
+    // 流式请求：先订阅事件再发起，按 streamId 过滤；返回值用于取消订阅
+    stream: (streamId: string, url: string, options: {
+      method: string
+      headers: Record<string, string>
+      body?: string
+    }) => Promise<void>
+    onStreamEvent: (callback: (streamId: string, event: AIStreamEvent) => void) => () => void
+  }
+
+  // AI 录制集（离线模拟提供商）
+  aiFixtures: {
+    list: () => Promise<AIFixtureSetInfo[]>
+    load: (name: string) => Promise<AIFixtureEntry[]>
+    append: (name: string, entry: AIFixtureEntry) => Promise<void>
+    delete: (name: string) => Promise<void>
+    openFolder: () => Promise<void>
   }
 
   // 数据恢复
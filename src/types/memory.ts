@@ -94,6 +94,8 @@ export interface PlotThread {
   }[]
   // 重要性
   importance: 'minor' | 'major' | 'critical'
+  // 手动创建或编辑过（章节重新检测时保留）
+  manual?: boolean
 }
 
 // ==================== 近期记忆层 ====================
@@ -131,6 +133,13 @@ export interface EmotionPoint {
   hope: number
 }
 
+// 已保存的章节情感（按章节 ID 保存，章节编号随章节排序变化）
+export interface ChapterEmotionRecord extends Omit<EmotionPoint, 'chapter'> {
+  chapterId: string
+  // 分析时的正文哈希
+  contentHash: string
+}
+
 export interface RecentMemory {
   // 最近N章的详细摘要
   lastChapters: ChapterSummary[]
@@ -186,6 +195,14 @@ export interface ConsistencyReport {
   checkedAt: string
 }
 
+// 已保存的章节一致性报告
+export interface ChapterConsistencyRecord {
+  chapterId: string
+  // 检查时的正文哈希
+  contentHash: string
+  report: ConsistencyReport
+}
+
 // ==================== 辅助函数 ====================
 
 /**
@@ -125,6 +125,99 @@ export function calculateReadingTime(wordCount: number): number {
   return Math.ceil(wordCount / 400)
 }
 
+export interface DiffLine {
+  type: 'same' | 'add' | 'remove'
+  text: string
+}
+
+/**
+ * 按行比较两段文本（最长公共子序列）
+ * 差异部分过大时不再逐行对齐，直接整体显示为删除 + 新增
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  // 去掉相同的开头和结尾，缩小比较范围
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const head: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }))
+  const tail: DiffLine[] = a.slice(endA).map(text => ({ type: 'same', text }))
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+
+  if (midA.length * midB.length > 4_000_000) {
+    return [
+      ...head,
+      ...midA.map(text => ({ type: 'remove' as const, text })),
+      ...midB.map(text => ({ type: 'add' as const, text })),
+      ...tail
+    ]
+  }
+
+  // lcs[i][j]：midA[i..] 与 midB[j..] 的最长公共子序列长度
+  const lcs = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1))
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const middle: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'same', text: midA[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      middle.push({ type: 'remove', text: midA[i++] })
+    } else {
+      middle.push({ type: 'add', text: midB[j++] })
+    }
+  }
+  while (i < midA.length) middle.push({ type: 'remove', text: midA[i++] })
+  while (j < midB.length) middle.push({ type: 'add', text: midB[j++] })
+
+  return [...head, ...middle, ...tail]
+}
+
+// 正文少于该字数的章节不做记忆、Codex、伏笔、情感和一致性分析（避免分析未写完的草稿）
+export const MIN_ANALYSIS_CHAPTER_LENGTH = 500
+
+/**
+ * 计算文本的 SHA-256（十六进制），用于判断章节正文是否变化
+ */
+export async function hashText(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * 创建按键排队的任务队列：同一个键（如作品 ID）的任务依次执行，前一个失败不影响后续任务
+ */
+export function createKeyedQueue(): <T>(key: string, task: () => Promise<T>) => Promise<T> {
+  const queues = new Map<string, Promise<unknown>>()
+  return <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    const previous = queues.get(key) ?? Promise.resolve()
+    const next = previous.catch(() => {}).then(task)
+    queues.set(key, next)
+    const cleanup = () => {
+      if (queues.get(key) === next) queues.delete(key)
+    }
+    next.then(cleanup, cleanup)
+    return next
+  }
+}
+
 // 定义配置接口（与 services/ai/types.ts 保持一致）
 interface ProviderConfigNew {
   apiKeys: string[]